@@ -17,16 +17,19 @@ import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
 import { loadConfig } from "./src/config.js";
 import { captureBatch, captureUnindexedBatchesFromSession, groupBatchesByMode } from "./src/batch-capture.js";
 import { summarizeBatch, summarizeBatches, summarizeRange } from "./src/summarizer.js";
+import { shouldSummarizeDeterministically, summarizeBatchDeterministically } from "./src/deterministic-summaries.js";
 import { FallbackController } from "./src/summarizer-fallback.js";
 import { ToolCallIndexer } from "./src/indexer.js";
 import { pruneMessages } from "./src/pruner.js";
 import { isProtected } from "./src/protected.js";
 import { registerQueryTool } from "./src/query-tool.js";
+import { registerPinTool } from "./src/pin-tool.js";
 import { registerCommands, setPruneStatusWidget } from "./src/commands.js";
 import { formatSummaryToolCallRefs, makeSummaryDetails, substituteInlineRefs } from "./src/summary-refs.js";
 import type {
   ContextPruneConfig,
   CapturedBatch,
+  CapturedToolCall,
   PruneFrontier,
   FlushOptions,
   ContextMetricsSnapshot,
@@ -49,6 +52,7 @@ import { detectChains, withClosingMessage } from "./src/chain-detector.js";
 import { inGraceRecoveryToolCallIds } from "./src/recovery-grace.js";
 import { shouldBudgetFlush, shouldDeltaFlush, usageFraction } from "./src/budget.js";
 import { spillOversizedBatch } from "./src/spill.js";
+import { findSupersededReads } from "./src/supersession.js";
 import { occKey } from "./src/occurrence-key.js";
 import { DiagnosticSink } from "./src/diagnostics.js";
 
@@ -84,6 +88,9 @@ export default function (pi: ExtensionAPI) {
 
   // Pending batches — accumulated until the prune trigger fires
   const pendingBatches: CapturedBatch[] = [];
+  // Released pins trimBatchToPendingRange took from behind the frontier; a
+  // flush made only of these must not pull the frontier back to them.
+  const recapturedBehindFrontier = new WeakSet<CapturedToolCall>();
   let isFlushing = false;
   let previousFraction: number | null = null;
   // Set on session_start/session_tree when the branch rescan finds recoverable
@@ -127,7 +134,7 @@ export default function (pi: ExtensionAPI) {
   };
 
   type FlushResult =
-    | { ok: true; reason: "flushed" | "skipped-oversized" | "skipped-trivial" | "skipped-deduped"; batchCount: number; toolCallCount: number; rawCharCount: number; summaryCharCount: number; dedupedCount?: number }
+    | { ok: true; reason: "flushed" | "skipped-oversized" | "skipped-trivial" | "skipped-deduped" | "skipped-superseded"; batchCount: number; toolCallCount: number; rawCharCount: number; summaryCharCount: number; dedupedCount?: number; supersededCount?: number }
     | { ok: false; reason: "empty" | "already-flushing" | "summarizer-failed" | "stale-context" | "failed" | "aborted"; error?: string };
 
   type SessionAppender = {
@@ -159,8 +166,12 @@ export default function (pi: ExtensionAPI) {
     const currentFrontier = frontier.get();
     let toolCalls = batch.toolCalls;
 
-    // The indexer tells us what was successfully summarized earlier.
-    toolCalls = toolCalls.filter((tc) => !indexer.isSummarized(occKey(tc.toolCallId, tc.resultTimestamp)));
+    // The indexer tells us what was successfully summarized earlier, and what
+    // is pinned (never captured while the pin lasts).
+    toolCalls = toolCalls.filter((tc) => {
+      const key = occKey(tc.toolCallId, tc.resultTimestamp);
+      return !indexer.isSummarized(key) && !indexer.isPinned(key);
+    });
     if (toolCalls.length === 0) return null;
 
     // The frontier tells us the last attempted boundary even when the attempt did
@@ -168,15 +179,23 @@ export default function (pi: ExtensionAPI) {
     // the middle of a long tool chain, keep later tool calls from the same turn
     // instead of dropping the whole batch on the floor.
     if (!currentFrontier) return { ...batch, toolCalls };
-    if (batch.turnIndex < currentFrontier.lastAttemptedTurnIndex) return null;
     if (batch.turnIndex > currentFrontier.lastAttemptedTurnIndex) return { ...batch, toolCalls };
 
+    // Behind the frontier, keep only calls unpinned since the last attempt:
+    // the frontier may have moved past them while they were pinned.
+    const released = (calls: typeof toolCalls) =>
+      calls.filter((tc) => {
+        if (!indexer.isReleasedPin(occKey(tc.toolCallId, tc.resultTimestamp))) return false;
+        recapturedBehindFrontier.add(tc);
+        return true;
+      });
+    const keep = (calls: typeof toolCalls) => (calls.length > 0 ? { ...batch, toolCalls: calls } : null);
+    if (batch.turnIndex < currentFrontier.lastAttemptedTurnIndex) return keep(released(toolCalls));
+
     const originalIndex = toolCalls.findIndex((tc) => tc.toolCallId === currentFrontier.lastAttemptedToolCallId);
     if (originalIndex < 0) return { ...batch, toolCalls };
 
-    const remaining = toolCalls.slice(originalIndex + 1);
-    if (remaining.length === 0) return null;
-    return { ...batch, toolCalls: remaining };
+    return keep([...released(toolCalls.slice(0, originalIndex + 1)), ...toolCalls.slice(originalIndex + 1)]);
   };
 
   const restoreBatches = (batches: CapturedBatch[]) => {
@@ -323,6 +342,32 @@ export default function (pi: ExtensionAPI) {
           ? (type, data) => pi.appendEntry(type, data)
           : appendEntry!;
 
+      // ── Pre-flush stale-read supersession pass ───────────────────────
+      // A `read` made stale by a later re-read/edit/write of the same path
+      // within this flush (src/supersession.ts) is indexed with its full
+      // output and a short ref, then dropped from its batch BEFORE dedup and
+      // the summarizer: pruneMessages stubs it with a pointer to the newer
+      // occurrence instead of a summary ref. Runs ahead of dedup so a stale
+      // read is never aliased onto an earlier record.
+      //
+      // `capturedToolCalls` keeps each batch's tool calls as captured, before
+      // either pass shallow-clones the batch down to its remaining calls.
+      const capturedToolCalls = batches.map((b) => b.toolCalls);
+      const supersededPerBatch: { toolCalls: import("./src/types.js").CapturedToolCall[]; rawChars: number }[] = batches.map(() => ({ toolCalls: [], rawChars: 0 }));
+      if (currentConfig.value.supersedeStaleReads) {
+        const stale = findSupersededReads(batches, currentConfig.value);
+        const supersededBy = new Map(stale.map((s) => [s.toolCall, s.supersededBy]));
+        for (const { batchIndex, toolCall } of stale) {
+          supersededPerBatch[batchIndex].toolCalls.push(toolCall);
+          supersededPerBatch[batchIndex].rawChars += toolCall.resultText.length;
+        }
+        for (let i = 0; i < batches.length; i++) {
+          if (supersededPerBatch[i].toolCalls.length === 0) continue;
+          indexer.addSupersededBatch({ ...batches[i], toolCalls: supersededPerBatch[i].toolCalls }, supersededBy, persistAlias);
+          batches[i] = { ...batches[i], toolCalls: batches[i].toolCalls.filter((tc) => !supersededBy.has(tc)) };
+        }
+      }
+
       // ── Pre-flush content-hash dedup pass ────────────────────────────
       // For each tool call, check the indexer's contentHashToOriginal map.
       // A hit means an identical (toolName, normalized resultText) pair has
@@ -378,12 +423,24 @@ export default function (pi: ExtensionAPI) {
       const isFullyDeduped = batches.map((b, i) =>
         dedupedPerBatch[i].toolCalls.length > 0 && b.toolCalls.length === 0,
       );
+      const isFullySuperseded = batches.map((b, i) =>
+        !isFullyDeduped[i] && supersededPerBatch[i].toolCalls.length > 0 && b.toolCalls.length === 0,
+      );
       const isTrivial = batchRawChars.map(
         (c, i) => !isFullyDeduped[i] && minChars > 0 && c < minChars && batches[i].toolCalls.length > 0,
       );
+      // ── Deterministic per-tool summaries ─────────────────────────
+      // Per deterministicSummaries: a remaining batch the per-tool registry
+      // covers ("prefer"), or every remaining batch ("only"), is summarized
+      // right here with no LLM call. nonTrivialIndices is what is left for
+      // the summarizer.
+      const deterministicMode = currentConfig.value.deterministicSummaries;
+      const isDeterministic = batches.map(
+        (b, i) => !isTrivial[i] && !isFullyDeduped[i] && shouldSummarizeDeterministically(b, deterministicMode),
+      );
       const nonTrivialIndices: number[] = [];
       for (let i = 0; i < batches.length; i++) {
-        if (!isTrivial[i] && !isFullyDeduped[i]) nonTrivialIndices.push(i);
+        if (!isTrivial[i] && !isFullyDeduped[i] && !isFullySuperseded[i] && !isDeterministic[i]) nonTrivialIndices.push(i);
       }
 
       // Only show "summarizing…" if at least one batch will actually be sent
@@ -398,13 +455,14 @@ export default function (pi: ExtensionAPI) {
 
       // Summarize the non-trivial subset. When onProgress is provided
       // (/pruner now overlay) we process sequentially so each row can be
-      // checked off as its LLM call completes. Trivial and fully-deduped
-      // batches emit a "skipped" progress event immediately, with no
-      // spinner / no LLM call. The final `results` array is index-aligned
-      // to `batches`, with possible values: SummarizeResult (success),
-      // null (LLM failure), "trivial" (pre-flush small-batch skip), or
-      // "deduped" (pre-flush dedup ate every tool call in this batch).
-      type ResultSlot = import("./src/types.js").SummarizeResult | null | "trivial" | "deduped";
+      // checked off as its LLM call completes. Trivial, fully-deduped and
+      // fully-superseded batches emit a "skipped" progress event immediately,
+      // with no spinner / no LLM call. The final `results` array is
+      // index-aligned to `batches`, with possible values: SummarizeResult
+      // (success), null (LLM failure), "trivial" (pre-flush small-batch
+      // skip), "deduped" (pre-flush dedup ate every tool call in this batch),
+      // or "superseded" (every tool call was a stale read).
+      type ResultSlot = import("./src/types.js").SummarizeResult | null | "trivial" | "deduped" | "superseded";
       const results: ResultSlot[] = new Array(batches.length).fill(null);
 
       if (options.onProgress) {
@@ -414,11 +472,22 @@ export default function (pi: ExtensionAPI) {
             results[i] = "deduped";
             continue;
           }
+          if (isFullySuperseded[i]) {
+            options.onProgress(i, batches.length, batches[i], "skipped");
+            results[i] = "superseded";
+            continue;
+          }
           if (isTrivial[i]) {
             options.onProgress(i, batches.length, batches[i], "skipped");
             results[i] = "trivial";
             continue;
           }
+          if (isDeterministic[i]) {
+            options.onProgress(i, batches.length, batches[i], "start");
+            results[i] = summarizeBatchDeterministically(batches[i]);
+            options.onProgress(i, batches.length, batches[i], "done");
+            continue;
+          }
           options.onProgress(i, batches.length, batches[i], "start");
           const r = await summarizeBatch(batches[i], currentConfig.value, ctx, {
             signal: options.signal,
@@ -431,12 +500,14 @@ export default function (pi: ExtensionAPI) {
           options.onProgress(i, batches.length, batches[i], r ? "done" : "skipped");
         }
       } else {
-        // Mark all trivial + fully-deduped slots up front, then call
-        // summarizeBatches with only the remaining batches (parallel — one
-        // LLM call each).
+        // Mark all trivial + fully-deduped/superseded slots and fill deterministic ones
+        // up front, then call summarizeBatches with only the remaining
+        // batches (parallel — one LLM call each).
         for (let i = 0; i < batches.length; i++) {
           if (isFullyDeduped[i]) results[i] = "deduped";
+          else if (isFullySuperseded[i]) results[i] = "superseded";
           else if (isTrivial[i]) results[i] = "trivial";
+          else if (isDeterministic[i]) results[i] = summarizeBatchDeterministically(batches[i]);
         }
         if (nonTrivialIndices.length > 0) {
           const nonTrivialBatches = nonTrivialIndices.map((i) => batches[i]);
@@ -462,9 +533,11 @@ export default function (pi: ExtensionAPI) {
       let totalSummaryCharCount = 0;
       let totalToolCallCount = 0;
       let totalDedupedCount = 0;
+      let totalSupersededCount = 0;
       const oversizedBatches: CapturedBatch[] = [];
       const trivialBatches: CapturedBatch[] = [];
       const dedupedBatches: CapturedBatch[] = [];
+      const supersededBatches: CapturedBatch[] = [];
       let firstFailureIndex = -1;
 
       for (let i = 0; i < batches.length; i++) {
@@ -478,6 +551,8 @@ export default function (pi: ExtensionAPI) {
         const batchRawCharCount = batchRawChars[i];
         const dedupCount = dedupedPerBatch[i].toolCalls.length;
         const dedupRawChars = dedupedPerBatch[i].rawChars;
+        const supersededCount = supersededPerBatch[i].toolCalls.length;
+        const supersededRawChars = supersededPerBatch[i].rawChars;
 
         // Fully-deduped batches: every tool call matched an existing
         // indexed record. The alias entries are already persisted; we just
@@ -485,23 +560,36 @@ export default function (pi: ExtensionAPI) {
         // dedup'd raw chars toward the flush totals so the user sees the
         // savings.
         if (result === "deduped") {
-          totalRawCharCount += dedupRawChars;
-          totalToolCallCount += dedupCount;
+          totalRawCharCount += dedupRawChars + supersededRawChars;
+          totalToolCallCount += dedupCount + supersededCount;
           totalDedupedCount += dedupCount;
+          totalSupersededCount += supersededCount;
           dedupedBatches.push(batch);
           processedBatches.push(batch);
           continue;
         }
 
+        // Fully-superseded batches: every tool call was a stale read, already
+        // indexed by the supersession pass. Same bookkeeping as deduped.
+        if (result === "superseded") {
+          totalRawCharCount += supersededRawChars;
+          totalToolCallCount += supersededCount;
+          totalSupersededCount += supersededCount;
+          supersededBatches.push(batch);
+          processedBatches.push(batch);
+          continue;
+        }
+
         // Trivial batches: no summary text, no index entry, no stats usage —
         // just bookkeeping so the frontier can advance past this range and
         // the next flush does not reconsider these tool calls.
         if (result === "trivial") {
-          // Count dedup'd tool calls (if any) on a partial-dedup batch even
-          // though the rest of the batch was below minBatchChars.
-          totalRawCharCount += batchRawCharCount + dedupRawChars;
-          totalToolCallCount += batch.toolCalls.length + dedupCount;
+          // Count dedup'd and superseded tool calls (if any) on a partial
+          // batch even though the rest of the batch was below minBatchChars.
+          totalRawCharCount += batchRawCharCount + dedupRawChars + supersededRawChars;
+          totalToolCallCount += batch.toolCalls.length + dedupCount + supersededCount;
           totalDedupedCount += dedupCount;
+          totalSupersededCount += supersededCount;
           trivialBatches.push(batch);
           processedBatches.push(batch);
           continue;
@@ -513,11 +601,13 @@ export default function (pi: ExtensionAPI) {
         const summaryText = decorated + formatSummaryToolCallRefs(summaryRefs);
         const shouldSkipOversized = summaryText.length > batchRawCharCount;
 
-        statsAccum.add(result.usage);
-        totalRawCharCount += batchRawCharCount + dedupRawChars;
+        if (result.source === "deterministic") statsAccum.addDeterministicSummaries(1);
+        else statsAccum.add(result.usage);
+        totalRawCharCount += batchRawCharCount + dedupRawChars + supersededRawChars;
         totalSummaryCharCount += summaryText.length;
-        totalToolCallCount += batch.toolCalls.length + dedupCount;
+        totalToolCallCount += batch.toolCalls.length + dedupCount + supersededCount;
         totalDedupedCount += dedupCount;
+        totalSupersededCount += supersededCount;
 
         const batchDetails = makeSummaryDetails(batch, summaryRefs);
 
@@ -572,26 +662,31 @@ export default function (pi: ExtensionAPI) {
       }
 
       // Advance frontier to the last batch we actually processed. A fully
-      // deduped batch has `toolCalls === []` (the dedup pass shallow-cloned
-      // the batch with only the remaining non-dup calls). In that case, fall
-      // back to the matching `dedupedPerBatch[i].toolCalls` so the frontier
-      // anchor still points at a real tool call — otherwise we'd dereference
-      // `undefined.toolCallId` and the whole flush would throw, silently
-      // dropping the dedup-alias write's effect on subsequent flushes.
+      // deduped or superseded batch has `toolCalls === []` (the pre-flush
+      // passes shallow-cloned the batch with only the remaining calls). In
+      // that case, fall back to the batch's tool calls as captured so the
+      // frontier anchor still points at a real tool call — otherwise we'd
+      // dereference `undefined.toolCallId` and the whole flush would throw,
+      // silently dropping the alias/index writes' effect on subsequent flushes.
       const lastBatch = processedBatches[processedBatches.length - 1];
       const lastBatchOrigIndex = batches.indexOf(lastBatch);
       const lastBatchAllTCs =
         lastBatch.toolCalls.length > 0
           ? lastBatch.toolCalls
-          : (lastBatchOrigIndex >= 0 ? dedupedPerBatch[lastBatchOrigIndex].toolCalls : []);
+          : (lastBatchOrigIndex >= 0 ? capturedToolCalls[lastBatchOrigIndex] : []);
       const lastTC = lastBatchAllTCs[lastBatchAllTCs.length - 1];
 
       // Outcome precedence: any actual summary wins; oversized beats deduped
-      // beats trivial. (Trivial and deduped are both zero-LLM-cost; deduped
-      // is the more interesting signal because it implies the indexer caught
-      // a redundancy, so it wins the tiebreaker.)
+      // beats superseded beats trivial. (Trivial, deduped and superseded are
+      // all zero-LLM-cost; deduped and superseded are the more interesting
+      // signals because they imply a caught redundancy, so they win the
+      // tiebreaker.)
       const actuallyFlushedCount =
-        processedBatches.length - trivialBatches.length - oversizedBatches.length - dedupedBatches.length;
+        processedBatches.length -
+        trivialBatches.length -
+        oversizedBatches.length -
+        dedupedBatches.length -
+        supersededBatches.length;
       const flushOutcome: PruneFrontier["outcome"] =
         actuallyFlushedCount > 0
           ? "summarized"
@@ -599,7 +694,9 @@ export default function (pi: ExtensionAPI) {
             ? "skipped-oversized"
             : dedupedBatches.length > 0
               ? "skipped-deduped"
-              : "skipped-trivial";
+              : supersededBatches.length > 0
+                ? "skipped-superseded"
+                : "skipped-trivial";
 
       // Raw session branch, unwrapped once for the chain-compression block below.
       // Only materialized when chain compression is enabled.
@@ -610,11 +707,23 @@ export default function (pi: ExtensionAPI) {
           .map((e: any) => e.message);
       }
 
+      // Released pins precede everything else captured, so a last call taken
+      // from behind the frontier means the whole flush was: keep the anchor.
+      const previousFrontier = frontier.get();
+      const anchor =
+        previousFrontier && recapturedBehindFrontier.has(lastTC)
+          ? previousFrontier
+          : {
+              lastAttemptedToolCallId: lastTC.toolCallId,
+              lastAttemptedToolName: lastTC.toolName,
+              lastAttemptedTurnIndex: lastBatch.turnIndex,
+              lastAttemptedTimestamp: lastBatch.timestamp,
+            };
       const frontierSnapshot: PruneFrontier = {
-        lastAttemptedToolCallId: lastTC.toolCallId,
-        lastAttemptedToolName: lastTC.toolName,
-        lastAttemptedTurnIndex: lastBatch.turnIndex,
-        lastAttemptedTimestamp: lastBatch.timestamp,
+        lastAttemptedToolCallId: anchor.lastAttemptedToolCallId,
+        lastAttemptedToolName: anchor.lastAttemptedToolName,
+        lastAttemptedTurnIndex: anchor.lastAttemptedTurnIndex,
+        lastAttemptedTimestamp: anchor.lastAttemptedTimestamp,
         attemptedBatchCount: processedBatches.length,
         attemptedToolCallCount: totalToolCallCount,
         rawCharCount: totalRawCharCount,
@@ -625,10 +734,12 @@ export default function (pi: ExtensionAPI) {
       try {
         if (delivery === "runtime") {
           frontier.advance(frontierSnapshot);
+          indexer.clearReleasedPins();
           frontier.persist(pi);
           statsAccum.persist(pi);
         } else {
           frontier.advance(frontierSnapshot);
+          indexer.clearReleasedPins();
           appendEntry!(CUSTOM_TYPE_FRONTIER, frontierSnapshot);
           try {
             appendEntry!(CUSTOM_TYPE_STATS, statsAccum.getStats());
@@ -657,7 +768,11 @@ export default function (pi: ExtensionAPI) {
           // branchMessages was unwrapped once above, gated on chainCompression.enabled.
           const detectionMessages = withClosingMessage(branchMessages!, options.closingMessage);
           const chains = detectChains(detectionMessages, protectionPredicate);
-          const inGrace = inGraceRecoveryToolCallIds(branchMessages!, currentConfig.value.recoveryGraceTurns);
+          // Pinned results defer their chain exactly like an in-grace recovery.
+          const inGrace = new Set([
+            ...inGraceRecoveryToolCallIds(branchMessages!, currentConfig.value.recoveryGraceTurns),
+            ...indexer.getPins().keys(),
+          ]);
           const { compressedEntries } = await compressEligible(
             chains,
             currentConfig.value.chainCompression.rollingWindow,
@@ -704,7 +819,7 @@ export default function (pi: ExtensionAPI) {
         for (const batch of oversizedBatches) {
           const batchRaw = batch.toolCalls.reduce((s, tc) => s + tc.resultText.length, 0);
           const slot = results[batches.indexOf(batch)];
-          const batchSummaryLen = slot && slot !== "trivial" && slot !== "deduped" ? slot.summaryText.length : 0;
+          const batchSummaryLen = slot && slot !== "trivial" && slot !== "deduped" && slot !== "superseded" ? slot.summaryText.length : 0;
           safeNotify(
             ctx,
             `pruner: skipped pruning turn ${batch.turnIndex} (${batch.toolCalls.length} tool call${batch.toolCalls.length === 1 ? "" : "s"}) — summary was ${batchSummaryLen} chars vs ${batchRaw} raw chars; frontier advanced past this range`,
@@ -739,6 +854,25 @@ export default function (pi: ExtensionAPI) {
             "info"
           );
         }
+        for (const batch of supersededBatches) {
+          const idx = batches.indexOf(batch);
+          const n = supersededPerBatch[idx].toolCalls.length;
+          const chars = supersededPerBatch[idx].rawChars;
+          safeNotify(
+            ctx,
+            `pruner: superseded ${n} stale read${n === 1 ? "" : "s"} (turn ${batch.turnIndex}, ${chars} raw chars) by later reads/edits of the same file; no LLM call made; frontier advanced past this range`,
+            "info"
+          );
+        }
+        if (totalSupersededCount > 0 && supersededBatches.length === 0) {
+          // Partial case: the stale reads shared their batch with calls that
+          // went through the summarizer (or another skip path).
+          safeNotify(
+            ctx,
+            `pruner: superseded ${totalSupersededCount} stale read${totalSupersededCount === 1 ? "" : "s"} by later reads/edits of the same file (no LLM call for those); remaining tool calls were handled normally.`,
+            "info"
+          );
+        }
       }
 
       // Very end of the try block, deliberately after (and outside) the
@@ -747,14 +881,16 @@ export default function (pi: ExtensionAPI) {
       processedCount = processedBatches.length;
       outcome = flushOutcome;
 
-      const returnReason: "flushed" | "skipped-oversized" | "skipped-trivial" | "skipped-deduped" =
+      const returnReason: "flushed" | "skipped-oversized" | "skipped-trivial" | "skipped-deduped" | "skipped-superseded" =
         actuallyFlushedCount > 0
           ? "flushed"
           : oversizedBatches.length > 0
             ? "skipped-oversized"
             : dedupedBatches.length > 0
               ? "skipped-deduped"
-              : "skipped-trivial";
+              : supersededBatches.length > 0
+                ? "skipped-superseded"
+                : "skipped-trivial";
 
       return {
         ok: true,
@@ -764,6 +900,7 @@ export default function (pi: ExtensionAPI) {
         rawCharCount: totalRawCharCount,
         summaryCharCount: totalSummaryCharCount,
         dedupedCount: totalDedupedCount,
+        supersededCount: totalSupersededCount,
       };
     } catch (err) {
       restoreBatches(batches);
@@ -1020,6 +1157,7 @@ export default function (pi: ExtensionAPI) {
       currentConfig.value,
       currentConfig.value.recoveryGraceTurns,
       diagnostics,
+      new Set(indexer.getPins().keys()),
     );
     if (result.pruned) {
       messages = result.messages;
@@ -1035,6 +1173,9 @@ export default function (pi: ExtensionAPI) {
   // ── Register context_tree_query tool ──────────────────────────────────────
   registerQueryTool(pi, indexer);
 
+  // ── Register context_pin tool ─────────────────────────────────────────────
+  registerPinTool(pi, indexer);
+
   // ── Register /pruner command + summary message renderer ────────────
   const compactChains = async (ctx: any) => {
     const branch = ctx.sessionManager.getBranch();
@@ -1042,7 +1183,10 @@ export default function (pi: ExtensionAPI) {
       .filter((e: any) => e.type === "message" && e.message)
       .map((e: any) => e.message);
     const chains = detectChains(branchMessages, protectionPredicate);
-    const inGrace = inGraceRecoveryToolCallIds(branchMessages, currentConfig.value.recoveryGraceTurns);
+    const inGrace = new Set([
+      ...inGraceRecoveryToolCallIds(branchMessages, currentConfig.value.recoveryGraceTurns),
+      ...indexer.getPins().keys(),
+    ]);
     const result = await compressEligible(
       chains,
       0, // effectiveK=0: compress every closed chain not already compressed
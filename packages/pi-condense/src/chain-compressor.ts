@@ -3,7 +3,7 @@ import type { ChainRange, ChainCompressionEntry, ToolCallRecord } from "./types.
 import type { ToolCallIndexer } from "./indexer.js";
 import type { BlockRefIssuer } from "./block-refs.js";
 import type { DiagnosticSink } from "./diagnostics.js";
-import { bareToolCallId, occKey, parseOccKey, resultTimestampOf } from "./occurrence-key.js";
+import { matchesAnyKey, occKey, resultTimestampOf } from "./occurrence-key.js";
 import { resolveRange } from "./chain-range-prune.js";
 import { extractToolResultText } from "./batch-capture.js";
 
@@ -19,11 +19,7 @@ import { extractToolResultText } from "./batch-capture.js";
  */
 function chainMatchesGrace(chain: ChainRange, inGraceToolCallIds: Set<string>): boolean {
   const keys = chain.middleOccurrenceKeys?.length ? chain.middleOccurrenceKeys : chain.middleToolCallIds;
-  if (keys.some((k) => inGraceToolCallIds.has(k))) return true;
-  for (const g of inGraceToolCallIds) {
-    if (parseOccKey(g).resultTimestamp === undefined && keys.some((k) => bareToolCallId(k) === g)) return true;
-  }
-  return false;
+  return matchesAnyKey(keys, inGraceToolCallIds);
 }
 
 /**
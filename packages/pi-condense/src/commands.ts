@@ -17,6 +17,7 @@ import {
   SUMMARIZER_IDLE_TIMEOUT_PRESETS,
   SUMMARIZER_MAX_TIMEOUT_PRESETS,
   SUMMARIZER_CONCURRENCY_PRESETS,
+  DETERMINISTIC_SUMMARY_MODES,
   AUTO_BUDGET_PRESETS,
   ROLLING_WINDOW_PRESETS,
   PURGE_COOLDOWN_PRESETS,
@@ -32,6 +33,7 @@ import { DynamicBorder, getSettingsListTheme } from "@earendil-works/pi-coding-a
 import { buildPruneTree, TreeBrowser } from "./tree-browser.js";
 import { normalizeSummaryToolCallRefs } from "./summary-refs.js";
 import type { ToolCallIndexer } from "./indexer.js";
+import { applyPinRequests, formatPinList } from "./pins.js";
 
 /**
  * Wraps a SettingsList with a border + title, delegating all input handling
@@ -126,6 +128,8 @@ const SUBCOMMANDS = [
   { value: "min-batch-chars", label: "min-batch-chars — show or set the pre-flush trivial-batch threshold" },
   { value: "recovery-grace", label: "recovery-grace - show or set how long context_tree_query output stays verbatim (user-turn-groups)" },
   { value: "dedup",   label: "dedup     — toggle pre-flush content-hash dedup (on/off/status)" },
+  { value: "pin",     label: "pin       — list pins, or pin tool results by ref/toolCallId" },
+  { value: "unpin",   label: "unpin     — unpin tool results by ref/toolCallId ('all' clears)" },
   { value: "help",    label: "help      — show this help" },
 ] as const;
 
@@ -243,6 +247,16 @@ function concurrencyDescription(config: ContextPruneConfig): string {
   return `Max ${config.summarizerConcurrency} summarizer calls in flight during a flush fan-out; queued batches start as in-flight calls settle. Bounds quota bursts on the configured summarizer model. Set 0 for unbounded.`;
 }
 
+function deterministicSummariesDescription(config: ContextPruneConfig): string {
+  if (config.deterministicSummaries === "prefer") {
+    return "Prefer: a batch made only of tools with a built-in summarizer (read, bash, grep, find, ls, edit, write) gets a mechanical summary with no LLM call - path and line count, command and exit status, match counts, diffstat. Any other batch goes to the summarizer model.";
+  }
+  if (config.deterministicSummaries === "only") {
+    return "Only: never call the summarizer model. Tools without a built-in summarizer get a name/args/status line. Zero summarizer cost, least informative summaries.";
+  }
+  return "Off (default): every batch is summarized by the summarizer model. Choose Prefer to summarize read/bash/grep/find/ls/edit/write batches mechanically with no LLM call.";
+}
+
 function autoBudgetThresholdDescription(config: ContextPruneConfig): string {
   const cap = `${MAX_BUDGET_WINDOW / 1000}k`;
   if (config.autoBudgetThreshold == null) {
@@ -264,6 +278,14 @@ function dedupByContentHashDescription(config: ContextPruneConfig): string {
   return `Pre-flush content-hash dedup. Currently ${state}. Identical re-reads will be sent to the summarizer like any other tool call.`;
 }
 
+function supersedeStaleReadsDescription(config: ContextPruneConfig): string {
+  const state = config.supersedeStaleReads ? "ON" : "OFF";
+  if (config.supersedeStaleReads) {
+    return `Pre-flush stale-read supersession. A captured read of a file that is later re-read, edited or written in the same flush is indexed and stubbed with a pointer to the newer call — no summarizer LLM call. Currently ${state}.`;
+  }
+  return `Pre-flush stale-read supersession. Currently ${state}. Every read is summarized with its batch, stale or not.`;
+}
+
 function protectedToolsDescription(config: ContextPruneConfig): string {
   return `Tool names whose outputs are NEVER pruned (kept verbatim in context). Currently: ${protectedToolsDisplay(config.protectedTools)}. Edit via \`/pruner protected-tools\` for an interactive prompt, or \`/pruner protected-tools <comma-separated names>\` to set directly. Common candidates: todowrite, todoread.`;
 }
@@ -304,6 +326,9 @@ Usage:
   /pruner compact                          Retroactively compress all closed chains (ignores rollingWindow; force-compresses every eligible chain)
   /pruner dedup                            Show the current pre-flush content-hash dedup state
   /pruner dedup on|off                     Enable or disable content-hash dedup
+  /pruner pin                              List pinned tool results
+  /pruner pin <refs>                       Pin results by short ref or toolCallId (space- or comma-separated)
+  /pruner unpin <refs>|all                 Unpin results (or every pin)
   /pruner help                             Show this help
 
 Trivial-batch skip (minBatchChars):
@@ -315,6 +340,13 @@ Trivial-batch skip (minBatchChars):
   skipped-oversized path that also rejects summaries larger than the raw
   input. Both skip notifications are silenced by quietOversizedSkips.
 
+Deterministic summaries (deterministicSummaries):
+  off (default) sends every batch to the summarizer model. prefer gives a
+  batch made only of read, bash, grep, find, ls, edit and write calls a
+  mechanical summary with no LLM call (path + line count + top-level symbols,
+  command + exit status + last lines, match counts per file, diffstat).
+  only never calls the model; other tools get a name/args/status line.
+
 Protected tools:
   Some tools' outputs must stay verbatim across turns — typically planning tools
   like todowrite / todoread that carry state the agent re-reads later. List
@@ -337,6 +369,23 @@ Content-hash dedup (dedupByContentHash):
   flushes); intra-flush dedup is deferred to v2 to avoid dangling aliases
   when a canonical batch is skipped as oversized / trivial.
 
+Stale-read supersession (supersedeStaleReads):
+  When ON (default), a captured read of a path is superseded when a later
+  captured call in the same flush re-reads it (whole file, or the same
+  offset/limit window) or edits/writes it successfully. The stale read is
+  indexed with its full output and a tN ref but never summarized; its
+  ToolResultMessage is stubbed with a pointer to the newer call, and
+  context_tree_query still returns the original. Protected tools/paths are
+  never superseded.
+
+Pinning (/pruner pin, context_pin tool):
+  A pinned tool result stays verbatim until unpinned: it is never
+  summarized, chain-compressed or error-purged, and a result summarized
+  before the pin is shown in full again. The model can pin with the
+  context_pin tool. Pins are saved in the session and marked [pinned] in
+  /pruner tree; pins on results not captured yet are listed under
+  "Pinned (live)".
+
 Batching mode:
   - turn (default): each assistant turn that used tools gets its own summary block. Small, granular.
   - agent-message: all assistant turns between two consecutive user messages are merged into one summary.
@@ -479,7 +528,7 @@ export function registerCommands(
   pi: ExtensionAPI,
   currentConfig: { value: ContextPruneConfig },
   flushPending: (ctx: ExtensionCommandContext, options?: FlushOptions) => Promise<
-    | { ok: true; reason: "flushed" | "skipped-oversized" | "skipped-trivial" | "skipped-deduped"; batchCount: number; toolCallCount: number; rawCharCount: number; summaryCharCount: number; dedupedCount?: number }
+    | { ok: true; reason: "flushed" | "skipped-oversized" | "skipped-trivial" | "skipped-deduped" | "skipped-superseded"; batchCount: number; toolCallCount: number; rawCharCount: number; summaryCharCount: number; dedupedCount?: number; supersededCount?: number }
     | { ok: false; reason: string; error?: string }
   >,
   capturePendingBatches: (ctx: ExtensionCommandContext) => CapturedBatch[],
@@ -643,6 +692,13 @@ export function registerCommands(
                 : (SUMMARIZER_CONCURRENCY_PRESETS.find((p) => p.value === String(DEFAULT_CONFIG.summarizerConcurrency))?.value ?? SUMMARIZER_CONCURRENCY_PRESETS[0].value), // fall back to the default preset if a custom value isn't in the cycle
               description: concurrencyDescription(config),
             },
+            {
+              id: "deterministicSummaries",
+              label: "Deterministic summaries",
+              values: DETERMINISTIC_SUMMARY_MODES.map((m) => m.value),
+              currentValue: config.deterministicSummaries,
+              description: deterministicSummariesDescription(config),
+            },
             {
               id: "autoBudgetThreshold",
               label: "Auto-flush at context %",
@@ -660,6 +716,13 @@ export function registerCommands(
               currentValue: String(config.dedupByContentHash),
               description: dedupByContentHashDescription(config),
             },
+            {
+              id: "supersedeStaleReads",
+              label: "Supersede stale reads",
+              values: ["true", "false"],
+              currentValue: String(config.supersedeStaleReads),
+              description: supersedeStaleReadsDescription(config),
+            },
             {
               id: "chainCompressionEnabled",
               label: "Chain compression",
@@ -808,6 +871,10 @@ export function registerCommands(
               newConfig.summarizerConcurrency = Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_CONFIG.summarizerConcurrency;
               const it = items.find((item) => item.id === "summarizerConcurrency");
               if (it) it.description = concurrencyDescription(newConfig);
+            } else if (id === "deterministicSummaries") {
+              newConfig.deterministicSummaries = newValue as ContextPruneConfig["deterministicSummaries"];
+              const it = items.find((item) => item.id === "deterministicSummaries");
+              if (it) it.description = deterministicSummariesDescription(newConfig);
             } else if (id === "autoBudgetThreshold") {
               const parsed = Number.parseFloat(newValue);
               newConfig.autoBudgetThreshold =
@@ -822,6 +889,12 @@ export function registerCommands(
               if (dedupItem) {
                 dedupItem.description = dedupByContentHashDescription(newConfig);
               }
+            } else if (id === "supersedeStaleReads") {
+              newConfig.supersedeStaleReads = newValue === "true";
+              const supersedeItem = items.find((item) => item.id === "supersedeStaleReads");
+              if (supersedeItem) {
+                supersedeItem.description = supersedeStaleReadsDescription(newConfig);
+              }
             } else if (id === "chainCompressionEnabled") {
               newConfig.chainCompression = { ...newConfig.chainCompression, enabled: newValue === "true" };
             } else if (id === "chainCompressionRollingWindow") {
@@ -922,7 +995,7 @@ export function registerCommands(
         case "tree": {
           const roots = buildPruneTree(ctx, indexer);
           if (roots.length === 0) {
-            ctx.ui.notify("No pruned tool calls found in this session.", "info");
+            ctx.ui.notify("No pruned or pinned tool calls found in this session.", "info");
             break;
           }
 
@@ -942,12 +1015,15 @@ export function registerCommands(
         // ── /pruner stats ──
         case "stats": {
           const s = getStats();
-          if (s.callCount === 0 && s.chainsCompressed === 0) {
+          if (s.callCount === 0 && s.chainsCompressed === 0 && !s.deterministicSummaries) {
             ctx.ui.notify("pruner stats: no summarizer calls yet.");
           } else {
             const chainsLine = s.chainsCompressed > 0 ? `\n  chains:      ${s.chainsCompressed} compressed` : "";
+            const deterministicLine = s.deterministicSummaries
+              ? `\n  no-LLM:      ${s.deterministicSummaries} batch${s.deterministicSummaries === 1 ? "" : "es"} summarized deterministically`
+              : "";
             ctx.ui.notify(
-              `pruner stats:\n  calls:       ${s.callCount}\n  input:       ${formatTokens(s.totalInputTokens)} tokens\n  output:      ${formatTokens(s.totalOutputTokens)} tokens\n  cost:        ${formatCost(s.totalCost)}${chainsLine}`,
+              `pruner stats:\n  calls:       ${s.callCount}\n  input:       ${formatTokens(s.totalInputTokens)} tokens\n  output:      ${formatTokens(s.totalOutputTokens)} tokens\n  cost:        ${formatCost(s.totalCost)}${chainsLine}${deterministicLine}`,
             );
           }
           break;
@@ -1153,6 +1229,15 @@ export function registerCommands(
             break;
           }
 
+          if (result.reason === "skipped-superseded") {
+            const n = result.supersededCount ?? result.toolCallCount;
+            ctx.ui.notify(
+              `pruner: superseded ${n} stale read${n === 1 ? "" : "s"} (${result.rawCharCount} raw chars) by later reads/edits of the same file; no LLM call made; frontier advanced past this range`,
+              "info"
+            );
+            break;
+          }
+
           ctx.ui.notify(
             `pruner: pruned ${result.toolCallCount} tool call${result.toolCallCount === 1 ? "" : "s"} from ${result.batchCount} batch${result.batchCount === 1 ? "" : "es"} — summary ${result.summaryCharCount} chars vs ${result.rawCharCount} raw chars`,
             "info"
@@ -1302,6 +1387,38 @@ export function registerCommands(
           break;
         }
 
+        // ── /pruner pin [refs] / unpin <refs|all> ──
+        // Bare pin lists the current pins. Refs are short refs, occurrence
+        // keys or live toolCallIds, comma- and/or whitespace-separated.
+        case "pin":
+        case "unpin": {
+          const refs = subArgs.join(" ").split(/[\s,]+/).map((s) => s.trim()).filter(Boolean);
+          const pinning = subcommand === "pin";
+          if (refs.length === 0) {
+            if (!pinning) {
+              ctx.ui.notify("Usage: /pruner unpin <refs>|all", "warning");
+              break;
+            }
+            const list = formatPinList(indexer);
+            ctx.ui.notify(list ? `Pinned tool results:\n${list}` : "No pinned tool results.");
+            break;
+          }
+          const targets = !pinning && refs.length === 1 && refs[0].toLowerCase() === "all"
+            ? [...indexer.getPins().keys()]
+            : refs;
+          if (targets.length === 0) {
+            ctx.ui.notify("No pinned tool results.");
+            break;
+          }
+          const messages = ctx.sessionManager
+            .getBranch()
+            .filter((entry: any) => entry.type === "message" && entry.message)
+            .map((entry: any) => entry.message);
+          const lines = applyPinRequests(targets, pinning, indexer, messages, (type, data) => pi.appendEntry(type, data));
+          ctx.ui.notify(lines.join("\n"));
+          break;
+        }
+
         // ── /pruner help ──
         case "help":
           ctx.ui.notify(HELP_TEXT);
@@ -165,3 +165,23 @@ describe("loadConfig summarizerConcurrency normalization", () => {
     expect(config.summarizerConcurrency).toBe(2);
   });
 });
+
+describe("loadConfig deterministicSummaries normalization", () => {
+  it("defaults to off when unset", async () => {
+    await writeContextPrune({});
+    const config = await loadConfig();
+    expect(config.deterministicSummaries).toBe("off");
+  });
+
+  it("preserves a known mode", async () => {
+    await writeContextPrune({ deterministicSummaries: "prefer" });
+    const config = await loadConfig();
+    expect(config.deterministicSummaries).toBe("prefer");
+  });
+
+  it("falls back to the default for an unknown mode", async () => {
+    await writeContextPrune({ deterministicSummaries: true });
+    const config = await loadConfig();
+    expect(config.deterministicSummaries).toBe(DEFAULT_CONFIG.deterministicSummaries);
+  });
+});
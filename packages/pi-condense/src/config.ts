@@ -2,8 +2,8 @@ import { readFile, writeFile, mkdir, rename } from "node:fs/promises";
 import { randomBytes } from "node:crypto";
 import { join, dirname } from "node:path";
 import { getAgentDir } from "@earendil-works/pi-coding-agent";
-import type { ContextPruneConfig, PruneOn, SummarizerThinking } from "./types.js";
-import { DEFAULT_CONFIG, PRUNE_ON_MODES, SUMMARIZER_THINKING_LEVELS } from "./types.js";
+import type { ContextPruneConfig, DeterministicSummaryMode, PruneOn, SummarizerThinking } from "./types.js";
+import { DEFAULT_CONFIG, DETERMINISTIC_SUMMARY_MODES, PRUNE_ON_MODES, SUMMARIZER_THINKING_LEVELS } from "./types.js";
 
 /**
  * Settings location: the active pi agent's main `settings.json` under the
@@ -35,6 +35,10 @@ function isSummarizerThinking(value: unknown): value is SummarizerThinking {
   return typeof value === "string" && SUMMARIZER_THINKING_LEVELS.some((level) => level.value === value);
 }
 
+function isDeterministicSummaryMode(value: unknown): value is DeterministicSummaryMode {
+  return typeof value === "string" && DETERMINISTIC_SUMMARY_MODES.some((mode) => mode.value === value);
+}
+
 function normalize(existing: Partial<ContextPruneConfig>): ContextPruneConfig {
   const merged = { ...DEFAULT_CONFIG, ...existing };
   return {
@@ -76,6 +80,9 @@ function normalize(existing: Partial<ContextPruneConfig>): ContextPruneConfig {
       merged.summarizerConcurrency >= 0
         ? Math.floor(merged.summarizerConcurrency)
         : DEFAULT_CONFIG.summarizerConcurrency,
+    deterministicSummaries: isDeterministicSummaryMode(merged.deterministicSummaries)
+      ? merged.deterministicSummaries
+      : DEFAULT_CONFIG.deterministicSummaries,
     recoveryGraceTurns:
       typeof merged.recoveryGraceTurns === "number" &&
       Number.isFinite(merged.recoveryGraceTurns) &&
@@ -86,6 +93,10 @@ function normalize(existing: Partial<ContextPruneConfig>): ContextPruneConfig {
       typeof merged.dedupByContentHash === "boolean"
         ? merged.dedupByContentHash
         : DEFAULT_CONFIG.dedupByContentHash,
+    supersedeStaleReads:
+      typeof merged.supersedeStaleReads === "boolean"
+        ? merged.supersedeStaleReads
+        : DEFAULT_CONFIG.supersedeStaleReads,
     autoBudgetThreshold:
       typeof merged.autoBudgetThreshold === "number" &&
       Number.isFinite(merged.autoBudgetThreshold) &&
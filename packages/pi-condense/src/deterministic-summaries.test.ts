@@ -0,0 +1,137 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DETERMINISTIC_SUMMARIZERS,
+  shouldSummarizeDeterministically,
+  summarizeBatchDeterministically,
+} from "./deterministic-summaries.js";
+import { substituteInlineRefs } from "./summary-refs.js";
+import type { CapturedBatch, CapturedToolCall } from "./types.js";
+
+const call = (
+  toolName: string,
+  args: Record<string, unknown>,
+  resultText: string,
+  isError = false,
+): CapturedToolCall => ({ toolCallId: `${toolName}_1`, toolName, args, resultText, isError });
+
+const summarize = (tc: CapturedToolCall): string => DETERMINISTIC_SUMMARIZERS.get(tc.toolName)!(tc);
+
+const batchOf = (...toolCalls: CapturedToolCall[]): CapturedBatch => ({
+  turnIndex: 1,
+  timestamp: 1000,
+  assistantText: "",
+  toolCalls,
+});
+
+const SOURCE = [
+  'import { join } from "node:path";',
+  "",
+  "export interface Options {",
+  "  verbose: boolean;",
+  "}",
+  "",
+  "export async function run(options: Options) {",
+  "  const inner = 1;",
+  "}",
+  "",
+  "class Runner {}",
+  "export const VERSION = 2;",
+].join("\n");
+
+describe("per-tool summarizers", () => {
+  test("read: path, line count and top-level symbols only", () => {
+    expect(summarize(call("read", { path: "src/run.ts" }, SOURCE))).toBe(
+      "read `src/run.ts`: 12 lines; top-level: Options, run, Runner, VERSION",
+    );
+    const partial = `${SOURCE}\n\n[Showing lines 1-12 of 480. Use offset=13 to continue.]`;
+    expect(summarize(call("read", { path: "src/run.ts" }, partial))).toStartWith("read `src/run.ts`: lines 1-12 of 480;");
+    expect(summarize(call("read", { path: "gone.ts" }, "ENOENT: no such file or directory", true))).toBe(
+      "read `gone.ts` failed: ENOENT: no such file or directory",
+    );
+  });
+
+  test("bash: command, exit status and the last lines of output", () => {
+    const output = ["collected 12 items", "test_a.py ....", "test_b.py F", "FAILED test_b.py::test_parse", "1 failed, 11 passed"];
+    expect(summarize(call("bash", { command: "pytest -q" }, `${output.join("\n")}\n\nCommand exited with code 1`, true))).toBe(
+      [
+        "`pytest -q` -> exit 1, 5 lines of output, last 3:",
+        "> test_b.py F",
+        "> FAILED test_b.py::test_parse",
+        "> 1 failed, 11 passed",
+      ].join("\n"),
+    );
+    expect(summarize(call("bash", { command: "mkdir -p out" }, ""))).toBe("`mkdir -p out` -> exit 0, no output");
+    expect(summarize(call("bash", { command: "sleep 99" }, "Command timed out after 5 seconds", true))).toBe(
+      "`sleep 99` -> timed out after 5s, no output",
+    );
+  });
+
+  test("grep and find: counts per file or directory", () => {
+    const grep = [
+      "src/config.ts:1: export const port = 8080;",
+      "src/server.ts:4: listen(port)",
+      "src/server.ts:9: log(port)",
+    ].join("\n");
+    expect(summarize(call("grep", { pattern: "port", path: "src" }, grep))).toBe(
+      "grep `port` in `src`: 3 matches in 2 files: src/server.ts (2), src/config.ts (1)",
+    );
+    expect(summarize(call("grep", { pattern: "nope" }, "No matches found"))).toBe("grep `nope`: no matches");
+
+    const find = "src/a.ts\nsrc/b.ts\ntest/a.test.ts\nREADME.md\n\n[1000 results limit reached]";
+    expect(summarize(call("find", { pattern: "*" }, find))).toBe(
+      "find `*`: 4 files: src/ (2), ./ (1), test/ (1) [1000 results limit reached]",
+    );
+  });
+
+  test("edit and write: path and diffstat", () => {
+    const edits = [
+      { oldText: "a\nb\nc", newText: "a\nB\nB2\nc" },
+      { oldText: "x\ny", newText: "x" },
+    ];
+    expect(summarize(call("edit", { path: "src/a.ts", edits }, "Successfully replaced 2 block(s) in src/a.ts."))).toBe(
+      "edit `src/a.ts`: 2 blocks, +2 -2 lines",
+    );
+    expect(summarize(call("write", { path: "notes.md", content: "# Notes\n\nété\n" }, "Successfully wrote 14 bytes"))).toBe(
+      "write `notes.md`: +3 lines, 15 bytes",
+    );
+  });
+});
+
+describe("shouldSummarizeDeterministically", () => {
+  const covered = batchOf(call("read", { path: "a.ts" }, "x"), call("bash", { command: "ls" }, "a.ts"));
+  const mixed = batchOf(call("read", { path: "a.ts" }, "x"), call("web_fetch", { url: "https://example.com" }, "<html>"));
+
+  test("off never applies, prefer needs every tool registered, only always applies", () => {
+    expect(shouldSummarizeDeterministically(covered, "off")).toBe(false);
+    expect(shouldSummarizeDeterministically(covered, "prefer")).toBe(true);
+    expect(shouldSummarizeDeterministically(mixed, "prefer")).toBe(false);
+    expect(shouldSummarizeDeterministically(mixed, "only")).toBe(true);
+    expect(shouldSummarizeDeterministically(batchOf(), "only")).toBe(false);
+  });
+});
+
+describe("summarizeBatchDeterministically", () => {
+  test("labels each bullet so inline refs substitute exactly as for an LLM summary", () => {
+    const batch = batchOf(
+      call("bash", { command: "npm test" }, "ok\nall passed"),
+      call("web_fetch", { url: "https://example.com" }, "line 1\nline 2"),
+    );
+    const result = summarizeBatchDeterministically(batch);
+    expect(result.source).toBe("deterministic");
+    expect(result.usage.totalTokens).toBe(0);
+    expect(result.usage.cost.total).toBe(0);
+
+    const refs = [
+      { shortId: "t7", toolCallId: "bash_1" },
+      { shortId: "t8", toolCallId: "web_fetch_1" },
+    ];
+    expect(substituteInlineRefs(result.summaryText, refs, ["bash", "web_fetch"])).toBe(
+      [
+        "- `t7` `npm test` -> exit 0, output:",
+        "  > ok",
+        "  > all passed",
+        '- `t8` web_fetch `{"url":"https://example.com"}`: OK, 2 lines of output',
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,293 @@
+import type { CapturedBatch, CapturedToolCall, DeterministicSummaryMode, SummarizeResult } from "./types.js";
+
+/**
+ * Zero-LLM-cost summaries for tool outputs with an obvious mechanical summary.
+ *
+ * A registry keyed by tool name maps each captured call to a short bullet
+ * body: `read` -> path, line count and top-level symbols; `bash` -> command,
+ * exit status and the last output lines; `grep`/`find`/`ls` -> match counts
+ * per file or directory; `edit`/`write` -> path and diffstat. The batch
+ * summary labels every bullet with the same `[[N:toolname]]` token the LLM
+ * prompt asks for, so `substituteInlineRefs` rewrites it to the call's `tN`
+ * ref exactly as it does for an LLM summary, and the result flows through the
+ * normal flush pipeline (oversized check, index entry, summary message).
+ *
+ * The summaries only restate what the output already says; the original stays
+ * recoverable via context_tree_query like any other summarized call.
+ */
+
+/** Returns a bullet body; extra lines become indented continuation lines. */
+export type DeterministicSummarizer = (call: CapturedToolCall) => string;
+
+const BASH_TAIL_LINES = 3;
+const MAX_SYMBOLS = 12;
+const MAX_GROUPS = 8;
+const MAX_INLINE_CHARS = 160;
+
+function zeroUsage(): SummarizeResult["usage"] {
+  return {
+    input: 0,
+    output: 0,
+    cacheRead: 0,
+    cacheWrite: 0,
+    totalTokens: 0,
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+  };
+}
+
+/**
+ * Top-level declarations across common languages, matched only on
+ * unindented lines. The last capture group is the symbol name.
+ */
+const TOP_LEVEL_SYMBOL = [
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|namespace|const|let|var)\s+([A-Za-z_$][\w$]*)/,
+  /^(?:async\s+)?(?:def|class)\s+([A-Za-z_]\w*)/,
+  /^func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/,
+  /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:fn|struct|enum|trait|mod|type|const|static)\s+([A-Za-z_]\w*)/,
+  /^(?:public\s+|private\s+|protected\s+)?(?:abstract\s+|final\s+|sealed\s+)*(?:class|interface|record|enum|object)\s+([A-Za-z_]\w*)/,
+];
+
+function clip(text: string, max = MAX_INLINE_CHARS): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+/** Inline code span that survives backticks in the value. */
+function code(value: string): string {
+  const text = clip(value.split("\n")[0] + (value.includes("\n") ? " …" : ""));
+  return text.includes("`") ? `\`\` ${text} \`\`` : `\`${text}\``;
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+function stringArg(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args?.[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+function outputLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Splits off the bracketed notice pi's built-in tools append after a blank
+ * line (`[Showing lines 1-2000 of 5321. ...]`, `[100 matches limit reached. ...]`).
+ */
+function splitNotice(text: string): { body: string; notice?: string } {
+  const match = /\n\n\[([^\n]*)\]\s*$/.exec(text);
+  if (!match) return { body: text };
+  return { body: text.slice(0, match.index), notice: match[1] };
+}
+
+function firstLine(text: string): string {
+  return clip(outputLines(text).find((line) => line.trim()) ?? "(no output)");
+}
+
+function failed(what: string, call: CapturedToolCall): string {
+  return `${what} failed: ${firstLine(call.resultText)}`;
+}
+
+function topLevelSymbols(lines: string[]): string[] {
+  const symbols: string[] = [];
+  const seen = new Set<string>();
+  for (const line of lines) {
+    if (!line || /^\s/.test(line)) continue;
+    for (const pattern of TOP_LEVEL_SYMBOL) {
+      const name = pattern.exec(line)?.[1];
+      if (name && !seen.has(name)) {
+        seen.add(name);
+        symbols.push(name);
+        break;
+      }
+    }
+  }
+  return symbols;
+}
+
+function listWithMore(items: string[], max: number, noun: string): string {
+  const shown = items.slice(0, max).join(", ");
+  return items.length > max ? `${shown} (+${items.length - max} more ${noun})` : shown;
+}
+
+function summarizeRead(call: CapturedToolCall): string {
+  const path = stringArg(call.args, "path") ?? stringArg(call.args, "file_path") ?? "?";
+  if (call.isError) return failed(`read ${code(path)}`, call);
+  const { body, notice } = splitNotice(call.resultText);
+  const lines = outputLines(body);
+  const range = notice ? /^Showing lines (\d+)-(\d+) of (\d+)/.exec(notice) : null;
+  const extent = range ? `lines ${range[1]}-${range[2]} of ${range[3]}` : plural(lines.length, "line");
+  const symbols = topLevelSymbols(lines);
+  const symbolText = symbols.length > 0 ? `; top-level: ${listWithMore(symbols, MAX_SYMBOLS, "symbols")}` : "";
+  return `read ${code(path)}: ${extent}${symbolText}`;
+}
+
+/** pi's bash tool appends one of these status lines to a failed command's output. */
+function bashStatus(call: CapturedToolCall, lines: string[]): { status: string; output: string[] } {
+  const last = lines[lines.length - 1] ?? "";
+  const patterns: Array<[RegExp, (m: RegExpExecArray) => string]> = [
+    [/^Command exited with code (\d+)$/, (m) => `exit ${m[1]}`],
+    [/^Command timed out after (\d+) seconds$/, (m) => `timed out after ${m[1]}s`],
+    [/^Command aborted$/, () => "aborted"],
+  ];
+  for (const [pattern, describe] of patterns) {
+    const match = pattern.exec(last);
+    if (match) {
+      const output = lines.slice(0, -1);
+      if (output[output.length - 1] === "") output.pop();
+      return { status: describe(match), output };
+    }
+  }
+  return { status: call.isError ? "failed" : "exit 0", output: lines };
+}
+
+function summarizeBash(call: CapturedToolCall): string {
+  const command = stringArg(call.args, "command") ?? "?";
+  const { status, output } = bashStatus(call, outputLines(call.resultText));
+  const content = output.filter((line) => line.trim());
+  if (content.length === 0) return `${code(command)} -> ${status}, no output`;
+  const tail = output.slice(-BASH_TAIL_LINES).map((line) => `> ${clip(line)}`);
+  const label = content.length > BASH_TAIL_LINES ? `${plural(output.length, "line")} of output, last ${BASH_TAIL_LINES}:` : "output:";
+  return [`${code(command)} -> ${status}, ${label}`, ...tail].join("\n");
+}
+
+/** "a.ts (3), b.ts (1)" ordered by count, then name. */
+function formatCounts(counts: Map<string, number>, noun: string): string {
+  const entries = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([name, count]) => `${name} (${count})`);
+  return listWithMore(entries, MAX_GROUPS, noun);
+}
+
+function searchScope(call: CapturedToolCall): string {
+  const path = stringArg(call.args, "path");
+  const glob = stringArg(call.args, "glob");
+  return `${path ? ` in ${code(path)}` : ""}${glob ? ` (${code(glob)})` : ""}`;
+}
+
+function limitNote(notice: string | undefined): string {
+  return notice && /limit/i.test(notice) ? ` [${clip(notice)}]` : "";
+}
+
+function summarizeGrep(call: CapturedToolCall): string {
+  const what = `grep ${code(stringArg(call.args, "pattern") ?? "?")}${searchScope(call)}`;
+  if (call.isError) return failed(what, call);
+  const { body, notice } = splitNotice(call.resultText);
+  const perFile = new Map<string, number>();
+  let matches = 0;
+  for (const line of outputLines(body)) {
+    // Match lines are `path:line: text`; context lines use `-` separators.
+    const match = /^(.+?):(\d+): /.exec(line);
+    if (!match) continue;
+    matches++;
+    perFile.set(match[1], (perFile.get(match[1]) ?? 0) + 1);
+  }
+  if (matches === 0) return `${what}: no matches`;
+  return `${what}: ${plural(matches, "match", "matches")} in ${plural(perFile.size, "file")}: ${formatCounts(perFile, "files")}${limitNote(notice)}`;
+}
+
+function summarizeFind(call: CapturedToolCall): string {
+  const what = `find ${code(stringArg(call.args, "pattern") ?? "?")}${searchScope(call)}`;
+  if (call.isError) return failed(what, call);
+  const { body, notice } = splitNotice(call.resultText);
+  const files = outputLines(body).filter((line) => line.trim());
+  if (files.length === 0 || /^No files found/.test(files[0])) return `${what}: no files`;
+  const perDir = new Map<string, number>();
+  for (const file of files) {
+    const slash = file.indexOf("/");
+    const dir = slash > 0 ? `${file.slice(0, slash)}/` : "./";
+    perDir.set(dir, (perDir.get(dir) ?? 0) + 1);
+  }
+  return `${what}: ${plural(files.length, "file")}: ${formatCounts(perDir, "directories")}${limitNote(notice)}`;
+}
+
+function summarizeLs(call: CapturedToolCall): string {
+  const what = `ls ${code(stringArg(call.args, "path") ?? ".")}`;
+  if (call.isError) return failed(what, call);
+  const { body, notice } = splitNotice(call.resultText);
+  const entries = outputLines(body).filter((line) => line.trim());
+  if (entries.length === 0 || /^\(empty directory\)$/.test(entries[0])) return `${what}: empty`;
+  const dirs = entries.filter((entry) => entry.endsWith("/")).length;
+  return `${what}: ${plural(entries.length, "entry", "entries")} (${plural(dirs, "directory", "directories")})${limitNote(notice)}`;
+}
+
+/** Lines removed and added by one replacement, ignoring unchanged leading and trailing lines. */
+function lineDiffstat(oldText: string, newText: string): { added: number; removed: number } {
+  const before = outputLines(oldText);
+  const after = outputLines(newText);
+  let head = 0;
+  while (head < before.length && head < after.length && before[head] === after[head]) head++;
+  let tail = 0;
+  while (
+    tail < before.length - head &&
+    tail < after.length - head &&
+    before[before.length - 1 - tail] === after[after.length - 1 - tail]
+  ) {
+    tail++;
+  }
+  return { added: after.length - head - tail, removed: before.length - head - tail };
+}
+
+function summarizeEdit(call: CapturedToolCall): string {
+  const path = stringArg(call.args, "path") ?? stringArg(call.args, "file_path") ?? "?";
+  if (call.isError) return failed(`edit ${code(path)}`, call);
+  const edits = Array.isArray(call.args?.edits)
+    ? (call.args.edits as Array<Record<string, unknown>>)
+    : [{ oldText: call.args?.oldText, newText: call.args?.newText }];
+  let added = 0;
+  let removed = 0;
+  for (const edit of edits) {
+    const stat = lineDiffstat(String(edit?.oldText ?? ""), String(edit?.newText ?? ""));
+    added += stat.added;
+    removed += stat.removed;
+  }
+  return `edit ${code(path)}: ${plural(edits.length, "block")}, +${added} -${removed} lines`;
+}
+
+function summarizeWrite(call: CapturedToolCall): string {
+  const path = stringArg(call.args, "path") ?? stringArg(call.args, "file_path") ?? "?";
+  if (call.isError) return failed(`write ${code(path)}`, call);
+  const content = stringArg(call.args, "content") ?? "";
+  return `write ${code(path)}: +${outputLines(content).length} lines, ${Buffer.byteLength(content, "utf8")} bytes`;
+}
+
+/** Fallback for tools without a registered summarizer ("only" mode). */
+function summarizeGeneric(call: CapturedToolCall): string {
+  const args = clip(JSON.stringify(call.args ?? {}));
+  const status = call.isError ? `ERROR: ${firstLine(call.resultText)}` : `OK, ${plural(outputLines(call.resultText).length, "line")} of output`;
+  return `${call.toolName} ${code(args)}: ${status}`;
+}
+
+/** Registry of per-tool summarizers, keyed by exact tool name. */
+export const DETERMINISTIC_SUMMARIZERS: ReadonlyMap<string, DeterministicSummarizer> = new Map([
+  ["read", summarizeRead],
+  ["bash", summarizeBash],
+  ["grep", summarizeGrep],
+  ["find", summarizeFind],
+  ["ls", summarizeLs],
+  ["edit", summarizeEdit],
+  ["write", summarizeWrite],
+]);
+
+/** True when `mode` lets this batch skip the LLM: "only" always, "prefer" when every tool is registered. */
+export function shouldSummarizeDeterministically(batch: CapturedBatch, mode: DeterministicSummaryMode): boolean {
+  if (mode === "off" || batch.toolCalls.length === 0) return false;
+  return mode === "only" || batch.toolCalls.every((tc) => DETERMINISTIC_SUMMARIZERS.has(tc.toolName));
+}
+
+/**
+ * One labelled bullet per tool call, in batch order. Returns a SummarizeResult
+ * with zero usage and `source: "deterministic"` so the flush records it
+ * without counting an LLM call.
+ */
+export function summarizeBatchDeterministically(batch: CapturedBatch): SummarizeResult {
+  const bullets = batch.toolCalls.map((tc, index) => {
+    const summarize = DETERMINISTIC_SUMMARIZERS.get(tc.toolName) ?? summarizeGeneric;
+    const [first, ...rest] = summarize(tc).split("\n");
+    return [`- [[${index + 1}:${tc.toolName}]] ${first}`, ...rest.map((line) => `  ${line}`)].join("\n");
+  });
+  return { summaryText: bullets.join("\n"), usage: zeroUsage(), source: "deterministic" };
+}
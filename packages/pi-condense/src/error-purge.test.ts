@@ -92,6 +92,38 @@ describe("purgeErroredArgs", () => {
     expect(result).toBe(messages);
   });
 
+  it("keeps the args of an exempt (pinned) failed call", () => {
+    const messages = [
+      makeAssistant("tc1", { content: "a very long argument body here" }),
+      makeToolResult("tc1", true),
+      makeAssistant("tc2", { cmd: "ls" }),
+      makeToolResult("tc2", false),
+      makeAssistant("tc3", { cmd: "pwd" }),
+      makeToolResult("tc3", false),
+    ];
+    expect(purgeErroredArgs(messages, defaultConfig, new Set(["tc1@2"]))).toBe(messages);
+    expect(purgeErroredArgs(messages, defaultConfig, new Set(["tc1@3"]))).not.toBe(messages);
+  });
+
+  it("exempts only the pinned occurrence of a reused toolCallId", () => {
+    const messages = [
+      makeAssistant("tc1", { content: "a very long argument body here" }),
+      makeToolResult("tc1", true),
+      makeAssistant("tc1", { content: "another long argument body here" }),
+      { ...makeToolResult("tc1", true), timestamp: 5 },
+      makeAssistant("tc2", { cmd: "ls" }),
+      makeToolResult("tc2", false),
+      makeAssistant("tc3", { cmd: "pwd" }),
+      makeToolResult("tc3", false),
+    ];
+    const result = purgeErroredArgs(messages, defaultConfig, new Set(["tc1@2"]));
+    expect(result[0]).toBe(messages[0]);
+    expect(result[2].content[0].arguments._purged).toBeDefined();
+
+    const bare = purgeErroredArgs(messages, defaultConfig, new Set(["tc1"]));
+    expect(bare).toBe(messages);
+  });
+
   it("does not purge when isError is false", () => {
     const messages = [
       makeAssistant("tc1", { content: "a very long argument body here" }),
@@ -1,4 +1,5 @@
 import type { ErrorPurgeConfig } from "./types.js";
+import { matchesAnyKey, occKey } from "./occurrence-key.js";
 
 /**
  * Replaces the `arguments` body of failed toolCall blocks with a compact stub
@@ -19,38 +20,50 @@ import type { ErrorPurgeConfig } from "./types.js";
  *
  * Turn index is computed internally by counting AssistantMessages in the input.
  * This avoids threading a turn counter through index.ts.
+ *
+ * `exemptKeys` holds occurrence keys (or bare ids) whose failed calls must
+ * keep their arguments: pinned results (src/pins.ts), matched by
+ * `matchesAnyKey`. Errors are tracked per turn, so exempting one occurrence
+ * of a reused provider id neither covers nor is undone by another.
  */
-export function purgeErroredArgs(messages: any[], config: ErrorPurgeConfig): any[] {
-  // Pass 1: collect errored toolCallIds → the turn index at which the error occurred.
+export function purgeErroredArgs(
+  messages: any[],
+  config: ErrorPurgeConfig,
+  exemptKeys: ReadonlySet<string> = new Set(),
+): any[] {
+  // Pass 1: collect errored calls as (turn index, toolCallId) pairs.
   // Turn index = number of AssistantMessages seen up to and including the one that
   // issued the tool call (ToolResultMessages follow immediately after).
-  const erroredAtTurn = new Map<string, number>();
+  const erroredCalls = new Set<string>();
   let turnCount = 0;
   for (const msg of messages) {
     if (msg.role === "assistant") {
       // Count each assistant turn; toolResults referencing the turn come next.
       turnCount++;
     } else if (msg.role === "toolResult" && msg.isError === true) {
+      const key = typeof msg.timestamp === "number" ? occKey(msg.toolCallId, msg.timestamp) : msg.toolCallId;
+      if (matchesAnyKey([key], exemptKeys)) continue;
       // Record the turn this errored call belongs to for cooldown comparison.
-      erroredAtTurn.set(msg.toolCallId, turnCount);
+      erroredCalls.add(erroredCallKey(turnCount, msg.toolCallId));
     }
   }
 
-  if (erroredAtTurn.size === 0) return messages;
+  if (erroredCalls.size === 0) return messages;
 
   const currentTurnIndex = turnCount;
 
   // Pass 2: rewrite AssistantMessages whose toolCall args should be purged.
   let anyModified = false;
+  let assistantTurn = 0;
   const result = messages.map((msg) => {
     if (msg.role !== "assistant") return msg;
+    const errorTurn = ++assistantTurn;
 
     let contentModified = false;
     const newContent = (msg.content as any[]).map((block) => {
       if (block.type !== "toolCall") return block;
 
-      const errorTurn = erroredAtTurn.get(block.id);
-      if (errorTurn === undefined) return block;
+      if (!erroredCalls.has(erroredCallKey(errorTurn, block.id))) return block;
 
       const age = currentTurnIndex - errorTurn;
       if (age < config.cooldownTurns) return block;
@@ -69,3 +82,7 @@ export function purgeErroredArgs(messages: any[], config: ErrorPurgeConfig): any
 
   return anyModified ? result : messages;
 }
+
+function erroredCallKey(turnIndex: number, toolCallId: string): string {
+  return `${turnIndex}:${toolCallId}`;
+}
@@ -0,0 +1,214 @@
+import { describe, expect, test } from "bun:test";
+import {
+  compileSearchQuery,
+  formatSearchResult,
+  MAX_HIT_SNIPPET_CHARS,
+  MAX_REGEX_SCAN_CHARS,
+  MAX_SNIPPET_LINES,
+  pathArgValues,
+  searchToolHistory,
+} from "./history-search.js";
+import { ToolCallIndexer } from "./indexer.js";
+import type { CapturedToolCall, ToolCallRecord } from "./types.js";
+
+const TRACE = [
+  "collected 12 items",
+  "tests/test_parser.py F",
+  "Traceback (most recent call last):",
+  '  File "parser.py", line 40, in parse',
+  "ValueError: unexpected token",
+  "1 failed, 11 passed",
+].join("\n");
+
+const call = (
+  toolCallId: string,
+  toolName: string,
+  args: Record<string, unknown>,
+  resultText: string,
+  resultTimestamp: number,
+  isError = false,
+): CapturedToolCall => ({ toolCallId, toolName, args, resultText, isError, resultTimestamp });
+
+/** Two batches: turn 1 reads config.ts and greps, turn 3 runs a failing test. */
+const buildIndex = (): ToolCallIndexer => {
+  const idx = new ToolCallIndexer();
+  idx.addBatch(
+    {
+      turnIndex: 1,
+      timestamp: 1000,
+      assistantText: "",
+      toolCalls: [
+        call("read_1", "read", { path: "src/config.ts" }, "export const port = 8080;\nexport const host = 'localhost';", 1010),
+        call("grep_1", "grep", { pattern: "port", path: "src" }, "src/config.ts:1:export const port = 8080;\nsrc/server.ts:4:listen(port)", 1020),
+      ],
+    },
+    () => {},
+  );
+  idx.addBatch(
+    {
+      turnIndex: 3,
+      timestamp: 3000,
+      assistantText: "",
+      toolCalls: [call("bash_1", "bash", { command: "pytest" }, TRACE, 3010, true)],
+    },
+    () => {},
+  );
+  idx.registerSummaryRefs([
+    { shortId: "t1", toolCallId: "read_1", resultTimestamp: 1010 },
+    { shortId: "t2", toolCallId: "grep_1", resultTimestamp: 1020 },
+    { shortId: "t3", toolCallId: "bash_1", resultTimestamp: 3010 },
+  ]);
+  return idx;
+};
+
+const inline = async (record: ToolCallRecord) => record.resultText;
+
+describe("compileSearchQuery", () => {
+  test("keywords are escaped, case-insensitive and all required", () => {
+    const terms = compileSearchQuery("  Value(Error  parser.py ");
+    expect(terms).toHaveLength(2);
+    expect(terms[0].one.test("valueERROR( x")).toBe(false);
+    expect(terms[0].one.test("value(error")).toBe(true);
+    expect(terms[1].one.test("parserXpy")).toBe(false);
+  });
+
+  test("/pattern/flags compiles as a single regex and rejects invalid patterns", () => {
+    const [term] = compileSearchQuery("/line \\d+/i");
+    expect(term.one.test("LINE 40")).toBe(true);
+    expect(term.all.flags).toContain("g");
+    expect(() => compileSearchQuery("/([/")).toThrow();
+  });
+
+  test("rejects a regex whose repeated group holds an open-ended quantifier or an alternation", () => {
+    for (const nested of ["/(a+)+$/", "/(\\w+\\s?)*x/", "/((ab)*c)+/", "/(?:x{2,})+/", "/(.*a){20}/", "/(a|aa)+/", "/(?:x|y){2,5}/"]) {
+      expect(() => compileSearchQuery(nested)).toThrow("nested quantifiers");
+    }
+    for (const flat of ["/(ab)+/", "/(a+)?b/", "/[(+)]+/", "/\\(a+\\)+/", "/(a{3})+/", "/(foo|bar)?baz/", "/a|b+/", "/[|]+/"]) {
+      expect(() => compileSearchQuery(flat)).not.toThrow();
+    }
+  });
+});
+
+describe("pathArgValues", () => {
+  test("collects string and string-array values of path-like keys only", () => {
+    expect(pathArgValues({ path: "a.ts", file_path: "b.ts", paths: ["c.ts", 3], command: "cat d.ts" })).toEqual([
+      "a.ts",
+      "b.ts",
+      "c.ts",
+    ]);
+  });
+});
+
+describe("searchToolHistory", () => {
+  test("ranks keyword hits by match count and returns refs with numbered context", async () => {
+    const result = await searchToolHistory(buildIndex(), { query: "port" }, inline);
+    expect(result.searched).toBe(3);
+    expect(result.hits.map((hit) => [hit.ref, hit.matchCount])).toEqual([
+      ["t2", 4],
+      ["t1", 3],
+    ]);
+    // Keywords are substrings: "export" counts too.
+    expect(result.hits[1].snippets).toEqual(["> 1: export const port = 8080;\n> 2: export const host = 'localhost';"]);
+  });
+
+  test("a regex finds the stack trace, with context lines around the match", async () => {
+    const result = await searchToolHistory(buildIndex(), { query: "/^Traceback/m" }, inline);
+    expect(result.hits).toHaveLength(1);
+    expect(result.hits[0].ref).toBe("t3");
+    expect(result.hits[0].snippets[0]).toBe(
+      [
+        "  1: collected 12 items",
+        "  2: tests/test_parser.py F",
+        "> 3: Traceback (most recent call last):",
+        '  4:   File "parser.py", line 40, in parse',
+        "  5: ValueError: unexpected token",
+      ].join("\n"),
+    );
+  });
+
+  test("filters by tool, path argument, error status and turn range without a query", async () => {
+    const idx = buildIndex();
+    const refs = async (criteria: Parameters<typeof searchToolHistory>[1]) =>
+      (await searchToolHistory(idx, criteria, inline)).hits.map((hit) => hit.ref);
+
+    expect(await refs({ path: "config.ts" })).toEqual(["t1"]);
+    expect(await refs({ toolName: "GREP" })).toEqual(["t2"]);
+    expect(await refs({ isError: true })).toEqual(["t3"]);
+    // No query: newest first.
+    expect(await refs({ turnFrom: 1, turnTo: 2 })).toEqual(["t2", "t1"]);
+    expect(await refs({ turnFrom: 4 })).toEqual([]);
+    expect(await refs({ query: "port", toolName: "read" })).toEqual(["t1"]);
+  });
+
+  test("searches the full body through readBody, so spilled records match beyond their preview", async () => {
+    const idx = new ToolCallIndexer();
+    idx.addBatch(
+      {
+        turnIndex: 2,
+        timestamp: 2000,
+        assistantText: "",
+        toolCalls: [
+          {
+            ...call("bash_big", "bash", { command: "make" }, "", 2010),
+            spillPath: "/blobs/bash_big.txt",
+            spillBytes: 9000,
+            resultPreview: "building…",
+          },
+        ],
+      },
+      () => {},
+    );
+    const readBody = async (record: ToolCallRecord) =>
+      record.spillPath ? `building…\n${"ok\n".repeat(50)}error: linker failed` : record.resultText;
+
+    const result = await searchToolHistory(idx, { query: "linker" }, readBody);
+    expect(result.hits.map((hit) => hit.ref)).toEqual(["bash_big@2010"]);
+    expect(result.hits[0].snippets[0]).toContain("> 52: error: linker failed");
+  });
+
+  test("a record matching on every line yields bounded snippets", async () => {
+    const idx = new ToolCallIndexer();
+    const body = Array.from({ length: 20_000 }, (_, i) => `error ${i + 1}: ${"x".repeat(150)}`).join("\n");
+    idx.addBatch({ turnIndex: 1, timestamp: 1000, assistantText: "", toolCalls: [call("bash_1", "bash", {}, body, 1010)] }, () => {});
+
+    const [hit] = (await searchToolHistory(idx, { query: "error" }, inline)).hits;
+    expect(hit.matchCount).toBe(20_000);
+    expect(hit.snippets.join("\n").length).toBeLessThanOrEqual(MAX_HIT_SNIPPET_CHARS + 4);
+    expect(hit.snippets[0].split("\n").length).toBeLessThanOrEqual(MAX_SNIPPET_LINES + 1);
+    expect(hit.snippets[0]).toStartWith("> 1: error 1: ");
+    expect(hit.snippets.at(-1)).toEndWith("\n  …");
+  });
+
+  test("a regex scans only the head of each record; keywords scan all of it", async () => {
+    const idx = new ToolCallIndexer();
+    const body = `${"x".repeat(MAX_REGEX_SCAN_CHARS)}\nneedle`;
+    idx.addBatch({ turnIndex: 1, timestamp: 1000, assistantText: "", toolCalls: [call("bash_1", "bash", {}, body, 1010)] }, () => {});
+
+    expect((await searchToolHistory(idx, { query: "/needle/" }, inline)).total).toBe(0);
+    expect((await searchToolHistory(idx, { query: "needle" }, inline)).total).toBe(1);
+  });
+
+  test("limit caps the hits but total reports every match", async () => {
+    const result = await searchToolHistory(buildIndex(), { query: "/./", limit: 1 }, inline);
+    expect(result.hits).toHaveLength(1);
+    expect(result.total).toBe(3);
+    expect(formatSearchResult({ query: "/./", limit: 1 }, result)).toContain(
+      "Showing 1 of 3 matches (raise limit for more).",
+    );
+  });
+});
+
+describe("formatSearchResult", () => {
+  test("renders a heading, a fetch hint with the first refs, and one section per hit", async () => {
+    const criteria = { query: "port", turnTo: 2 };
+    const text = formatSearchResult(criteria, await searchToolHistory(buildIndex(), criteria, inline));
+    expect(text.startsWith('## Search: query "port", turns start-2\n2 matches. Fetch full outputs with context_tree_query({ toolCallIds: ["t2","t1"] }).')).toBe(true);
+    expect(text).toContain('### t2 — grep · OK · turn 1 · 4 matches\nArgs: {"pattern":"port","path":"src"}');
+  });
+
+  test("reports how many records were searched when nothing matches", async () => {
+    const criteria = { query: "segfault" };
+    const text = formatSearchResult(criteria, await searchToolHistory(buildIndex(), criteria, inline));
+    expect(text).toBe('## Search: query "segfault"\nNo matches in 3 archived tool calls.');
+  });
+});
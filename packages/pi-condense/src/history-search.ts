@@ -0,0 +1,337 @@
+import type { ToolCallIndexer } from "./indexer.js";
+import { occKey } from "./occurrence-key.js";
+import type { ToolCallRecord } from "./types.js";
+
+/**
+ * Search over the archived tool-call index for `context_tree_query`.
+ *
+ * The model usually does not know which `tN` holds "the stack trace from
+ * earlier", so the query tool can also find records: a keyword or regex
+ * query over each record's args and full output (spilled sidecar blobs
+ * included), narrowed by tool name, path argument, error status and turn
+ * range. Hits are ranked by match count, newest first on ties, and carry the
+ * ref the model passes back to `context_tree_query` to fetch the original.
+ *
+ * Only indexed records are searched. A content-deduplicated occurrence is an
+ * alias of its original record, so the original's hit stands for both.
+ *
+ * The query comes from the model and runs on the main thread, so a regex with
+ * nested quantifiers (`(a+)+`) is rejected outright and a regex only scans
+ * the first MAX_REGEX_SCAN_CHARS of each record.
+ */
+
+export interface HistorySearchCriteria {
+  /** Whitespace-separated keywords (all required, case-insensitive), or `/pattern/flags`. */
+  query?: string;
+  /** Exact tool name, case-insensitive. */
+  toolName?: string;
+  /** Substring of a path-like argument (`path`, `file_path`, `paths`, ...). */
+  path?: string;
+  isError?: boolean;
+  /** Inclusive turn range. */
+  turnFrom?: number;
+  turnTo?: number;
+  limit?: number;
+}
+
+export interface HistorySearchHit {
+  /** Short ref (`tN`) when one was issued, else the occurrence key. */
+  ref: string;
+  record: ToolCallRecord;
+  /** Query matches across args and output; 0 for a filter-only search. */
+  matchCount: number;
+  /** Numbered output lines around the first matches (or the head of the output for a filter-only search). */
+  snippets: string[];
+}
+
+export interface HistorySearchResult {
+  hits: HistorySearchHit[];
+  /** Records that matched, before `limit` was applied. */
+  total: number;
+  searched: number;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 50;
+export const SEARCH_CONTEXT_LINES = 2;
+const MAX_SNIPPETS_PER_HIT = 3;
+const MAX_SNIPPET_LINE_CHARS = 200;
+/** A run of matching lines is cut into snippets of at most this many lines. */
+export const MAX_SNIPPET_LINES = 12;
+/** Snippet characters per hit; later snippet lines are dropped past it. */
+export const MAX_HIT_SNIPPET_CHARS = 2_000;
+const PATH_ARG_KEY = /path|^files?$|^dir/i;
+/** Per-record text a regex query scans; keyword queries scan everything. */
+export const MAX_REGEX_SCAN_CHARS = 200_000;
+
+/** True when any search parameter is set; a call with none is a plain ref lookup. */
+export function hasSearchCriteria(criteria: HistorySearchCriteria): boolean {
+  return (
+    Boolean(criteria.query?.trim()) ||
+    Boolean(criteria.toolName?.trim()) ||
+    Boolean(criteria.path?.trim()) ||
+    criteria.isError !== undefined ||
+    criteria.turnFrom !== undefined ||
+    criteria.turnTo !== undefined
+  );
+}
+
+export interface QueryTerm {
+  /** Global, for counting. */
+  all: RegExp;
+  /** Non-global, for testing single lines without `lastIndex` state. */
+  one: RegExp;
+  /** Compiled from a `/pattern/flags` query rather than a keyword. */
+  regex?: boolean;
+}
+
+/**
+ * True when a repeated group (`*`, `+`, `{n}`, `{n,m}`) holds an open-ended
+ * quantifier (`*`, `+`, `{n,m}`) or an alternation, the shapes behind
+ * catastrophic backtracking: `(a+)+`, `(.*a){20}`, `(a|aa)+`.
+ */
+export function hasNestedQuantifier(source: string): boolean {
+  type Group = { quantified: boolean; alternation: boolean };
+  const groups: Group[] = [];
+  let current: Group = { quantified: false, alternation: false };
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (ch === "]") inClass = false;
+      continue;
+    }
+    if (ch === "[") inClass = true;
+    else if (ch === "|") current.alternation = true;
+    else if (ch === "(") {
+      groups.push(current);
+      current = { quantified: false, alternation: false };
+    } else if (ch === ")") {
+      const inner = current;
+      current = groups.pop() ?? { quantified: false, alternation: false };
+      current.quantified ||= inner.quantified;
+      if ((inner.quantified || inner.alternation) && /^(?:[*+]|\{\d)/.test(source.slice(i + 1))) return true;
+    } else if (ch === "*" || ch === "+" || (ch === "{" && /^\{\d*,/.test(source.slice(i)))) {
+      current.quantified = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * `/pattern/flags` compiles as one regex; anything else is split into
+ * keywords that must all match. Throws on an invalid regex or one with
+ * nested quantifiers.
+ */
+export function compileSearchQuery(query: string): QueryTerm[] {
+  const regex = /^\/(.+)\/([a-z]*)$/s.exec(query.trim());
+  if (regex) {
+    if (hasNestedQuantifier(regex[1])) {
+      throw new Error("nested quantifiers such as (a+)+ or (a|aa)+ can backtrack without bound; flatten the pattern or search by keywords");
+    }
+    const flags = regex[2].replace(/g/g, "");
+    return [{ all: new RegExp(regex[1], `${flags}g`), one: new RegExp(regex[1], flags), regex: true }];
+  }
+  return query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => {
+      const source = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      return { all: new RegExp(source, "gi"), one: new RegExp(source, "i") };
+    });
+}
+
+/** String values of path-like arguments, including string arrays. */
+export function pathArgValues(args: Record<string, unknown>): string[] {
+  const values: string[] = [];
+  for (const [key, value] of Object.entries(args ?? {})) {
+    if (!PATH_ARG_KEY.test(key)) continue;
+    if (typeof value === "string") values.push(value);
+    else if (Array.isArray(value)) values.push(...value.filter((v): v is string => typeof v === "string"));
+  }
+  return values;
+}
+
+function matchesFilters(record: ToolCallRecord, criteria: HistorySearchCriteria): boolean {
+  const toolName = criteria.toolName?.trim().toLowerCase();
+  if (toolName && record.toolName.toLowerCase() !== toolName) return false;
+  const path = criteria.path?.trim();
+  if (path && !pathArgValues(record.args).some((value) => value.includes(path))) return false;
+  if (criteria.isError !== undefined && record.isError !== criteria.isError) return false;
+  if (criteria.turnFrom !== undefined && record.turnIndex < criteria.turnFrom) return false;
+  if (criteria.turnTo !== undefined && record.turnIndex > criteria.turnTo) return false;
+  return true;
+}
+
+function countMatches(term: QueryTerm, text: string): number {
+  term.all.lastIndex = 0;
+  let count = 0;
+  for (const match of text.matchAll(term.all)) if (match[0].length > 0) count++;
+  return count;
+}
+
+function numberedLine(lines: string[], index: number, matched: boolean): string {
+  const line = lines[index];
+  const text = line.length > MAX_SNIPPET_LINE_CHARS ? `${line.slice(0, MAX_SNIPPET_LINE_CHARS)}…` : line;
+  return `${matched ? ">" : " "} ${index + 1}: ${text}`;
+}
+
+/**
+ * Windows of numbered lines (`>` marks a match) around matching lines;
+ * overlapping windows merge, up to `maxLines` lines per window. Shared with
+ * the in-record grep of `record-slice.ts`.
+ */
+export function matchSnippets(
+  body: string,
+  terms: QueryTerm[],
+  options: { contextLines?: number; maxSnippets?: number; maxLines?: number } = {},
+): string[] {
+  const contextLines = options.contextLines ?? SEARCH_CONTEXT_LINES;
+  const maxSnippets = options.maxSnippets ?? Number.POSITIVE_INFINITY;
+  const maxLines = options.maxLines ?? Number.POSITIVE_INFINITY;
+  const lines = body.split("\n");
+  const snippets: string[] = [];
+  let index = 0;
+  let shownUpTo = -1;
+  while (index < lines.length && snippets.length < maxSnippets) {
+    const isMatch = (i: number) => terms.some((term) => term.one.test(lines[i]));
+    if (!isMatch(index)) {
+      index++;
+      continue;
+    }
+    const start = Math.max(shownUpTo + 1, index - contextLines);
+    const last = Math.min(lines.length - 1, start + maxLines - 1);
+    let end = Math.min(last, index + contextLines);
+    for (let i = index + 1; i <= end; i++) {
+      if (isMatch(i)) end = Math.min(last, i + contextLines);
+    }
+    shownUpTo = end;
+    const window: string[] = [];
+    for (let i = start; i <= end; i++) window.push(numberedLine(lines, i, isMatch(i)));
+    snippets.push(window.join("\n"));
+    index = end + 1;
+  }
+  return snippets;
+}
+
+/** Keeps whole snippet lines until `maxChars` is spent; a cut snippet ends in `…`. */
+function capSnippetChars(snippets: string[], maxChars: number): string[] {
+  const kept: string[] = [];
+  let budget = maxChars;
+  for (const snippet of snippets) {
+    const lines = snippet.split("\n");
+    let fit = 0;
+    while (fit < lines.length && lines[fit].length <= budget) budget -= lines[fit++].length + 1;
+    if (fit === lines.length) {
+      kept.push(snippet);
+      continue;
+    }
+    if (fit > 0) kept.push(lines.slice(0, fit).join("\n"));
+    if (kept.length > 0) kept[kept.length - 1] += "\n  …";
+    break;
+  }
+  return kept;
+}
+
+function headSnippet(record: ToolCallRecord): string[] {
+  const text = record.resultText || record.resultPreview || "";
+  const lines = text.split("\n").slice(0, SEARCH_CONTEXT_LINES * 2 + 1);
+  return text ? [lines.map((_, i) => numberedLine(lines, i, false)).join("\n")] : [];
+}
+
+function recency(record: ToolCallRecord): number {
+  return record.resultTimestamp ?? record.timestamp;
+}
+
+/**
+ * Runs a search over every indexed record. `readBody` returns a record's full
+ * output (reading its sidecar blob when it was spilled); it is only called
+ * for records that pass the filters and only when there is a query.
+ */
+export async function searchToolHistory(
+  indexer: ToolCallIndexer,
+  criteria: HistorySearchCriteria,
+  readBody: (record: ToolCallRecord) => Promise<string>,
+): Promise<HistorySearchResult> {
+  const terms = criteria.query?.trim() ? compileSearchQuery(criteria.query) : [];
+  const limit = Math.min(MAX_SEARCH_LIMIT, Math.max(1, Math.floor(criteria.limit ?? DEFAULT_SEARCH_LIMIT)));
+  const hits: HistorySearchHit[] = [];
+  let searched = 0;
+
+  for (const [key, record] of indexer.getIndex()) {
+    searched++;
+    if (!matchesFilters(record, criteria)) continue;
+    const ref = indexer.getShortRefForToolCallId(key) ?? occKey(record.toolCallId, record.resultTimestamp);
+    if (terms.length === 0) {
+      hits.push({ ref, record, matchCount: 0, snippets: headSnippet(record) });
+      continue;
+    }
+    const fullBody = await readBody(record);
+    const body = terms.some((term) => term.regex) ? fullBody.slice(0, MAX_REGEX_SCAN_CHARS) : fullBody;
+    const argsText = JSON.stringify(record.args ?? {});
+    const counts = terms.map((term) => countMatches(term, body) + countMatches(term, argsText));
+    if (counts.some((count) => count === 0)) continue;
+    hits.push({
+      ref,
+      record,
+      matchCount: counts.reduce((sum, count) => sum + count, 0),
+      snippets: capSnippetChars(
+        matchSnippets(body, terms, { maxSnippets: MAX_SNIPPETS_PER_HIT, maxLines: MAX_SNIPPET_LINES }),
+        MAX_HIT_SNIPPET_CHARS,
+      ),
+    });
+  }
+
+  hits.sort((a, b) => b.matchCount - a.matchCount || recency(b.record) - recency(a.record));
+  return { hits: hits.slice(0, limit), total: hits.length, searched };
+}
+
+function describeCriteria(criteria: HistorySearchCriteria): string {
+  const parts: string[] = [];
+  if (criteria.query?.trim()) parts.push(`query ${JSON.stringify(criteria.query.trim())}`);
+  if (criteria.toolName?.trim()) parts.push(`tool ${criteria.toolName.trim()}`);
+  if (criteria.path?.trim()) parts.push(`path ${JSON.stringify(criteria.path.trim())}`);
+  if (criteria.isError !== undefined) parts.push(criteria.isError ? "errors only" : "successes only");
+  if (criteria.turnFrom !== undefined || criteria.turnTo !== undefined) {
+    parts.push(`turns ${criteria.turnFrom ?? "start"}-${criteria.turnTo ?? "latest"}`);
+  }
+  return parts.join(", ");
+}
+
+function compactArgs(args: Record<string, unknown>): string {
+  const text = JSON.stringify(args ?? {});
+  return text.length > MAX_SNIPPET_LINE_CHARS ? `${text.slice(0, MAX_SNIPPET_LINE_CHARS)}…` : text;
+}
+
+/** Markdown block for the tool result: a heading, then one section per hit. */
+export function formatSearchResult(criteria: HistorySearchCriteria, result: HistorySearchResult): string {
+  const heading = `## Search: ${describeCriteria(criteria)}`;
+  if (result.hits.length === 0) {
+    return `${heading}\nNo matches in ${result.searched} archived tool call${result.searched === 1 ? "" : "s"}.`;
+  }
+  const shown =
+    result.total > result.hits.length
+      ? `Showing ${result.hits.length} of ${result.total} matches (raise limit for more).`
+      : `${result.total} match${result.total === 1 ? "" : "es"}.`;
+  const example = JSON.stringify(result.hits.slice(0, 2).map((hit) => hit.ref));
+  const sections = result.hits.map((hit) => {
+    const status = hit.record.isError ? "ERROR" : "OK";
+    const count = hit.matchCount > 0 ? ` · ${hit.matchCount} match${hit.matchCount === 1 ? "" : "es"}` : "";
+    return [
+      `### ${hit.ref} — ${hit.record.toolName} · ${status} · turn ${hit.record.turnIndex}${count}`,
+      `Args: ${compactArgs(hit.record.args)}`,
+      ...hit.snippets.flatMap((snippet, i) => (i === 0 ? [snippet] : ["  …", snippet])),
+    ].join("\n");
+  });
+  return [
+    heading,
+    `${shown} Fetch full outputs with context_tree_query({ toolCallIds: ${example} }).`,
+    "",
+    sections.join("\n\n"),
+  ].join("\n");
+}
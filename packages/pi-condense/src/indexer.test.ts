@@ -339,6 +339,49 @@ describe("session rebuild", () => {
   });
 });
 
+describe("addSupersededBatch", () => {
+  const supersededBy = { toolCallId: "edit_2", resultTimestamp: 250, toolName: "edit", turnIndex: 2 };
+  const staleRead = (): CapturedBatch => ({
+    turnIndex: 1,
+    timestamp: 1000,
+    assistantText: "",
+    toolCalls: [{ toolCallId: "read_1", toolName: "read", args: { path: "a.ts" }, resultText: "v1", isError: false, resultTimestamp: 150 }],
+  });
+
+  test("indexes the read with its pointer and refs in one entry, without seeding dedup", () => {
+    const indexer = new ToolCallIndexer();
+    const appended: Array<{ type: string; data: any }> = [];
+    const batch = staleRead();
+    const refs = indexer.addSupersededBatch(batch, new Map([[batch.toolCalls[0], supersededBy]]), (type, data) =>
+      appended.push({ type, data }),
+    );
+
+    expect(refs).toEqual([{ shortId: "t1", toolCallId: "read_1", resultTimestamp: 150 }]);
+    expect(indexer.getRecord("t1")?.supersededBy).toEqual(supersededBy);
+    expect(indexer.isSummarized(occKey("read_1", 150))).toBe(true);
+    expect(indexer.lookupByContent("read", "v1")).toBeUndefined();
+    expect(appended).toHaveLength(1);
+    expect(appended[0].type).toBe(CUSTOM_TYPE_INDEX);
+    expect(appended[0].data.refs).toEqual(refs);
+  });
+
+  test("reconstruction round-trip keeps the ref and the pointer, still without seeding dedup", () => {
+    const appended: Array<{ type: string; data: any }> = [];
+    const batch = staleRead();
+    new ToolCallIndexer().addSupersededBatch(batch, new Map([[batch.toolCalls[0], supersededBy]]), (type, data) =>
+      appended.push({ type, data }),
+    );
+
+    const rebuilt = new ToolCallIndexer();
+    const ctx = { sessionManager: { getBranch: () => [{ type: "custom", customType: CUSTOM_TYPE_INDEX, data: appended[0].data }] } } as any;
+    rebuilt.reconstructFromSession(ctx);
+
+    expect(rebuilt.getRecord("t1")?.supersededBy).toEqual(supersededBy);
+    expect(rebuilt.getShortRefForToolCallId(occKey("read_1", 150))).toBe("t1");
+    expect(rebuilt.lookupByContent("read", "v1")).toBeUndefined();
+  });
+});
+
 function backfillOpts(appended: Array<{ type: string; data: any }>, tmpDir: string) {
   return {
     spillThreshold: 100_000,
@@ -1,15 +1,20 @@
 import type { ExtensionContext } from "@earendil-works/pi-coding-agent";
 import type {
   CapturedBatch,
+  CapturedToolCall,
   ChainCompressionEntry,
   DedupAliasEntryData,
   IndexEntryData,
+  PinEntryData,
+  SupersededBy,
   ToolCallRecord,
 } from "./types.js";
 import {
   CUSTOM_TYPE_CHAIN,
   CUSTOM_TYPE_DEDUP_ALIAS,
+  CUSTOM_TYPE_FRONTIER,
   CUSTOM_TYPE_INDEX,
+  CUSTOM_TYPE_PIN,
   CUSTOM_TYPE_SUMMARY,
 } from "./types.js";
 import {
@@ -57,6 +62,20 @@ export class ToolCallIndexer {
   /** Compressed chains, keyed on startUserTimestamp for O(1) dedup checks. */
   private chainRegistry = new Map<number, ChainCompressionEntry>();
 
+  /**
+   * Pinned occurrence keys (bare ids for timestamp-less results) -> tool
+   * name. Keys need not be indexed: a live result can be pinned before any
+   * flush sees it. Rebuilt by replaying CUSTOM_TYPE_PIN entries in order.
+   */
+  private pins = new Map<string, string>();
+  /**
+   * Keys unpinned since the last flush attempt. Capture takes them back even
+   * behind the prune frontier, which may have moved past them while they
+   * were pinned; the next frontier advance (or CUSTOM_TYPE_FRONTIER entry on
+   * replay) clears the set.
+   */
+  private releasedPins = new Set<string>();
+
   /**
    * Rebuilds the in-memory index from session history by scanning all
    * custom entries with customType === CUSTOM_TYPE_INDEX.
@@ -71,6 +90,8 @@ export class ToolCallIndexer {
     this.nextShortAliasNumber = 1;
     this.summaryBodies = [];
     this.chainRegistry.clear();
+    this.pins.clear();
+    this.releasedPins.clear();
 
     // Two passes so dedup aliases land AFTER the original short refs they
     // need to reuse, regardless of the underlying append order.
@@ -85,9 +106,10 @@ export class ToolCallIndexer {
           for (const toolCall of data.toolCalls) {
             const key = this.indexRecord(toolCall);
             // First-seen wins so the contentHashToOriginal map matches what
-            // addBatch would have produced at append time. Backfilled records
-            // never seed this map (dedup poison guard - see backfillChainRecords).
-            if (!backfilled) {
+            // addBatch would have produced at append time. Backfilled and
+            // superseded records never seed this map (dedup poison guard - see
+            // backfillChainRecords / addSupersededBatch).
+            if (!backfilled && !toolCall.supersededBy) {
               const hash = toolCall.contentHash ?? hashToolResult(toolCall.toolName, toolCall.resultText);
               if (!this.contentHashToOriginal.has(hash)) {
                 this.contentHashToOriginal.set(hash, key);
@@ -95,7 +117,7 @@ export class ToolCallIndexer {
             }
           }
         }
-        if (backfilled && Array.isArray(data.refs)) this.registerSummaryRefs(data.refs);
+        if (Array.isArray(data.refs)) this.registerSummaryRefs(data.refs);
         continue;
       }
 
@@ -126,6 +148,20 @@ export class ToolCallIndexer {
         continue;
       }
 
+      if (entry.type === "custom" && (entry as any).customType === CUSTOM_TYPE_PIN) {
+        const data = (entry as any).data as PinEntryData;
+        if (data?.toolCallId) {
+          const key = occKey(data.toolCallId, data.resultTimestamp);
+          this.applyPin(key, data.toolName ?? "unknown", data.pinned);
+        }
+        continue;
+      }
+
+      if (entry.type === "custom" && (entry as any).customType === CUSTOM_TYPE_FRONTIER) {
+        this.releasedPins.clear();
+        continue;
+      }
+
       if (entry.type === "custom" && (entry as any).customType === CUSTOM_TYPE_DEDUP_ALIAS) {
         const data = (entry as any).data as DedupAliasEntryData;
         if (data?.newToolCallId && data?.originalToolCallId) {
@@ -450,6 +486,58 @@ export class ToolCallIndexer {
     return refs;
   }
 
+  /**
+   * Pins or unpins an occurrence key and persists the change via the
+   * supplied `appendEntry`. Returns false (and appends nothing) when the
+   * key is already in the requested state.
+   */
+  setPinned(
+    occurrenceKey: string,
+    toolName: string,
+    pinned: boolean,
+    appendEntry: (customType: string, data?: unknown) => void,
+  ): boolean {
+    if (this.pins.has(occurrenceKey) === pinned) return false;
+    const { toolCallId, resultTimestamp } = parseOccKey(occurrenceKey);
+    appendEntry(CUSTOM_TYPE_PIN, {
+      toolCallId,
+      ...(resultTimestamp !== undefined ? { resultTimestamp } : {}),
+      toolName,
+      pinned,
+    } satisfies PinEntryData);
+    this.applyPin(occurrenceKey, toolName, pinned);
+    return true;
+  }
+
+  private applyPin(occurrenceKey: string, toolName: string, pinned: boolean): void {
+    if (pinned) {
+      this.pins.set(occurrenceKey, toolName);
+      this.releasedPins.delete(occurrenceKey);
+    } else {
+      this.pins.delete(occurrenceKey);
+      this.releasedPins.add(occurrenceKey);
+    }
+  }
+
+  isPinned(occurrenceKey: string): boolean {
+    return this.pins.has(occurrenceKey);
+  }
+
+  /** True when the key was unpinned since the last flush attempt (see `releasedPins`). */
+  isReleasedPin(occurrenceKey: string): boolean {
+    return this.releasedPins.has(occurrenceKey);
+  }
+
+  /** Called once a flush attempt advanced the frontier: released pins were offered to it. */
+  clearReleasedPins(): void {
+    this.releasedPins.clear();
+  }
+
+  /** Pinned occurrence keys -> tool name, in pin order. */
+  getPins(): ReadonlyMap<string, string> {
+    return this.pins;
+  }
+
   /** Registers a chain entry in the in-memory registry. Called by chain-compressor after persisting. */
   registerChain(entry: ChainCompressionEntry): void {
     this.chainRegistry.set(entry.startUserTimestamp, entry);
@@ -511,6 +599,37 @@ export class ToolCallIndexer {
     appendEntry(CUSTOM_TYPE_INDEX, { toolCalls: records } as IndexEntryData);
   }
 
+  /**
+   * Indexes the reads the supersession pass retired from `batch`, each
+   * tagged with the newer occurrence that superseded it (see
+   * src/supersession.ts). No summary message covers them, so their refs ride
+   * the index entry like a backfill's. Records never seed
+   * contentHashToOriginal: a later identical read must not dedup onto a stub
+   * that says "superseded".
+   */
+  addSupersededBatch(
+    batch: CapturedBatch,
+    supersededBy: ReadonlyMap<CapturedToolCall, SupersededBy>,
+    appendEntry: (customType: string, data?: unknown) => void,
+  ): SummaryToolCallRef[] {
+    const records: ToolCallRecord[] = batch.toolCalls.map((tc) => ({
+      toolCallId: tc.toolCallId,
+      toolName: tc.toolName,
+      args: tc.args,
+      resultText: tc.resultText,
+      isError: tc.isError,
+      turnIndex: batch.turnIndex,
+      timestamp: batch.timestamp,
+      ...(tc.resultTimestamp !== undefined ? { resultTimestamp: tc.resultTimestamp } : {}),
+      ...(supersededBy.has(tc) ? { supersededBy: supersededBy.get(tc) } : {}),
+    }));
+    const refs = this.allocateSummaryRefs(batch);
+    appendEntry(CUSTOM_TYPE_INDEX, { toolCalls: records, refs } satisfies IndexEntryData);
+    for (const r of records) this.indexRecord(r);
+    this.registerSummaryRefs(refs);
+    return refs;
+  }
+
   /**
    * Atomic recoverability backfill for an uncovered chain (spec
    * 2026-08-14-uncovered-chain-deterministic-backfill). Append-before-commit:
@@ -34,3 +34,17 @@ export function parseOccKey(key: string): { toolCallId: string; resultTimestamp?
 export function bareToolCallId(key: string): string {
   return parseOccKey(key).toolCallId;
 }
+
+/**
+ * True when any of `keys` denotes an entry of `wanted`. Exact occurrence-key
+ * match first; the bare-id fallback applies only to `wanted` entries that
+ * themselves carry no timestamp, so a DIFFERENT occurrence of a reused
+ * provider id never matches.
+ */
+export function matchesAnyKey(keys: readonly string[], wanted: ReadonlySet<string>): boolean {
+  if (keys.some((k) => wanted.has(k))) return true;
+  for (const w of wanted) {
+    if (parseOccKey(w).resultTimestamp === undefined && keys.some((k) => bareToolCallId(k) === w)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import { ToolCallIndexer } from "./indexer.js";
+import { registerPinTool } from "./pin-tool.js";
+import { CUSTOM_TYPE_PIN, PIN_TOOL_NAME } from "./types.js";
+
+const liveResult = (toolCallId: string, timestamp: number) => ({
+  type: "message",
+  message: { role: "toolResult", toolCallId, toolName: "bash", content: [{ type: "text", text: "FAIL" }], isError: false, timestamp },
+});
+
+const setup = (branch: any[]) => {
+  const indexer = new ToolCallIndexer();
+  const appended: Array<{ type: string; data: any }> = [];
+  let registered: any;
+  registerPinTool(
+    {
+      registerTool: (def: any) => (registered = def),
+      appendEntry: (type: string, data?: unknown) => appended.push({ type, data }),
+    } as any,
+    indexer,
+  );
+  const ctx = { sessionManager: { getBranch: () => branch } };
+  const execute = (params: Record<string, unknown>): Promise<any> => registered.execute("call-1", params, undefined, undefined, ctx);
+  return { indexer, appended, registered, execute };
+};
+
+describe("context_pin", () => {
+  test("pins a live result from the session branch and unpins it", async () => {
+    const { indexer, appended, registered, execute } = setup([
+      { type: "custom", customType: "other", data: {} },
+      liveResult("bash_1", 2000),
+    ]);
+    expect(registered.name).toBe(PIN_TOOL_NAME);
+
+    const pinned = await execute({ toolCallIds: ["bash_1", "bash_9"] });
+    expect(pinned.content[0].text).toBe(
+      "Pinned `bash_1` (bash): kept verbatim until unpinned.\n`bash_9`: no tool result with this ref or id in this session.",
+    );
+    expect(pinned.details).toEqual({ pinned: true, pins: ["bash_1@2000"] });
+    expect(indexer.isPinned("bash_1@2000")).toBe(true);
+    expect(appended).toEqual([
+      { type: CUSTOM_TYPE_PIN, data: { toolCallId: "bash_1", resultTimestamp: 2000, toolName: "bash", pinned: true } },
+    ]);
+
+    const unpinned = await execute({ toolCallIds: ["bash_1"], unpin: true });
+    expect(unpinned.content[0].text).toBe("Unpinned `bash_1` (bash).");
+    expect(unpinned.details).toEqual({ pinned: false, pins: [] });
+    expect(appended).toHaveLength(2);
+  });
+
+  test("rejects an empty toolCallIds list", async () => {
+    const { appended, execute } = setup([]);
+    await expect(execute({ toolCallIds: [] })).rejects.toThrow("Pass at least one short ref or toolCallId");
+    expect(appended).toHaveLength(0);
+  });
+});
@@ -0,0 +1,41 @@
+import { Type } from "@sinclair/typebox";
+import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import type { ToolCallIndexer } from "./indexer.js";
+import { applyPinRequests } from "./pins.js";
+import { PIN_TOOL_NAME } from "./types.js";
+
+export function registerPinTool(pi: ExtensionAPI, indexer: ToolCallIndexer): void {
+  pi.registerTool({
+    name: PIN_TOOL_NAME,
+    label: "Pin Tool Results",
+    description:
+      "Keep specific tool results verbatim in context: a pinned result is never summarized, chain-compressed or error-purged until it is unpinned. Pass short refs from a pruner-summary message (e.g. \"t12\") or the toolCallIds of live results, e.g. context_pin({ toolCallIds: [\"t12\"] }); a result that was already summarized comes back in full. Unpin with context_pin({ toolCallIds: [\"t12\"], unpin: true }) once you no longer need it.",
+    promptSnippet: "Pin tool results so they are never pruned from context",
+    promptGuidelines: [
+      "When you are iterating on one specific tool result (e.g. the failing test output you are fixing), pin it with context_pin so pruning keeps it verbatim, and unpin it once it is resolved.",
+    ],
+    parameters: Type.Object({
+      toolCallIds: Type.Array(Type.String(), {
+        description: 'Short refs (e.g. "t12"), occurrence keys (id@timestamp) or raw tool call IDs of results in this session.',
+      }),
+      unpin: Type.Optional(Type.Boolean({ description: "Remove the pins instead of adding them (default false)." })),
+    }),
+
+    async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+      if (params.toolCallIds.length === 0) {
+        throw new Error("Pass at least one short ref or toolCallId in toolCallIds.");
+      }
+      const messages = ctx.sessionManager
+        .getBranch()
+        .filter((entry: any) => entry.type === "message" && entry.message)
+        .map((entry: any) => entry.message);
+      const pinned = params.unpin !== true;
+      const lines = applyPinRequests(params.toolCallIds, pinned, indexer, messages, (type, data) => pi.appendEntry(type, data));
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        details: { pinned, pins: [...indexer.getPins().keys()] },
+      };
+    },
+  });
+}
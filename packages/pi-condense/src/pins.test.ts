@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import { ToolCallIndexer } from "./indexer.js";
+import { applyPinRequests, formatPinList, resolvePinTarget } from "./pins.js";
+import { CUSTOM_TYPE_FRONTIER, CUSTOM_TYPE_PIN } from "./types.js";
+
+const result = (toolCallId: string, timestamp: number, text = "out") => ({
+  role: "toolResult",
+  toolCallId,
+  toolName: "bash",
+  content: [{ type: "text", text }],
+  isError: false,
+  timestamp,
+});
+
+function summarizedIndexer(): ToolCallIndexer {
+  const indexer = new ToolCallIndexer();
+  const batch = {
+    turnIndex: 1,
+    timestamp: 1000,
+    assistantText: "",
+    toolCalls: [{ toolCallId: "read_1", toolName: "read", args: { path: "a.ts" }, resultText: "x", isError: false, resultTimestamp: 1100 }],
+  };
+  indexer.addBatch(batch, () => {});
+  indexer.registerSummaryRefs(indexer.allocateSummaryRefs(batch));
+  return indexer;
+}
+
+describe("resolvePinTarget", () => {
+  test("short refs resolve through the index; live ids to their latest occurrence", () => {
+    const indexer = summarizedIndexer();
+    expect(resolvePinTarget("t1", indexer, [])).toEqual({ key: "read_1@1100", toolName: "read", label: "t1" });
+
+    const messages = [result("bash_2", 2000), result("bash_2", 3000)];
+    expect(resolvePinTarget("bash_2", indexer, messages)?.key).toBe("bash_2@3000");
+    expect(resolvePinTarget("bash_2@2000", indexer, messages)?.key).toBe("bash_2@2000");
+    expect(resolvePinTarget("bash_9", indexer, messages)).toBeUndefined();
+  });
+});
+
+describe("applyPinRequests", () => {
+  test("persists each change once and replays it on reconstruct", () => {
+    const indexer = summarizedIndexer();
+    const messages = [result("bash_2", 2000)];
+    const appended: Array<{ type: string; data: any }> = [];
+    const append = (type: string, data?: unknown) => appended.push({ type, data });
+
+    expect(applyPinRequests(["t1", "bash_2", "nope"], true, indexer, messages, append)).toEqual([
+      "Pinned `t1` (read): kept verbatim until unpinned.",
+      "Pinned `bash_2` (bash): kept verbatim until unpinned.",
+      "`nope`: no tool result with this ref or id in this session.",
+    ]);
+    expect(applyPinRequests(["t1"], true, indexer, messages, append)).toEqual(["`t1` (read) is already pinned."]);
+    expect(applyPinRequests(["bash_2"], false, indexer, messages, append)).toEqual(["Unpinned `bash_2` (bash)."]);
+    expect(appended.map((e) => e.type)).toEqual([CUSTOM_TYPE_PIN, CUSTOM_TYPE_PIN, CUSTOM_TYPE_PIN]);
+    expect(appended[0].data).toEqual({ toolCallId: "read_1", resultTimestamp: 1100, toolName: "read", pinned: true });
+
+    const rebuilt = new ToolCallIndexer();
+    const branch = appended.map((e) => ({ type: "custom", customType: e.type, data: e.data }));
+    rebuilt.reconstructFromSession({ sessionManager: { getBranch: () => branch } } as any);
+    expect([...rebuilt.getPins().keys()]).toEqual(["read_1@1100"]);
+    expect(rebuilt.isPinned("bash_2@2000")).toBe(false);
+    expect(formatPinList(indexer)).toBe("  t1  read_1@1100 (read)");
+  });
+});
+
+describe("released pins", () => {
+  test("an unpin releases the key until the next frontier entry, live and on replay", () => {
+    const indexer = new ToolCallIndexer();
+    const appended: Array<{ type: string; data: any }> = [];
+    const append = (type: string, data?: unknown) => appended.push({ type, data });
+    const messages = [result("bash_2", 2000)];
+
+    applyPinRequests(["bash_2"], true, indexer, messages, append);
+    expect(indexer.isReleasedPin("bash_2@2000")).toBe(false);
+    applyPinRequests(["bash_2"], false, indexer, messages, append);
+    expect(indexer.isReleasedPin("bash_2@2000")).toBe(true);
+    indexer.clearReleasedPins();
+    expect(indexer.isReleasedPin("bash_2@2000")).toBe(false);
+
+    const branch: any[] = appended.map((e) => ({ type: "custom", customType: e.type, data: e.data }));
+    const ctx = { sessionManager: { getBranch: () => branch } } as any;
+    const rebuilt = new ToolCallIndexer();
+    rebuilt.reconstructFromSession(ctx);
+    expect(rebuilt.isReleasedPin("bash_2@2000")).toBe(true);
+
+    branch.push({ type: "custom", customType: CUSTOM_TYPE_FRONTIER, data: { lastAttemptedToolCallId: "bash_2" } });
+    rebuilt.reconstructFromSession(ctx);
+    expect(rebuilt.isReleasedPin("bash_2@2000")).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import type { ToolCallIndexer } from "./indexer.js";
+import { occKey, parseOccKey, resultTimestampOf } from "./occurrence-key.js";
+
+/**
+ * Pinning: keep one specific tool result verbatim until it is unpinned.
+ *
+ * `protectedTools`/`protectedPaths` are static globs; a pin names a single
+ * occurrence (e.g. the failing test output being iterated on). Pins are
+ * stored by the indexer under the same occurrence-key space the recovery
+ * grace window uses, and behave like a grace that never expires:
+ *   - capture skips pinned calls, so they are never summarized;
+ *   - `pruneMessages` renders a pinned result verbatim even when it was
+ *     summarized, spilled or superseded before the pin;
+ *   - chain compression defers chains holding a pinned result, and a chain
+ *     compressed before the pin renders uncompressed while it lasts;
+ *   - error purge leaves a pinned failed call's arguments alone.
+ *
+ * Unpinning restores stubbing for results that have an index record. A live
+ * result the prune frontier moved past while it was pinned goes back to
+ * capture: the next flush takes it from behind the frontier without moving
+ * the frontier back (see `ToolCallIndexer.isReleasedPin`).
+ */
+
+export interface PinTarget {
+  /** Occurrence key the pin is stored under (bare id for legacy results). */
+  key: string;
+  toolName: string;
+  /** How to name it back to the caller: its `tN` ref when it has one. */
+  label: string;
+}
+
+export type PinAppendEntry = (customType: string, data?: unknown) => void;
+
+/**
+ * Resolves a short ref, occurrence key or live toolCallId to the occurrence
+ * it denotes. Indexed records win; otherwise the LATEST toolResult in
+ * `messages` carrying the id (and the timestamp, when the input has one).
+ */
+export function resolvePinTarget(input: string, indexer: ToolCallIndexer, messages: any[]): PinTarget | undefined {
+  const ref = input.trim();
+  if (!ref) return undefined;
+
+  const indexed = indexer.resolveToolCallId(ref);
+  if (indexed) {
+    return {
+      key: indexed,
+      toolName: indexer.getRecord(indexed)?.toolName ?? "unknown",
+      label: indexer.getShortRefForToolCallId(indexed) ?? ref,
+    };
+  }
+
+  const pinnedToolName = indexer.getPins().get(ref);
+  if (pinnedToolName !== undefined) return { key: ref, toolName: pinnedToolName, label: ref };
+
+  const { toolCallId, resultTimestamp } = parseOccKey(ref);
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg?.role !== "toolResult" || msg.toolCallId !== toolCallId) continue;
+    const timestamp = resultTimestampOf(msg.timestamp);
+    if (resultTimestamp !== undefined && timestamp !== resultTimestamp) continue;
+    const key = occKey(toolCallId, timestamp);
+    return {
+      key,
+      toolName: typeof msg.toolName === "string" ? msg.toolName : "unknown",
+      label: indexer.getShortRefForToolCallId(key) ?? ref,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Pins (or unpins) each input and returns one result line per input, shared
+ * by `context_pin` and `/pruner pin`/`unpin`.
+ */
+export function applyPinRequests(
+  inputs: string[],
+  pinned: boolean,
+  indexer: ToolCallIndexer,
+  messages: any[],
+  appendEntry: PinAppendEntry,
+): string[] {
+  return inputs.map((input) => {
+    const target = resolvePinTarget(input, indexer, messages);
+    if (!target) return `\`${input}\`: no tool result with this ref or id in this session.`;
+    const name = `\`${target.label}\` (${target.toolName})`;
+    if (!indexer.setPinned(target.key, target.toolName, pinned, appendEntry)) {
+      return pinned ? `${name} is already pinned.` : `${name} was not pinned.`;
+    }
+    return pinned ? `Pinned ${name}: kept verbatim until unpinned.` : `Unpinned ${name}.`;
+  });
+}
+
+/** One line per current pin, or undefined when nothing is pinned. */
+export function formatPinList(indexer: ToolCallIndexer): string | undefined {
+  const lines = [...indexer.getPins()].map(([key, toolName]) => {
+    const ref = indexer.getShortRefForToolCallId(key);
+    return `  ${ref ? `${ref}  ` : ""}${key} (${toolName})`;
+  });
+  return lines.length > 0 ? lines.join("\n") : undefined;
+}
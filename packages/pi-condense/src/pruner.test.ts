@@ -615,6 +615,49 @@ describe("occurrence-keyed stub replacement", () => {
     expect(out.messages[3].content[0].text).toBe("LIVE");
   });
 
+  it("stubs a superseded read with a pointer to the newer call on the same path", () => {
+    const idx = new ToolCallIndexer();
+    const read = { toolCallId: "read_1", toolName: "read", args: { path: "src/a.ts" }, resultText: "v1", isError: false, resultTimestamp: 1150 };
+    const batch = { turnIndex: 0, timestamp: 1000, assistantText: "", toolCalls: [read] };
+    idx.addSupersededBatch(batch, new Map([[read, { toolCallId: "edit_2", resultTimestamp: 2150, toolName: "edit", turnIndex: 1 }]]), () => {});
+    const messages: any[] = [
+      { role: "assistant", content: [{ type: "toolCall", id: "read_1", name: "read", input: {} }], timestamp: 1100 },
+      { role: "toolResult", toolCallId: "read_1", toolName: "read", content: [{ type: "text", text: "v1" }], isError: false, timestamp: 1150 },
+      { role: "assistant", content: [{ type: "toolCall", id: "edit_2", name: "edit", input: {} }], timestamp: 2100 },
+      { role: "toolResult", toolCallId: "edit_2", toolName: "edit", content: [{ type: "text", text: "ok" }], isError: false, timestamp: 2150 },
+    ];
+    expect(pruneMessages(messages, idx).messages[1].content[0].text).toBe(
+      "[Stale read: `src/a.ts` was edited later (turn 1). This output is ref `t1`; use context_tree_query to retrieve it.]",
+    );
+
+    // Once the edit is summarized its ref joins the pointer.
+    idx.addBatch({ turnIndex: 1, timestamp: 2000, assistantText: "", toolCalls: [{ toolCallId: "edit_2", toolName: "edit", args: { path: "src/a.ts" }, resultText: "ok", isError: false, resultTimestamp: 2150 }] }, () => {});
+    idx.registerSummaryRefs([{ shortId: "t2", toolCallId: "edit_2", resultTimestamp: 2150 }]);
+    expect(pruneMessages(messages, idx).messages[1].content[0].text).toContain("(turn 1, ref `t2`)");
+  });
+
+  it("leaves a pinned occurrence verbatim even after it was summarized", () => {
+    const idx = new ToolCallIndexer();
+    idx.addBatch(
+      {
+        turnIndex: 0,
+        timestamp: 1000,
+        assistantText: "",
+        toolCalls: [{ toolCallId: "bash_1", toolName: "bash", args: {}, resultText: "FAILING TEST", isError: false, resultTimestamp: 1150 }],
+      } as any,
+      () => {},
+    );
+    const messages: any[] = [
+      { role: "assistant", content: [{ type: "toolCall", id: "bash_1", name: "bash", input: {} }], timestamp: 1100 },
+      { role: "toolResult", toolCallId: "bash_1", toolName: "bash", content: [{ type: "text", text: "FAILING TEST" }], isError: false, timestamp: 1150 },
+    ];
+    const pinned = new Set(["bash_1@1150"]);
+    const out = pruneMessages(messages, idx, undefined, undefined, undefined, 0, undefined, pinned);
+    expect(out.pruned).toBe(false);
+    expect(out.messages[1].content[0].text).toBe("FAILING TEST");
+    expect(pruneMessages(messages, idx).messages[1].content[0].text).toContain("Summarized in pruner summary");
+  });
+
   it("fail-closed: a timestamped result with no occurrence record is never stubbed", () => {
     const idx = new ToolCallIndexer();
     idx.addBatch(
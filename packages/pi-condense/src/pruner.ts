@@ -5,8 +5,9 @@ import { isProtected, type ProtectionConfig } from "./protected.js";
 import { applyChainCompressions } from "./chain-range-prune.js";
 import { purgeErroredArgs } from "./error-purge.js";
 import { inGraceRecoveryToolCallIds } from "./recovery-grace.js";
-import { occKey } from "./occurrence-key.js";
+import { matchesAnyKey, occKey } from "./occurrence-key.js";
 import { sweepOrphanToolResults } from "./orphan-sweep.js";
+import { formatSupersededStub } from "./supersession.js";
 import type { DiagnosticSink } from "./diagnostics.js";
 
 /**
@@ -23,7 +24,9 @@ export function sizeMessages(messages: any[]): number {
  * Transforms the `context` event message array in four phases:
  *
  * Phase 1 — stub-replace: ToolResultMessages for summarized tool calls are
- * replaced with short stubs pointing the model at `context_tree_query`.
+ * replaced with short stubs pointing the model at `context_tree_query`. A
+ * superseded read's stub also points at the newer call on the same path.
+ * Pinned results (`pinnedKeys`, see src/pins.ts) are left verbatim.
  *
  * Why stubs instead of dropping the message entirely:
  *   - Dropping orphans the matching `toolCall` block inside the
@@ -39,12 +42,14 @@ export function sizeMessages(messages: any[]): number {
  *
  * Phase 2 — error purge: replaces failed toolCall arg bodies with stubs after a
  * cooldown, reclaiming context from large `write`/`edit` arguments that will
- * never succeed. The toolResult error message stays visible.
+ * never succeed. The toolResult error message stays visible. Pinned failed
+ * calls keep their arguments.
  *
  * Phase 3 — chain range prune: closed chains older than the rolling window
  * are dropped (middle assistant + toolResult messages) and replaced with a
  * synthetic user message wrapping the existing per-batch summary text.
- * Only runs when `chainCompression.enabled` and chain entries exist.
+ * Only runs when `chainCompression.enabled` and chain entries exist. A chain
+ * holding a pinned result is not applied, so its range renders uncompressed.
  *
  * Phase 4 — orphan sweep: structural post-condition run unconditionally over
  * the final array. Removes any toolResult whose matching toolCall id was not
@@ -77,6 +82,7 @@ export function pruneMessages(
   protection?: ProtectionConfig,
   recoveryGraceTurns: number = 0,
   diagnostics?: DiagnosticSink,
+  pinnedKeys: ReadonlySet<string> = new Set(),
 ): { messages: any[]; pruned: boolean; beforeChars: number; afterChars: number } {
   // Phase 1: stub-replace summarized tool results
   let pruned = false;
@@ -108,7 +114,7 @@ export function pruneMessages(
     if (protection && record && isProtected(record.toolName, record.args, protection)) {
       return msg;
     }
-    if (inGrace.has(key)) {
+    if (inGrace.has(key) || pinnedKeys.has(key) || pinnedKeys.has(lookupKey)) {
       return msg;
     }
     pruned = true;
@@ -122,7 +128,13 @@ export function pruneMessages(
           `Full output — read this file (offset/limit supported): ${record.spillPath}`,
           `Or use context_tree_query with ref \`${ref}\`.`,
         ].join("\n")
-      : `[Summarized in pruner summary, ref \`${ref}\`. Use context_tree_query to retrieve full output.]`;
+      : record?.supersededBy
+        ? formatSupersededStub(
+            { args: record.args, supersededBy: record.supersededBy },
+            ref,
+            indexer.getShortRefForToolCallId(occKey(record.supersededBy.toolCallId, record.supersededBy.resultTimestamp)),
+          )
+        : `[Summarized in pruner summary, ref \`${ref}\`. Use context_tree_query to retrieve full output.]`;
     return {
       role: "toolResult",
       toolCallId: msg.toolCallId,
@@ -137,7 +149,7 @@ export function pruneMessages(
 
   // Phase 2: error purge — replace failed toolCall arg bodies after cooldown
   if (errorPurge?.enabled) {
-    const afterPurge = purgeErroredArgs(current, errorPurge);
+    const afterPurge = purgeErroredArgs(current, errorPurge, pinnedKeys);
     if (afterPurge !== current) {
       current = afterPurge;
       pruned = true;
@@ -146,7 +158,9 @@ export function pruneMessages(
 
   // Phase 3: chain range prune — drop closed chains beyond the rolling window
   if (chainCompression?.enabled) {
-    const chainEntries = indexer.getChainEntries();
+    const chainEntries = indexer
+      .getChainEntries()
+      .filter((entry) => !matchesAnyKey(entry.droppedOccurrenceKeys ?? entry.droppedToolCallIds, pinnedKeys));
     if (chainEntries.length > 0) {
       // Prefer the cohesive LLM range summary (B) when present; fall back to the
       // per-batch concatenation for spans compressed before fusion / on failure.
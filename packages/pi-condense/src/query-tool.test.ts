@@ -1,4 +1,8 @@
-import { describe, expect, test } from "bun:test";
+import { describe, expect, spyOn, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DEFAULT_MAX_BYTES } from "@earendil-works/pi-coding-agent";
 import { registerQueryTool } from "./query-tool.js";
 import { ToolCallIndexer } from "./indexer.js";
 import type { CapturedBatch } from "./types.js";
@@ -24,10 +28,14 @@ const captureLegacy = (idx: ToolCallIndexer, id: string, timestamp: number, text
 };
 
 // execute returns { content: [{ type: "text", text }], details } (src/query-tool.ts:73-76)
-const runTool = async (indexer: ToolCallIndexer, toolCallIds: string[]): Promise<string> => {
+const executeTool = async (indexer: ToolCallIndexer, params: Record<string, unknown>): Promise<any> => {
   let registered: any;
   registerQueryTool({ registerTool: (def: any) => (registered = def) } as any, indexer);
-  const result = await registered.execute("call-1", { toolCallIds }, undefined, undefined, undefined);
+  return registered.execute("call-1", params, undefined, undefined, undefined);
+};
+
+const runTool = async (indexer: ToolCallIndexer, toolCallIds: string[]): Promise<string> => {
+  const result = await executeTool(indexer, { toolCallIds });
   return result.content[0].text as string;
 };
 
@@ -144,3 +152,157 @@ describe("context_tree_query occurrence handling", () => {
     expect(text).toContain("Turn: -1");
   });
 });
+
+describe("context_tree_query search", () => {
+  test("a query returns ranked hits with refs the model can pass back as toolCallIds", async () => {
+    const idx = new ToolCallIndexer();
+    capture(idx, "bash_1", 1150, "all good", 0);
+    capture(idx, "bash_2", 2150, "Traceback (most recent call last):\nKeyError: 'port'", 1);
+    idx.registerSummaryRefs([
+      { shortId: "t1", toolCallId: "bash_1", resultTimestamp: 1150 },
+      { shortId: "t2", toolCallId: "bash_2", resultTimestamp: 2150 },
+    ]);
+
+    const result = await executeTool(idx, { query: "traceback" });
+    const text = result.content[0].text as string;
+    expect(text).toContain('## Search: query "traceback"');
+    expect(text).toContain("### t2 — bash · OK · turn 1 · 1 match");
+    expect(text).not.toContain("### t1");
+    expect(result.details.hits).toEqual([{ ref: "t2", toolName: "bash", turnIndex: 1, matchCount: 1 }]);
+
+    expect(await runTool(idx, [result.details.hits[0].ref])).toContain("KeyError: 'port'");
+  });
+
+  test("refs and a search can be combined in one call", async () => {
+    const idx = new ToolCallIndexer();
+    capture(idx, "bash_1", 1150, "FIRST", 0);
+    const text = (await executeTool(idx, { toolCallIds: ["bash_1"], toolName: "read" })).content[0].text as string;
+    expect(text).toContain("## toolRef: bash_1\n");
+    expect(text).toContain("## Search: tool read\nNo matches in 1 archived tool call.");
+  });
+
+  test("a call with neither refs nor search parameters, or an invalid regex, is rejected", async () => {
+    const idx = new ToolCallIndexer();
+    await expect(executeTool(idx, {})).rejects.toThrow("Pass toolCallIds");
+    await expect(executeTool(idx, { query: "/([/" })).rejects.toThrow("Invalid search query");
+    await expect(executeTool(idx, { query: "/(a+)+$/" })).rejects.toThrow("nested quantifiers");
+  });
+
+  test("a search over records matching on every line stays within the output cap", async () => {
+    const idx = new ToolCallIndexer();
+    const body = Array.from({ length: 20_000 }, (_, i) => `error ${i + 1}: ${"x".repeat(150)}`).join("\n");
+    for (let i = 0; i < 50; i++) capture(idx, `bash_${i}`, 1000 + i, `${body}\n${i}`, i);
+
+    const text = (await executeTool(idx, { query: "error", limit: 50 })).content[0].text as string;
+    expect(Buffer.byteLength(text)).toBeLessThanOrEqual(DEFAULT_MAX_BYTES + 200);
+    expect(text).toContain("[Search output truncated:");
+  });
+
+  test("unreadable sidecars are logged once per search, not once per record", async () => {
+    const spy = spyOn(console, "error").mockImplementation(() => {});
+    const idx = new ToolCallIndexer();
+    const spilled = (toolCallId: string, resultTimestamp: number) => ({
+      toolCallId,
+      toolName: "bash",
+      args: { command: "build" },
+      resultText: "",
+      isError: false,
+      resultTimestamp,
+      spillPath: join(tmpdir(), `ctq-missing-${toolCallId}.txt`),
+      spillBytes: 90_000,
+      resultPreview: "error: build failed",
+    });
+    idx.addBatch(
+      { turnIndex: 1, timestamp: 1000, assistantText: "", toolCalls: [spilled("bash_1", 1010), spilled("bash_2", 1020)] },
+      () => {},
+    );
+
+    const result = await executeTool(idx, { query: "build failed" });
+    expect(result.details.hits).toHaveLength(2);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy.mock.calls[0][0]).toContain("could not read 2 spilled outputs");
+    spy.mockRestore();
+  });
+});
+
+describe("context_tree_query slices", () => {
+  const numbered = (count: number) => Array.from({ length: count }, (_, i) => `row ${i + 1}`).join("\n");
+
+  test("a whole-record fetch reports the total size in its header", async () => {
+    const idx = new ToolCallIndexer();
+    capture(idx, "bash_1", 1150, "one\ntwo", 0);
+    const text = await runTool(idx, ["bash_1"]);
+    expect(text).toContain("Turn: 0\nSize: 2 lines, 7 bytes\n\none\ntwo");
+    expect(text).not.toContain("Showing:");
+  });
+
+  test("slices a spilled record from its sidecar blob, not the inline preview", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "ctq-slice-"));
+    try {
+      const spillPath = join(dir, "bash_big.txt");
+      await writeFile(spillPath, numbered(5000));
+      const idx = new ToolCallIndexer();
+      idx.addBatch(
+        {
+          turnIndex: 2,
+          timestamp: 2000,
+          assistantText: "",
+          toolCalls: [
+            {
+              toolCallId: "bash_big",
+              toolName: "bash",
+              args: { command: "seq" },
+              resultText: "",
+              isError: false,
+              resultTimestamp: 2010,
+              spillPath,
+              spillBytes: 43_892,
+              resultPreview: "row 1",
+            },
+          ],
+        },
+        () => {},
+      );
+
+      const result = await executeTool(idx, {
+        slices: [
+          { ref: "bash_big", startLine: 4000, endLine: 4002 },
+          { ref: "bash_big", grep: "/^row 4999$/", context: 0 },
+          { ref: "bash_big", tail: 1 },
+        ],
+      });
+      const [range, grep, tail] = (result.content[0].text as string).split("\n\n---\n\n");
+      expect(range).toContain("Size: 5000 lines, 43892 bytes\nShowing: lines 4000-4002 of 5000\n\nrow 4000\nrow 4001\nrow 4002");
+      expect(grep).toContain('Showing: 1 matching line of 5000 for "/^row 4999$/" with 0 lines of context\n\n> 4999: row 4999');
+      expect(tail).toContain("Showing: last 1 of 5000 lines\n\nrow 5000");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("a truncated whole-record fetch points at the next page", async () => {
+    const idx = new ToolCallIndexer();
+    capture(idx, "bash_1", 1150, numbered(3000), 0);
+    idx.registerSummaryRefs([{ shortId: "t1", toolCallId: "bash_1", resultTimestamp: 1150 }]);
+    const text = await runTool(idx, ["t1"]);
+    expect(text).toMatch(/\[Output truncated: (\d+)\/3000 lines shown\. Page on with slices: \[\{ ref: "t1", startLine: \d+ \}\]\]$/);
+  });
+
+  test("an invalid slice is reported in place without failing the other refs", async () => {
+    const idx = new ToolCallIndexer();
+    capture(idx, "bash_1", 1150, "one\ntwo", 0);
+    const text = (
+      await executeTool(idx, {
+        toolCallIds: ["bash_1"],
+        slices: [
+          { ref: "bash_1", head: 1, tail: 1 },
+          { ref: "bash_1", grep: "/([/" },
+        ],
+      })
+    ).content[0].text as string;
+    const [whole, both, badRegex] = text.split("\n\n---\n\n");
+    expect(whole).toContain("one\ntwo");
+    expect(both).toBe("## toolRef: bash_1\n(invalid slice: set exactly one of startLine/endLine, startByte/endByte, head, tail, or grep)");
+    expect(badRegex).toStartWith('## toolRef: bash_1\n(invalid slice: grep "/([/": ');
+  });
+});
@@ -3,7 +3,24 @@ import { Type } from "@sinclair/typebox";
 import { truncateHead, DEFAULT_MAX_BYTES, DEFAULT_MAX_LINES } from "@earendil-works/pi-coding-agent";
 import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
 import type { ToolCallIndexer } from "./indexer.js";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  formatSearchResult,
+  hasSearchCriteria,
+  MAX_SEARCH_LIMIT,
+  searchToolHistory,
+  type HistorySearchCriteria,
+} from "./history-search.js";
+import {
+  formatBodySize,
+  MAX_GREP_CONTEXT_LINES,
+  recordBodySize,
+  sliceRecordBody,
+  validateRecordSlice,
+  type RecordSlice,
+} from "./record-slice.js";
 import { QUERY_TOOL_NAME } from "./types.js";
+import type { ToolCallRecord } from "./types.js";
 
 // Legacy records (persisted before resultTimestamp existed) have no timestamp
 // to disambiguate. Do NOT mint an `id@legacy` string: it is occurrence-key-
@@ -14,27 +31,166 @@ function occurrenceLabel(id: string, resultTimestamp: number | undefined): strin
   return resultTimestamp === undefined ? id : `${id}@${resultTimestamp}`;
 }
 
+type SpillReadError = (spillPath: string, err: unknown) => void;
+
+const logSpillReadError: SpillReadError = (spillPath, err) =>
+  console.error(`context_tree_query: failed to read spilled output at ${spillPath}:`, err);
+
+/** Full original output: the sidecar blob for spilled records, falling back to the inline preview. */
+async function readRecordBody(record: ToolCallRecord, onError: SpillReadError = logSpillReadError): Promise<string> {
+  if (!record.spillPath) return record.resultText;
+  try {
+    return await readFile(record.spillPath, "utf-8");
+  } catch (err) {
+    onError(record.spillPath, err);
+    return record.resultPreview ?? "(spilled output unavailable — sidecar file missing)";
+  }
+}
+
+/** Header, then the body (or the requested slice of it), capped by `truncateHead`. */
+function formatRecordBlock(
+  label: string,
+  record: ToolCallRecord,
+  raw: string,
+  slice: RecordSlice | undefined,
+  legacyOccurrence: boolean,
+): string {
+  let showing: string | undefined;
+  let text = raw;
+  if (slice) {
+    try {
+      ({ text, showing } = sliceRecordBody(raw, slice));
+    } catch (err) {
+      return `## toolRef: ${label}\n(invalid slice: grep ${JSON.stringify(slice.grep)}: ${(err as Error).message})`;
+    }
+  }
+
+  const header = [
+    `## toolRef: ${label}`,
+    ...(legacyOccurrence ? ["Occurrence: legacy (no resultTimestamp)"] : []),
+    `Tool: ${record.toolName}`,
+    `Args: ${JSON.stringify(record.args, null, 2)}`,
+    `Status: ${record.isError ? "ERROR" : "OK"}`,
+    `Turn: ${record.turnIndex}`,
+    `Size: ${formatBodySize(recordBodySize(raw))}`,
+    ...(showing ? [`Showing: ${showing}`] : []),
+    "",
+  ].join("\n");
+
+  const t = truncateHead(text, {
+    maxLines: DEFAULT_MAX_LINES,
+    maxBytes: DEFAULT_MAX_BYTES,
+  });
+
+  let body = t.content;
+  if (t.truncated) {
+    body += slice
+      ? `\n[Output truncated: ${t.outputLines}/${t.totalLines} lines shown. Narrow the slice.]`
+      : `\n[Output truncated: ${t.outputLines}/${t.totalLines} lines shown. Page on with slices: [{ ref: ${JSON.stringify(label)}, startLine: ${t.outputLines + 1} }]]`;
+  }
+  return `${header}\n${body}`;
+}
+
+/** A search block is capped by `truncateHead` like record blocks; the dropped hits are still fetchable by ref. */
+function truncateSearchBlock(text: string): string {
+  const t = truncateHead(text, { maxLines: DEFAULT_MAX_LINES, maxBytes: DEFAULT_MAX_BYTES });
+  if (!t.truncated) return t.content;
+  return `${t.content}\n[Search output truncated: ${t.outputLines}/${t.totalLines} lines shown. Lower limit or narrow the query.]`;
+}
+
 export function registerQueryTool(pi: ExtensionAPI, indexer: ToolCallIndexer): void {
   pi.registerTool({
     name: QUERY_TOOL_NAME,
     label: "Query Original Tool History",
     description:
-      "Retrieve original tool call results that have been pruned from active context. Pass the short refs listed in a pruner-summary message, e.g. context_tree_query({ toolCallIds: [\"t12\", \"t3\"] }), to get back the full original outputs. A raw id that was reused returns every occurrence, each labelled id@timestamp.",
-    promptSnippet: "Retrieve original pruned tool outputs by short ref",
+      "Retrieve original tool call results that have been pruned from active context. Pass the short refs listed in a pruner-summary message, e.g. context_tree_query({ toolCallIds: [\"t12\", \"t3\"] }), to get back the full original outputs. A raw id that was reused returns every occurrence, each labelled id@timestamp. For a large output, fetch only part of it with slices, e.g. context_tree_query({ slices: [{ ref: \"t12\", startLine: 200, endLine: 260 }] }) or [{ ref: \"t12\", grep: \"error\" }]; every block reports the output's total size. When you do not know the ref, search instead: context_tree_query({ query: \"Traceback\", toolName: \"bash\" }) or context_tree_query({ path: \"config.ts\" }) returns ranked hits with a few lines of context and the ref of each.",
+    promptSnippet: "Retrieve original pruned tool outputs by short ref, or search them",
     promptGuidelines: [
       "When you need the full output of a tool call that was summarized and pruned from context, use context_tree_query with the short refs listed in the relevant pruner-summary message.",
+      "When an archived output is large, page through it with context_tree_query slices (startLine/endLine, startByte/endByte, head, tail, or grep with context) instead of fetching it whole.",
+      "When you need an earlier output but do not know its ref, call context_tree_query with query (keywords or /regex/) and/or the toolName, path, isError and turn filters, then fetch the hit you need by its ref.",
     ],
     parameters: Type.Object({
-      toolCallIds: Type.Array(Type.String(), {
-        description: 'Required. One or more short refs (e.g. "t12") or raw tool call IDs from a pruner-summary message. A reused raw id returns every occurrence, each labelled id@timestamp.',
-      }),
+      toolCallIds: Type.Optional(
+        Type.Array(Type.String(), {
+          description: 'Short refs (e.g. "t12") or raw tool call IDs from a pruner-summary message. A reused raw id returns every occurrence, each labelled id@timestamp. Required unless searching.',
+        }),
+      ),
+      slices: Type.Optional(
+        Type.Array(
+          Type.Object({
+            ref: Type.String({ description: 'Short ref (e.g. "t12") or raw tool call ID.' }),
+            startLine: Type.Optional(Type.Integer({ minimum: 1, description: "First line to return (1-based, inclusive)." })),
+            endLine: Type.Optional(Type.Integer({ minimum: 1, description: "Last line to return (inclusive)." })),
+            startByte: Type.Optional(Type.Integer({ minimum: 0, description: "First byte to return (0-based)." })),
+            endByte: Type.Optional(Type.Integer({ minimum: 0, description: "Byte to stop before (exclusive)." })),
+            head: Type.Optional(Type.Integer({ minimum: 1, description: "Return the first N lines." })),
+            tail: Type.Optional(Type.Integer({ minimum: 1, description: "Return the last N lines." })),
+            grep: Type.Optional(
+              Type.String({ description: "Return only matching lines, numbered, with context: keywords or /pattern/flags." }),
+            ),
+            context: Type.Optional(
+              Type.Integer({
+                minimum: 0,
+                maximum: MAX_GREP_CONTEXT_LINES,
+                description: "Lines of context around each grep match (default 2).",
+              }),
+            ),
+          }),
+          {
+            description: "Partial retrieval: one selector per entry (a line range, a byte range, head, tail, or grep). Use instead of toolCallIds for large outputs.",
+          },
+        ),
+      ),
+      query: Type.Optional(
+        Type.String({
+          description: 'Search archived outputs and args: whitespace-separated keywords (all must match, case-insensitive) or a regex written as /pattern/flags.',
+        }),
+      ),
+      toolName: Type.Optional(Type.String({ description: 'Only search calls of this tool (e.g. "bash", "read").' })),
+      path: Type.Optional(
+        Type.String({ description: "Only search calls whose path-like argument contains this substring." }),
+      ),
+      isError: Type.Optional(Type.Boolean({ description: "Only search failed (true) or successful (false) calls." })),
+      turnFrom: Type.Optional(Type.Integer({ description: "Only search calls from this turn on (inclusive)." })),
+      turnTo: Type.Optional(Type.Integer({ description: "Only search calls up to this turn (inclusive)." })),
+      limit: Type.Optional(
+        Type.Integer({
+          minimum: 1,
+          maximum: MAX_SEARCH_LIMIT,
+          description: `Maximum search hits to return (default ${DEFAULT_SEARCH_LIMIT}).`,
+        }),
+      ),
     }),
 
     async execute(_toolCallId, params, _signal, _onUpdate, _ctx) {
       const foundRecords: Record<string, any> = {};
       const blocks: string[] = [];
+      const criteria: HistorySearchCriteria = {
+        query: params.query,
+        toolName: params.toolName,
+        path: params.path,
+        isError: params.isError,
+        turnFrom: params.turnFrom,
+        turnTo: params.turnTo,
+        limit: params.limit,
+      };
+      const searching = hasSearchCriteria(criteria);
+      const requests: Array<{ id: string; slice?: RecordSlice }> = [
+        ...(params.toolCallIds ?? []).map((id) => ({ id })),
+        ...(params.slices ?? []).map((slice) => ({ id: slice.ref, slice })),
+      ];
+      if (requests.length === 0 && !searching) {
+        throw new Error("Pass toolCallIds or slices to retrieve outputs, or a query or filter (toolName, path, isError, turnFrom, turnTo) to search them.");
+      }
+
+      for (const { id, slice } of requests) {
+        const problem = slice ? validateRecordSlice(slice) : undefined;
+        if (problem) {
+          blocks.push(`## toolRef: ${id}\n(invalid slice: ${problem})`);
+          continue;
+        }
 
-      for (const id of params.toolCallIds) {
         const records = indexer.getRecordsForId(id);
 
         if (records.length === 0) {
@@ -49,46 +205,46 @@ export function registerQueryTool(pi: ExtensionAPI, indexer: ToolCallIndexer): v
 
           foundRecords[label] = record;
 
-          const status = record.isError ? "ERROR" : "OK";
-          const header = [
-            `## toolRef: ${label}`,
-            ...(records.length > 1 && record.resultTimestamp === undefined ? ["Occurrence: legacy (no resultTimestamp)"] : []),
-            `Tool: ${record.toolName}`,
-            `Args: ${JSON.stringify(record.args, null, 2)}`,
-            `Status: ${status}`,
-            `Turn: ${record.turnIndex}`,
-            "",
-          ].join("\n");
-
-          let raw = record.resultText;
-          if (record.spillPath) {
-            try {
-              raw = await readFile(record.spillPath, "utf-8");
-            } catch (err) {
-              console.error(`context_tree_query: failed to read spilled output at ${record.spillPath}:`, err);
-              raw = record.resultPreview ?? "(spilled output unavailable — sidecar file missing)";
-            }
-          }
-
-          const t = truncateHead(raw, {
-            maxLines: DEFAULT_MAX_LINES,
-            maxBytes: DEFAULT_MAX_BYTES,
-          });
-
-          let body = t.content;
-          if (t.truncated) {
-            body += `\n[Output truncated: ${t.outputLines}/${t.totalLines} lines shown]`;
-          }
-
-          blocks.push(`${header}\n${body}`);
+          const legacyOccurrence = records.length > 1 && record.resultTimestamp === undefined;
+          blocks.push(formatRecordBlock(label, record, await readRecordBody(record), slice, legacyOccurrence));
+        }
+      }
+
+      let hits: Array<{ ref: string; toolName: string; turnIndex: number; matchCount: number }> | undefined;
+      if (searching) {
+        let result;
+        // A search reads every matching spilled record: log unreadable sidecars once, not per record.
+        const unreadable: string[] = [];
+        let firstReadError: unknown;
+        try {
+          result = await searchToolHistory(indexer, criteria, (record) =>
+            readRecordBody(record, (spillPath, err) => {
+              if (unreadable.push(spillPath) === 1) firstReadError = err;
+            }),
+          );
+        } catch (err) {
+          throw new Error(`Invalid search query ${JSON.stringify(params.query)}: ${(err as Error).message}`);
+        }
+        if (unreadable.length > 0) {
+          console.error(
+            `context_tree_query: search could not read ${unreadable.length} spilled output${unreadable.length === 1 ? "" : "s"} (first at ${unreadable[0]}):`,
+            firstReadError,
+          );
         }
+        blocks.push(truncateSearchBlock(formatSearchResult(criteria, result)));
+        hits = result.hits.map((hit) => ({
+          ref: hit.ref,
+          toolName: hit.record.toolName,
+          turnIndex: hit.record.turnIndex,
+          matchCount: hit.matchCount,
+        }));
       }
 
       const combined = blocks.join("\n\n---\n\n");
 
       return {
         content: [{ type: "text", text: combined }],
-        details: { results: foundRecords },
+        details: { results: foundRecords, ...(hits ? { hits } : {}) },
       };
     },
   });
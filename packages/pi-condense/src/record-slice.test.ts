@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { formatBodySize, recordBodySize, sliceRecordBody, validateRecordSlice } from "./record-slice.js";
+
+const BODY = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+describe("recordBodySize", () => {
+  test("counts lines without the trailing newline and bytes as UTF-8", () => {
+    expect(recordBodySize(BODY)).toEqual({ lines: 10, bytes: 71 });
+    expect(recordBodySize("")).toEqual({ lines: 0, bytes: 0 });
+    expect(formatBodySize(recordBodySize("é"))).toBe("1 line, 2 bytes");
+  });
+});
+
+describe("validateRecordSlice", () => {
+  test("requires exactly one selector", () => {
+    expect(validateRecordSlice({ ref: "t1" })).toContain("set exactly one of");
+    expect(validateRecordSlice({ ref: "t1", head: 5, tail: 5 })).toContain("set exactly one of");
+    expect(validateRecordSlice({ ref: "t1", startLine: 3 })).toBeUndefined();
+    expect(validateRecordSlice({ ref: "t1", grep: "error", context: 0 })).toBeUndefined();
+  });
+
+  test("rejects reversed ranges, bad counts and stray context", () => {
+    expect(validateRecordSlice({ ref: "t1", startLine: 5, endLine: 4 })).toBe("endLine is before startLine");
+    expect(validateRecordSlice({ ref: "t1", startByte: 9, endByte: 2 })).toBe("endByte is before startByte");
+    expect(validateRecordSlice({ ref: "t1", head: 0 })).toBe("head must be an integer >= 1");
+    expect(validateRecordSlice({ ref: "t1", grep: "  " })).toBe("grep is empty");
+    expect(validateRecordSlice({ ref: "t1", tail: 3, context: 2 })).toBe("context only applies to grep");
+    expect(validateRecordSlice({ ref: "t1", grep: "x", context: 21 })).toBe("context must be at most 20");
+  });
+});
+
+describe("sliceRecordBody", () => {
+  test("line ranges are 1-based and inclusive, clamped to the output", () => {
+    expect(sliceRecordBody(BODY, { ref: "t1", startLine: 3, endLine: 5 })).toEqual({
+      text: "line 3\nline 4\nline 5",
+      showing: "lines 3-5 of 10",
+    });
+    expect(sliceRecordBody(BODY, { ref: "t1", startLine: 9 })).toEqual({
+      text: "line 9\nline 10",
+      showing: "lines 9-10 of 10",
+    });
+    expect(sliceRecordBody(BODY, { ref: "t1", startLine: 11 })).toEqual({
+      text: "",
+      showing: "no lines (the output has 10)",
+    });
+  });
+
+  test("head and tail take whole lines from either end", () => {
+    expect(sliceRecordBody(BODY, { ref: "t1", head: 2 })).toEqual({
+      text: "line 1\nline 2",
+      showing: "first 2 of 10 lines",
+    });
+    expect(sliceRecordBody(BODY, { ref: "t1", tail: 2 })).toEqual({
+      text: "line 9\nline 10",
+      showing: "last 2 of 10 lines",
+    });
+    expect(sliceRecordBody(BODY, { ref: "t1", tail: 50 }).showing).toBe("last 10 of 10 lines");
+  });
+
+  test("byte ranges snap to UTF-8 character boundaries", () => {
+    expect(sliceRecordBody(BODY, { ref: "t1", startByte: 7, endByte: 13 })).toEqual({
+      text: "line 2",
+      showing: "bytes 7-13 of 71",
+    });
+    // "é" is bytes 1-2; offsets inside it move back to its first byte.
+    expect(sliceRecordBody("aéb", { ref: "t1", startByte: 2, endByte: 3 })).toEqual({
+      text: "é",
+      showing: "bytes 1-3 of 4",
+    });
+    expect(sliceRecordBody(BODY, { ref: "t1", startByte: 500 }).showing).toBe("no bytes (the output has 71)");
+  });
+
+  test("grep returns numbered matches with context, using the search query syntax", () => {
+    expect(sliceRecordBody(BODY, { ref: "t1", grep: "/line (4|9)$/", context: 1 })).toEqual({
+      text: ["  3: line 3", "> 4: line 4", "  5: line 5", "  …", "  8: line 8", "> 9: line 9", "  10: line 10"].join("\n"),
+      showing: '2 matching lines of 10 for "/line (4|9)$/" with 1 line of context',
+    });
+    expect(sliceRecordBody(BODY, { ref: "t1", grep: "missing" }).showing).toBe(
+      'no lines of 10 match "missing" with 2 lines of context',
+    );
+    expect(() => sliceRecordBody(BODY, { ref: "t1", grep: "/([/" })).toThrow();
+  });
+});
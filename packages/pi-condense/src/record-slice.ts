@@ -0,0 +1,156 @@
+import { compileSearchQuery, matchSnippets, SEARCH_CONTEXT_LINES } from "./history-search.js";
+
+/**
+ * Partial retrieval of one archived record for `context_tree_query`.
+ *
+ * Fetching a large record whole re-bloats context with the very output that
+ * was pruned, so a ref can instead carry one selector: a 1-based inclusive
+ * line range, a 0-based byte range (end exclusive, snapped to UTF-8
+ * character boundaries), the first or last N lines, or an in-record grep
+ * with context lines. The grep pattern uses the search `query` syntax:
+ * keywords, or `/pattern/flags`.
+ *
+ * The selector applies to the full body, so a spilled record is sliced from
+ * its sidecar blob, never from the inline preview.
+ */
+
+export interface RecordSlice {
+  ref: string;
+  startLine?: number;
+  endLine?: number;
+  startByte?: number;
+  endByte?: number;
+  head?: number;
+  tail?: number;
+  grep?: string;
+  /** Lines of context around each grep match; default 2. */
+  context?: number;
+}
+
+export interface BodySize {
+  lines: number;
+  bytes: number;
+}
+
+export interface SlicedBody {
+  text: string;
+  /** What `text` holds, e.g. `lines 120-180 of 2314`. */
+  showing: string;
+}
+
+export const MAX_GREP_CONTEXT_LINES = 20;
+
+function bodyLines(body: string): string[] {
+  if (body === "") return [];
+  const lines = body.split("\n");
+  // A trailing newline ends the last line; it does not start another one.
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+export function recordBodySize(body: string): BodySize {
+  return { lines: bodyLines(body).length, bytes: Buffer.byteLength(body, "utf8") };
+}
+
+export function formatBodySize(size: BodySize): string {
+  return `${size.lines} line${size.lines === 1 ? "" : "s"}, ${size.bytes} bytes`;
+}
+
+function selectorKinds(slice: RecordSlice): string[] {
+  const kinds: string[] = [];
+  if (slice.startLine !== undefined || slice.endLine !== undefined) kinds.push("lines");
+  if (slice.startByte !== undefined || slice.endByte !== undefined) kinds.push("bytes");
+  if (slice.head !== undefined) kinds.push("head");
+  if (slice.tail !== undefined) kinds.push("tail");
+  if (slice.grep !== undefined) kinds.push("grep");
+  return kinds;
+}
+
+/** The problem with a slice's selector, or undefined when it is usable. */
+export function validateRecordSlice(slice: RecordSlice): string | undefined {
+  const kinds = selectorKinds(slice);
+  if (kinds.length !== 1) {
+    return "set exactly one of startLine/endLine, startByte/endByte, head, tail, or grep";
+  }
+  const counts: Array<[string, number | undefined, number]> = [
+    ["startLine", slice.startLine, 1],
+    ["endLine", slice.endLine, 1],
+    ["startByte", slice.startByte, 0],
+    ["endByte", slice.endByte, 0],
+    ["head", slice.head, 1],
+    ["tail", slice.tail, 1],
+    ["context", slice.context, 0],
+  ];
+  for (const [name, value, min] of counts) {
+    if (value !== undefined && (!Number.isInteger(value) || value < min)) {
+      return `${name} must be an integer >= ${min}`;
+    }
+  }
+  if (slice.startLine !== undefined && slice.endLine !== undefined && slice.endLine < slice.startLine) {
+    return "endLine is before startLine";
+  }
+  if (slice.startByte !== undefined && slice.endByte !== undefined && slice.endByte < slice.startByte) {
+    return "endByte is before startByte";
+  }
+  if (slice.grep !== undefined && !slice.grep.trim()) return "grep is empty";
+  if (slice.context !== undefined && slice.grep === undefined) return "context only applies to grep";
+  if (slice.context !== undefined && slice.context > MAX_GREP_CONTEXT_LINES) {
+    return `context must be at most ${MAX_GREP_CONTEXT_LINES}`;
+  }
+  return undefined;
+}
+
+function lineRange(lines: string[], start: number, end: number, showing: string): SlicedBody {
+  if (lines.length === 0 || start > lines.length) {
+    return { text: "", showing: `no lines (the output has ${lines.length})` };
+  }
+  const last = Math.min(end, lines.length);
+  return { text: lines.slice(start - 1, last).join("\n"), showing: showing || `lines ${start}-${last} of ${lines.length}` };
+}
+
+/** Moves `offset` back to the start of the UTF-8 character it falls inside. */
+function charBoundary(buf: Buffer, offset: number): number {
+  let at = Math.min(offset, buf.length);
+  while (at > 0 && at < buf.length && (buf[at] & 0xc0) === 0x80) at--;
+  return at;
+}
+
+function byteRange(body: string, startByte: number, endByte: number | undefined): SlicedBody {
+  const buf = Buffer.from(body, "utf8");
+  const start = charBoundary(buf, startByte);
+  const end = charBoundary(buf, endByte ?? buf.length);
+  if (start >= buf.length) return { text: "", showing: `no bytes (the output has ${buf.length})` };
+  return { text: buf.subarray(start, end).toString("utf8"), showing: `bytes ${start}-${end} of ${buf.length}` };
+}
+
+function grepBody(body: string, pattern: string, context: number): SlicedBody {
+  const terms = compileSearchQuery(pattern);
+  const lines = bodyLines(body);
+  const matching = lines.filter((line) => terms.some((term) => term.one.test(line))).length;
+  const what = `${JSON.stringify(pattern.trim())} with ${context} line${context === 1 ? "" : "s"} of context`;
+  if (matching === 0) return { text: "", showing: `no lines of ${lines.length} match ${what}` };
+  return {
+    text: matchSnippets(lines.join("\n"), terms, { contextLines: context }).join("\n  …\n"),
+    showing: `${matching} matching line${matching === 1 ? "" : "s"} of ${lines.length} for ${what}`,
+  };
+}
+
+/**
+ * Applies a validated slice to a record's full body. Throws only on an
+ * invalid grep regex.
+ */
+export function sliceRecordBody(body: string, slice: RecordSlice): SlicedBody {
+  const lines = bodyLines(body);
+  if (slice.grep !== undefined) return grepBody(body, slice.grep, slice.context ?? SEARCH_CONTEXT_LINES);
+  if (slice.startByte !== undefined || slice.endByte !== undefined) {
+    return byteRange(body, slice.startByte ?? 0, slice.endByte);
+  }
+  if (slice.head !== undefined) {
+    return lineRange(lines, 1, slice.head, `first ${Math.min(slice.head, lines.length)} of ${lines.length} lines`);
+  }
+  if (slice.tail !== undefined) {
+    const count = Math.min(slice.tail, lines.length);
+    return lineRange(lines, lines.length - count + 1, lines.length, `last ${count} of ${lines.length} lines`);
+  }
+  return lineRange(lines, slice.startLine ?? 1, slice.endLine ?? lines.length, "");
+}
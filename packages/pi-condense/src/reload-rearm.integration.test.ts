@@ -167,6 +167,7 @@ function bootExtension(
   const piAppended: AppendedEntry[] = options.separatePiAppended ? [] : appended;
   const sessionAppended: AppendedEntry[] = appended;
   const handlers = new Map<string, (event: any, ctx: any) => any>();
+  const tools = new Map<string, any>();
 
   const pushPi = (type: string, data?: unknown) => {
     piAppended.push({ type, data });
@@ -182,7 +183,9 @@ function bootExtension(
     appendEntry: options.piAppendEntry ? options.piAppendEntry(pushPi) : pushPi,
     sendMessage() {},
     registerCommand() {},
-    registerTool() {},
+    registerTool(def: any) {
+      tools.set(def.name, def);
+    },
     registerMessageRenderer() {},
     events: { emit() {} },
   };
@@ -223,7 +226,7 @@ function bootExtension(
     },
   };
 
-  return { handlers, ctx, pi, piAppended, sessionAppended, appended, branch };
+  return { handlers, tools, ctx, pi, piAppended, sessionAppended, appended, branch };
 }
 
 async function boot(options?: Parameters<typeof bootExtension>[0]) {
@@ -642,3 +645,48 @@ describe("reload rearm (issue #6)", () => {
     expect(expectedPct).toBeLessThan(inflatedPct);
   });
 });
+
+describe("pins in a real flush", () => {
+  it("a pinned result skips capture, and unpinning it behind the frontier hands it to the next flush", async () => {
+    // Two closed chains in separate user turns: tc0 (turn 0) and tc1 (turn 2).
+    // Distinct outputs so the second flush does not dedup tc0 against tc1.
+    const branch = closedChainBranch(2);
+    branch[2].message.content = [{ type: "text", text: "y".repeat(400) }];
+    const { handlers, tools, ctx, appended } = await boot({ branch });
+    const pin = (toolCallIds: string[], unpin?: boolean) =>
+      tools.get("context_pin").execute("pin-1", { toolCallIds, unpin }, undefined, undefined, ctx);
+    const finalMessage = { message: { role: "assistant", content: [{ type: "text", text: "done" }] } };
+    const indexedIds = () =>
+      appended
+        .filter((e) => e.type === "context-prune-index")
+        .flatMap((e) => (e.data as any).toolCalls.map((tc: any) => tc.toolCallId));
+    const render = async () => {
+      const messages = branch.filter((e: any) => e.type === "message").map((e: any) => e.message);
+      const res = await handlers.get("context")!({ messages }, ctx);
+      return (res?.messages ?? messages).filter((m: any) => m.role === "toolResult").map((m: any) => m.content[0].text);
+    };
+
+    await handlers.get("session_start")!({}, ctx);
+    await pin(["tc0"]);
+
+    await handlers.get("message_end")!(finalMessage, ctx);
+    expect(indexedIds()).toEqual(["tc1"]);
+    const [kept, stubbed] = await render();
+    expect(kept).toBe("y".repeat(400));
+    expect(stubbed).toContain("context_tree_query");
+
+    const callsAfterFirstFlush = summarizerCalls;
+    await pin(["tc0"], true);
+    await handlers.get("message_end")!(finalMessage, ctx);
+    expect(summarizerCalls).toBe(callsAfterFirstFlush + 1);
+    expect(indexedIds()).toEqual(["tc1", "tc0"]);
+    expect((await render())[0]).toContain("context_tree_query");
+
+    // The re-capture sat behind the frontier, so its anchor stays on tc1.
+    const frontiers = appended.filter((e) => e.type === "context-prune-frontier").map((e) => e.data as any);
+    expect(frontiers.map((f) => f.lastAttemptedToolCallId)).toEqual(["tc1", "tc1"]);
+
+    await handlers.get("message_end")!(finalMessage, ctx);
+    expect(summarizerCalls).toBe(callsAfterFirstFlush + 1);
+  });
+});
@@ -35,6 +35,7 @@ export class StatsAccumulator {
     callCount: 0,
     chainsCompressed: 0,
     rangesSummarized: 0,
+    deterministicSummaries: 0,
   };
   private baseline = { totalInputTokens: 0, totalOutputTokens: 0, totalCost: 0 };
   private liveReclaim: LiveReclaim | undefined = undefined;
@@ -81,6 +82,11 @@ export class StatsAccumulator {
     this.stats.rangesSummarized += n;
   }
 
+  /** Increment the deterministic-summary counter (batches summarized without an LLM call). */
+  addDeterministicSummaries(n: number): void {
+    this.stats.deterministicSummaries += n;
+  }
+
   /** Reset all accumulated stats to zero. Produces the same state as a fresh accumulator. */
   reset(): void {
     this.stats = {
@@ -90,6 +96,7 @@ export class StatsAccumulator {
       callCount: 0,
       chainsCompressed: 0,
       rangesSummarized: 0,
+      deterministicSummaries: 0,
     };
     this.baseline = { totalInputTokens: 0, totalOutputTokens: 0, totalCost: 0 };
     this.liveReclaim = undefined;
@@ -109,6 +116,7 @@ export class StatsAccumulator {
       callCount: data.callCount ?? 0,
       chainsCompressed: data.chainsCompressed ?? 0,
       rangesSummarized: data.rangesSummarized ?? 0,
+      deterministicSummaries: data.deterministicSummaries ?? 0,
     };
   }
 
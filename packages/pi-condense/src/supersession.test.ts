@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { findSupersededReads, formatSupersededStub, normalizedPathArg } from "./supersession.js";
+import type { CapturedBatch, CapturedToolCall } from "./types.js";
+
+const NO_PROTECTION = { protectedTools: [], protectedPaths: [] };
+
+let nextId = 1;
+const call = (toolName: string, args: Record<string, unknown>, isError = false): CapturedToolCall => {
+  const id = nextId++;
+  return { toolCallId: `${toolName}_${id}`, toolName, args, resultText: `out ${id}`, isError, resultTimestamp: id * 100 };
+};
+
+const batchAt = (turnIndex: number, ...toolCalls: CapturedToolCall[]): CapturedBatch => ({
+  turnIndex,
+  timestamp: turnIndex * 1000,
+  assistantText: "",
+  toolCalls,
+});
+
+const supersededIds = (batches: CapturedBatch[], protection = NO_PROTECTION) =>
+  findSupersededReads(batches, protection).map((s) => [s.toolCall.toolCallId, s.supersededBy.toolCallId]);
+
+describe("normalizedPathArg", () => {
+  test("collapses ./, .. and backslashes; relative and absolute stay distinct", () => {
+    expect(normalizedPathArg({ path: "./src/a.ts" })).toBe("src/a.ts");
+    expect(normalizedPathArg({ path: "src\\lib\\..\\a.ts" })).toBe("src/a.ts");
+    expect(normalizedPathArg({ path: "/repo/src/a.ts" })).toBe("/repo/src/a.ts");
+    expect(normalizedPathArg({ command: "cat a.ts" })).toBeUndefined();
+  });
+});
+
+describe("findSupersededReads", () => {
+  test("a re-read, edit or write supersedes earlier reads; the pointer names the last one", () => {
+    const first = call("read", { path: "src/a.ts" });
+    const second = call("read", { path: "./src/a.ts" });
+    const edit = call("edit", { path: "src/a.ts", edits: [] });
+    const other = call("read", { path: "src/b.ts" });
+    expect(supersededIds([batchAt(1, first, other), batchAt(2, second), batchAt(3, edit)])).toEqual([
+      [first.toolCallId, edit.toolCallId],
+      [second.toolCallId, edit.toolCallId],
+    ]);
+
+    const written = call("read", { path: "notes.md" });
+    const write = call("write", { path: "notes.md", content: "x" });
+    const [stale] = findSupersededReads([batchAt(4, written, write)], NO_PROTECTION);
+    expect(stale.batchIndex).toBe(0);
+    expect(stale.supersededBy).toEqual({ toolCallId: write.toolCallId, resultTimestamp: write.resultTimestamp, toolName: "write", turnIndex: 4 });
+  });
+
+  test("a failed later call or a partial read of another window does not supersede", () => {
+    const read = call("read", { path: "a.ts" });
+    const failedEdit = call("edit", { path: "a.ts", edits: [] }, true);
+    const window = call("read", { path: "a.ts", offset: 200, limit: 50 });
+    expect(supersededIds([batchAt(1, read), batchAt(2, failedEdit, window)])).toEqual([]);
+
+    const sameWindow = call("read", { path: "a.ts", offset: 200, limit: 50 });
+    const whole = call("read", { path: "a.ts" });
+    expect(supersededIds([batchAt(1, window), batchAt(2, sameWindow)])).toEqual([[window.toolCallId, sameWindow.toolCallId]]);
+    expect(supersededIds([batchAt(1, window), batchAt(2, whole)])).toEqual([[window.toolCallId, whole.toolCallId]]);
+  });
+
+  test("protected paths are never superseded", () => {
+    const skill = call("read", { path: "skills/git/SKILL.md" });
+    const reread = call("read", { path: "skills/git/SKILL.md" });
+    const protection = { protectedTools: [], protectedPaths: ["**/skills/**/*.md"] };
+    expect(supersededIds([batchAt(1, skill), batchAt(2, reread)], protection)).toEqual([]);
+    expect(supersededIds([batchAt(1, skill), batchAt(2, reread)])).toEqual([[skill.toolCallId, reread.toolCallId]]);
+  });
+});
+
+describe("formatSupersededStub", () => {
+  test("names the newer call and both refs when the newer one has been summarized", () => {
+    const supersededBy = { toolCallId: "edit_9", toolName: "edit", turnIndex: 7 };
+    expect(formatSupersededStub({ args: { path: "src/a.ts" }, supersededBy }, "t3", "t5")).toBe(
+      "[Stale read: `src/a.ts` was edited later (turn 7, ref `t5`). This output is ref `t3`; use context_tree_query to retrieve it.]",
+    );
+    expect(formatSupersededStub({ args: { path: "src/a.ts" }, supersededBy: { ...supersededBy, toolName: "read" } }, "t3", undefined)).toBe(
+      "[Stale read: `src/a.ts` was re-read later (turn 7). This output is ref `t3`; use context_tree_query to retrieve it.]",
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { posix } from "node:path";
+import { isProtected, type ProtectionConfig } from "./protected.js";
+import type { CapturedBatch, CapturedToolCall, SupersededBy } from "./types.js";
+
+/**
+ * Stale-read supersession for the pre-flush pipeline.
+ *
+ * Long sessions read the same file many times. Once a file has been re-read,
+ * edited or written, an earlier `read` result for it is stale: keeping it
+ * verbatim wastes context and summarizing it wastes a summarizer call. This
+ * pass finds those earlier reads among the captured batches so the flush can
+ * index them (full output recoverable through `context_tree_query`) and stub
+ * them with a pointer to the newest occurrence, without summarizing them.
+ *
+ * A later call supersedes an earlier read of the same path when it succeeded
+ * and is one of:
+ *   - an `edit` or `write` of the path (the file changed under the read);
+ *   - a whole-file `read` (no `offset`/`limit`);
+ *   - a `read` of the same `offset`/`limit` window.
+ * A later partial read of a different window does not, since the earlier
+ * read may hold lines it lacks. The pointer names the LAST such call, which
+ * is never itself superseded.
+ *
+ * Paths compare after slash and `./` normalization only: a relative and an
+ * absolute path to the same file are different paths here. Calls matching
+ * `protectedTools`/`protectedPaths` are never superseded (capture already
+ * drops them; the check here covers previewed or rescanned batches).
+ */
+
+export interface SupersededRead {
+  /** Index of the batch the superseded read belongs to. */
+  batchIndex: number;
+  toolCall: CapturedToolCall;
+  supersededBy: SupersededBy;
+}
+
+const SUPERSEDING_WRITES = new Set(["edit", "write"]);
+
+/** `path` argument with backslashes, `./` segments and `..` collapsed; undefined when absent. */
+export function normalizedPathArg(args: Record<string, unknown>): string | undefined {
+  const path = args?.path;
+  if (typeof path !== "string" || !path.trim()) return undefined;
+  const normalized = posix.normalize(path.trim().replace(/\\/g, "/"));
+  return normalized.length > 1 ? normalized.replace(/\/$/, "") : normalized;
+}
+
+function readWindow(args: Record<string, unknown>): string {
+  return `${args?.offset ?? ""}:${args?.limit ?? ""}`;
+}
+
+/** True when `later` makes the output of the earlier `read` stale. */
+function supersedes(earlier: CapturedToolCall, later: CapturedToolCall): boolean {
+  if (later.isError) return false;
+  if (SUPERSEDING_WRITES.has(later.toolName)) return true;
+  if (later.toolName !== "read") return false;
+  const window = readWindow(later.args);
+  return window === ":" || window === readWindow(earlier.args);
+}
+
+/**
+ * Every `read` in `batches` that a later call in `batches` supersedes, in
+ * capture order. Pure: the caller decides what to do with them.
+ */
+export function findSupersededReads(batches: CapturedBatch[], protection: ProtectionConfig): SupersededRead[] {
+  const byPath = new Map<string, Array<{ batchIndex: number; turnIndex: number; toolCall: CapturedToolCall }>>();
+  batches.forEach((batch, batchIndex) => {
+    for (const toolCall of batch.toolCalls) {
+      if (toolCall.toolName !== "read" && !SUPERSEDING_WRITES.has(toolCall.toolName)) continue;
+      if (isProtected(toolCall.toolName, toolCall.args, protection)) continue;
+      const path = normalizedPathArg(toolCall.args);
+      if (!path) continue;
+      const touches = byPath.get(path) ?? [];
+      touches.push({ batchIndex, turnIndex: batch.turnIndex, toolCall });
+      byPath.set(path, touches);
+    }
+  });
+
+  const superseded: SupersededRead[] = [];
+  for (const touches of byPath.values()) {
+    for (let i = 0; i < touches.length - 1; i++) {
+      const earlier = touches[i];
+      if (earlier.toolCall.toolName !== "read") continue;
+      for (let j = touches.length - 1; j > i; j--) {
+        const later = touches[j];
+        if (!supersedes(earlier.toolCall, later.toolCall)) continue;
+        superseded.push({
+          batchIndex: earlier.batchIndex,
+          toolCall: earlier.toolCall,
+          supersededBy: {
+            toolCallId: later.toolCall.toolCallId,
+            ...(later.toolCall.resultTimestamp !== undefined ? { resultTimestamp: later.toolCall.resultTimestamp } : {}),
+            toolName: later.toolCall.toolName,
+            turnIndex: later.turnIndex,
+          },
+        });
+        break;
+      }
+    }
+  }
+
+  const order = new Map<CapturedToolCall, number>();
+  batches.forEach((batch) => batch.toolCalls.forEach((tc) => order.set(tc, order.size)));
+  return superseded.sort((a, b) => order.get(a.toolCall)! - order.get(b.toolCall)!);
+}
+
+const SUPERSEDED_VERB: Record<string, string> = { read: "re-read", edit: "edited", write: "written" };
+
+/**
+ * Stub text `pruneMessages` puts in place of a superseded read. `newerRef`
+ * is the superseding call's short ref once it has one (it may still be
+ * verbatim in context, e.g. a trivial batch).
+ */
+export function formatSupersededStub(
+  record: { args: Record<string, unknown>; supersededBy: SupersededBy },
+  ref: string,
+  newerRef: string | undefined,
+): string {
+  const path = typeof record.args?.path === "string" ? record.args.path : "this file";
+  const verb = SUPERSEDED_VERB[record.supersededBy.toolName] ?? `touched by ${record.supersededBy.toolName}`;
+  const where = `turn ${record.supersededBy.turnIndex}${newerRef ? `, ref \`${newerRef}\`` : ""}`;
+  return `[Stale read: \`${path}\` was ${verb} later (${where}). This output is ref \`${ref}\`; use context_tree_query to retrieve it.]`;
+}
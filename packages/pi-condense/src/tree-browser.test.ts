@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { ToolCallIndexer } from "./indexer.js";
+import { buildPruneTree } from "./tree-browser.js";
+
+const append = () => {};
+
+describe("buildPruneTree", () => {
+  test("lists pins on uncaptured results in a Pinned (live) group", () => {
+    const branch = [
+      {
+        type: "message",
+        message: { role: "assistant", content: [{ type: "toolCall", id: "bash_1", name: "bash", arguments: { command: "npm test" } }] },
+      },
+      {
+        type: "message",
+        message: { role: "toolResult", toolCallId: "bash_1", toolName: "bash", content: [{ type: "text", text: "1 failing" }], isError: true, timestamp: 2000 },
+      },
+    ];
+    const indexer = new ToolCallIndexer();
+    indexer.setPinned("bash_1@2000", "bash", true, append);
+    indexer.setPinned("read_9@100", "read", true, append);
+
+    const roots = buildPruneTree({ sessionManager: { getBranch: () => branch } } as any, indexer);
+    expect(roots).toHaveLength(1);
+    expect(roots[0].label).toBe("[pruner] Pinned (live) (2 tools · not captured yet)");
+    expect(roots[0].children.map((node) => node.label)).toEqual([
+      'bash(command="npm test") · 9 chars [error] [pinned]',
+      "read · read_9@100 (not on this branch) [pinned]",
+    ]);
+    expect(roots[0].children[0].detail).toBe("1 failing");
+
+    indexer.setPinned("bash_1@2000", "bash", false, append);
+    indexer.setPinned("read_9@100", "read", false, append);
+    expect(buildPruneTree({ sessionManager: { getBranch: () => branch } } as any, indexer)).toEqual([]);
+  });
+});
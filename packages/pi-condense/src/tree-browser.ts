@@ -7,7 +7,7 @@ import type { ToolCallRecord } from "./types.js";
 import { CUSTOM_TYPE_SUMMARY } from "./types.js";
 import { normalizeSummaryToolCallRefs } from "./summary-refs.js";
 import type { ToolCallIndexer } from "./indexer.js";
-import { occKey } from "./occurrence-key.js";
+import { occKey, resultTimestampOf } from "./occurrence-key.js";
 
 // ── Tree node types ─────────────────────────────────────────────────────────
 
@@ -90,6 +90,9 @@ function boxLines(
  *
  * Each node carries a `charCount` so the UI can show how many characters the
  * summary replaced (making it obvious whether pruning is saving space).
+ *
+ * Pins on results no flush has captured have no record to hang under a
+ * summary; they are listed last, in a "Pinned (live)" group.
  */
 export function buildPruneTree(
   ctx: ExtensionCommandContext,
@@ -119,10 +122,13 @@ export function buildPruneTree(
       : "";
 
     const children: TreeNode[] = [];
+    let pinnedCount = 0;
     for (const ref of toolCallRefs) {
       const record = indexer.getRecord(occKey(ref.toolCallId, ref.resultTimestamp));
       if (!record) continue;
-      children.push(toolCallNode(record, 1));
+      const pinned = indexer.isPinned(occKey(record.toolCallId, record.resultTimestamp));
+      if (pinned) pinnedCount++;
+      children.push(toolCallNode(record, 1, pinned));
     }
 
     const summaryText =
@@ -133,7 +139,7 @@ export function buildPruneTree(
       0,
     );
 
-    const header = `[pruner] Turn ${turnIndex} summary (${children.length} tool${children.length === 1 ? "" : "s"} · ${formatChars(summaryChars)} chars · original ${formatChars(totalOriginalChars)})`;
+    const header = `[pruner] Turn ${turnIndex} summary (${children.length} tool${children.length === 1 ? "" : "s"} · ${formatChars(summaryChars)} chars · original ${formatChars(totalOriginalChars)}${pinnedCount > 0 ? ` · ${pinnedCount} pinned` : ""})`;
     const label = timestamp ? `${header} · ${timestamp}` : header;
 
     roots.push({
@@ -148,16 +154,74 @@ export function buildPruneTree(
     });
   }
 
+  const livePins = livePinsNode(branch, indexer);
+  if (livePins) roots.push(livePins);
+
   return roots;
 }
 
-function toolCallNode(record: ToolCallRecord, depth: number): TreeNode {
+/** Group node for pins whose result has no index record yet, or undefined when there are none. */
+function livePinsNode(branch: any[], indexer: ToolCallIndexer): TreeNode | undefined {
+  const live = [...indexer.getPins()].filter(([key]) => !indexer.isSummarized(key));
+  if (live.length === 0) return undefined;
+
+  // Results by occurrence key, each paired with the args of the latest
+  // assistant toolCall before it (a reused id pairs within its own turn).
+  const results = new Map<string, LiveToolCall>();
+  const args = new Map<string, Record<string, unknown>>();
+  for (const entry of branch) {
+    const msg = entry.type === "message" ? entry.message : undefined;
+    if (msg?.role === "assistant" && Array.isArray(msg.content)) {
+      for (const block of msg.content) if (block?.type === "toolCall") args.set(block.id, block.arguments ?? {});
+    } else if (msg?.role === "toolResult") {
+      results.set(occKey(msg.toolCallId, resultTimestampOf(msg.timestamp)), {
+        toolCallId: msg.toolCallId,
+        toolName: msg.toolName,
+        args: args.get(msg.toolCallId) ?? {},
+        resultText: Array.isArray(msg.content)
+          ? msg.content.filter((c: any) => c?.type === "text").map((c: any) => c.text).join("\n")
+          : String(msg.content ?? ""),
+        isError: msg.isError === true,
+      });
+    }
+  }
+
+  const children = live.map(([key, toolName]): TreeNode => {
+    const result = results.get(key);
+    if (result) return toolCallNode({ ...result, toolName }, 1, true);
+    return {
+      id: key,
+      label: `${toolName} · ${key} (not on this branch) [pinned]`,
+      children: [],
+      expanded: false,
+      depth: 1,
+      isLeaf: true,
+    };
+  });
+
+  return {
+    id: "pinned-live",
+    label: `[pruner] Pinned (live) (${children.length} tool${children.length === 1 ? "" : "s"} · not captured yet)`,
+    children,
+    expanded: false,
+    depth: 0,
+    isLeaf: false,
+  };
+}
+
+type LiveToolCall = Pick<ToolCallRecord, "toolCallId" | "toolName" | "args" | "resultText" | "isError">;
+
+function toolCallNode(
+  record: LiveToolCall & Partial<Pick<ToolCallRecord, "spillBytes" | "resultPreview">>,
+  depth: number,
+  pinned = false,
+): TreeNode {
   const argsText = Object.entries(record.args)
     .map(([k, v]) => `${k}=${JSON.stringify(v)}`)
     .join(", ");
   const charCount = record.resultText.length || record.spillBytes || 0;
   const unit = record.resultText.length ? "chars" : (record.spillBytes ? "bytes" : "chars");
-  const label = `${record.toolName}(${argsText}) · ${formatChars(charCount)} ${unit}${record.isError ? " [error]" : ""}`;
+  const label = `${record.toolName}(${argsText}) · ${formatChars(charCount)} ${unit}${record.isError ? " [error]" : ""}${pinned ? " [pinned]" : ""}`;
   const previewSource = record.resultText || record.resultPreview || "";
   const resultPreview = previewSource.slice(0, 200).replace(/\s+/g, " ");
   return {
@@ -79,6 +79,15 @@ export const CUSTOM_TYPE_DEDUP_ALIAS = "context-prune-dedup-alias";
  */
 export const CUSTOM_TYPE_CHAIN = "context-prune-chain";
 
+/**
+ * customType for pin entries (NOT in LLM context).
+ *
+ * Append-only log written by `context_pin` and `/pruner pin`/`unpin`; one
+ * entry per state change. Replayed in order on `session_start`, so the last
+ * entry for an occurrence key wins.
+ */
+export const CUSTOM_TYPE_PIN = "context-prune-pin";
+
 /**
  * Written via pi.appendEntry(CUSTOM_TYPE_DIAGNOSTIC, data) when a prune-time
  * invariant degrades. NOT in LLM context: zero tokens, zero cache-prefix
@@ -106,6 +115,9 @@ export interface DiagnosticEntryData {
  * grace checks in pruner.ts / chain-compressor.ts cannot drift from registration. */
 export const QUERY_TOOL_NAME = "context_tree_query";
 
+/** The registered name of the pinning tool (src/pin-tool.ts). */
+export const PIN_TOOL_NAME = "context_pin";
+
 /** pi.events channel for cross-extension cost contributions (an aggregator like pi-subagents folds these into one total). */
 export const EXTERNAL_COST_CHANNEL = "cost:external";
 
@@ -137,6 +149,24 @@ export type PruneOn = "on-demand" | "agent-message";
  */
 export type BatchingMode = "turn" | "agent-message";
 
+/**
+ * Whether per-tool deterministic summaries (src/deterministic-summaries.ts)
+ * replace the summarizer LLM call for a batch.
+ * - "off"    : every batch goes to the LLM (default)
+ * - "prefer" : a batch whose every tool has a registered summarizer is
+ *              summarized deterministically; any other batch goes to the LLM
+ * - "only"   : never call the LLM; tools without a registered summarizer get
+ *              a generic name/args/status line
+ */
+export type DeterministicSummaryMode = "off" | "prefer" | "only";
+
+/** Choices for the deterministic-summaries setting (used by commands and settings overlay) */
+export const DETERMINISTIC_SUMMARY_MODES: { value: DeterministicSummaryMode; label: string }[] = [
+  { value: "off", label: "Off (default)" },
+  { value: "prefer", label: "Prefer" },
+  { value: "only", label: "Only" },
+];
+
 /** Thinking/reasoning level requested for summarizer LLM calls. */
 export type SummarizerThinking = "default" | "off" | "minimal" | "low" | "medium" | "high" | "xhigh";
 
@@ -351,6 +381,14 @@ export interface ContextPruneConfig {
    * together - the pre-pacing behavior). Default 4.
    */
   summarizerConcurrency: number;
+  /**
+   * Zero-LLM-cost per-tool summaries for batches with an obvious mechanical
+   * summary (`read` -> path, line count, top-level symbols; `bash` -> command,
+   * exit status, last lines; ...). Applied after the dedup and trivial-batch
+   * passes; a deterministic summary still goes through the oversized check.
+   * See DeterministicSummaryMode. Default "off".
+   */
+  deterministicSummaries: DeterministicSummaryMode;
   /**
    * Tool names whose outputs must NEVER be pruned or summarized. Tool calls
    * with matching `toolName` are filtered out of the pruning capture path so
@@ -405,6 +443,19 @@ export interface ContextPruneConfig {
    * file).
    */
   dedupByContentHash: boolean;
+  /**
+   * Pre-flush stale-read supersession pass (see src/supersession.ts). When
+   * `true`, a captured `read` result is superseded when a later captured call
+   * re-reads the same path (whole file, or the same `offset`/`limit` window)
+   * or edits/writes it successfully. Superseded reads are indexed with their
+   * full output and a short ref, removed from the batch BEFORE any summarizer
+   * LLM call, and stub-replaced by `pruneMessages` with a pointer to the
+   * newest occurrence. `protectedTools`/`protectedPaths` are respected.
+   *
+   * Default: `true`. Set to `false` to keep every read verbatim until it is
+   * summarized with its batch.
+   */
+  supersedeStaleReads: boolean;
   /**
    * Token-budget auto-flush trigger. A fraction in (0, 1] (a 0–1 share of the
    * context window, NOT a 0–100 percentage; e.g. 0.8 = flush at 80% of the
@@ -569,6 +620,7 @@ export const DEFAULT_CONFIG: ContextPruneConfig = {
   summarizerIdleTimeoutMs: 20000,
   summarizerMaxTimeoutMs: 180000,
   summarizerConcurrency: 4,
+  deterministicSummaries: "off",
   protectedTools: [],
   protectedPaths: ["**/skills/**/*.md"],
   chainCompression: {
@@ -583,6 +635,7 @@ export const DEFAULT_CONFIG: ContextPruneConfig = {
     minArgChars: 500,
   },
   dedupByContentHash: true,
+  supersedeStaleReads: true,
   autoBudgetThreshold: null,
   spillThreshold: 65536,
   spillPreviewBytes: 2048,
@@ -657,6 +710,20 @@ export interface ToolCallRecord {
   resultPreview?: string;
   /** Dedup hash of the FULL body, persisted so reconstruct/addBatch skip rehashing the empty resultText. */
   contentHash?: string;
+  /**
+   * Set on a `read` the supersession pass retired: the later call on the same
+   * path that made it stale. Its toolResult is stubbed with a pointer to that
+   * call instead of a summary ref.
+   */
+  supersededBy?: SupersededBy;
+}
+
+/** The newer occurrence a superseded read points at (see src/supersession.ts). */
+export interface SupersededBy {
+  toolCallId: string;
+  resultTimestamp?: number;
+  toolName: string;
+  turnIndex: number;
 }
 
 // ── Session persistence types ──────────────────────────────────────────────
@@ -669,10 +736,27 @@ export interface IndexEntryData {
   toolCalls: ToolCallRecord[];
   /** Entry written by backfillChainRecords: records must NOT seed contentHashToOriginal. */
   backfilled?: true;
-  /** Refs allocated at backfill time; durable carrier for alias reconstruction. */
+  /**
+   * Refs allocated at backfill or supersession time (no summary message
+   * carries them); durable carrier for alias reconstruction.
+   */
   refs?: SummaryToolCallRef[];
 }
 
+/**
+ * Data stored via pi.appendEntry(CUSTOM_TYPE_PIN, data).
+ *
+ * `pinned: false` records an unpin. `toolName` is display-only (pin listings
+ * work for live results that have no index record).
+ */
+export interface PinEntryData {
+  toolCallId: string;
+  /** Occurrence timestamp; absent for legacy bare-id records. */
+  resultTimestamp?: number;
+  toolName: string;
+  pinned: boolean;
+}
+
 /**
  * Data stored via pi.appendEntry(CUSTOM_TYPE_DEDUP_ALIAS, data).
  *
@@ -738,7 +822,7 @@ export interface FlushMetricsEntry {
   /** Batches after rescan+trim, before processing. */
   capturedBatches: number;
   processedBatches: number;
-  outcome: "summarized" | "skipped-oversized" | "skipped-deduped" | "skipped-trivial" | "empty" | "error";
+  outcome: "summarized" | "skipped-oversized" | "skipped-deduped" | "skipped-superseded" | "skipped-trivial" | "empty" | "error";
   /** Computed at flush ENTRY (pre-flush pressure). */
   metrics: ContextMetricsSnapshot;
 }
@@ -763,6 +847,8 @@ export interface SummarizerStats {
   chainsCompressed: number;
   /** Cumulative number of chains given a fused LLM range summary */
   rangesSummarized: number;
+  /** Cumulative number of batches summarized deterministically (no LLM call) */
+  deterministicSummaries: number;
 }
 
 /**
@@ -788,7 +874,8 @@ export type PruneFrontierOutcome =
   | "summarized"
   | "skipped-oversized"
   | "skipped-trivial"
-  | "skipped-deduped";
+  | "skipped-deduped"
+  | "skipped-superseded";
 
 /**
  * Snapshot of the last successfully completed prune attempt boundary.
@@ -939,6 +1026,8 @@ export interface SummarizeBatchesOptions {
  */
 export interface SummarizeResult {
   summaryText: string;
+  /** "deterministic" = built by src/deterministic-summaries.ts; `usage` is all zeros. Absent = LLM. */
+  source?: "deterministic";
   /** Usage data from the LLM response (tokens + cost) */
   usage: {
     input: number;
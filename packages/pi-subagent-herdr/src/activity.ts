@@ -1,5 +1,6 @@
 import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "node:fs";
 import { dirname, join } from "node:path";
+import { addProviderUsage, type ProviderUsage, type SubagentUsage, validateSubagentUsage } from "./usage.ts";
 
 export type SubagentActivityPhase = "starting" | "active" | "waiting" | "done";
 export type SubagentActivityScope = "agent" | "turn" | "provider" | "streaming" | "tool";
@@ -40,6 +41,8 @@ export interface SubagentActivityState {
 	activeSince?: number;
 	waitingSince?: number;
 	turnIndex?: number;
+	/** Turns ended over the whole run; unlike `turnIndex` it does not restart per prompt. */
+	turnCount?: number;
 	toolCount?: number;
 	contextTokens?: number;
 	contextWindow?: number;
@@ -52,6 +55,18 @@ export interface SubagentActivityState {
 	toolEndedAt?: number;
 	interruptedAt?: number;
 	interruptedSequence?: number;
+	/** Cumulative provider usage and cost keyed by `provider/model`. */
+	usage?: SubagentUsage;
+	/** Parent steering messages taken from the inbox, and when the latest was received. */
+	steerCount?: number;
+	lastSteerAt?: number;
+	/** Latest `subagent_progress` milestone; `progressCount` increases with every report. */
+	progressNote?: string;
+	progressPercent?: number;
+	progressAt?: number;
+	progressCount?: number;
+	/** The child asked for the latest note to reach the parent as a status line. */
+	progressNotify?: boolean;
 }
 
 export type ActivityReadResult =
@@ -80,6 +95,17 @@ export interface SubagentActivityRecorder {
 	toolExecutionEnd(toolCallId?: string, toolName?: string): void;
 	compaction(): void;
 	contextUsage(tokens: number | null, contextWindow: number, percent: number | null): void;
+	providerUsage(model: string, usage: ProviderUsage): void;
+	/** Cumulative usage so far, including usage recorded before an extension reload. */
+	usageTotals(): SubagentUsage | undefined;
+	progress(note: string, percent?: number, notify?: boolean): void;
+	steerReceived(): void;
+	/** Inbox lines already consumed, including before an extension reload. */
+	steersReceived(): number;
+	/** Turns ended so far, including before an extension reload. */
+	turnsCompleted(): number;
+	/** When the run's first recorder started; undefined without an activity file. */
+	runStartedAt(): number | undefined;
 	subagentDone(): void;
 	sessionShutdown(reason: SubagentShutdownReason): void;
 }
@@ -108,7 +134,7 @@ const KNOWN_EVENTS = new Set<SubagentActivityEvent>([
 	"subagent_done",
 	"session_shutdown",
 ]);
-const MAX_ACTIVITY_STRING_LENGTH = 200;
+export const MAX_ACTIVITY_STRING_LENGTH = 200;
 
 export function getSubagentActivityFile(artifactDir: string, runningChildId: string): string {
 	return join(artifactDir, "subagent-activity", `${runningChildId}.json`);
@@ -141,6 +167,11 @@ function validateBoolean(object: Record<string, unknown>, fieldName: string): st
 	return typeof object[fieldName] === "boolean" ? null : `${fieldName} must be a boolean`;
 }
 
+function validateOptionalBoolean(object: Record<string, unknown>, fieldName: string): string | null {
+	const value = object[fieldName];
+	return value == null || typeof value === "boolean" ? null : `${fieldName} must be a boolean when present`;
+}
+
 function validateOptionalActivityString(object: Record<string, unknown>, fieldName: string): string | null {
 	const value = object[fieldName];
 	if (value == null) return null;
@@ -183,6 +214,7 @@ function validateActivity(value: unknown, expectedRunningChildId: string): Activ
 		validateOptionalFiniteNumber(object, "activeSince"),
 		validateOptionalFiniteNumber(object, "waitingSince"),
 		validateOptionalInteger(object, "turnIndex"),
+		validateOptionalInteger(object, "turnCount"),
 		validateOptionalInteger(object, "toolCount"),
 		validateOptionalFiniteNumber(object, "contextTokens"),
 		validateOptionalFiniteNumber(object, "contextWindow"),
@@ -195,6 +227,14 @@ function validateActivity(value: unknown, expectedRunningChildId: string): Activ
 		validateOptionalActivityString(object, "toolName"),
 		validateOptionalFiniteNumber(object, "interruptedAt"),
 		validateOptionalInteger(object, "interruptedSequence"),
+		validateOptionalInteger(object, "steerCount"),
+		validateOptionalFiniteNumber(object, "lastSteerAt"),
+		validateOptionalActivityString(object, "progressNote"),
+		validateOptionalFiniteNumber(object, "progressPercent"),
+		validateOptionalFiniteNumber(object, "progressAt"),
+		validateOptionalInteger(object, "progressCount"),
+		validateOptionalBoolean(object, "progressNotify"),
+		validateSubagentUsage(object.usage),
 	].find((error) => error != null);
 	if (validationError) return invalidActivity(validationError);
 
@@ -255,6 +295,13 @@ function createNoopRecorder(): SubagentActivityRecorder {
 		toolExecutionEnd() {},
 		compaction() {},
 		contextUsage() {},
+		providerUsage() {},
+		usageTotals: () => undefined,
+		progress() {},
+		steerReceived() {},
+		steersReceived: () => 0,
+		turnsCompleted: () => 0,
+		runStartedAt: () => undefined,
 		subagentDone() {},
 		sessionShutdown() {},
 	};
@@ -515,6 +562,7 @@ export function createSubagentActivityRecorder(params: {
 					current.providerActive = false;
 					current.toolActive = false;
 					if (turnIndex != null) current.turnIndex = turnIndex;
+					current.turnCount = (current.turnCount ?? 0) + 1;
 					refreshActiveScope(current);
 				},
 				"immediate",
@@ -637,6 +685,51 @@ export function createSubagentActivityRecorder(params: {
 				"throttled",
 			);
 		},
+		providerUsage(model, usage) {
+			record(
+				activity.latestEvent,
+				(current) => {
+					current.usage = addProviderUsage(current.usage, model, usage);
+				},
+				"immediate",
+			);
+		},
+		usageTotals() {
+			return activity.usage;
+		},
+		progress(note, percent, notify) {
+			record(
+				activity.latestEvent,
+				(current, observedAt) => {
+					current.progressNote = note;
+					if (percent === undefined) delete current.progressPercent;
+					else current.progressPercent = percent;
+					current.progressAt = observedAt;
+					current.progressCount = (current.progressCount ?? 0) + 1;
+					current.progressNotify = notify === true;
+				},
+				"immediate",
+			);
+		},
+		steerReceived() {
+			record(
+				activity.latestEvent,
+				(current, observedAt) => {
+					current.steerCount = (current.steerCount ?? 0) + 1;
+					current.lastSteerAt = observedAt;
+				},
+				"immediate",
+			);
+		},
+		steersReceived() {
+			return activity.steerCount ?? 0;
+		},
+		turnsCompleted() {
+			return activity.turnCount ?? 0;
+		},
+		runStartedAt() {
+			return activity.createdAt;
+		},
 		subagentDone() {
 			markDone("subagent_done");
 		},
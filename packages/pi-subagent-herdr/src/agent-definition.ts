@@ -1,24 +1,55 @@
 import { existsSync, readFileSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
+import { parseBudgetDuration, type RunBudget } from "./budget.ts";
+import { ADMISSION_PRIORITIES, type AdmissionPriority } from "./coordinator.ts";
+import type { HookConfig } from "./hooks.ts";
+import { parseResultSchema, type ResultSchema } from "./result-schema.ts";
+import { type ModelChainEntry, parseExactModelRef, parseModelChain } from "./runtime-routing.ts";
+import { parseStallRecoveryPolicy, type StallRecoveryPolicy } from "./stall-recovery.ts";
 
-export type SeedMode = "fresh" | "fork";
+export type SeedMode = "fresh" | "fork" | "summary";
+export type IsolationMode = "worktree";
 
 export interface AgentDefinition {
 	id: string;
 	sourcePath: string;
 	source: "project" | "global";
+	/** First `model:` entry; the whole list is in `modelChain` when there is more than one or an entry sets thinking. */
 	model?: string;
+	modelChain?: ModelChainEntry[];
+	/** `relaunch` retries a run that ended on a provider error once, on the next entry of `modelChain`. */
+	modelFallback?: "relaunch";
 	thinking?: string;
 	tools: string;
 	skills?: string;
 	seed: SeedMode;
+	/** `provider/model` that writes the `seed: summary` briefing; settings, then the parent model, otherwise. */
+	summaryModel?: string;
+	/** Optional JSON Schema subset the child's `subagent_done` payload must satisfy. */
+	resultSchema?: ResultSchema;
+	/** `worktree` runs the child in a dedicated git worktree and branch. */
+	isolation?: IsolationMode;
+	/** `max-turns`, `max-tokens`, `max-cost`, and `max-time` limits for every run of this agent. */
+	budget?: RunBudget;
+	/** Background queue position for this agent's runs; a per-call `priority` overrides it. */
+	priority?: AdmissionPriority;
+	/** What the parent does when a run stalls (`stall-recovery:`, `stall-nudges:`); nothing when unset. */
+	stallRecovery?: StallRecoveryPolicy;
+	/** `on-complete:` / `on-fail:` commands run after each settlement, with `hook-output:` and `hook-timeout:`. */
+	hooks?: HookConfig;
+	/** Ancestors named by `extends:`, nearest first; their frontmatter and bodies are merged in. */
+	extends?: string[];
 	body: string;
-	/** Original frontmatter is retained so other extensions remain its consumers. */
+	/** Original frontmatter is retained so other extensions remain its consumers; merged when the agent extends another. */
 	frontmatter: string;
 }
 
 const CANONICAL_AGENT_ID = /^[a-z0-9](?:[a-z0-9._-]{0,62})$/;
+const FRONTMATTER_BLOCK = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const MAX_EXTENDS_DEPTH = 8;
+/** `{{name}}` in an agent body, filled from the call's `vars`. */
+const AGENT_VAR_PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}/g;
 
 export class AgentDefinitionError extends Error {
 	constructor(message: string) {
@@ -206,7 +237,7 @@ export function parseAgentDefinition(
 	source: AgentDefinition["source"] = "global",
 ): AgentDefinition {
 	validateCanonicalAgentId(id);
-	const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+	const match = content.match(FRONTMATTER_BLOCK);
 	if (!match) throw new AgentDefinitionError(`Invalid subagent ${JSON.stringify(id)}.`);
 
 	const frontmatter = match[1];
@@ -221,11 +252,42 @@ export function parseAgentDefinition(
 	}
 
 	const seedValue = scalarString(scalars.seed);
-	if (seedValue !== undefined && seedValue !== "fresh" && seedValue !== "fork") {
-		throw new AgentDefinitionError(`Invalid subagent ${JSON.stringify(id)}: seed must be fresh or fork.`);
+	if (seedValue !== undefined && seedValue !== "fresh" && seedValue !== "fork" && seedValue !== "summary") {
+		throw new AgentDefinitionError(`Invalid subagent ${JSON.stringify(id)}: seed must be fresh, fork, or summary.`);
+	}
+
+	const summaryModel = scalarString(scalars["summary-model"]);
+	if (summaryModel !== undefined && !parseExactModelRef(summaryModel)) {
+		throw new AgentDefinitionError(
+			`Invalid subagent ${JSON.stringify(id)}: summary-model must be an exact provider/model reference.`,
+		);
+	}
+
+	const isolationValue = scalarString(scalars.isolation);
+	if (isolationValue !== undefined && isolationValue !== "none" && isolationValue !== "worktree") {
+		throw new AgentDefinitionError(`Invalid subagent ${JSON.stringify(id)}: isolation must be none or worktree.`);
+	}
+
+	const fallbackValue = scalarString(scalars["model-fallback"]);
+	if (fallbackValue !== undefined && fallbackValue !== "none" && fallbackValue !== "relaunch") {
+		throw new AgentDefinitionError(
+			`Invalid subagent ${JSON.stringify(id)}: model-fallback must be none or relaunch.`,
+		);
+	}
+
+	const priorityValue = scalarString(scalars.priority);
+	if (priorityValue !== undefined && !ADMISSION_PRIORITIES.includes(priorityValue as AdmissionPriority)) {
+		throw new AgentDefinitionError(
+			`Invalid subagent ${JSON.stringify(id)}: priority must be high, normal, or low.`,
+		);
 	}
 
 	const tools = validateToolsProfile(scalars.tools, id);
+	const models = parseAgentModels(scalars.model, id);
+	const resultSchema = parseAgentResultSchema(scalars["result-schema"], id);
+	const budget = parseAgentBudget(scalars, id);
+	const stallRecovery = parseAgentStallRecovery(scalars, id);
+	const hooks = parseAgentHooks(scalars, id);
 
 	const body = content.slice(match[0].length).trim();
 	rejectIdentityTagsInBody(body, id);
@@ -234,24 +296,119 @@ export function parseAgentDefinition(
 		id,
 		sourcePath,
 		source,
-		model: scalarString(scalars.model),
+		...models,
+		...(fallbackValue === "relaunch" ? { modelFallback: "relaunch" as const } : {}),
 		thinking: scalarString(scalars.thinking),
 		tools,
 		skills: scalarString(scalars.skills),
 		seed: (seedValue as SeedMode | undefined) ?? "fresh",
+		...(summaryModel ? { summaryModel: summaryModel.trim() } : {}),
+		...(resultSchema ? { resultSchema } : {}),
+		...(isolationValue === "worktree" ? { isolation: "worktree" as const } : {}),
+		...(budget ? { budget } : {}),
+		...(priorityValue ? { priority: priorityValue as AdmissionPriority } : {}),
+		...(stallRecovery ? { stallRecovery } : {}),
+		...(hooks ? { hooks } : {}),
 		body,
 		frontmatter,
 	};
 }
 
-export function loadAgentDefinition(options: {
-	id: unknown;
+function parseAgentModels(
+	value: string | null | undefined,
+	id: string,
+): { model?: string; modelChain?: ModelChainEntry[] } {
+	const raw = scalarString(value);
+	if (raw === undefined) return {};
+	let chain: ModelChainEntry[];
+	try {
+		chain = parseModelChain(raw);
+	} catch (error) {
+		throw new AgentDefinitionError(`Invalid subagent ${JSON.stringify(id)}: ${(error as Error).message}.`);
+	}
+	if (chain.length === 1 && !chain[0].thinking) return { model: chain[0].model };
+	return { model: chain[0].model, modelChain: chain };
+}
+
+function parseAgentResultSchema(value: string | null | undefined, id: string): ResultSchema | undefined {
+	const raw = scalarString(value);
+	if (raw === undefined) return undefined;
+	try {
+		return parseResultSchema(raw);
+	} catch (error) {
+		throw new AgentDefinitionError(`Invalid subagent ${JSON.stringify(id)}: ${(error as Error).message}`);
+	}
+}
+
+function parseAgentBudget(scalars: FrontmatterScalars, id: string): RunBudget | undefined {
+	const invalid = (message: string) => new AgentDefinitionError(`Invalid subagent ${JSON.stringify(id)}: ${message}`);
+	const budget: RunBudget = {};
+	for (const [key, field] of [
+		["max-turns", "maxTurns"],
+		["max-tokens", "maxTokens"],
+	] as const) {
+		const raw = scalarString(scalars[key]);
+		if (raw === undefined) continue;
+		if (!/^[1-9]\d*$/.test(raw)) throw invalid(`${key} must be a positive integer.`);
+		budget[field] = Number(raw);
+	}
+	const cost = scalarString(scalars["max-cost"]);
+	if (cost !== undefined) {
+		const value = Number(cost.replace(/^\$/, ""));
+		if (!Number.isFinite(value) || value <= 0) throw invalid("max-cost must be a positive number of dollars.");
+		budget.maxCost = value;
+	}
+	const time = scalarString(scalars["max-time"]);
+	if (time !== undefined) {
+		const maxTimeMs = parseBudgetDuration(time);
+		if (maxTimeMs === undefined) throw invalid('max-time must be a duration such as "90s", "30m", or "2h".');
+		budget.maxTimeMs = maxTimeMs;
+	}
+	return Object.keys(budget).length > 0 ? budget : undefined;
+}
+
+function parseAgentStallRecovery(scalars: FrontmatterScalars, id: string): StallRecoveryPolicy | undefined {
+	try {
+		return parseStallRecoveryPolicy(scalarString(scalars["stall-recovery"]), scalarString(scalars["stall-nudges"]));
+	} catch (error) {
+		throw new AgentDefinitionError(`Invalid subagent ${JSON.stringify(id)}: ${(error as Error).message}`);
+	}
+}
+
+function parseAgentHooks(scalars: FrontmatterScalars, id: string): HookConfig | undefined {
+	const invalid = (message: string) => new AgentDefinitionError(`Invalid subagent ${JSON.stringify(id)}: ${message}`);
+	const hooks: HookConfig = {};
+	const onComplete = scalarString(scalars["on-complete"]);
+	if (onComplete) hooks.onComplete = onComplete;
+	const onFail = scalarString(scalars["on-fail"]);
+	if (onFail) hooks.onFail = onFail;
+	const output = scalarString(scalars["hook-output"]);
+	if (output !== undefined && output !== "none" && output !== "attach") {
+		throw invalid("hook-output must be none or attach.");
+	}
+	if (output === "attach") hooks.attachOutput = true;
+	const timeout = scalarString(scalars["hook-timeout"]);
+	if (timeout !== undefined) {
+		const timeoutMs = parseBudgetDuration(timeout);
+		if (timeoutMs === undefined) throw invalid('hook-timeout must be a duration such as "90s", "30m", or "2h".');
+		hooks.timeoutMs = timeoutMs;
+	}
+	return hooks.onComplete || hooks.onFail ? hooks : undefined;
+}
+
+interface AgentLoadOptions {
 	cwd: string;
 	agentDir?: string;
 	projectTrusted: boolean;
-}): AgentDefinition {
-	const id = validateCanonicalAgentId(options.id);
-	const candidates: Array<{ path: string; source: AgentDefinition["source"] }> = [];
+}
+
+interface AgentFile {
+	path: string;
+	source: AgentDefinition["source"];
+}
+
+function findAgentFile(id: string, options: AgentLoadOptions): AgentFile | undefined {
+	const candidates: AgentFile[] = [];
 	if (options.projectTrusted) {
 		candidates.push({ path: join(options.cwd, ".pi", "agents", `${id}.md`), source: "project" });
 	}
@@ -259,10 +416,122 @@ export function loadAgentDefinition(options: {
 		path: join(options.agentDir ?? getAgentConfigDir(), "agents", `${id}.md`),
 		source: "global",
 	});
+	return candidates.find((candidate) => existsSync(candidate.path));
+}
 
-	for (const candidate of candidates) {
-		if (!existsSync(candidate.path)) continue;
-		return parseAgentDefinition(readFileSync(candidate.path, "utf8"), id, candidate.path, candidate.source);
+export function loadAgentDefinition(options: AgentLoadOptions & { id: unknown }): AgentDefinition {
+	const id = validateCanonicalAgentId(options.id);
+	const file = findAgentFile(id, options);
+	if (!file) throw new AgentDefinitionError(`Unknown subagent ${JSON.stringify(id)}.`);
+	const resolved = resolveAgentContent(id, file, options, [id]);
+	const definition = parseAgentDefinition(resolved.content, id, file.path, file.source);
+	return resolved.ancestors.length > 0 ? { ...definition, extends: resolved.ancestors } : definition;
+}
+
+/**
+ * Follow `extends:` through the same project-then-global lookup and merge each
+ * ancestor under its child. `chain` holds the IDs already visited, root first.
+ */
+function resolveAgentContent(
+	id: string,
+	file: AgentFile,
+	options: AgentLoadOptions,
+	chain: string[],
+): { content: string; ancestors: string[] } {
+	const content = readFileSync(file.path, "utf8");
+	const match = content.match(FRONTMATTER_BLOCK);
+	const parentValue = match ? scalarString(parseFrontmatterScalars(match[1]).extends) : undefined;
+	if (parentValue === undefined) return { content, ancestors: [] };
+	if (!CANONICAL_AGENT_ID.test(parentValue)) {
+		throw new AgentDefinitionError(`Invalid subagent ${JSON.stringify(id)}: extends must be a canonical agent ID.`);
+	}
+	if (chain.includes(parentValue)) {
+		throw new AgentDefinitionError(
+			`Invalid subagent ${JSON.stringify(chain[0])}: extends cycle ${[...chain, parentValue].join(" -> ")}.`,
+		);
+	}
+	if (chain.length > MAX_EXTENDS_DEPTH) {
+		throw new AgentDefinitionError(
+			`Invalid subagent ${JSON.stringify(chain[0])}: extends chain is deeper than ${MAX_EXTENDS_DEPTH}.`,
+		);
+	}
+	const parentFile = findAgentFile(parentValue, options);
+	if (!parentFile) {
+		throw new AgentDefinitionError(
+			`Invalid subagent ${JSON.stringify(id)}: extends unknown agent ${JSON.stringify(parentValue)}.`,
+		);
+	}
+	const parent = resolveAgentContent(parentValue, parentFile, options, [...chain, parentValue]);
+	return { content: mergeAgentContent(parent.content, content), ancestors: [parentValue, ...parent.ancestors] };
+}
+
+/** Top-level frontmatter entries with their indented continuation lines (e.g. a `permission:` block). */
+function frontmatterEntries(frontmatter: string): Array<{ key: string; lines: string[] }> {
+	const entries: Array<{ key: string; lines: string[] }> = [];
+	for (const line of frontmatter.split(/\r?\n/)) {
+		const colon = line.indexOf(":");
+		const topLevel = !/^\s/.test(line) && !line.trim().startsWith("#") && colon > 0;
+		if (topLevel) entries.push({ key: line.slice(0, colon).trim(), lines: [line] });
+		else if (entries.length > 0) entries.at(-1)?.lines.push(line);
+		else entries.push({ key: "", lines: [line] });
+	}
+	return entries;
+}
+
+/**
+ * Child keys replace the parent's whole entry, nested blocks included; the
+ * parent's `name` and `extends` never carry over. The parent body comes first.
+ */
+function mergeAgentContent(parentContent: string, childContent: string): string {
+	const parent = splitAgentContent(parentContent);
+	const child = splitAgentContent(childContent);
+	const childEntries = frontmatterEntries(child.frontmatter).filter((entry) => entry.key !== "extends");
+	const overridden = new Set(["name", "extends", ...childEntries.map((entry) => entry.key).filter(Boolean)]);
+	const merged = [
+		...frontmatterEntries(parent.frontmatter).filter((entry) => !overridden.has(entry.key)),
+		...childEntries,
+	];
+	const frontmatter = merged.flatMap((entry) => entry.lines).join("\n");
+	const body = [parent.body, child.body].filter(Boolean).join("\n\n");
+	return `---\n${frontmatter}\n---\n${body}`;
+}
+
+function splitAgentContent(content: string): { frontmatter: string; body: string } {
+	const match = content.match(FRONTMATTER_BLOCK);
+	if (!match) throw new AgentDefinitionError("Invalid subagent definition: missing frontmatter.");
+	return { frontmatter: match[1], body: content.slice(match[0].length).trim() };
+}
+
+/** Placeholder names in an agent body, in first-use order. */
+export function agentBodyPlaceholders(body: string): string[] {
+	return Array.from(new Set(Array.from(body.matchAll(AGENT_VAR_PLACEHOLDER), (match) => match[1])));
+}
+
+/**
+ * Fill `{{name}}` placeholders in the body from a call's `vars`. Every
+ * placeholder needs a value and every value a placeholder, so a typo fails the
+ * launch instead of sending a half-filled prompt.
+ */
+export function applyAgentVars(definition: AgentDefinition, vars: unknown): AgentDefinition {
+	const invalid = (detail: string) =>
+		new AgentDefinitionError(`Invalid vars for subagent ${JSON.stringify(definition.id)}: ${detail}`);
+	if (vars !== undefined && (typeof vars !== "object" || vars === null || Array.isArray(vars))) {
+		throw invalid("vars must be an object of strings.");
+	}
+	const values = (vars ?? {}) as Record<string, unknown>;
+	const placeholders = agentBodyPlaceholders(definition.body);
+	if (placeholders.length === 0 && Object.keys(values).length === 0) return definition;
+	const unknown = Object.keys(values).filter((name) => !placeholders.includes(name));
+	if (unknown.length > 0) {
+		const uses =
+			placeholders.length > 0 ? `the body uses ${placeholders.join(", ")}` : "the body has no placeholders";
+		throw invalid(`unknown ${unknown.join(", ")}; ${uses}.`);
 	}
-	throw new AgentDefinitionError(`Unknown subagent ${JSON.stringify(id)}.`);
+	const missing = placeholders.filter((name) => values[name] === undefined);
+	if (missing.length > 0) throw invalid(`missing ${missing.join(", ")}.`);
+	const nonString = placeholders.find((name) => typeof values[name] !== "string");
+	if (nonString !== undefined) throw invalid(`${nonString} must be a string.`);
+	const body = definition.body.replace(AGENT_VAR_PLACEHOLDER, (_match, name: string) => values[name] as string);
+	rejectIdentityTagsInBody(body, definition.id);
+	return { ...definition, body };
 }
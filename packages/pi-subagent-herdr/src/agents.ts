@@ -0,0 +1,262 @@
+/**
+ * `/agents`: list and check agent definitions without launching them.
+ *
+ * Listing walks both definition directories and shows which file wins. Each
+ * winner is resolved by the launch path itself (`resolveAgentLaunch`:
+ * definition, `extends`, tools, runtime routing, skills), and `dry-run` builds
+ * the exact command, environment, and prompt files via the launch service's
+ * preview, so a definition that checks out here fails only on terminal or
+ * admission problems.
+ */
+import { existsSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import type { ExtensionAPI, ExtensionCommandContext } from "@earendil-works/pi-coding-agent";
+import {
+	agentBodyPlaceholders,
+	getAgentConfigDir,
+	loadAgentDefinition,
+	validateCanonicalAgentId,
+} from "./agent-definition.ts";
+import type { HookConfig } from "./hooks.ts";
+import type { StallRecoveryPolicy } from "./stall-recovery.ts";
+import type { LaunchPreview } from "./subagent-launch.ts";
+import type { ResolvedLaunchContext } from "./tool-execute.ts";
+import type { StableParentContext } from "./types.ts";
+
+export interface AgentFileListing {
+	id: string;
+	/** Where the definition that launches comes from. */
+	source: "project" | "global";
+	path: string;
+	/** A global file the project file overrides, or a project file ignored because the project is untrusted. */
+	shadowed?: { source: "project" | "global"; path: string; reason: "overridden" | "untrusted" };
+}
+
+/** An agent file no launch can load because its filename stem is not a canonical agent ID. */
+export interface InvalidAgentFile {
+	file: string;
+	source: "project" | "global";
+	path: string;
+	error: string;
+}
+
+export interface AgentsCommandDeps {
+	snapshot: (ctx: ExtensionCommandContext) => StableParentContext;
+	resolve: (
+		ctx: ExtensionCommandContext,
+		stableCtx: StableParentContext,
+		params: { agent: string; vars?: Record<string, string> },
+	) => Promise<ResolvedLaunchContext>;
+	preview: (params: any, context: ResolvedLaunchContext) => LaunchPreview;
+}
+
+type AgentDirOptions = { cwd: string; agentDir?: string; projectTrusted: boolean };
+
+function agentFilesIn(dir: string): Array<{ file: string; path: string }> {
+	if (!existsSync(dir)) return [];
+	return readdirSync(dir)
+		.sort()
+		.filter((entry) => entry.endsWith(".md"))
+		.map((file) => ({ file, path: join(dir, file) }));
+}
+
+function agentIdsIn(dir: string): Map<string, string> {
+	const ids = new Map<string, string>();
+	for (const { file, path } of agentFilesIn(dir)) {
+		try {
+			ids.set(validateCanonicalAgentId(file.slice(0, -3)), path);
+		} catch {}
+	}
+	return ids;
+}
+
+function agentDirs(options: AgentDirOptions): { project: string; global: string } {
+	return {
+		project: join(options.cwd, ".pi", "agents"),
+		global: join(options.agentDir ?? getAgentConfigDir(), "agents"),
+	};
+}
+
+/** Every agent file in project and global directories, keyed by the one a launch would load. */
+export function listAgentFiles(options: AgentDirOptions): AgentFileListing[] {
+	const dirs = agentDirs(options);
+	const project = agentIdsIn(dirs.project);
+	const global = agentIdsIn(dirs.global);
+	const ids = Array.from(new Set([...project.keys(), ...global.keys()])).sort();
+	return ids.flatMap((id): AgentFileListing[] => {
+		const projectPath = project.get(id);
+		const globalPath = global.get(id);
+		if (projectPath && options.projectTrusted) {
+			const shadowed = globalPath
+				? { source: "global" as const, path: globalPath, reason: "overridden" as const }
+				: undefined;
+			return [{ id, source: "project", path: projectPath, ...(shadowed ? { shadowed } : {}) }];
+		}
+		if (!globalPath) return [];
+		const shadowed = projectPath
+			? { source: "project" as const, path: projectPath, reason: "untrusted" as const }
+			: undefined;
+		return [{ id, source: "global", path: globalPath, ...(shadowed ? { shadowed } : {}) }];
+	});
+}
+
+/** Agent files skipped by listing and launch because their names are not canonical IDs; an untrusted project's are ignored. */
+export function listInvalidAgentFiles(options: AgentDirOptions): InvalidAgentFile[] {
+	const dirs = agentDirs(options);
+	const sources = [
+		...(options.projectTrusted ? [{ source: "project" as const, dir: dirs.project }] : []),
+		{ source: "global" as const, dir: dirs.global },
+	];
+	return sources.flatMap(({ source, dir }) =>
+		agentFilesIn(dir).flatMap(({ file, path }): InvalidAgentFile[] => {
+			try {
+				validateCanonicalAgentId(file.slice(0, -3));
+				return [];
+			} catch (error) {
+				return [{ file, source, path, error: (error as Error).message }];
+			}
+		}),
+	);
+}
+
+export function formatInvalidAgentFile(invalid: InvalidAgentFile): string {
+	return (
+		`✗ ${invalid.file} (${invalid.source}): ${invalid.error} Filenames must be lowercase letters, ` +
+		"digits, `.`, `_`, or `-` (at most 63 characters); no launch can load this file."
+	);
+}
+
+/** Placeholders stand in for themselves, so a parameterised agent checks out without real `vars`. */
+function placeholderVars(body: string): Record<string, string> | undefined {
+	const names = agentBodyPlaceholders(body);
+	return names.length > 0 ? Object.fromEntries(names.map((name) => [name, `{{${name}}}`])) : undefined;
+}
+
+export function formatAgentCheck(listing: AgentFileListing, checked: ResolvedLaunchContext | Error): string {
+	const origin =
+		listing.shadowed?.reason === "overridden"
+			? "project, overrides global"
+			: listing.shadowed?.reason === "untrusted"
+				? "global; project file ignored (untrusted)"
+				: listing.source;
+	const head = `${listing.id} (${origin})`;
+	if (checked instanceof Error) return `✗ ${head}: ${checked.message}`;
+	const plan = checked.runtimePlan;
+	const model = plan.model ? `${plan.model}${plan.thinking ? `:${plan.thinking}` : ""}` : "inherits parent model";
+	const details = [
+		model,
+		`tools ${checked.agentDefinition.tools}`,
+		...(checked.selectedSkills.length
+			? [`skills ${checked.selectedSkills.map((skill) => skill.name).join(", ")}`]
+			: []),
+		...(checked.agentDefinition.extends ? [`extends ${checked.agentDefinition.extends.join(" → ")}`] : []),
+		...(checked.fallbackPlan?.model ? [`fallback ${checked.fallbackPlan.model}`] : []),
+		...(checked.agentDefinition.seed !== "fresh" ? [`seed ${checked.agentDefinition.seed}`] : []),
+		...(checked.agentDefinition.stallRecovery ? [formatStallPolicy(checked.agentDefinition.stallRecovery)] : []),
+		...(checked.agentDefinition.hooks ? [formatHookPolicy(checked.agentDefinition.hooks)] : []),
+	];
+	const vars = agentBodyPlaceholders(checked.agentDefinition.body);
+	if (vars.length > 0) details.push(`vars ${vars.join(", ")}`);
+	return `✓ ${head}: ${details.join(" · ")}`;
+}
+
+function formatStallPolicy(policy: StallRecoveryPolicy): string {
+	return policy.action === "stop" ? "on stall stop" : `on stall ${policy.action} ×${policy.nudges}, then stop`;
+}
+
+function formatHookPolicy(hooks: HookConfig): string {
+	const events = [...(hooks.onComplete ? ["on-complete"] : []), ...(hooks.onFail ? ["on-fail"] : [])];
+	return `hooks ${events.join(", ")}${hooks.attachOutput ? " (attached)" : ""}`;
+}
+
+export function formatLaunchPreview(id: string, preview: LaunchPreview): string {
+	return [
+		`Dry run of ${id}: nothing was created. Run ID, session file, and timestamps are fresh at each launch.`,
+		"",
+		`cwd: ${preview.cwd}`,
+		...(preview.worktree
+			? [`Worktree: ${preview.worktree.path} on branch ${preview.worktree.branch} (created at launch)`]
+			: []),
+		"",
+		"Environment:",
+		...preview.environment.map((entry) => `  ${entry}`),
+		"",
+		"Command:",
+		`  ${preview.command}`,
+		...preview.artifacts.flatMap((artifact) => ["", `File ${artifact.path}:`, artifact.content]),
+	].join("\n");
+}
+
+async function resolveForCheck(
+	deps: AgentsCommandDeps,
+	ctx: ExtensionCommandContext,
+	stableCtx: StableParentContext,
+	id: string,
+): Promise<ResolvedLaunchContext | Error> {
+	try {
+		const definition = loadAgentDefinition({ id, ...stableCtx });
+		const vars = placeholderVars(definition.body);
+		return await deps.resolve(ctx, stableCtx, { agent: id, ...(vars ? { vars } : {}) });
+	} catch (error) {
+		return error instanceof Error ? error : new Error(String(error));
+	}
+}
+
+export function registerAgentsCommand(pi: ExtensionAPI, deps: AgentsCommandDeps): void {
+	pi.registerCommand("agents", {
+		description: "List and check subagent definitions, or `dry-run <id> [task]` to show what a launch would run",
+		getArgumentCompletions: (prefix: string) =>
+			"dry-run".startsWith(prefix.trim()) && !prefix.includes(" ")
+				? [{ value: "dry-run ", label: "dry-run" }]
+				: null,
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const stableCtx = deps.snapshot(ctx);
+			const dryRun = args.trim().match(/^dry-run(?:\s+(\S+))?(?:\s+([\s\S]+))?$/);
+			if (dryRun) {
+				await showDryRun(deps, ctx, stableCtx, dryRun[1], dryRun[2]);
+				return;
+			}
+			const listings = listAgentFiles(stableCtx);
+			const invalid = listInvalidAgentFiles(stableCtx);
+			if (listings.length === 0 && invalid.length === 0) {
+				ctx.ui.notify("No agent definitions found in .pi/agents or the global agents directory.", "info");
+				return;
+			}
+			const checks: Array<ResolvedLaunchContext | Error> = [];
+			for (const listing of listings) checks.push(await resolveForCheck(deps, ctx, stableCtx, listing.id));
+			const failed = invalid.length > 0 || checks.some((check) => check instanceof Error);
+			const lines = [
+				...listings.map((listing, index) => formatAgentCheck(listing, checks[index])),
+				...invalid.map(formatInvalidAgentFile),
+			];
+			ctx.ui.notify(lines.join("\n"), failed ? "warning" : "info");
+		},
+	});
+}
+
+async function showDryRun(
+	deps: AgentsCommandDeps,
+	ctx: ExtensionCommandContext,
+	stableCtx: StableParentContext,
+	id: string | undefined,
+	task = "<task>",
+): Promise<void> {
+	if (!id) {
+		ctx.ui.notify("Usage: /agents dry-run <id> [task]", "warning");
+		return;
+	}
+	const checked = await resolveForCheck(deps, ctx, stableCtx, id);
+	if (checked instanceof Error) {
+		ctx.ui.notify(`Cannot launch ${id}: ${checked.message}`, "error");
+		return;
+	}
+	let text: string;
+	try {
+		text = formatLaunchPreview(id, deps.preview({ agent: id, task }, checked));
+	} catch (error) {
+		ctx.ui.notify(`Cannot launch ${id}: ${(error as Error).message}`, "error");
+		return;
+	}
+	if (ctx.hasUI) await ctx.ui.editor(`Dry run: ${id}`, text);
+	else ctx.ui.notify(text, "info");
+}
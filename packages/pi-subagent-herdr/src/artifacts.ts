@@ -0,0 +1,166 @@
+/**
+ * Files a child attaches to its result.
+ *
+ * `subagent_attach` in the child copies a file into the run's artifact
+ * directory, `<artifact dir>/subagent-artifacts/<run id>/` next to the launch
+ * scripts, under a flat name. The directory is the record: the parent lists it
+ * when the run settles and serves its files through `subagent_artifact`, so the
+ * parent never guesses paths into the child's working tree. Imports nothing
+ * local: subagent-done.ts loads it into every child.
+ */
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync } from "node:fs";
+import { basename, isAbsolute, join, resolve } from "node:path";
+
+export interface SubagentArtifact {
+	name: string;
+	path: string;
+	/** Bytes. */
+	size: number;
+}
+
+export const MAX_ARTIFACT_BYTES = 20 * 1024 * 1024;
+export const MAX_ARTIFACTS_PER_RUN = 32;
+/** Lines and characters one `subagent_artifact` read returns; later ones are reached with `offset`. */
+export const ARTIFACT_READ_LINES = 2000;
+const ARTIFACT_READ_CHARS = 50_000;
+/** Flat names only: no separators, no leading dot, so a name can never leave the run's directory. */
+const ARTIFACT_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]{0,99}$/;
+const PENDING_SUFFIX = ".attaching";
+
+export function getRunArtifactsDir(artifactDir: string, runId: string): string {
+	return join(artifactDir, "subagent-artifacts", runId);
+}
+
+export function isArtifactName(name: string): boolean {
+	return ARTIFACT_NAME.test(name) && !name.endsWith(PENDING_SUFFIX);
+}
+
+/** Copies `source` into the run's directory; throws a model-facing error the child can correct. */
+export function attachRunArtifact(params: {
+	artifactsDir: string;
+	source: string;
+	name?: string;
+	cwd: string;
+}): SubagentArtifact {
+	const source = isAbsolute(params.source) ? params.source : resolve(params.cwd, params.source);
+	const name = params.name?.trim() || basename(source);
+	if (!isArtifactName(name)) {
+		throw new Error(
+			`Invalid artifact name ${JSON.stringify(name)}: use letters, digits, ".", "_" or "-" (up to 100, not starting with ".").`,
+		);
+	}
+	let stats: ReturnType<typeof statSync>;
+	try {
+		stats = statSync(source);
+	} catch {
+		throw new Error(`Cannot attach ${params.source}: no such file.`);
+	}
+	if (!stats.isFile()) throw new Error(`Cannot attach ${params.source}: not a regular file.`);
+	if (stats.size > MAX_ARTIFACT_BYTES) {
+		throw new Error(
+			`Cannot attach ${params.source}: ${formatArtifactSize(stats.size)} exceeds the ${formatArtifactSize(MAX_ARTIFACT_BYTES)} limit.`,
+		);
+	}
+	const existing = listRunArtifacts(params.artifactsDir);
+	if (existing.length >= MAX_ARTIFACTS_PER_RUN && !existing.some((artifact) => artifact.name === name)) {
+		throw new Error(`This run already has ${MAX_ARTIFACTS_PER_RUN} artifacts; attach an archive instead.`);
+	}
+	mkdirSync(params.artifactsDir, { recursive: true, mode: 0o700 });
+	const path = join(params.artifactsDir, name);
+	const pending = `${path}${PENDING_SUFFIX}`;
+	copyFileSync(source, pending);
+	renameSync(pending, path);
+	return { name, path, size: stats.size };
+}
+
+/** Attached files, by name; missing directories and half-copied files are skipped. */
+export function listRunArtifacts(artifactsDir: string | undefined): SubagentArtifact[] {
+	if (!artifactsDir || !existsSync(artifactsDir)) return [];
+	return readdirSync(artifactsDir)
+		.filter(isArtifactName)
+		.sort()
+		.flatMap((name) => {
+			const path = join(artifactsDir, name);
+			try {
+				const stats = statSync(path);
+				return stats.isFile() ? [{ name, path, size: stats.size }] : [];
+			} catch {
+				return [];
+			}
+		});
+}
+
+export function formatArtifactSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function formatArtifactList(artifacts: SubagentArtifact[]): string {
+	return [
+		"Artifacts (read with subagent_artifact):",
+		...artifacts.map((artifact) => `- ${artifact.name} (${formatArtifactSize(artifact.size)})`),
+	].join("\n");
+}
+
+/**
+ * `subagent_artifact` output: the listing without `name`, otherwise a window of
+ * the file's lines. Binary files are reported by size and path only.
+ */
+export function readRunArtifact(
+	artifactsDir: string,
+	name: string | undefined,
+	window: { offset?: number; limit?: number } = {},
+): { ok: boolean; text: string; artifact?: SubagentArtifact } {
+	const artifacts = listRunArtifacts(artifactsDir);
+	if (name === undefined) {
+		return artifacts.length > 0
+			? { ok: true, text: formatArtifactList(artifacts) }
+			: { ok: false, text: "This run has no artifacts." };
+	}
+	const artifact = artifacts.find((candidate) => candidate.name === name);
+	if (!artifact) {
+		const known = artifacts.map((candidate) => candidate.name).join(", ");
+		return { ok: false, text: `No artifact named ${JSON.stringify(name)}.${known ? ` Available: ${known}.` : ""}` };
+	}
+	const content = readFileSync(artifact.path);
+	if (content.subarray(0, 8192).includes(0)) {
+		return {
+			ok: true,
+			artifact,
+			text: `${artifact.name} is a binary file (${formatArtifactSize(artifact.size)}) at ${artifact.path}.`,
+		};
+	}
+	return { ok: true, artifact, text: artifactWindow(artifact, content.toString("utf8"), window) };
+}
+
+function artifactWindow(artifact: SubagentArtifact, text: string, window: { offset?: number; limit?: number }): string {
+	const lines = text.split("\n");
+	if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+	const start = Math.max(1, Math.floor(window.offset ?? 1));
+	const limit = Math.max(1, Math.floor(window.limit ?? ARTIFACT_READ_LINES));
+	const shown: string[] = [];
+	let chars = 0;
+	let truncated: number | undefined;
+	for (let index = start - 1; index < lines.length && shown.length < limit; index++) {
+		if (chars + lines[index].length > ARTIFACT_READ_CHARS) {
+			// A single line over the budget is cut rather than returned whole.
+			if (shown.length === 0) {
+				shown.push(lines[index].slice(0, ARTIFACT_READ_CHARS));
+				truncated = lines[index].length;
+			}
+			break;
+		}
+		shown.push(lines[index]);
+		chars += lines[index].length + 1;
+	}
+	const end = start + shown.length - 1;
+	if (start === 1 && end >= lines.length && truncated === undefined) return shown.join("\n");
+	if (shown.length === 0) return `${artifact.name} has ${lines.length} lines; offset ${start} is past the end.`;
+	const cut =
+		truncated === undefined
+			? ""
+			: ` Line ${start} is cut at ${ARTIFACT_READ_CHARS} of ${truncated} characters; read ${artifact.path} for the rest of it.`;
+	const more = end < lines.length ? ` Continue with offset ${end + 1}.` : "";
+	return `${shown.join("\n")}\n\n[${artifact.name}: lines ${start}-${end} of ${lines.length}.${cut}${more}]`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Fan-out batches.
+ *
+ * `subagent({ batch: [...] })` admits every member as one group and delivers a
+ * single aggregated completion once the last member settles. Members still
+ * run, render, and release capacity individually; only delivery is merged so
+ * the parent model wakes once with a per-member outcome table.
+ */
+
+import { subagentBatches } from "./state.ts";
+import { formatElapsedDuration } from "./status.ts";
+import type {
+	BatchMemberOutcome,
+	RunSettlementOutcome,
+	SubagentBatch,
+	SubagentBatchMember,
+	SubagentResult,
+} from "./types.ts";
+
+export const MAX_BATCH_SIZE = 8;
+
+const TABLE_SUMMARY_LIMIT = 80;
+
+type PresentResult = (result: SubagentResult, name: string, runId?: string) => string;
+
+export function createSubagentBatch(params: {
+	id: string;
+	parentSessionId: string;
+	parentSessionFile?: string;
+	members: Array<Pick<SubagentBatchMember, "runId" | "name" | "agent" | "task">>;
+}): SubagentBatch {
+	const batch: SubagentBatch = {
+		id: params.id,
+		parentSessionId: params.parentSessionId,
+		...(params.parentSessionFile ? { parentSessionFile: params.parentSessionFile } : {}),
+		createdAt: Date.now(),
+		members: params.members.map((member) => ({ ...member, outcome: "pending" })),
+	};
+	subagentBatches.set(batch.id, batch);
+	return batch;
+}
+
+/**
+ * Record one member's terminal result. Returns the batch (and forgets it) when
+ * this was the last pending member; returns undefined while others still run,
+ * for unknown batches, and for members that already settled.
+ */
+export function recordBatchMemberOutcome(
+	batchId: string,
+	runId: string,
+	result: SubagentResult,
+): SubagentBatch | undefined {
+	const batch: SubagentBatch | undefined = subagentBatches.get(batchId);
+	const member = batch?.members.find((entry) => entry.runId === runId);
+	if (!batch || !member || member.outcome !== "pending") return undefined;
+	member.outcome = batchMemberOutcome(result);
+	member.result = result;
+	if (batch.members.some((entry) => entry.outcome === "pending")) return undefined;
+	subagentBatches.delete(batch.id);
+	return batch;
+}
+
+export function batchMemberOutcome(
+	result: Pick<
+		SubagentResult,
+		"exitCode" | "error" | "errorMessage" | "watchAbandoned" | "budgetExceeded" | "stalled"
+	>,
+): RunSettlementOutcome {
+	if (result.watchAbandoned) return "abandoned";
+	if (result.error === "cancelled") return "cancelled";
+	if (result.budgetExceeded) return "budget-exceeded";
+	if (result.stalled) return "stalled";
+	return result.exitCode !== 0 || result.errorMessage ? "failed" : "completed";
+}
+
+export function batchProgress(batch: SubagentBatch): { settled: number; failed: number; total: number } {
+	const settled = batch.members.filter((member) => member.outcome !== "pending");
+	return {
+		settled: settled.length,
+		failed: settled.filter((member) => member.outcome !== "completed").length,
+		total: batch.members.length,
+	};
+}
+
+export function formatBatchOutcomeTable(batch: SubagentBatch): string {
+	const rows = batch.members.map(
+		(member, index) =>
+			`| ${index + 1} | ${tableCell(member.name)} | ${member.runId} | ${member.outcome} | ${memberElapsed(member)} | ${tableCell(memberSummary(member))} |`,
+	);
+	return ["| # | Agent | Run | Outcome | Elapsed | Summary |", "|---|---|---|---|---|---|", ...rows].join("\n");
+}
+
+export function batchResultMessage(batch: SubagentBatch, present: PresentResult) {
+	const failed = batch.members.some((member) => member.outcome !== "completed");
+	return {
+		customType: "subagent_result",
+		content: batchResultContent(batch, present),
+		display: true,
+		details: {
+			id: batch.id,
+			name: "batch",
+			batch: true,
+			exitCode: failed ? 1 : 0,
+			elapsed: Math.round((Date.now() - batch.createdAt) / 1000),
+			members: batch.members.map(({ runId, name, agent, outcome, result }) => ({
+				id: runId,
+				name,
+				agent,
+				outcome,
+				...(result ? { elapsed: result.elapsed, sessionFile: result.sessionFile } : {}),
+				...(result?.result !== undefined ? { result: result.result } : {}),
+				...(result?.artifacts ? { artifacts: result.artifacts } : {}),
+			})),
+		},
+	};
+}
+
+function batchResultContent(batch: SubagentBatch, present: PresentResult): string {
+	const sections = batch.members.map((member) =>
+		member.result
+			? present(member.result, member.name, member.runId)
+			: `Sub-agent "${member.name}" [${member.runId}] ${member.outcome}.`,
+	);
+	return [
+		`Subagent batch [${batch.id}] settled: ${formatBatchCounts(batch)}.`,
+		formatBatchOutcomeTable(batch),
+		...sections,
+	].join("\n\n");
+}
+
+export function formatBatchCounts(batch: SubagentBatch): string {
+	const counts = new Map<BatchMemberOutcome, number>();
+	for (const member of batch.members) counts.set(member.outcome, (counts.get(member.outcome) ?? 0) + 1);
+	return Array.from(counts, ([outcome, count]) => `${count} ${outcome}`).join(", ");
+}
+
+function memberElapsed(member: SubagentBatchMember): string {
+	return member.result ? formatElapsedDuration(member.result.elapsed * 1000) : "—";
+}
+
+function memberSummary(member: SubagentBatchMember): string {
+	const text = member.result?.errorMessage || member.result?.summary || "";
+	const firstLine = text.split("\n").find((line) => line.trim()) ?? "";
+	return firstLine.length > TABLE_SUMMARY_LIMIT ? `${firstLine.slice(0, TABLE_SUMMARY_LIMIT)}…` : firstLine;
+}
+
+function tableCell(value: string): string {
+	return value.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,250 @@
+/**
+ * Per-run budget limits: turns, total tokens, cost, and wall-clock time.
+ *
+ * Limits come from agent frontmatter (`max-turns`, `max-tokens`, `max-cost`,
+ * `max-time`) and the per-call `budget` parameter; the stricter value wins per
+ * limit. The child enforces them: at BUDGET_SOFT_RATIO it is asked once to wrap
+ * up, at the limit it is stopped and settles with a `budget-exceeded` sidecar.
+ * Imports nothing local beyond usage.ts: subagent-done.ts loads it into every child.
+ */
+import { type SubagentUsage, totalSubagentUsage } from "./usage.ts";
+
+export interface RunBudget {
+	maxTurns?: number;
+	/** Input, output, and cache tokens across every model, as pi counts `totalTokens`. */
+	maxTokens?: number;
+	/** Provider-reported cost in USD. */
+	maxCost?: number;
+	maxTimeMs?: number;
+}
+
+/** The per-call `budget` parameter as the tool schema accepts it. */
+export interface CallBudgetParam {
+	maxTurns?: number;
+	maxTokens?: number;
+	maxCost?: number;
+	maxTime?: string;
+}
+
+export type BudgetLimit = "turns" | "tokens" | "cost" | "time";
+
+export interface BudgetBreach {
+	limit: BudgetLimit;
+	used: number;
+	max: number;
+}
+
+export interface BudgetObservation {
+	turns: number;
+	usage?: SubagentUsage;
+	elapsedMs: number;
+}
+
+/** Fraction of any limit at which the child is asked to wrap up. */
+export const BUDGET_SOFT_RATIO = 0.8;
+
+const BUDGET_KEYS: Record<BudgetLimit, keyof RunBudget> = {
+	turns: "maxTurns",
+	tokens: "maxTokens",
+	cost: "maxCost",
+	time: "maxTimeMs",
+};
+
+const FRONTMATTER_NAMES: Record<BudgetLimit, string> = {
+	turns: "max-turns",
+	tokens: "max-tokens",
+	cost: "max-cost",
+	time: "max-time",
+};
+
+const DURATION_UNITS_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 };
+
+/** Parse `90s`, `30m`, `2h`, or bare seconds; undefined when malformed or not positive. */
+export function parseBudgetDuration(value: unknown): number | undefined {
+	if (typeof value === "number") return Number.isFinite(value) && value > 0 ? value * 1000 : undefined;
+	if (typeof value !== "string") return undefined;
+	const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smh]?)$/);
+	if (!match) return undefined;
+	const ms = Number(match[1]) * DURATION_UNITS_MS[match[2] || "s"];
+	return ms > 0 ? Math.round(ms) : undefined;
+}
+
+export function hasBudget(budget: RunBudget | undefined): budget is RunBudget {
+	return Boolean(budget && Object.values(budget).some((value) => value !== undefined));
+}
+
+/** Per limit, the stricter of the agent's and the call's value. */
+export function mergeRunBudgets(agent: RunBudget | undefined, call: RunBudget | undefined): RunBudget | undefined {
+	const merged: RunBudget = {};
+	for (const key of Object.values(BUDGET_KEYS)) {
+		const values = [agent?.[key], call?.[key]].filter((value): value is number => value !== undefined);
+		if (values.length > 0) merged[key] = Math.min(...values);
+	}
+	return hasBudget(merged) ? merged : undefined;
+}
+
+/**
+ * Validate the per-call `budget` parameter. Returns the parsed budget or a
+ * model-facing error; schema validation already guarantees the numeric shapes.
+ */
+export function parseCallBudget(value: unknown): { budget?: RunBudget } | { error: string } {
+	if (value == null) return {};
+	const raw = value as Omit<CallBudgetParam, "maxTime"> & { maxTime?: string | number };
+	const budget: RunBudget = {
+		...(raw.maxTurns !== undefined ? { maxTurns: raw.maxTurns } : {}),
+		...(raw.maxTokens !== undefined ? { maxTokens: raw.maxTokens } : {}),
+		...(raw.maxCost !== undefined ? { maxCost: raw.maxCost } : {}),
+	};
+	if (raw.maxTime !== undefined) {
+		const maxTimeMs = parseBudgetDuration(raw.maxTime);
+		if (maxTimeMs === undefined)
+			return { error: 'budget.maxTime must be a duration such as "90s", "30m", or "2h".' };
+		budget.maxTimeMs = maxTimeMs;
+	}
+	return hasBudget(budget) ? { budget } : {};
+}
+
+/** The `budget` tool parameter that reproduces `budget`, for re-running a run with the same limits. */
+export function callBudgetParam(budget: RunBudget): CallBudgetParam {
+	return {
+		...(budget.maxTurns !== undefined ? { maxTurns: budget.maxTurns } : {}),
+		...(budget.maxTokens !== undefined ? { maxTokens: budget.maxTokens } : {}),
+		...(budget.maxCost !== undefined ? { maxCost: budget.maxCost } : {}),
+		...(budget.maxTimeMs !== undefined ? { maxTime: `${budget.maxTimeMs / 1000}s` } : {}),
+	};
+}
+
+function observedAmount(limit: BudgetLimit, observation: BudgetObservation): number {
+	if (limit === "turns") return observation.turns;
+	if (limit === "time") return observation.elapsedMs;
+	const total = totalSubagentUsage(observation.usage);
+	return limit === "cost" ? total.cost : total.input + total.output + total.cacheRead + total.cacheWrite;
+}
+
+/** The first limit crossed at `ratio` of its maximum, or undefined while every limit is below it. */
+export function findBudgetBreach(
+	budget: RunBudget,
+	observation: BudgetObservation,
+	ratio = 1,
+): BudgetBreach | undefined {
+	for (const [limit, key] of Object.entries(BUDGET_KEYS) as Array<[BudgetLimit, keyof RunBudget]>) {
+		const max = budget[key];
+		if (max === undefined) continue;
+		const used = observedAmount(limit, observation);
+		if (used >= max * ratio) return { limit, used, max };
+	}
+	return undefined;
+}
+
+function formatBudgetAmount(limit: BudgetLimit, amount: number): string {
+	if (limit === "cost") return `$${amount.toFixed(3)}`;
+	if (limit === "time") return `${Math.round(amount / 1000)}s`;
+	return `${Math.round(amount)}`;
+}
+
+/** `max-turns 20 (used 20)` */
+export function formatBudgetBreach(breach: BudgetBreach): string {
+	return `${FRONTMATTER_NAMES[breach.limit]} ${formatBudgetAmount(breach.limit, breach.max)} (used ${formatBudgetAmount(breach.limit, breach.used)})`;
+}
+
+export function formatRunBudget(budget: RunBudget): string {
+	return (Object.entries(BUDGET_KEYS) as Array<[BudgetLimit, keyof RunBudget]>)
+		.filter(([, key]) => budget[key] !== undefined)
+		.map(([limit, key]) => `${FRONTMATTER_NAMES[limit]} ${formatBudgetAmount(limit, budget[key] as number)}`)
+		.join(", ");
+}
+
+export function parseBudgetBreach(value: unknown): BudgetBreach | undefined {
+	const breach = value as Partial<BudgetBreach> | undefined;
+	if (!breach || typeof breach !== "object" || !(breach.limit && breach.limit in BUDGET_KEYS)) return undefined;
+	if (!Number.isFinite(breach.used) || !Number.isFinite(breach.max)) return undefined;
+	return { limit: breach.limit, used: breach.used as number, max: breach.max as number };
+}
+
+export function parseBudgetEnvironment(raw: string | undefined): RunBudget | undefined {
+	if (!raw) return undefined;
+	const parsed = JSON.parse(raw) as RunBudget;
+	const budget: RunBudget = {};
+	for (const key of Object.values(BUDGET_KEYS)) {
+		const value = parsed?.[key];
+		if (typeof value === "number" && Number.isFinite(value) && value > 0) budget[key] = value;
+	}
+	return hasBudget(budget) ? budget : undefined;
+}
+
+export function budgetWrapUpMessage(breach: BudgetBreach, budget: RunBudget): string {
+	return (
+		`[pi-subagent-herdr] Budget notice: this run has used ${Math.round(BUDGET_SOFT_RATIO * 100)}% or more of ` +
+		`${formatBudgetBreach(breach)}. Limits: ${formatRunBudget(budget)}. Wrap up now: finish the most important ` +
+		"remaining step, write your final summary, and call subagent_done. The run is stopped when a limit is reached."
+	);
+}
+
+/**
+ * Child-side enforcement. `observe` is called after each turn and provider
+ * response; wall time is enforced with timers. `onSoft` fires at most once,
+ * `onHard` exactly once, after which the guard is inert. A child /reload
+ * recreates the guard, so `turns` and `startedAt` seed it with the run so far.
+ */
+export function createBudgetGuard(params: {
+	budget: RunBudget;
+	readUsage: () => SubagentUsage | undefined;
+	onSoft: (breach: BudgetBreach) => void;
+	onHard: (breach: BudgetBreach) => void;
+	turns?: number;
+	startedAt?: number;
+	now?: () => number;
+}) {
+	const now = params.now ?? (() => Date.now());
+	const startedAt = params.startedAt ?? now();
+	let turns = params.turns ?? 0;
+	let softSent = false;
+	let stopped = false;
+	const timers: Array<ReturnType<typeof setTimeout>> = [];
+
+	function observation(): BudgetObservation {
+		return { turns, usage: params.readUsage(), elapsedMs: now() - startedAt };
+	}
+
+	function check(): void {
+		if (stopped) return;
+		const current = observation();
+		const hard = findBudgetBreach(params.budget, current);
+		if (hard) {
+			stop();
+			params.onHard(hard);
+			return;
+		}
+		if (softSent) return;
+		const soft = findBudgetBreach(params.budget, current, BUDGET_SOFT_RATIO);
+		if (!soft) return;
+		softSent = true;
+		params.onSoft(soft);
+	}
+
+	function schedule(delayMs: number): void {
+		const timer = setTimeout(check, Math.max(0, delayMs));
+		(timer as unknown as { unref?: () => void }).unref?.();
+		timers.push(timer);
+	}
+
+	function stop(): void {
+		stopped = true;
+		for (const timer of timers.splice(0)) clearTimeout(timer);
+	}
+
+	if (params.budget.maxTimeMs !== undefined) {
+		const elapsedMs = now() - startedAt;
+		schedule(params.budget.maxTimeMs * BUDGET_SOFT_RATIO - elapsedMs);
+		schedule(params.budget.maxTimeMs - elapsedMs);
+	}
+
+	return {
+		turnEnded(): void {
+			turns += 1;
+			check();
+		},
+		check,
+		stop,
+	};
+}
@@ -1,4 +1,7 @@
 import { existsSync, readFileSync, rmSync } from "node:fs";
+import { type BudgetBreach, parseBudgetBreach } from "./budget.ts";
+import { formatStallSettlement, parseStallSettlement, type StallSettlement } from "./stall-recovery.ts";
+import { parseSubagentUsage, type SubagentUsage } from "./usage.ts";
 
 const ABORT_MESSAGE = "Aborted while waiting for subagent to finish";
 const TERMINAL_SENTINEL = /__SUBAGENT_DONE_(\d+)__/;
@@ -16,10 +19,20 @@ const TERMINAL_SENTINEL = /__SUBAGENT_DONE_(\d+)__/;
 export const DEFAULT_COMPLETION_TIMEOUT_MS = 4 * 60 * 60_000;
 
 export interface CompletionResult {
-	reason: "done" | "sentinel" | "error" | "timeout";
+	reason: "done" | "sentinel" | "error" | "timeout" | "budget-exceeded" | "stalled";
 	exitCode: number;
 	errorMessage?: string;
 	runId?: string;
+	/** Structured `subagent_done` payload, already validated by the child against its result schema. */
+	result?: unknown;
+	/** Child's cumulative provider usage at settlement, when its sidecar carried one. */
+	usage?: SubagentUsage;
+	/** The hard budget limit the child stopped at (`budget-exceeded` sidecars only). */
+	budgetExceeded?: BudgetBreach;
+	/** How long the child was stalled and how often it was nudged (`stalled` sidecars, written by the parent). */
+	stalled?: StallSettlement;
+	/** The child's own `error` sidecar: its last turn ended with a provider error. Other `error` reasons leave it unset. */
+	providerError?: boolean;
 }
 
 export interface CompletionOptions {
@@ -50,20 +63,60 @@ export function interpretExitSidecar(data: unknown): CompletionResult {
 		message?: unknown;
 		errorMessage?: unknown;
 		runId?: unknown;
+		result?: unknown;
+		usage?: unknown;
+		budget?: unknown;
+		stalled?: unknown;
 	};
 
 	const runId = typeof payload?.runId === "string" ? payload.runId : undefined;
+	const usage = parseSubagentUsage(payload?.usage);
 
 	if (payload?.type === "error") {
 		const errorMessage =
 			typeof payload.errorMessage === "string" && payload.errorMessage.trim()
 				? payload.errorMessage
 				: "Subagent exited with stopReason=error (no errorMessage in sidecar).";
-		return { reason: "error", exitCode: 1, errorMessage, ...(runId ? { runId } : {}) };
+		return {
+			reason: "error",
+			exitCode: 1,
+			errorMessage,
+			providerError: true,
+			...(runId ? { runId } : {}),
+			...(usage ? { usage } : {}),
+		};
+	}
+
+	const budgetExceeded = payload?.type === "budget-exceeded" ? parseBudgetBreach(payload.budget) : undefined;
+	if (budgetExceeded) {
+		return {
+			reason: "budget-exceeded",
+			exitCode: 1,
+			budgetExceeded,
+			...(runId ? { runId } : {}),
+			...(usage ? { usage } : {}),
+		};
+	}
+
+	const stalled = payload?.type === "stalled" ? parseStallSettlement(payload.stalled) : undefined;
+	if (stalled) {
+		return {
+			reason: "stalled",
+			exitCode: 1,
+			errorMessage: `Subagent ${formatStallSettlement(stalled)}.`,
+			stalled,
+			...(runId ? { runId } : {}),
+		};
 	}
 
 	if (payload?.type === "done") {
-		return { reason: "done", exitCode: 0, ...(runId ? { runId } : {}) };
+		return {
+			reason: "done",
+			exitCode: 0,
+			...(runId ? { runId } : {}),
+			...(payload.result !== undefined ? { result: payload.result } : {}),
+			...(usage ? { usage } : {}),
+		};
 	}
 
 	return {
@@ -1,9 +1,21 @@
 export type AdmissionClass = "foreground" | "background";
 export type AdmissionState = "queued" | "admitted" | "cancelled" | "released";
+export type AdmissionPriority = "high" | "normal" | "low";
+
+export const ADMISSION_PRIORITIES: readonly AdmissionPriority[] = ["high", "normal", "low"];
+export const DEFAULT_ADMISSION_LIMITS: Readonly<Record<AdmissionClass, number>> = { foreground: 1, background: 4 };
+
+/** Per-class slots and per-agent caps; agents without a cap are limited only by their class. */
+export interface AdmissionLimits {
+	foreground: number;
+	background: number;
+	agents: Record<string, number>;
+}
 
 export interface AdmissionLease {
 	id: string;
 	class: AdmissionClass;
+	agent?: string;
 	state: AdmissionState;
 	queuedAt: number;
 	admittedAt?: number;
@@ -16,6 +28,7 @@ interface PendingAdmission {
 	lease: AdmissionLeaseImpl;
 	resolve: (lease: AdmissionLease) => void;
 	reject: (error: Error) => void;
+	priority: AdmissionPriority;
 	signal?: AbortSignal;
 	onAbort?: () => void;
 	generation: number;
@@ -28,6 +41,7 @@ class AdmissionLeaseImpl implements AdmissionLease {
 	readonly coordinator: AdmissionCoordinator;
 	readonly id: string;
 	readonly queuedAt: number;
+	readonly agent?: string;
 	private settled = false;
 
 	constructor(
@@ -36,12 +50,14 @@ class AdmissionLeaseImpl implements AdmissionLease {
 		admissionClass: AdmissionClass,
 		queuedAt: number,
 		state: AdmissionState,
+		agent?: string,
 	) {
 		this.coordinator = coordinator;
 		this.id = id;
 		this.queuedAt = queuedAt;
 		this.class = admissionClass;
 		this.state = state;
+		if (agent) this.agent = agent;
 		if (state === "admitted") this.admittedAt = Date.now();
 	}
 
@@ -78,6 +94,10 @@ class AdmissionLeaseImpl implements AdmissionLease {
 export interface AdmissionRequest {
 	id: string;
 	class: AdmissionClass;
+	/** Canonical agent ID, counted against `limits.agents`. */
+	agent?: string;
+	/** Queue position within the class: ahead of every lower priority, FIFO among equals. Default `normal`. */
+	priority?: AdmissionPriority;
 	signal?: AbortSignal;
 }
 
@@ -91,8 +111,9 @@ export class AdmissionCoordinator {
 	/** Read via any-cast on legacy global instances after extension reload (see getAdmissionCoordinator). */
 	// fallow-ignore-next-line unused-class-member
 	readonly version = 2;
-	readonly limits = { foreground: 1, background: 4 } as const;
+	limits: AdmissionLimits = { ...DEFAULT_ADMISSION_LIMITS, agents: {} };
 	private active = { foreground: 0, background: 0 };
+	private activeAgents = new Map<string, number>();
 	private activeLeases = new Map<string, AdmissionLeaseImpl>();
 	private legacyActiveIds = new Set<string>();
 	private queues: Record<AdmissionClass, PendingAdmission[]> = {
@@ -106,35 +127,68 @@ export class AdmissionCoordinator {
 		if (this.shutdown) throw new Error("Subagent coordinator is shut down.");
 		if (request.signal?.aborted) throw new Error("Subagent admission cancelled.");
 		if (this.hasId(request.id)) throw new Error(`Duplicate subagent run ${JSON.stringify(request.id)}.`);
+		this.assertAgentEnabled(request.agent);
 
+		const priority = request.priority ?? "normal";
 		const canAdmit =
-			this.active[request.class] < this.limits[request.class] && this.queues[request.class].length === 0;
+			this.active[request.class] < this.limits[request.class] &&
+			this.agentHasRoom(request.agent) &&
+			!this.queues[request.class].some((entry) => this.admissible(entry));
 		const lease = new AdmissionLeaseImpl(
 			this,
 			request.id,
 			request.class,
 			Date.now(),
 			canAdmit ? "admitted" : "queued",
+			request.agent,
 		);
 		if (canAdmit) {
-			this.active[request.class]++;
-			this.activeLeases.set(request.id, lease);
+			this.occupy(lease);
 			(lease as AdmissionLeaseImpl & { generation?: number }).generation = this.generation;
 			return { queued: false, lease, admitted: Promise.resolve(lease) };
 		}
 
 		let pending!: PendingAdmission;
 		const admitted = new Promise<AdmissionLease>((resolve, reject) => {
-			pending = { lease, resolve, reject, signal: request.signal, generation: this.generation };
+			pending = { lease, resolve, reject, priority, signal: request.signal, generation: this.generation };
 		});
 		if (request.signal) {
 			pending.onAbort = () => this.cancelQueued(request.id, request.class);
 			request.signal.addEventListener("abort", pending.onAbort, { once: true });
 		}
-		this.queues[request.class].push(pending);
+		this.enqueue(request.class, pending);
 		return { queued: true, lease, admitted };
 	}
 
+	/**
+	 * Replace the limits, e.g. from settings read at the next admission. Raising
+	 * a limit admits queued work at once; lowering one never revokes an admitted run.
+	 */
+	configure(limits: AdmissionLimits): void {
+		this.limits = { foreground: limits.foreground, background: limits.background, agents: { ...limits.agents } };
+		if (this.shutdown) return;
+		this.admitNext("foreground");
+		this.admitNext("background");
+	}
+
+	/**
+	 * Admit a fan-out group as one unit: every member is validated before any
+	 * is enqueued, so a duplicate or shutdown never leaves a partial group, and
+	 * members occupy contiguous FIFO positions ahead of later callers.
+	 */
+	requestGroup(requests: AdmissionRequest[]): AdmissionTicket[] {
+		if (this.shutdown) throw new Error("Subagent coordinator is shut down.");
+		const ids = new Set<string>();
+		for (const request of requests) {
+			if (ids.has(request.id) || this.hasId(request.id)) {
+				throw new Error(`Duplicate subagent run ${JSON.stringify(request.id)}.`);
+			}
+			this.assertAgentEnabled(request.agent);
+			ids.add(request.id);
+		}
+		return requests.map((request) => this.request(request));
+	}
+
 	counts(): { foreground: number; background: number; queuedForeground: number; queuedBackground: number } {
 		return {
 			foreground: this.active.foreground,
@@ -176,39 +230,87 @@ export class AdmissionCoordinator {
 		// those IDs and counters as part of shutdown so every migrated lease fails
 		// the coordinator gate even if its old object still says "admitted".
 		this.legacyActiveIds.clear();
+		this.activeAgents.clear();
 		this.active.foreground = 0;
 		this.active.background = 0;
 	}
 
 	cancelActive(lease: AdmissionLeaseImpl): boolean {
 		if (this.activeLeases.get(lease.id) !== lease || lease.state !== "admitted") return false;
-		this.activeLeases.delete(lease.id);
-		this.legacyActiveIds.delete(lease.id);
 		lease.markCancelled();
-		this.active[lease.class] = Math.max(0, this.active[lease.class] - 1);
-		if (!this.shutdown) this.admitNext(lease.class);
+		this.vacate(lease);
 		return true;
 	}
 
 	release(lease: AdmissionLeaseImpl): void {
+		this.vacate(lease);
+	}
+
+	private occupy(lease: AdmissionLeaseImpl): void {
+		this.active[lease.class]++;
+		this.activeLeases.set(lease.id, lease);
+		if (lease.agent) this.activeAgents.set(lease.agent, (this.activeAgents.get(lease.agent) ?? 0) + 1);
+	}
+
+	/** Free the lease's class slot and agent count; an agent cap spans both classes, so both queues are retried. */
+	private vacate(lease: AdmissionLeaseImpl): void {
 		this.activeLeases.delete(lease.id);
 		this.legacyActiveIds.delete(lease.id);
 		this.active[lease.class] = Math.max(0, this.active[lease.class] - 1);
-		if (!this.shutdown) this.admitNext(lease.class);
+		if (lease.agent) {
+			const count = (this.activeAgents.get(lease.agent) ?? 0) - 1;
+			if (count > 0) this.activeAgents.set(lease.agent, count);
+			else this.activeAgents.delete(lease.agent);
+		}
+		if (this.shutdown) return;
+		this.admitNext(lease.class);
+		if (lease.agent) this.admitNext(lease.class === "foreground" ? "background" : "foreground");
+	}
+
+	/** A cap of 0 would queue the run forever (and hold a blocking caller's barrier lease), so refuse it up front. */
+	private assertAgentEnabled(agent: string | undefined): void {
+		if (agent && this.limits.agents[agent] === 0) {
+			throw new Error(
+				`Subagent ${JSON.stringify(agent)} is disabled: its subagentHerdr.admission.agents cap is 0 in settings.`,
+			);
+		}
 	}
 
+	private agentHasRoom(agent: string | undefined): boolean {
+		const cap = agent ? this.limits.agents[agent] : undefined;
+		return cap === undefined || (this.activeAgents.get(agent as string) ?? 0) < cap;
+	}
+
+	/** Cancelled entries count as admissible so the admit loop reaches and drops them. */
+	private admissible(pending: PendingAdmission): boolean {
+		return (
+			pending.signal?.aborted === true ||
+			pending.lease.state === "cancelled" ||
+			this.agentHasRoom(pending.lease.agent)
+		);
+	}
+
+	private enqueue(kind: AdmissionClass, pending: PendingAdmission): void {
+		const rank = ADMISSION_PRIORITIES.indexOf(pending.priority);
+		const queue = this.queues[kind];
+		const index = queue.findIndex((entry) => ADMISSION_PRIORITIES.indexOf(entry.priority ?? "normal") > rank);
+		if (index < 0) queue.push(pending);
+		else queue.splice(index, 0, pending);
+	}
+
+	/** Admit in queue order, passing over runs whose agent is at its cap until a slot of theirs frees. */
 	private admitNext(kind: AdmissionClass): void {
 		while (this.active[kind] < this.limits[kind]) {
-			const pending = this.queues[kind].shift();
-			if (!pending) return;
+			const index = this.queues[kind].findIndex((entry) => this.admissible(entry));
+			if (index < 0) return;
+			const [pending] = this.queues[kind].splice(index, 1);
 			this.detachAbort(pending);
 			if (pending.signal?.aborted || pending.lease.state === "cancelled") {
 				pending.lease.markCancelled();
 				pending.reject(new Error("Subagent admission cancelled."));
 				continue;
 			}
-			this.active[kind]++;
-			this.activeLeases.set(pending.lease.id, pending.lease);
+			this.occupy(pending.lease);
 			pending.lease.markAdmitted();
 			(pending.lease as AdmissionLeaseImpl & { generation?: number }).generation = pending.generation;
 			pending.resolve(pending.lease);
@@ -274,5 +376,22 @@ export function getAdmissionCoordinator(parentSessionId: string): AdmissionCoord
 		// rejects their launch continuations before any pane/resource creation.
 		Object.defineProperty(coordinator, "version", { value: 2, enumerable: true });
 	}
+	upgradeAdmissionLimits(coordinator);
 	return coordinator;
 }
+
+/**
+ * A coordinator created before per-agent caps existed survives /reload with the
+ * old prototype and a read-only class limit pair; adopt the current methods and
+ * fill the new state. Its admitted leases carry no agent, so caps start at zero.
+ */
+function upgradeAdmissionLimits(coordinator: AdmissionCoordinator): void {
+	if (Object.getPrototypeOf(coordinator) !== AdmissionCoordinator.prototype) {
+		Object.setPrototypeOf(coordinator, AdmissionCoordinator.prototype);
+	}
+	const state = coordinator as any;
+	if (!state.activeAgents) state.activeAgents = new Map<string, number>();
+	if (!state.limits?.agents) {
+		state.limits = { ...DEFAULT_ADMISSION_LIMITS, ...(state.limits ?? {}), agents: {} };
+	}
+}
@@ -0,0 +1,71 @@
+/**
+ * Parent-side roll-up of child usage onto the shared `cost:external` channel.
+ *
+ * Every run's latest cumulative usage is folded into one per-session figure,
+ * so other extensions' cost footers include subagent spend.
+ */
+import { resolveActiveCompletionRuntime } from "./delivery.ts";
+import { subagentUsageBySession } from "./state.ts";
+import { type SubagentModelUsage, type SubagentUsage, totalSubagentUsage } from "./usage.ts";
+
+/** pi.events channel for cross-extension cost contributions; shared with pi-condense. */
+export const EXTERNAL_COST_CHANNEL = "cost:external";
+
+/** Stable producer id for this extension's cost contributions. */
+export const EXTERNAL_COST_SOURCE = "pi-subagent-herdr";
+
+/** Cumulative-per-session payload; aggregators key by `source` and overwrite. */
+export interface ExternalCostUpdate {
+	source: string;
+	totalCost: number;
+	inputTokens?: number;
+	outputTokens?: number;
+}
+
+/**
+ * Record a run's latest cumulative usage and republish the session total.
+ * Runs are keyed by ID, so live activity samples and the final completion
+ * figure overwrite rather than add up.
+ */
+export function recordSubagentUsage(parentSessionId: string | undefined, runId: string, usage: SubagentUsage): void {
+	if (!parentSessionId) return;
+	let session = subagentUsageBySession.get(parentSessionId);
+	if (!session) {
+		session = { runs: new Map<string, SubagentUsage>() };
+		subagentUsageBySession.set(parentSessionId, session);
+	}
+	session.runs.set(runId, usage);
+	publishSubagentCost(parentSessionId);
+}
+
+export function sessionSubagentUsage(parentSessionId: string): SubagentModelUsage {
+	const session = subagentUsageBySession.get(parentSessionId);
+	const total = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 };
+	for (const usage of session?.runs.values() ?? []) {
+		const run = totalSubagentUsage(usage);
+		total.input += run.input;
+		total.output += run.output;
+		total.cacheRead += run.cacheRead;
+		total.cacheWrite += run.cacheWrite;
+		total.cost += run.cost;
+	}
+	return total;
+}
+
+/** Emit the session total when it changed since the last emission; silent without an active runtime. */
+export function publishSubagentCost(parentSessionId: string): void {
+	const activeRuntime = resolveActiveCompletionRuntime(parentSessionId);
+	const session = subagentUsageBySession.get(parentSessionId);
+	if (!activeRuntime || !session) return;
+	const total = sessionSubagentUsage(parentSessionId);
+	const payload: ExternalCostUpdate = {
+		source: EXTERNAL_COST_SOURCE,
+		totalCost: total.cost,
+		inputTokens: total.input,
+		outputTokens: total.output,
+	};
+	const key = JSON.stringify(payload);
+	if (session.lastEmitted === key) return;
+	session.lastEmitted = key;
+	activeRuntime.api.events.emit(EXTERNAL_COST_CHANNEL, payload);
+}
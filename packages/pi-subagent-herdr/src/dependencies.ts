@@ -0,0 +1,134 @@
+/**
+ * Run dependencies.
+ *
+ * `subagent({ dependsOn: [runId, ...] })` holds a background run outside the
+ * admission queue until every predecessor settles. Successful predecessors'
+ * summaries are templated into the dependent task; any other outcome cancels
+ * the dependent with the failing predecessor named as the reason. Settlements
+ * are recorded process-globally so chains cascade and reloaded modules wake
+ * continuations created by earlier closures.
+ */
+
+import { batchMemberOutcome } from "./batch.ts";
+import { recordLedgerEvent } from "./ledger.ts";
+import { queuedSubagents, runningSubagents, settledRuns, settlementWaiters } from "./state.ts";
+import type { RunSettlement, SubagentResult } from "./types.ts";
+
+export const MAX_DEPENDENCIES = 8;
+export const PREDECESSORS_PLACEHOLDER = "{{predecessors}}";
+
+const MAX_SETTLED_RUNS = 64;
+
+/** Record a run's terminal outcome once; the first settlement wins and wakes every waiter. */
+export function recordRunSettlement(settlement: Omit<RunSettlement, "settledAt">): void {
+	if (settledRuns.has(settlement.runId)) return;
+	const entry: RunSettlement = { ...settlement, settledAt: Date.now() };
+	settledRuns.set(entry.runId, entry);
+	while (settledRuns.size > MAX_SETTLED_RUNS) settledRuns.delete(settledRuns.keys().next().value as string);
+	recordLedgerEvent(entry.runId, { type: "settled", outcome: entry.outcome }, entry.settledAt);
+	const waiters = settlementWaiters.get(entry.runId);
+	settlementWaiters.delete(entry.runId);
+	for (const wake of waiters ?? []) wake(entry);
+}
+
+export function runSettlementFromResult(
+	runId: string,
+	result: SubagentResult,
+	parentSessionId: string | undefined,
+): Omit<RunSettlement, "settledAt"> {
+	return {
+		runId,
+		...(parentSessionId ? { parentSessionId } : {}),
+		name: result.name,
+		outcome: batchMemberOutcome(result),
+		summary: result.errorMessage || result.summary,
+		...(result.result !== undefined ? { result: result.result } : {}),
+	};
+}
+
+/**
+ * Resolve a predecessor's display name, or undefined when the run ID is
+ * unknown to this process or belongs to another parent session: the state
+ * maps are process-global, so the owning session is checked explicitly.
+ */
+export function knownRunName(runId: string, parentSessionId: string): string | undefined {
+	const run =
+		runningSubagents.get(runId) ??
+		queuedSubagents.get(runId) ??
+		(settledRuns.get(runId) as RunSettlement | undefined);
+	return run?.parentSessionId === parentSessionId ? run.name : undefined;
+}
+
+export function validateDependencies(dependsOn: unknown, parentSessionId: string): string | undefined {
+	if (!Array.isArray(dependsOn) || dependsOn.length === 0 || dependsOn.length > MAX_DEPENDENCIES)
+		return `dependsOn must list between 1 and ${MAX_DEPENDENCIES} run IDs.`;
+	if (new Set(dependsOn).size !== dependsOn.length) return "dependsOn must not repeat a run ID.";
+	const unknown = dependsOn.find((id) => typeof id !== "string" || knownRunName(id, parentSessionId) === undefined);
+	if (unknown !== undefined)
+		return `Unknown dependsOn run ${JSON.stringify(unknown)}; pass run IDs returned by earlier subagent calls.`;
+	return undefined;
+}
+
+/**
+ * Wait for every predecessor. Resolves with their settlements in `dependsOn`
+ * order once all completed; rejects as soon as one settles any other way, or
+ * with the standard cancellation error when `signal` aborts first.
+ */
+export function waitForDependencies(
+	dependsOn: string[],
+	signal: AbortSignal,
+	onSettled?: (settlement: RunSettlement) => void,
+): Promise<RunSettlement[]> {
+	const cleanups: Array<() => void> = [];
+	const waits = dependsOn.map((id) =>
+		awaitRunSettlement(id, cleanups).then((settlement) => {
+			if (settlement.outcome !== "completed") throw new Error(dependencyFailureReason(settlement));
+			onSettled?.(settlement);
+			return settlement;
+		}),
+	);
+	const cancelled = new Promise<never>((_resolve, reject) => {
+		const onAbort = () => reject(new Error("Subagent admission cancelled."));
+		if (signal.aborted) onAbort();
+		signal.addEventListener("abort", onAbort, { once: true });
+		cleanups.push(() => signal.removeEventListener("abort", onAbort));
+	});
+	return Promise.race([Promise.all(waits), cancelled]).finally(() => {
+		for (const cleanup of cleanups) cleanup();
+	});
+}
+
+function awaitRunSettlement(runId: string, cleanups: Array<() => void>): Promise<RunSettlement> {
+	const settled: RunSettlement | undefined = settledRuns.get(runId);
+	if (settled) return Promise.resolve(settled);
+	return new Promise((resolve) => {
+		const waiters = settlementWaiters.get(runId) ?? new Set();
+		settlementWaiters.set(runId, waiters);
+		waiters.add(resolve);
+		cleanups.push(() => waiters.delete(resolve));
+	});
+}
+
+export function dependencyFailureReason(settlement: RunSettlement): string {
+	const outcome =
+		settlement.outcome === "abandoned"
+			? "was abandoned"
+			: settlement.outcome === "budget-exceeded"
+				? "exceeded its budget"
+				: settlement.outcome;
+	return `predecessor "${settlement.name}" [${settlement.runId}] ${outcome}`;
+}
+
+/** Fill `{{predecessors}}` with predecessor results, or append them when the task has no placeholder. */
+export function buildDependentTask(task: string, settlements: RunSettlement[]): string {
+	const block = `Predecessor results:\n\n${settlements.map(formatPredecessor).join("\n\n")}`;
+	return task.includes(PREDECESSORS_PLACEHOLDER)
+		? task.split(PREDECESSORS_PLACEHOLDER).join(block)
+		: `${task}\n\n${block}`;
+}
+
+function formatPredecessor(settlement: RunSettlement): string {
+	const structured =
+		settlement.result === undefined ? "" : `\n\n\`\`\`json\n${JSON.stringify(settlement.result, null, 2)}\n\`\`\``;
+	return `### ${settlement.name} [${settlement.runId}]\n\n${settlement.summary.trim() || "(no summary)"}${structured}`;
+}
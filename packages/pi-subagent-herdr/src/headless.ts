@@ -0,0 +1,251 @@
+/**
+ * Headless terminal backend.
+ *
+ * A headless "pane" is a registry entry whose first command runs as a detached
+ * child process group. When `script(1)` is installed the child gets a PTY and
+ * its transcript is captured to `<tmpdir>/pi-subagent-headless/<pane>.log`;
+ * otherwise stdout/stderr are piped straight into the same log. Later commands
+ * and Escape are written to the child's stdin, so steering behaves like typing
+ * into a multiplexer pane. Like a multiplexer pane, a headless pane stays
+ * present after its process exits until it is closed.
+ *
+ * Completion sidecars, activity files and delivery are file-based and do not
+ * depend on the backend. The registry lives on `runtime` for /reload durability;
+ * after a restart the run ledger re-registers panes whose process group is
+ * still alive (adopted panes take no input but can still be closed). A ledger
+ * pid may have been reused by then, so a group is adopted, and later signalled,
+ * only while its leader's environment carries the pane id (HEADLESS_PANE_ENV);
+ * where `/proc` cannot be read nothing is adopted.
+ */
+import { type ChildProcess, spawn } from "node:child_process";
+import { closeSync, existsSync, fstatSync, mkdirSync, openSync, readFileSync, readSync } from "node:fs";
+import { open } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { hasCommand } from "./herdr.ts";
+import { headlessPanes } from "./state.ts";
+
+export interface HeadlessPane {
+	id: string;
+	name: string;
+	cwd: string;
+	logFile: string;
+	child?: ChildProcess;
+	/** Process group of a pane adopted from an earlier pi process, which left no `child` handle. */
+	adoptedPid?: number;
+}
+
+type HeadlessInspection = { kind: "present"; agentStatus: "unknown" } | { kind: "missing"; error?: string };
+
+/** Bytes read from the end of a log; enough for any screen the watchers ask for. */
+const LOG_TAIL_BYTES = 64 * 1024;
+const ESCAPE = "\x1b";
+const KILL_GRACE_MS = 2000;
+/** Names the pane in its child's environment: the identity checked before adopting a group. */
+export const HEADLESS_PANE_ENV = "PI_SUBAGENT_HEADLESS_PANE";
+
+export function headlessLogDir(): string {
+	return join(tmpdir(), "pi-subagent-headless");
+}
+
+export function createHeadlessSurface(name: string, cwd = process.cwd()): string {
+	mkdirSync(headlessLogDir(), { recursive: true });
+	const id = `headless-${process.pid}-${Date.now().toString(36)}-${Math.random().toString(16).slice(2, 8)}`;
+	const pane: HeadlessPane = { id, name, cwd, logFile: join(headlessLogDir(), `${id}.log`) };
+	headlessPanes.set(id, pane);
+	return id;
+}
+
+export function getHeadlessPane(surface: string): HeadlessPane | undefined {
+	return headlessPanes.get(surface);
+}
+
+/** The pane's process group, recorded in the run ledger so a restarted pi can adopt the pane. */
+export function headlessPanePid(surface: string): number | undefined {
+	const pane = getHeadlessPane(surface);
+	return pane?.child?.pid ?? pane?.adoptedPid;
+}
+
+/**
+ * Re-register a pane whose process group outlived the pi process that spawned
+ * it. False when the group is gone, so the caller reports the run as lost.
+ */
+export function adoptHeadlessPane(surface: string, pid: number): boolean {
+	if (headlessPanes.has(surface)) return true;
+	if (!ownsProcessGroup(surface, pid)) return false;
+	const logFile = join(headlessLogDir(), `${surface}.log`);
+	headlessPanes.set(surface, { id: surface, name: surface, cwd: process.cwd(), logFile, adoptedPid: pid });
+	return true;
+}
+
+/**
+ * True when process group `pid` exists, is ours to signal, and its leader was
+ * started for `surface`. `EPERM` means another user's group: never ours.
+ */
+function ownsProcessGroup(surface: string, pid: number): boolean {
+	if (!Number.isInteger(pid) || pid <= 1) return false;
+	try {
+		process.kill(-pid, 0);
+	} catch {
+		return false;
+	}
+	try {
+		return readFileSync(`/proc/${pid}/environ`, "utf8").split("\0").includes(`${HEADLESS_PANE_ENV}=${surface}`);
+	} catch {
+		return false;
+	}
+}
+
+function requirePane(surface: string): HeadlessPane {
+	const pane = getHeadlessPane(surface);
+	if (!pane) throw new Error(`headless pane ${surface} not found`);
+	return pane;
+}
+
+function isRunning(child: ChildProcess | undefined): child is ChildProcess {
+	return Boolean(child && child.exitCode === null && child.signalCode === null);
+}
+
+/** Start the pane's process with `command`, or type it into the running process. */
+export function sendHeadlessCommand(surface: string, command: string): void {
+	const pane = requirePane(surface);
+	if (pane.adoptedPid !== undefined) throw new Error(`headless pane ${surface} belongs to an earlier pi process`);
+	if (isRunning(pane.child)) {
+		pane.child.stdin?.write(`${command}\n`);
+		return;
+	}
+	pane.child = spawnCaptured(pane, command);
+}
+
+export function sendHeadlessEscape(surface: string): void {
+	const child = requirePane(surface).child;
+	if (isRunning(child)) child.stdin?.write(ESCAPE);
+}
+
+/** File and arguments that run `command` with its output captured to `logFile`. */
+export function captureInvocation(
+	command: string,
+	logFile: string,
+	platform: NodeJS.Platform = process.platform,
+	scriptAvailable = hasCommand("script"),
+): { file: string; args: string[]; pty: boolean } {
+	if (scriptAvailable && platform === "linux")
+		return { file: "script", args: ["-q", "-f", "-e", "-c", command, logFile], pty: true };
+	if (scriptAvailable && platform === "darwin")
+		return { file: "script", args: ["-q", "-F", logFile, "bash", "-c", command], pty: true };
+	return { file: "bash", args: ["-c", command], pty: false };
+}
+
+function spawnCaptured(pane: HeadlessPane, command: string): ChildProcess {
+	const invocation = captureInvocation(command, pane.logFile);
+	const log = openSync(pane.logFile, "a");
+	try {
+		const output = invocation.pty ? "ignore" : log;
+		const child = spawn(invocation.file, invocation.args, {
+			cwd: pane.cwd,
+			detached: true,
+			stdio: ["pipe", output, output],
+			env: { ...process.env, TERM: process.env.TERM || "xterm-256color", [HEADLESS_PANE_ENV]: pane.id },
+		});
+		// A headless child must never keep the parent process alive.
+		child.unref();
+		(child.stdin as unknown as { unref?: () => void } | null)?.unref?.();
+		child.stdin?.on("error", () => {});
+		child.on("error", () => {});
+		return child;
+	} finally {
+		closeSync(log);
+	}
+}
+
+export function readHeadlessScreen(surface: string, lines = 50): string {
+	const pane = requirePane(surface);
+	if (!existsSync(pane.logFile)) return "";
+	const fd = openSync(pane.logFile, "r");
+	try {
+		const buffer = Buffer.alloc(LOG_TAIL_BYTES);
+		const size = readSync(fd, buffer, 0, LOG_TAIL_BYTES, Math.max(0, fstatSync(fd).size - LOG_TAIL_BYTES));
+		return screenFromLog(buffer.subarray(0, size).toString("utf8"), lines);
+	} finally {
+		closeSync(fd);
+	}
+}
+
+export async function readHeadlessScreenAsync(surface: string, lines = 50): Promise<string> {
+	const pane = requirePane(surface);
+	if (!existsSync(pane.logFile)) return "";
+	const handle = await open(pane.logFile, "r");
+	try {
+		const { size: fileSize } = await handle.stat();
+		const buffer = Buffer.alloc(LOG_TAIL_BYTES);
+		const { bytesRead } = await handle.read(buffer, 0, LOG_TAIL_BYTES, Math.max(0, fileSize - LOG_TAIL_BYTES));
+		return screenFromLog(buffer.subarray(0, bytesRead).toString("utf8"), lines);
+	} finally {
+		await handle.close();
+	}
+}
+
+/** Reduce a raw PTY transcript to its last `lines` printable lines. */
+export function screenFromLog(raw: string, lines: number): string {
+	const text = raw
+		.replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, "")
+		.replace(/\x1b\[[0-?]*[ -/]*[@-~]/g, "")
+		.replace(/\x1b[@-_]/g, "")
+		.replace(/\r\n/g, "\n")
+		.split("\n")
+		.map((line) => line.slice(line.lastIndexOf("\r") + 1).replace(/[\x00-\x08\x0b-\x1f\x7f]/g, ""));
+	return text.slice(-lines).join("\n");
+}
+
+export function inspectHeadlessPane(surface: string): HeadlessInspection {
+	const pane = getHeadlessPane(surface);
+	if (!pane) return { kind: "missing", error: "pane not found" };
+	return { kind: "present", agentStatus: "unknown" };
+}
+
+/** Terminate the pane's process group and forget the pane; the log is kept for post-mortems. */
+export function closeHeadlessSurface(surface: string): void {
+	const pane = getHeadlessPane(surface);
+	if (!pane) return;
+	headlessPanes.delete(surface);
+	if (pane.adoptedPid !== undefined) {
+		terminateAdoptedGroup(surface, pane.adoptedPid);
+		return;
+	}
+	const child = pane.child;
+	if (!isRunning(child) || child.pid === undefined) return;
+	child.stdin?.end();
+	signalProcessGroup(child, "SIGTERM");
+	// `script` waits on its PTY after forwarding SIGTERM; escalate so the pane never outlives its close.
+	const escalation = setTimeout(() => {
+		if (isRunning(child)) signalProcessGroup(child, "SIGKILL");
+	}, KILL_GRACE_MS);
+	escalation.unref();
+}
+
+/** Re-checks ownership before each signal: the group may have exited and its pid been reused meanwhile. */
+function terminateAdoptedGroup(surface: string, pid: number): void {
+	if (!ownsProcessGroup(surface, pid)) return;
+	try {
+		process.kill(-pid, "SIGTERM");
+	} catch {
+		return;
+	}
+	const escalation = setTimeout(() => {
+		if (!ownsProcessGroup(surface, pid)) return;
+		try {
+			process.kill(-pid, "SIGKILL");
+		} catch {}
+	}, KILL_GRACE_MS);
+	escalation.unref();
+}
+
+function signalProcessGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+	try {
+		process.kill(-(child.pid as number), signal);
+	} catch {
+		try {
+			child.kill(signal);
+		} catch {}
+	}
+}
@@ -5,7 +5,7 @@ const execFileAsync = promisify(execFile);
 
 const commandAvailability = new Map<string, boolean>();
 
-function hasCommand(command: string): boolean {
+export function hasCommand(command: string): boolean {
 	const cached = commandAvailability.get(command);
 	if (cached !== undefined) {
 		return cached;
@@ -351,7 +351,7 @@ export async function readHerdrScreenAsync(surface: string, lines = 50): Promise
 	return herdrExecAsync(["pane", "read", surface, "--source", "visible", "--lines", String(lines)]);
 }
 
-type PaneInspectionResult =
+export type PaneInspectionResult =
 	| { kind: "present"; agent?: string; agentStatus: "idle" | "working" | "blocked" | "done" | "unknown" }
 	| { kind: "missing"; error?: string }
 	| { kind: "unavailable"; error: string };
@@ -482,6 +482,10 @@ export function sendHerdrEscape(surface: string): void {
 	herdrExec(["pane", "send-keys", surface, "Escape"]);
 }
 
+export function focusHerdrPane(surface: string): void {
+	herdrExec(["pane", "focus", surface]);
+}
+
 export function closeHerdrSurface(surface: string): void {
 	herdrExec(["pane", "close", surface], 5000);
 }
@@ -0,0 +1,318 @@
+/**
+ * Run history and the `/subagents` command.
+ *
+ * Every run is recorded on `runtime` when it settles (durable across /reload,
+ * newest MAX_RUN_HISTORY kept), including runs cancelled or failed before
+ * they launched. `/subagents` lists the current parent
+ * session's running, queued, and settled runs and offers per-run actions:
+ * open the transcript, focus the pane, send a running child a message, cancel
+ * a queued run, re-run the task, or copy the summary. `/subagents send <run-id>
+ * <message>` steers a running child directly, as the `subagent_message` tool does.
+ */
+import { existsSync } from "node:fs";
+import { copyToClipboard, type ExtensionAPI, type ExtensionCommandContext } from "@earendil-works/pi-coding-agent";
+import { batchMemberOutcome } from "./batch.ts";
+import { type CallBudgetParam, callBudgetParam, parseCallBudget } from "./budget.ts";
+import type { AdmissionPriority } from "./coordinator.ts";
+import { formatSessionTranscript, getNewEntries } from "./session.ts";
+import { queuedSubagents, runHistory, runningSubagents } from "./state.ts";
+import { appendSteerMessage } from "./steering.ts";
+import { focusPane, paneExists } from "./terminal.ts";
+import type { QueuedSubagent, RunHistoryEntry, RunningSubagent, SubagentResult } from "./types.ts";
+import { formatUsageCost, type SubagentUsage, totalSubagentUsage } from "./usage.ts";
+import { formatElapsed } from "./widget.ts";
+
+const MAX_RUN_HISTORY = 100;
+
+export type SubagentRunRow =
+	| { kind: "running"; run: RunningSubagent }
+	| { kind: "queued"; run: QueuedSubagent }
+	| { kind: "settled"; run: RunHistoryEntry };
+
+export type SubagentRunAction = "transcript" | "focus" | "send" | "cancel" | "rerun" | "copy";
+
+const ACTION_LABELS: Record<SubagentRunAction, string> = {
+	transcript: "Open transcript",
+	focus: "Focus pane",
+	send: "Send a message",
+	cancel: "Cancel queued run",
+	rerun: "Re-run with the same task",
+	copy: "Copy summary",
+};
+
+/** Re-launch a background run with the given `subagent` parameters; returns the tool's acknowledgement. */
+export type SubagentRerun = (
+	params: {
+		agent: string;
+		task: string;
+		label?: string;
+		vars?: Record<string, string>;
+		budget?: CallBudgetParam;
+		priority?: AdmissionPriority;
+	},
+	ctx: ExtensionCommandContext,
+) => Promise<string>;
+
+/** The `subagent` parameters of a run that never launched, as far as history needs them. */
+export interface UnlaunchedRunParams {
+	agent: string;
+	vars?: Record<string, string>;
+	budget?: unknown;
+	priority?: AdmissionPriority;
+}
+
+export function recordRunHistory(running: RunningSubagent, result: SubagentResult, settledAt = Date.now()): void {
+	if (result.alreadySettled || !running.parentSessionId) return;
+	const usage = result.usage ?? running.activity?.usage;
+	const entry: RunHistoryEntry = {
+		id: running.id,
+		name: running.name,
+		agent: running.agent ?? running.name,
+		task: running.task,
+		...(running.vars ? { vars: running.vars } : {}),
+		parentSessionId: running.parentSessionId,
+		startTime: running.startTime,
+		elapsed: result.elapsed,
+		outcome: batchMemberOutcome(result),
+		summary: result.errorMessage || result.summary,
+		sessionFile: running.sessionFile,
+		...(running.surface ? { surface: running.surface } : {}),
+		...(usage ? { usage } : {}),
+		...(running.budget ? { budget: running.budget } : {}),
+		...(running.priority ? { priority: running.priority } : {}),
+		settledAt,
+	};
+	storeRunHistory(entry);
+}
+
+/** Record a run that was cancelled or failed before it had a pane or session. */
+export function recordUnlaunchedRunHistory(
+	runId: string,
+	parentSessionId: string,
+	params: UnlaunchedRunParams,
+	result: SubagentResult,
+	settledAt = Date.now(),
+): void {
+	const budget = parseCallBudget(params.budget);
+	storeRunHistory({
+		id: runId,
+		name: result.name,
+		agent: params.agent,
+		task: result.task,
+		...(params.vars ? { vars: params.vars } : {}),
+		parentSessionId,
+		startTime: settledAt,
+		elapsed: 0,
+		outcome: batchMemberOutcome(result),
+		summary: result.errorMessage || result.summary,
+		...("budget" in budget && budget.budget ? { budget: budget.budget } : {}),
+		...(params.priority ? { priority: params.priority } : {}),
+		settledAt,
+	});
+}
+
+function storeRunHistory(entry: RunHistoryEntry): void {
+	runHistory.delete(entry.id);
+	runHistory.set(entry.id, entry);
+	for (const id of runHistory.keys()) {
+		if (runHistory.size <= MAX_RUN_HISTORY) break;
+		runHistory.delete(id);
+	}
+}
+
+/** Running and queued runs oldest first, then settled runs newest first. */
+export function listSubagentRuns(parentSessionId: string): SubagentRunRow[] {
+	const running = (Array.from(runningSubagents.values()) as RunningSubagent[])
+		.filter((run) => run.parentSessionId === parentSessionId)
+		.sort((left, right) => left.startTime - right.startTime)
+		.map((run) => ({ kind: "running" as const, run }));
+	const queued = (Array.from(queuedSubagents.values()) as QueuedSubagent[])
+		.filter((run) => run.parentSessionId === parentSessionId)
+		.sort((left, right) => left.queuedAt - right.queuedAt)
+		.map((run) => ({ kind: "queued" as const, run }));
+	const settled = (Array.from(runHistory.values()) as RunHistoryEntry[])
+		.filter((run) => run.parentSessionId === parentSessionId && !runningSubagents.has(run.id))
+		.sort((left, right) => right.settledAt - left.settledAt)
+		.map((run) => ({ kind: "settled" as const, run }));
+	return [...running, ...queued, ...settled];
+}
+
+function rowStatus(row: SubagentRunRow): string {
+	if (row.kind === "settled") return row.run.outcome;
+	if (row.kind === "queued") return row.run.waitingOn?.length ? "waiting" : "queued";
+	return "running";
+}
+
+function rowElapsedSeconds(row: SubagentRunRow, now: number): number {
+	if (row.kind === "settled") return row.run.elapsed;
+	const since = row.kind === "queued" ? row.run.queuedAt : row.run.startTime;
+	return Math.max(0, Math.floor((now - since) / 1000));
+}
+
+function rowUsage(row: SubagentRunRow): SubagentUsage | undefined {
+	if (row.kind === "settled") return row.run.usage;
+	return row.kind === "running" ? row.run.activity?.usage : undefined;
+}
+
+/** `completed        reviewer "auth" [a1b2]  1m 5s  $0.042` */
+export function formatRunRow(row: SubagentRunRow, now = Date.now()): string {
+	const { run } = row;
+	const label = run.agent && run.name !== run.agent ? ` "${run.name}"` : "";
+	const usage = rowUsage(row);
+	return [
+		rowStatus(row).padEnd(15),
+		`${run.agent ?? run.name}${label} [${run.id}]`,
+		formatElapsed(rowElapsedSeconds(row, now)),
+		...(usage ? [formatUsageCost(totalSubagentUsage(usage).cost)] : []),
+	].join("  ");
+}
+
+export function runActions(row: SubagentRunRow): SubagentRunAction[] {
+	if (row.kind === "queued") return ["cancel"];
+	const actions: SubagentRunAction[] = [];
+	if (row.run.sessionFile && existsSync(row.run.sessionFile)) actions.push("transcript");
+	if (row.kind === "running" || (row.run.surface && paneExists(row.run.surface))) actions.push("focus");
+	if (row.kind === "running") actions.push("send");
+	actions.push("rerun");
+	if (row.kind === "settled") actions.push("copy");
+	return actions;
+}
+
+/**
+ * Queue an instruction in a running child's inbox; the child injects it as a
+ * steering message within about a second. Only runs of `parentSessionId` qualify.
+ */
+export function sendSubagentMessage(
+	parentSessionId: string,
+	runId: string,
+	text: string,
+): { ok: boolean; text: string } {
+	const running = runningSubagents.get(runId) as RunningSubagent | undefined;
+	if (!running || running.parentSessionId !== parentSessionId) {
+		const queued = queuedSubagents.get(runId)?.parentSessionId === parentSessionId;
+		return {
+			ok: false,
+			text: queued
+				? `Run ${runId} is still queued; messages can only be sent once it is running.`
+				: `No running subagent with run ID ${runId} in this session.`,
+		};
+	}
+	if (!text.trim()) return { ok: false, text: "The message is empty." };
+	appendSteerMessage(running.sessionFile, text.trim());
+	return {
+		ok: true,
+		text: `Sent to ${running.name} [${runId}]. It is delivered as a steering message at the child's next turn boundary, or starts a new turn if the child is idle.`,
+	};
+}
+
+export async function runSubagentAction(
+	row: SubagentRunRow,
+	action: SubagentRunAction,
+	ctx: ExtensionCommandContext,
+	rerun: SubagentRerun,
+): Promise<{ text: string; level: "info" | "warning" | "error" } | undefined> {
+	const { run } = row;
+	if (row.kind === "queued") {
+		return row.run.cancel()
+			? { text: `Cancelled queued run ${run.id}.`, level: "info" }
+			: { text: `Run ${run.id} is no longer queued.`, level: "warning" };
+	}
+	if (action === "transcript") {
+		await ctx.ui.editor(
+			`Transcript: ${run.name} [${run.id}]`,
+			formatSessionTranscript(getNewEntries(row.run.sessionFile ?? "", 0)),
+		);
+		return undefined;
+	}
+	if (action === "focus") {
+		return focusPane(row.run.surface ?? "")
+			? { text: `Focused ${run.name} [${run.id}].`, level: "info" }
+			: { text: "The active terminal backend has no panes to focus.", level: "warning" };
+	}
+	if (action === "send") {
+		const text = await ctx.ui.input(`Message to ${run.name} [${run.id}]`);
+		if (!text) return undefined;
+		const sent = sendSubagentMessage(ctx.sessionManager.getSessionId(), run.id, text);
+		return { text: sent.text, level: sent.ok ? "info" : "warning" };
+	}
+	if (action === "rerun") {
+		const label = row.run.name !== row.run.agent ? { label: row.run.name } : {};
+		const vars = row.run.vars ? { vars: row.run.vars } : {};
+		const budget = row.run.budget ? { budget: callBudgetParam(row.run.budget) } : {};
+		const priority = row.run.priority ? { priority: row.run.priority } : {};
+		const params = {
+			agent: row.run.agent ?? row.run.name,
+			task: row.run.task,
+			...label,
+			...vars,
+			...budget,
+			...priority,
+		};
+		return { text: await rerun(params, ctx), level: "info" };
+	}
+	if (row.kind !== "settled") return undefined;
+	await copyToClipboard(row.run.summary);
+	return { text: `Copied the summary of ${run.name} [${run.id}].`, level: "info" };
+}
+
+export function registerSubagentsCommand(pi: ExtensionAPI, rerun: SubagentRerun): void {
+	pi.registerCommand("subagents", {
+		description: "Browse this session's subagent runs, or `send <run-id> <message>` to steer a running one",
+		getArgumentCompletions: (prefix: string) => subagentsCompletions(prefix),
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const send = args.trim().match(/^send(?:\s+(\S+))?(?:\s+([\s\S]+))?$/);
+			if (send) {
+				const sent =
+					send[1] && send[2]
+						? sendSubagentMessage(ctx.sessionManager.getSessionId(), send[1], send[2])
+						: undefined;
+				ctx.ui.notify(sent?.text ?? "Usage: /subagents send <run-id> <message>", sent?.ok ? "info" : "warning");
+				return;
+			}
+			const rows = listSubagentRuns(ctx.sessionManager.getSessionId());
+			if (rows.length === 0) {
+				ctx.ui.notify("No subagent runs in this session.", "info");
+				return;
+			}
+			if (!ctx.hasUI) {
+				ctx.ui.notify(rows.map((row) => formatRunRow(row)).join("\n"), "info");
+				return;
+			}
+			await browseSubagentRuns(rows, ctx, rerun);
+		},
+	});
+}
+
+function subagentsCompletions(prefix: string) {
+	const [action, partial = ""] = prefix.split(/\s+/);
+	if (action !== "send" || prefix === "send") {
+		return "send".startsWith(action ?? "") ? [{ value: "send ", label: "send" }] : null;
+	}
+	return (Array.from(runningSubagents.keys()) as string[])
+		.filter((runId) => runId.startsWith(partial))
+		.map((runId) => ({ value: `send ${runId} `, label: runId }));
+}
+
+async function browseSubagentRuns(
+	rows: SubagentRunRow[],
+	ctx: ExtensionCommandContext,
+	rerun: SubagentRerun,
+): Promise<void> {
+	const labels = rows.map((row) => formatRunRow(row));
+	const choice = await ctx.ui.select("Subagents", labels);
+	if (choice === undefined) return;
+	const row = rows[labels.indexOf(choice)];
+	const actions = runActions(row);
+	const picked = await ctx.ui.select(
+		`${row.run.name} [${row.run.id}]`,
+		actions.map((action) => ACTION_LABELS[action]),
+	);
+	const action = actions.find((candidate) => ACTION_LABELS[candidate] === picked);
+	if (!action) return;
+	try {
+		const outcome = await runSubagentAction(row, action, ctx, rerun);
+		if (outcome) ctx.ui.notify(outcome.text, outcome.level);
+	} catch (error) {
+		ctx.ui.notify(`Could not ${ACTION_LABELS[action].toLowerCase()}: ${(error as Error).message}`, "error");
+	}
+}
@@ -0,0 +1,230 @@
+/**
+ * `on-complete` / `on-fail` hook commands the parent runs once a run settles.
+ *
+ * Hooks come from `subagentHerdr.hooks` in settings and from agent frontmatter
+ * (`on-complete:`, `on-fail:`, `hook-output:`, `hook-timeout:`); a run gets
+ * both, settings first. Each runs with `bash -c` in the run's working directory
+ * (its worktree for isolated runs), receives the run's metadata as JSON on
+ * stdin, and is killed at its timeout. A hook with `hook-output: attach` is
+ * awaited and its output appended to the completion message, so its timeout is
+ * capped at MAX_ATTACHED_HOOK_TIMEOUT_MS; the others run in the background and
+ * report only failures, as status lines. Either way a hook holds delivery back
+ * by no more than its timeout and never fails the run.
+ */
+import { type ChildProcess, spawn } from "node:child_process";
+import { batchMemberOutcome } from "./batch.ts";
+import { formatElapsedDuration } from "./status.ts";
+import type { RunningSubagent, RunSettlementOutcome, SubagentResult } from "./types.ts";
+
+export type RunHookEvent = "on-complete" | "on-fail";
+
+/** One source's hook settings, from frontmatter or `subagentHerdr.hooks`. */
+export interface HookConfig {
+	onComplete?: string;
+	onFail?: string;
+	/** Await the hook and append its output to the completion message. */
+	attachOutput?: boolean;
+	timeoutMs?: number;
+}
+
+export interface RunHook {
+	event: RunHookEvent;
+	source: "agent" | "settings";
+	command: string;
+	attach: boolean;
+	timeoutMs: number;
+}
+
+/** The hooks resolved for a run at launch, with the directory they run in. */
+export interface RunHooks {
+	cwd: string;
+	commands: RunHook[];
+}
+
+/** JSON a hook reads on stdin. */
+export interface RunHookPayload {
+	event: RunHookEvent;
+	runId: string;
+	agent?: string;
+	name: string;
+	outcome: RunSettlementOutcome;
+	exitCode: number;
+	summary: string;
+	errorMessage?: string;
+	sessionFile: string;
+	/** Seconds. */
+	elapsed: number;
+	cwd: string;
+	worktree?: { path: string; branch: string };
+	artifacts?: string[];
+}
+
+export interface RunHookReport {
+	event: RunHookEvent;
+	source: RunHook["source"];
+	command: string;
+	durationMs: number;
+	exitCode?: number;
+	timedOut?: boolean;
+	/** The hook could not be started, or was killed by a signal. */
+	error?: string;
+	/** Combined stdout and stderr; the tail is kept when it is long. */
+	output: string;
+}
+
+export const DEFAULT_HOOK_TIMEOUT_MS = 60_000;
+/** Attached hooks delay the completion message, so longer `hook-timeout`s are cut to this. */
+export const MAX_ATTACHED_HOOK_TIMEOUT_MS = 120_000;
+const MAX_HOOK_OUTPUT_CHARS = 4_000;
+const HOOK_KILL_GRACE_MS = 2_000;
+
+function configuredHooks(config: HookConfig | undefined, source: RunHook["source"]): RunHook[] {
+	if (!config) return [];
+	const attach = config.attachOutput === true;
+	const timeoutMs = config.timeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS;
+	const options = {
+		source,
+		attach,
+		timeoutMs: attach ? Math.min(timeoutMs, MAX_ATTACHED_HOOK_TIMEOUT_MS) : timeoutMs,
+	};
+	return [
+		...(config.onComplete ? [{ event: "on-complete" as const, command: config.onComplete, ...options }] : []),
+		...(config.onFail ? [{ event: "on-fail" as const, command: config.onFail, ...options }] : []),
+	];
+}
+
+/** Settings hooks, then the agent's; undefined when neither declares any. */
+export function resolveRunHooks(
+	agent: HookConfig | undefined,
+	settings: HookConfig | undefined,
+	cwd: string,
+): RunHooks | undefined {
+	const commands = [...configuredHooks(settings, "settings"), ...configuredHooks(agent, "agent")];
+	return commands.length > 0 ? { cwd, commands } : undefined;
+}
+
+export function hookEventFor(outcome: RunSettlementOutcome): RunHookEvent {
+	return outcome === "completed" ? "on-complete" : "on-fail";
+}
+
+export function buildRunHookPayload(
+	running: Pick<RunningSubagent, "id" | "agent" | "name" | "worktree">,
+	result: SubagentResult,
+	cwd: string,
+): RunHookPayload {
+	const outcome = batchMemberOutcome(result);
+	return {
+		event: hookEventFor(outcome),
+		runId: running.id,
+		...(running.agent ? { agent: running.agent } : {}),
+		name: running.name,
+		outcome,
+		exitCode: result.exitCode,
+		summary: result.summary,
+		...(result.errorMessage ? { errorMessage: result.errorMessage } : {}),
+		sessionFile: result.sessionFile ?? "",
+		elapsed: result.elapsed,
+		cwd,
+		...(running.worktree ? { worktree: { path: running.worktree.path, branch: running.worktree.branch } } : {}),
+		...(result.artifacts?.length ? { artifacts: result.artifacts.map((artifact) => artifact.path) } : {}),
+	};
+}
+
+/** Runs one hook to completion or its timeout; never rejects. */
+export function runHookCommand(hook: RunHook, payload: RunHookPayload, cwd: string): Promise<RunHookReport> {
+	const startedAt = Date.now();
+	return new Promise((resolve) => {
+		let output = "";
+		let timedOut = false;
+		let child: ChildProcess | undefined;
+		const finish = (fields: Partial<RunHookReport>) => {
+			clearTimeout(timer);
+			resolve({
+				event: hook.event,
+				source: hook.source,
+				command: hook.command,
+				durationMs: Date.now() - startedAt,
+				output: output.trim(),
+				...fields,
+			});
+		};
+		const timer = setTimeout(() => {
+			timedOut = true;
+			signalHook(child, "SIGTERM");
+			setTimeout(() => signalHook(child, "SIGKILL"), HOOK_KILL_GRACE_MS).unref();
+		}, hook.timeoutMs);
+		try {
+			child = spawn("bash", ["-c", hook.command], { cwd, detached: true, stdio: ["pipe", "pipe", "pipe"] });
+		} catch (error) {
+			finish({ error: (error as Error).message });
+			return;
+		}
+		const collect = (chunk: Buffer) => {
+			output = `${output}${chunk.toString("utf8")}`.slice(-MAX_HOOK_OUTPUT_CHARS);
+		};
+		child.stdout?.on("data", collect);
+		child.stderr?.on("data", collect);
+		child.stdin?.on("error", () => {});
+		child.stdin?.end(JSON.stringify(payload));
+		child.on("error", (error) => finish({ error: error.message }));
+		child.on("close", (code, signal) => {
+			if (timedOut) finish({ timedOut: true });
+			else if (code === null) finish({ error: `killed by ${signal}` });
+			else finish({ exitCode: code });
+		});
+	});
+}
+
+function signalHook(child: ChildProcess | undefined, signal: NodeJS.Signals): void {
+	if (!child?.pid || child.exitCode !== null || child.signalCode !== null) return;
+	try {
+		process.kill(-child.pid, signal);
+	} catch {
+		try {
+			child.kill(signal);
+		} catch {}
+	}
+}
+
+export function hookFailed(report: RunHookReport): boolean {
+	return report.timedOut === true || report.error !== undefined || report.exitCode !== 0;
+}
+
+/**
+ * Runs the hooks for the settled outcome. Attached hooks are awaited and
+ * returned; background hooks call `onBackgroundFailure` only when they fail.
+ */
+export async function runSettlementHooks(params: {
+	hooks: RunHooks;
+	payload: RunHookPayload;
+	onBackgroundFailure?: (report: RunHookReport) => void;
+}): Promise<RunHookReport[]> {
+	const selected = params.hooks.commands.filter((hook) => hook.event === params.payload.event);
+	for (const hook of selected.filter((candidate) => !candidate.attach)) {
+		void runHookCommand(hook, params.payload, params.hooks.cwd).then((report) => {
+			if (hookFailed(report)) params.onBackgroundFailure?.(report);
+		});
+	}
+	const attached = selected.filter((hook) => hook.attach);
+	return Promise.all(attached.map((hook) => runHookCommand(hook, params.payload, params.hooks.cwd)));
+}
+
+function hookOutcome(report: RunHookReport): string {
+	if (report.timedOut) return `timed out after ${formatElapsedDuration(report.durationMs)}`;
+	if (report.error) return `failed: ${report.error}`;
+	return `exited ${report.exitCode}`;
+}
+
+/** `Hook on-complete (agent) exited 0:` followed by its output, one block per hook. */
+export function formatHookReports(reports: RunHookReport[]): string {
+	return reports
+		.map((report) => {
+			const head = `Hook ${report.event} (${report.source}) ${hookOutcome(report)}`;
+			return report.output ? `${head}:\n${report.output}` : `${head}.`;
+		})
+		.join("\n\n");
+}
+
+export function formatHookStatusLine(name: string, report: RunHookReport): string {
+	return `${name} ${report.event} hook (${report.source}) ${hookOutcome(report)}.`;
+}
@@ -13,9 +13,15 @@ import {
 	type AgentDefinition,
 	loadAgentDefinition,
 	parseAgentDefinition,
+	type SeedMode,
 	validateCanonicalAgentId,
 } from "./agent-definition.ts";
+import { registerAgentsCommand } from "./agents.ts";
+import { formatArtifactList, getRunArtifactsDir, isArtifactName, readRunArtifact } from "./artifacts.ts";
+import { MAX_BATCH_SIZE } from "./batch.ts";
+import { formatBudgetBreach } from "./budget.ts";
 import { getAdmissionCoordinator } from "./coordinator.ts";
+import { recordSubagentUsage } from "./cost.ts";
 import {
 	type ActiveCompletionRuntime,
 	acknowledgeDelivery,
@@ -40,8 +46,12 @@ import {
 	WAKE_MESSAGE,
 } from "./delivery.ts";
 import { getForegroundDeliveryBarrier } from "./delivery-barrier.ts";
+import { MAX_DEPENDENCIES } from "./dependencies.ts";
+import { registerSubagentsCommand, sendSubagentMessage } from "./history.ts";
+import { formatHookReports } from "./hooks.ts";
 import { abortAllLaunchTransactions } from "./launch-transaction.ts";
 import type { LayoutDirection, LayoutMode, SurfaceMode } from "./layout.ts";
+import { formatLedgerRecovery, recoverRunLedger } from "./ledger.ts";
 import {
 	createLifecycle,
 	formatLifecycleTransitionLine,
@@ -55,6 +65,7 @@ import {
 	type SubagentLifecycle,
 } from "./lifecycle.ts";
 import { parseSelectedSkillNames, resolveSelectedSkills } from "./skills.ts";
+import { applyStallRecovery, formatStallRecoveryLine, formatStallSettlement } from "./stall-recovery.ts";
 import {
 	DELIVERY_RETRY_INTERVAL_KEY,
 	deliveredRunIds,
@@ -65,6 +76,7 @@ import {
 	runtime,
 	STATUS_INTERVAL_KEY,
 	stickyTerminalRuns,
+	subagentBatches,
 	WIDGET_INTERVAL_KEY,
 	wakeInflightByParent,
 } from "./state.ts";
@@ -72,18 +84,21 @@ import {
 	capStatusLines,
 	DEFAULT_STATUS_LINE_LIMIT,
 	formatElapsedDuration,
+	formatProgressStatusLine,
 	formatStatusAggregate,
 	normalizeStatusName,
 } from "./status.ts";
+import { appendSteerMessage } from "./steering.ts";
 import { createSubagentLaunchService } from "./subagent-launch.ts";
-import { runScriptInPane } from "./terminal.ts";
-import { createToolExecute } from "./tool-execute.ts";
+import { interruptPane, readPaneAsync, runInPane, runScriptInPane } from "./terminal.ts";
+import { createToolExecute, resolveAgentLaunch } from "./tool-execute.ts";
 import type {
 	PendingDelivery,
 	QueuedSubagent,
 	RunningSubagent,
 	StableParentContext,
 	StickyTerminalRun,
+	SubagentBatch,
 	SubagentResult,
 } from "./types.ts";
 import {
@@ -101,6 +116,7 @@ import {
 	renderSubagentWidgetLines as renderSubagentWidgetLinesRaw,
 	sanitizeWidgetText,
 } from "./widget.ts";
+import { formatWorktreeReport, registerWorktreeCommand } from "./worktree.ts";
 
 // Survive /reload: replace presentation timers while keeping active completion
 // watchers and their registry alive. Old module closures continue watching the
@@ -137,13 +153,43 @@ function claimTimerOwnership(): void {
 	claim(STATUS_INTERVAL_KEY, STATUS_OWNER_KEY, STATUS_OWNER);
 }
 
+const AGENT_ID_DESCRIPTION =
+	"Canonical agent ID. Resolves trusted project `.pi/agents/<id>.md`, then the global Pi agent directory.";
+const LABEL_DESCRIPTION = "Presentation-only run label; never changes agent authority";
+
+const VarsParam = Type.Record(Type.String(), Type.String(), {
+	description:
+		"Values for the agent body's {{name}} placeholders. Every placeholder needs a value and every key must match one.",
+});
+
+const PriorityParam = Type.Union([Type.Literal("high"), Type.Literal("normal"), Type.Literal("low")], {
+	description:
+		'Admission queue position when slots are full: "high" runs ahead of waiting "normal" and "low" runs. Overrides the agent\'s priority frontmatter; default "normal".',
+});
+
 const SubagentParams = Type.Object({
-	agent: Type.String({
-		description:
-			"Canonical agent ID. Resolves trusted project `.pi/agents/<id>.md`, then the global Pi agent directory.",
-	}),
-	task: Type.String({ description: "Task/prompt for the sub-agent" }),
-	label: Type.Optional(Type.String({ description: "Presentation-only run label; never changes agent authority" })),
+	agent: Type.Optional(Type.String({ description: `${AGENT_ID_DESCRIPTION} Required unless batch is given.` })),
+	task: Type.Optional(Type.String({ description: "Task/prompt for the sub-agent. Required unless batch is given." })),
+	label: Type.Optional(Type.String({ description: LABEL_DESCRIPTION })),
+	batch: Type.Optional(
+		Type.Array(
+			Type.Object({
+				agent: Type.String({ description: AGENT_ID_DESCRIPTION }),
+				task: Type.String({ description: "Task/prompt for this member" }),
+				label: Type.Optional(Type.String({ description: LABEL_DESCRIPTION })),
+				priority: Type.Optional(PriorityParam),
+				vars: Type.Optional(VarsParam),
+			}),
+			{
+				minItems: 1,
+				maxItems: MAX_BATCH_SIZE,
+				description:
+					"Fan out several background runs at once instead of agent/task. Members are admitted as one group and a single aggregated result arrives when all settle.",
+			},
+		),
+	),
+	priority: Type.Optional(PriorityParam),
+	vars: Type.Optional(VarsParam),
 	blocking: Type.Optional(
 		Type.Boolean({
 			description:
@@ -165,21 +211,66 @@ const SubagentParams = Type.Object({
 			description: 'Attached layout axis: "right" (default) or "down".',
 		}),
 	),
+	budget: Type.Optional(
+		Type.Object(
+			{
+				maxTurns: Type.Optional(Type.Integer({ minimum: 1, description: "Maximum assistant turns." })),
+				maxTokens: Type.Optional(
+					Type.Integer({ minimum: 1, description: "Maximum input, output, and cache tokens across models." }),
+				),
+				maxCost: Type.Optional(
+					Type.Number({ exclusiveMinimum: 0, description: "Maximum provider cost in USD." }),
+				),
+				maxTime: Type.Optional(
+					Type.String({ description: 'Maximum wall-clock time, e.g. "90s", "30m", "2h".' }),
+				),
+			},
+			{
+				description:
+					"Per-run limits, combined with the agent's own (the stricter wins). The child is asked to wrap up at 80% of a limit and stopped at 100%.",
+			},
+		),
+	),
+	dependsOn: Type.Optional(
+		Type.Array(Type.String(), {
+			minItems: 1,
+			maxItems: MAX_DEPENDENCIES,
+			description:
+				"Run IDs of earlier subagent calls. This background run waits (without using a slot) until all complete, receives their summaries at {{predecessors}} in task (or appended), and is cancelled if any fails.",
+		}),
+	),
+});
+
+const SubagentMessageParams = Type.Object({
+	id: Type.String({ description: "Run ID of a running subagent, as returned when it was launched." }),
+	message: Type.String({ description: "Instruction or answer to deliver to the child as a steering message." }),
+});
+
+const SubagentArtifactParams = Type.Object({
+	id: Type.String({ description: "Run ID whose result listed the artifact." }),
+	name: Type.Optional(
+		Type.String({ description: "Artifact name from the result; omit to list the run's artifacts." }),
+	),
+	offset: Type.Optional(
+		Type.Integer({ minimum: 1, description: "First line to return (1-based) of a text artifact." }),
+	),
+	limit: Type.Optional(Type.Integer({ minimum: 1, description: "Maximum lines to return." })),
 });
 
 /** Lifecycle tools always denied in every child (no nested spawns). */
-const LIFECYCLE_DENY_TOOLS = ["subagent"] as const;
+const LIFECYCLE_DENY_TOOLS = ["subagent", "subagent_message"] as const;
 
 function lifecycleDenySet(): Set<string> {
 	return new Set<string>(LIFECYCLE_DENY_TOOLS);
 }
 
-function resolveEffectiveSeed(agentDefs: AgentDefinition): "fresh" | "fork" {
+function resolveEffectiveSeed(agentDefs: AgentDefinition): SeedMode {
 	return agentDefs.seed;
 }
 
+/** Only `fork` carries the conversation over; a `summary` child gets a briefing and the task as an artifact. */
 function resolveLaunchBehavior(agentDefs: AgentDefinition): {
-	seed: "fresh" | "fork";
+	seed: SeedMode;
 	inheritsConversationContext: boolean;
 	taskDelivery: "direct" | "artifact";
 } {
@@ -279,13 +370,27 @@ function resolveDirection(
 function resolveResultPresentation(
 	result: Pick<
 		SubagentResult,
-		"exitCode" | "elapsed" | "summary" | "sessionFile" | "errorMessage" | "watchAbandoned"
+		| "exitCode"
+		| "elapsed"
+		| "summary"
+		| "sessionFile"
+		| "errorMessage"
+		| "watchAbandoned"
+		| "result"
+		| "worktree"
+		| "artifacts"
+		| "budgetExceeded"
+		| "stalled"
+		| "hooks"
 	>,
 	name: string,
 	runId?: string,
 ): string {
 	const who = `"${name}"${runId ? ` [${runId}]` : ""}`;
-	const sessionRef = result.sessionFile ? `\n\nSession log: ${result.sessionFile}` : "";
+	const worktreeRef = result.worktree ? `\n\n${formatWorktreeReport(result.worktree)}` : "";
+	const artifactsRef = result.artifacts?.length ? `\n\n${formatArtifactList(result.artifacts)}` : "";
+	const hooksRef = result.hooks?.length ? `\n\n${formatHookReports(result.hooks)}` : "";
+	const sessionRef = `${worktreeRef}${hooksRef}${artifactsRef}${result.sessionFile ? `\n\nSession log: ${result.sessionFile}` : ""}`;
 
 	if (result.watchAbandoned) {
 		// Neither a child failure nor a provider error: watching stopped without
@@ -302,6 +407,26 @@ function resolveResultPresentation(
 		);
 	}
 
+	if (result.budgetExceeded) {
+		// A deliberate stop, not a crash: the child hit a limit the caller or
+		// agent author set. Its last output is usually a partial answer.
+		return (
+			`Sub-agent ${who} stopped at its budget after ${formatElapsed(result.elapsed)}: ` +
+			`${formatBudgetBreach(result.budgetExceeded)}.\n\n` +
+			`It did not call subagent_done; its last output is below and may be partial.\n\n${result.summary}${sessionRef}`
+		);
+	}
+
+	if (result.stalled) {
+		// Stopped by the agent's stall-recovery policy after it stopped making
+		// progress and did not answer the nudges. Its last output may be partial.
+		const screen = result.stalled.screen ? ` Its last pane screen is the ${result.stalled.screen} artifact.` : "";
+		return (
+			`Sub-agent ${who} ${formatStallSettlement(result.stalled)}, ${formatElapsed(result.elapsed)} into the run.\n\n` +
+			`It did not call subagent_done; its last output is below and may be partial.${screen}\n\n${result.summary}${sessionRef}`
+		);
+	}
+
 	if (result.errorMessage) {
 		// Auto-retry exhausted or other agent-loop error. The subagent did not
 		// produce a usable result — surface the underlying provider/network
@@ -318,7 +443,13 @@ function resolveResultPresentation(
 
 	return result.exitCode !== 0
 		? `Sub-agent ${who} failed (exit code ${result.exitCode}).\n\n${result.summary}${sessionRef}`
-		: `Sub-agent ${who} completed (${formatElapsed(result.elapsed)}).\n\n${result.summary}${sessionRef}`;
+		: `Sub-agent ${who} completed (${formatElapsed(result.elapsed)}).\n\n${result.summary}${structuredResultBlock(result.result)}${sessionRef}`;
+}
+
+/** Structured results are repeated in the text so the orchestrating model can read them verbatim. */
+function structuredResultBlock(result: unknown): string {
+	if (result === undefined) return "";
+	return `\n\nStructured result:\n\`\`\`json\n${JSON.stringify(result, null, 2)}\n\`\`\``;
 }
 
 /**
@@ -402,7 +533,7 @@ function updateWidget() {
 	);
 }
 
-const SUBAGENT_CONTROL_TOOLS = ["subagent_done"] as const;
+const SUBAGENT_CONTROL_TOOLS = ["subagent_done", "subagent_progress", "subagent_attach"] as const;
 
 /**
  * Build the child --tools allowlist.
@@ -537,8 +668,9 @@ function renderSubagentWidgetLines(
 	queued: QueuedSubagent[] = [],
 	pending: PendingDelivery[] = [],
 	sticky: StickyTerminalRun[] = [],
+	batches: SubagentBatch[] = [],
 ): string[] {
-	return renderSubagentWidgetLinesRaw(agents, width, theme, queued, pending, sticky, ensureLifecycle);
+	return renderSubagentWidgetLinesRaw(agents, width, theme, queued, pending, sticky, ensureLifecycle, batches);
 }
 
 function observeRunningSubagent(running: RunningSubagent, observedAt = Date.now()) {
@@ -556,6 +688,7 @@ function observeRunningSubagent(running: RunningSubagent, observedAt = Date.now(
 	}
 
 	if (read.ok) running.activity = read.activity;
+	if (read.ok && read.activity.usage) recordSubagentUsage(running.parentSessionId, running.id, read.activity.usage);
 	running.lifecycle = observeActivity(ensureLifecycle(running), read, observedAt);
 }
 
@@ -589,10 +722,34 @@ function collectStatusTransitions(now: number): { transitionLines: string[]; sho
 		const transition = observeStatusTransition(running, now);
 		shouldRefreshWidget ||= transition.changed;
 		if (transition.line) transitionLines.push(transition.line);
+		const recovery = observeStallRecovery(running, now);
+		shouldRefreshWidget ||= recovery.changed;
+		if (recovery.line) transitionLines.push(recovery.line);
+		const progress = observeProgressNote(running, now);
+		shouldRefreshWidget ||= progress.changed;
+		if (progress.line) transitionLines.push(progress.line);
 	}
 	return { transitionLines, shouldRefreshWidget };
 }
 
+/** A new `subagent_progress` note refreshes the widget; one marked `notify` also becomes a status line. */
+function observeProgressNote(running: RunningSubagent, now: number): { changed: boolean; line?: string } {
+	const activity = running.activity;
+	const count = activity?.progressCount ?? 0;
+	if (!activity?.progressNote || count === (running.lastProgressCount ?? 0)) return { changed: false };
+	running.lastProgressCount = count;
+	if (!activity.progressNotify || running.suppressStatusSteer) return { changed: true };
+	return {
+		changed: true,
+		line: formatProgressStatusLine(
+			normalizeStatusName(running.name),
+			activity.progressNote,
+			activity.progressPercent,
+			now - running.startTime,
+		),
+	};
+}
+
 function observeStatusTransition(running: RunningSubagent, now: number): { changed: boolean; line?: string } {
 	// Dual-writes lifecycle + statusState for reload hydration; steers use lifecycle only.
 	observeRunningSubagent(running, now);
@@ -614,6 +771,20 @@ function observeStatusTransition(running: RunningSubagent, now: number): { chang
 	};
 }
 
+/** Takes the step the agent's `stall-recovery:` policy has due for a stalled run; its line explains it. */
+function observeStallRecovery(running: RunningSubagent, now: number): { changed: boolean; line?: string } {
+	ensureLifecycle(running);
+	const step = applyStallRecovery(running, now, {
+		appendSteerMessage,
+		interruptPane,
+		runInPane,
+		readPaneAsync,
+	});
+	if (!step) return { changed: false };
+	if (running.suppressStatusSteer) return { changed: true };
+	return { changed: true, line: formatStallRecoveryLine(normalizeStatusName(running.name), running, step) };
+}
+
 function deliverStatusTransitions(transitionLines: string[]): void {
 	if (transitionLines.length === 0) return;
 	const parentSessionId = runtime.latestCtx?.sessionManager.getSessionId();
@@ -637,10 +808,13 @@ const {
 	failLaunch,
 	launchSubagent,
 	preserveErrorPane,
+	previewLaunch,
 	releaseRunOwnership,
 	safeCloseAndReap,
+	settleBatchMember,
 	startBackgroundSpawn,
 	startErrorPaneMonitor,
+	superviseBackgroundRun,
 	watchSubagent,
 	resolveSettlementDisposition,
 } = createSubagentLaunchService({
@@ -667,6 +841,7 @@ const {
 	startStatusRefresh,
 	resolveResultPresentation,
 	shouldDeliverSubagentCompletion,
+	reportStatusLines: deliverStatusTransitions,
 });
 
 const executeSubagentTool = createToolExecute({
@@ -675,6 +850,7 @@ const executeSubagentTool = createToolExecute({
 	createRunId,
 	clearStickyTerminalsOnAdmission,
 	startBackgroundSpawn,
+	settleBatchMember,
 	captureStickyLaunchFailure,
 	launchSubagent,
 	watchSubagent,
@@ -714,6 +890,7 @@ export const __test__ = {
 	parseSelectedSkillNames,
 	resolveSelectedSkills,
 	observeRunningSubagent,
+	collectStatusTransitions,
 	lifecycleDenySet,
 	LIFECYCLE_DENY_TOOLS,
 	queuedSubagents,
@@ -910,6 +1087,9 @@ function settleTerminalShutdown(
 	getForegroundDeliveryBarrier(parentSessionId).suppressPending();
 	for (const pending of state.pending.values()) pending.exhausted = true;
 	state.pending.clear();
+	for (const batch of Array.from(subagentBatches.values())) {
+		if (batch.parentSessionId === parentSessionId) subagentBatches.delete(batch.id);
+	}
 	for (const entry of state.queued.values()) entry.cancel();
 	state.queued.clear();
 	getAdmissionCoordinator(parentSessionId).shutdownNow();
@@ -954,11 +1134,20 @@ function handleParentSessionStart(
 	getAdmissionCoordinator(parentSessionId); // in-place upgrade of pre-reload coordinator state
 	getForegroundDeliveryBarrier(parentSessionId).reconcileActive(activeForegroundRunIds());
 	redriveDeferredPendingDeliveries(parentSessionId);
+	recoverParentRunLedger(ctx, parentSessionId);
 	void retryPendingDeliveries().catch(() => undefined);
 	if (pendingDeliveries.size > 0) startDeliveryRetry();
 	startPresentationTimersIfNeeded();
 }
 
+function recoverParentRunLedger(ctx: ExtensionContext, parentSessionId: string): void {
+	const sessionFile = ctx.sessionManager.getSessionFile();
+	if (!sessionFile) return;
+	const recovery = recoverRunLedger(parentSessionId, sessionFile, { supervise: superviseBackgroundRun });
+	const notice = formatLedgerRecovery(recovery);
+	if (notice && ctx.hasUI) ctx.ui.notify(notice, "info");
+}
+
 function activeForegroundRunIds(): string[] {
 	return [...foregroundQueuedIds(), ...foregroundRunningIds()];
 }
@@ -1070,11 +1259,15 @@ function registerSubagentTool(pi: ExtensionAPI): void {
 			"Spawn a sub-agent in a dedicated herdr surface (pane or tab). " +
 			"Default is async (fire-and-forget): the call returns immediately and the harness steers the result back when the child finishes. " +
 			"Pass blocking: true to await the child's final text as the tool result instead of a steer. " +
+			"Pass batch: [{ agent, task, label? }, ...] instead of agent/task to fan out several background runs; one aggregated result with a per-member outcome table arrives when all settle. " +
+			"Pass dependsOn: [runId, ...] to hold a background run until earlier runs complete; their summaries are templated into its task at {{predecessors}} (or appended), and it is cancelled if any predecessor fails. " +
 			"The child auto-exits on normal completion (errors may leave the surface open) and always opens a real surface. " +
 			"DO NOT fabricate results. After an async spawn, end your turn or work on other independent tasks.",
 		promptSnippet:
 			"Spawn a sub-agent in a herdr surface (pane or tab). Async (default): returns immediately; the result is steered back when the child finishes. " +
 			"blocking: true awaits the final text as the tool result (no steer). " +
+			"batch: [...] fans out background runs with one aggregated result. " +
+			"dependsOn: [runId] chains a run after earlier runs complete, feeding their summaries. " +
 			"The child auto-exits on normal completion (errors may leave the surface open) and always opens a real surface.",
 		parameters: SubagentParams,
 		execute(_toolCallId: any, params: any, signal: any, _onUpdate: any, ctx: ExtensionContext) {
@@ -1085,6 +1278,75 @@ function registerSubagentTool(pi: ExtensionAPI): void {
 	});
 }
 
+function registerSubagentMessageTool(pi: ExtensionAPI): void {
+	if (!shouldRegisterSubagentTool()) return;
+	(pi.registerTool as any)({
+		name: "subagent_message",
+		label: "Subagent Message",
+		description:
+			"Send a follow-up instruction to a running sub-agent by run ID: answer its question, narrow its scope, or redirect it. " +
+			"The child receives it as a steering message at its next turn boundary, or starts a new turn if it is idle. " +
+			"Only runs launched from this session that are still running can be messaged.",
+		promptSnippet: "Steer a running sub-agent by run ID with a follow-up instruction.",
+		parameters: SubagentMessageParams,
+		async execute(
+			_toolCallId: any,
+			params: Static<typeof SubagentMessageParams>,
+			_signal: any,
+			_onUpdate: any,
+			ctx: ExtensionContext,
+		) {
+			const sent = sendSubagentMessage(ctx.sessionManager.getSessionId(), params.id, params.message);
+			return {
+				content: [{ type: "text", text: sent.text }],
+				details: { id: params.id, sent: sent.ok },
+				...(sent.ok ? {} : { isError: true }),
+			};
+		},
+	});
+}
+
+function registerSubagentArtifactTool(pi: ExtensionAPI): void {
+	if (!shouldRegisterSubagentTool()) return;
+	(pi.registerTool as any)({
+		name: "subagent_artifact",
+		label: "Subagent Artifact",
+		description:
+			"Read a file a sub-agent attached to its result, by run ID and artifact name as listed in the result. " +
+			"Omit name to list the run's artifacts. Long text artifacts are returned a window of lines at a time; pass offset to continue. " +
+			"Only runs launched from this session can be read.",
+		promptSnippet: "Read a file a sub-agent attached to its result, by run ID and artifact name.",
+		parameters: SubagentArtifactParams,
+		async execute(
+			_toolCallId: any,
+			params: Static<typeof SubagentArtifactParams>,
+			_signal: any,
+			_onUpdate: any,
+			ctx: ExtensionContext,
+		) {
+			const read = readSessionArtifact(snapshotParentContext(ctx), params);
+			return {
+				content: [{ type: "text", text: read.text }],
+				details: {
+					id: params.id,
+					...(read.artifact ? { name: read.artifact.name, size: read.artifact.size } : {}),
+				},
+				...(read.ok ? {} : { isError: true }),
+			};
+		},
+	});
+}
+
+/** Run IDs resolve inside this session's artifact directory only. */
+function readSessionArtifact(
+	stableCtx: StableParentContext,
+	params: Static<typeof SubagentArtifactParams>,
+): ReturnType<typeof readRunArtifact> {
+	if (!isArtifactName(params.id)) return { ok: false, text: `Invalid run ID ${JSON.stringify(params.id)}.` };
+	const dir = getRunArtifactsDir(getArtifactDir(stableCtx.sessionDir, stableCtx.sessionId), params.id);
+	return readRunArtifact(dir, params.name, params);
+}
+
 function registerSubagentMessageRenderers(pi: ExtensionAPI): void {
 	(pi.registerMessageRenderer as any)("subagent_result", renderSubagentResultRenderer);
 	(pi.registerMessageRenderer as any)("subagent_status", renderSubagentStatusRenderer);
@@ -1110,5 +1372,30 @@ export default function subagentsExtension(pi: ExtensionAPI) {
 	pi.on("session_start", (_event, ctx) => handleParentSessionStart(pi, instanceState, ctx));
 	pi.on("session_shutdown", (event, ctx) => handleParentSessionShutdown(instanceState, event, ctx));
 	registerSubagentTool(pi);
+	registerSubagentMessageTool(pi);
+	registerSubagentArtifactTool(pi);
 	registerSubagentMessageRenderers(pi);
+	registerWorktreeCommand(pi);
+	registerAgentsCommand(pi, {
+		snapshot: snapshotParentContext,
+		resolve: (ctx, stableCtx, params) => resolveAgentLaunch(pi, ctx, stableCtx, params),
+		preview: (params, context) =>
+			previewLaunch(params, context.stableCtx, {
+				agentDefinition: context.agentDefinition,
+				selectedSkills: context.selectedSkills,
+				runtimePlan: context.runtimePlan,
+				projectTrusted: context.stableCtx.projectTrusted,
+			}),
+	});
+	registerSubagentsCommand(pi, async (params, ctx) => {
+		const result = await executeSubagentTool(
+			pi,
+			"subagents-rerun",
+			params,
+			new AbortController().signal,
+			undefined,
+			ctx,
+		);
+		return result.content.map((part: { text?: string }) => part.text ?? "").join("\n");
+	});
 }
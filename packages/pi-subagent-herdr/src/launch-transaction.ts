@@ -1,4 +1,4 @@
-export type LaunchStep = "admitted" | "pane" | "script" | "watcher" | "running";
+export type LaunchStep = "admitted" | "worktree" | "pane" | "script" | "watcher" | "running";
 
 export class LaunchTransaction {
 	private readonly rollbacks: Array<() => void> = [];
@@ -4,17 +4,17 @@
  * direction:right → first split `right` on caller; subsequent `down` on tallest region pane.
  * direction:down  → first split `down` on caller; subsequent `right` on widest region pane.
  *
- * All splits are herdr's default 50/50 (no --ratio).
+ * All splits are the backend's default 50/50 (no --ratio).
  * Selection: geometry via `pane layout` rects (preferred), depth fallback otherwise.
  * Region state lives under Symbol.for("pi-subagent-herdr/layout") for /reload durability.
  */
 import {
 	createSubagentPane,
-	getHerdrPaneLayout,
+	getPaneLayout,
 	type HerdrLayoutPane,
 	type HerdrPaneLayout,
-	herdrPaneExists,
 	splitCurrentPane,
+	paneExists as terminalPaneExists,
 } from "./terminal.ts";
 
 export type LayoutDirection = "right" | "down";
@@ -60,6 +60,9 @@ export interface AttachResult {
 /** Minimum parent terminal size (cols/rows) before attached splits are useful. From spike 0.4. */
 export const MIN_ATTACHED_COLS_RIGHT = 100;
 export const MIN_ATTACHED_ROWS_DOWN = 24;
+/** Smallest useful region pane along the axis the region stacks on (rows for right, cols for down). */
+export const MIN_REGION_PANE_ROWS = 6;
+export const MIN_REGION_PANE_COLS = 40;
 
 const LAYOUT_KEY = Symbol.for("pi-subagent-herdr/layout");
 
@@ -267,7 +270,7 @@ export function rebalanceDepthsAfterRemoval(
 export function removePaneFromRegion(parentPaneId: string, paneId: string): void {
 	const region = getRegion(parentPaneId);
 	if (!region) return;
-	const layout = getHerdrPaneLayout(parentPaneId);
+	const layout = getPaneLayout(parentPaneId);
 	const next = rebalanceDepthsAfterRemoval(region, paneId, layout);
 	if (next.panes.length === 0) {
 		deleteRegion(parentPaneId);
@@ -281,7 +284,7 @@ export function removePaneFromRegion(parentPaneId: string, paneId: string): void
  */
 export function reapVanishedPanes(
 	parentPaneId: string,
-	paneExists: (id: string) => boolean = herdrPaneExists,
+	paneExists: (id: string) => boolean = terminalPaneExists,
 ): string[] {
 	const region = getRegion(parentPaneId);
 	if (!region) return [];
@@ -290,7 +293,7 @@ export function reapVanishedPanes(
 	for (const pane of region.panes) {
 		if (!paneExists(pane.paneId)) {
 			removed.push(pane.paneId);
-			const layout = getHerdrPaneLayout(parentPaneId);
+			const layout = getPaneLayout(parentPaneId);
 			current = rebalanceDepthsAfterRemoval(current, pane.paneId, layout);
 		}
 	}
@@ -374,7 +377,7 @@ function resolveAttach(
 		surface: options.surface ?? "pane",
 		splitFn: deps?.splitFn ?? splitCurrentPane,
 		tabCreateFn: deps?.tabCreateFn ?? createSubagentPane,
-		layoutQuery: deps?.layoutQuery ?? getHerdrPaneLayout,
+		layoutQuery: deps?.layoutQuery ?? getPaneLayout,
 		paneExists: deps?.paneExists,
 		measure: deps?.measure,
 	};
@@ -433,7 +436,10 @@ function appendToRegion(
 ): AttachResult {
 	const conflict = conflictingDirectionTab(options, attach, region);
 	if (conflict) return conflict;
-	const targetPaneId = selectRegionPane(region, attach.layoutQuery(parentPaneId));
+	const layout = attach.layoutQuery(parentPaneId);
+	const targetPaneId = selectRegionPane(region, layout);
+	const full = regionFullTab(options, attach, region, targetPaneId, layout);
+	if (full) return full;
 	const paneId = attach.splitFn(options.name, subsequentSplitDirection(region.direction), targetPaneId, options.cwd);
 	setRegion(appendRegionPane(region, targetPaneId, paneId));
 	return { paneId };
@@ -453,6 +459,44 @@ function conflictingDirectionTab(
 	};
 }
 
+/**
+ * More runs can be admitted than the region has room for. When splitting the
+ * roomiest pane would leave halves below the minimum, the run gets a tab
+ * instead. Live geometry decides when available; otherwise the measured
+ * terminal is shared evenly, and an unknown size never falls back.
+ */
+function regionFullTab(
+	options: AttachOptions,
+	attach: ResolvedAttach,
+	region: RegionState,
+	targetPaneId: string,
+	layout: HerdrPaneLayout | null,
+): AttachResult | undefined {
+	const minimum = region.direction === "right" ? MIN_REGION_PANE_ROWS : MIN_REGION_PANE_COLS;
+	if (regionHasRoom(region, targetPaneId, layout, attach.measure, minimum)) return undefined;
+	if (!attach.tabCreateFn) throw new Error("region-full tab fallback requested but no tabCreateFn provided");
+	const unit = region.direction === "right" ? "rows" : "cols";
+	return {
+		paneId: attach.tabCreateFn(options.name, options.cwd),
+		fellBackToTab: true,
+		warning: `Attached region is full (${region.panes.length} panes, each needs ≥ ${minimum} ${unit}); opened in a tab.`,
+	};
+}
+
+function regionHasRoom(
+	region: RegionState,
+	targetPaneId: string,
+	layout: HerdrPaneLayout | null,
+	measure: ResolvedAttach["measure"],
+	minimum: number,
+): boolean {
+	const geometry = layout?.panes.find((pane) => pane.paneId === targetPaneId);
+	if (geometry) return geometryMetric(region.direction, geometry) >= minimum * 2;
+	const dims = measureParentTerminal(measure);
+	const total = region.direction === "right" ? dims.rows : dims.columns;
+	return total == null || total / (region.panes.length + 1) >= minimum;
+}
+
 function appendRegionPane(region: RegionState, targetPaneId: string, paneId: string): RegionState {
 	const target = region.panes.find((pane) => pane.paneId === targetPaneId);
 	const depth = (target?.depth ?? 0) + 1;
@@ -486,8 +530,8 @@ export function tryRederiveRegionFromLayout(
 ): RegionState | null {
 	if (getRegion(parentPaneId)) return getRegion(parentPaneId) ?? null;
 	if (knownChildPaneIds.length === 0) return null;
-	const layoutQuery = deps?.layoutQuery ?? getHerdrPaneLayout;
-	const paneExists = deps?.paneExists ?? herdrPaneExists;
+	const layoutQuery = deps?.layoutQuery ?? getPaneLayout;
+	const paneExists = deps?.paneExists ?? terminalPaneExists;
 	const layout = layoutQuery(parentPaneId);
 	const existing = knownChildPaneIds.filter((id) => paneExists(id));
 	if (existing.length === 0) return null;
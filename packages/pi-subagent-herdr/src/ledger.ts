@@ -0,0 +1,319 @@
+/**
+ * Persisted run ledger: survives quitting pi, unlike the `runtime` maps.
+ *
+ * Each parent session appends admission, launch, settlement, and delivery
+ * events to `<session file>.subagents` (JSONL). When a session starts, the
+ * ledger is folded per run: children that are still alive (pane present,
+ * headless process group running, or exit sidecar written) are re-attached and watched, undelivered results are
+ * delivered, and runs that died or never launched are reported instead of
+ * vanishing. Worktrees of isolated runs that are still on disk re-enter the
+ * `/subagent-worktree` registry. Writes are best-effort; a ledger failure
+ * never fails a run.
+ */
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import {
+	deliverBackgroundMessage,
+	isSessionRuntimeUnavailable,
+	queuePendingDeliveryWithVerification,
+} from "./delivery.ts";
+import { adoptHeadlessPane } from "./headless.ts";
+import type { RunHooks } from "./hooks.ts";
+import { createLifecycle } from "./lifecycle.ts";
+import type { ResolvedRuntimePlan } from "./runtime-routing.ts";
+import { findLastAssistantMessage, getNewEntries } from "./session.ts";
+import type { StallRecoveryPolicy } from "./stall-recovery.ts";
+import {
+	ledgerFiles,
+	pendingDeliveries,
+	queuedSubagents,
+	recoveredLedgers,
+	runningSubagents,
+	runWorktrees,
+} from "./state.ts";
+import { paneExists } from "./terminal.ts";
+import type { RunningSubagent, RunSettlementOutcome, RunWorktree } from "./types.ts";
+import { formatElapsed } from "./widget.ts";
+
+/** Runs whose ledger file is remembered; older ones stop recording (blocking runs never see `delivered`). */
+const MAX_LEDGER_RUNS = 500;
+
+export type LedgerEvent =
+	| {
+			type: "admitted";
+			name: string;
+			agent?: string;
+			task: string;
+			parentSessionId: string;
+			dependsOn?: string[];
+			vars?: Record<string, string>;
+	  }
+	| {
+			type: "launched";
+			surface: string;
+			sessionFile: string;
+			activityFile?: string;
+			artifactsDir?: string;
+			entryCountBefore?: number;
+			startTime: number;
+			/** Headless process group; the headless pane registry does not survive a restart. */
+			pid?: number;
+			runtimePlan?: ResolvedRuntimePlan;
+			worktree?: RunWorktree;
+			stallRecovery?: StallRecoveryPolicy;
+			hooks?: RunHooks;
+	  }
+	| { type: "settled"; outcome: RunSettlementOutcome }
+	| { type: "pending"; message: any }
+	| { type: "delivered" };
+
+export type LedgerRecord = LedgerEvent & { runId: string; at: number };
+
+/** Everything the ledger knows about one run, folded from its events in order. */
+export interface LedgerRun {
+	runId: string;
+	admitted?: Extract<LedgerRecord, { type: "admitted" }>;
+	launched?: Extract<LedgerRecord, { type: "launched" }>;
+	settled?: Extract<LedgerRecord, { type: "settled" }>;
+	pending?: Extract<LedgerRecord, { type: "pending" }>;
+	delivered: boolean;
+}
+
+export interface LedgerRecovery {
+	reattached: string[];
+	redelivered: string[];
+	lost: string[];
+}
+
+export function ledgerPath(parentSessionFile: string): string {
+	return `${parentSessionFile}.subagents`;
+}
+
+/** Start recording a run's events in the parent session's ledger. */
+export function openRunLedger(
+	runId: string,
+	parentSessionFile: string | undefined,
+	admitted: Omit<Extract<LedgerEvent, { type: "admitted" }>, "type">,
+): void {
+	if (!parentSessionFile) return;
+	ledgerFiles.set(runId, ledgerPath(parentSessionFile));
+	recordLedgerEvent(runId, { type: "admitted", ...admitted });
+}
+
+export function recordLedgerEvent(runId: string, event: LedgerEvent, at = Date.now()): void {
+	const file = ledgerFiles.get(runId);
+	if (!file) return;
+	try {
+		appendFileSync(file, `${JSON.stringify({ ...event, runId, at })}\n`, { mode: 0o600 });
+	} catch {}
+	if (event.type === "delivered") ledgerFiles.delete(runId);
+	while (ledgerFiles.size > MAX_LEDGER_RUNS) ledgerFiles.delete(ledgerFiles.keys().next().value as string);
+}
+
+/** Read a ledger, skipping lines a crash may have left half-written. */
+export function readRunLedger(file: string): LedgerRecord[] {
+	let raw: string;
+	try {
+		raw = readFileSync(file, "utf8");
+	} catch {
+		return [];
+	}
+	const records: LedgerRecord[] = [];
+	for (const line of raw.split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			const record = JSON.parse(line) as LedgerRecord;
+			if (typeof record?.runId === "string" && typeof record.type === "string") records.push(record);
+		} catch {}
+	}
+	return records;
+}
+
+export function foldRunLedger(records: LedgerRecord[]): LedgerRun[] {
+	const runs = new Map<string, LedgerRun>();
+	for (const record of records) {
+		const run = runs.get(record.runId) ?? { runId: record.runId, delivered: false };
+		runs.set(record.runId, run);
+		if (record.type === "admitted") run.admitted = record;
+		else if (record.type === "launched") run.launched = record;
+		else if (record.type === "settled") run.settled ??= record;
+		else if (record.type === "pending") run.pending = record;
+		else if (record.type === "delivered") run.delivered = true;
+	}
+	return Array.from(runs.values());
+}
+
+export interface LedgerRecoveryDeps {
+	/** Watch a re-attached run and deliver its result like any background run. */
+	supervise: (parentSessionId: string, running: RunningSubagent) => void;
+	paneAlive?: (surface: string) => boolean;
+	now?: () => number;
+}
+
+/**
+ * Reconcile a resumed parent session with its ledger. Runs once per ledger per
+ * process: /reload keeps the live maps, so only a fresh process needs this.
+ */
+export function recoverRunLedger(
+	parentSessionId: string,
+	parentSessionFile: string,
+	deps: LedgerRecoveryDeps,
+): LedgerRecovery {
+	const recovery: LedgerRecovery = { reattached: [], redelivered: [], lost: [] };
+	const file = ledgerPath(parentSessionFile);
+	if (recoveredLedgers.has(file)) return recovery;
+	recoveredLedgers.add(file);
+	const paneAlive = deps.paneAlive ?? paneExists;
+	const now = deps.now ?? (() => Date.now());
+	for (const run of foldRunLedger(readRunLedger(file))) {
+		restoreWorktree(run.launched?.worktree);
+		if (runningSubagents.has(run.runId) || queuedSubagents.has(run.runId) || pendingDeliveries.has(run.runId)) {
+			continue;
+		}
+		if (run.settled) {
+			if (!run.pending || run.delivered) continue;
+			ledgerFiles.set(run.runId, file);
+			redeliver(parentSessionId, parentSessionFile, run.runId, run.pending.message);
+			recovery.redelivered.push(run.runId);
+			continue;
+		}
+		if (!run.admitted) continue;
+		ledgerFiles.set(run.runId, file);
+		const { launched } = run;
+		if (launched && launchedRunAlive(launched, paneAlive)) {
+			const running = reattachedRun(run, launched, parentSessionId, parentSessionFile);
+			runningSubagents.set(running.id, running);
+			deps.supervise(parentSessionId, running);
+			recovery.reattached.push(run.runId);
+			continue;
+		}
+		const message = launched ? lostRunMessage(run, launched, now()) : unlaunchedRunMessage(run);
+		recordLedgerEvent(run.runId, { type: "settled", outcome: launched ? "abandoned" : "cancelled" });
+		recordLedgerEvent(run.runId, { type: "pending", message });
+		redeliver(parentSessionId, parentSessionFile, run.runId, message);
+		recovery.lost.push(run.runId);
+	}
+	return recovery;
+}
+
+function launchedRunAlive(
+	launched: NonNullable<LedgerRun["launched"]>,
+	paneAlive: (surface: string) => boolean,
+): boolean {
+	if (launched.pid !== undefined && adoptHeadlessPane(launched.surface, launched.pid)) return true;
+	return existsSync(`${launched.sessionFile}.exit`) || paneAlive(launched.surface);
+}
+
+/** A merged or discarded worktree is gone from disk, so existence is the registry's source of truth. */
+function restoreWorktree(worktree: RunWorktree | undefined): void {
+	if (!worktree || runWorktrees.has(worktree.runId) || !existsSync(worktree.path)) return;
+	runWorktrees.set(worktree.runId, worktree);
+}
+
+function reattachedRun(
+	run: LedgerRun,
+	launched: NonNullable<LedgerRun["launched"]>,
+	parentSessionId: string,
+	parentSessionFile: string,
+): RunningSubagent {
+	const admitted = run.admitted as NonNullable<LedgerRun["admitted"]>;
+	return {
+		id: run.runId,
+		name: admitted.name,
+		task: admitted.task,
+		...(admitted.vars ? { vars: admitted.vars } : {}),
+		agent: admitted.agent,
+		parentSessionId,
+		parentSessionFile,
+		surface: launched.surface,
+		startTime: launched.startTime,
+		sessionFile: launched.sessionFile,
+		activityFile: launched.activityFile,
+		...(launched.artifactsDir ? { artifactsDir: launched.artifactsDir } : {}),
+		entryCountBefore: launched.entryCountBefore,
+		lifecycle: createLifecycle(launched.startTime),
+		runtimePlan: launched.runtimePlan,
+		admissionClass: "background",
+		...(launched.worktree ? { worktree: launched.worktree } : {}),
+		...(launched.stallRecovery ? { stallRecovery: launched.stallRecovery } : {}),
+		...(launched.hooks ? { hooks: launched.hooks } : {}),
+	};
+}
+
+function lastOutput(launched: NonNullable<LedgerRun["launched"]>): string {
+	try {
+		if (existsSync(launched.sessionFile)) {
+			const text = findLastAssistantMessage(getNewEntries(launched.sessionFile, launched.entryCountBefore ?? 0));
+			if (text) return text;
+		}
+	} catch {}
+	return "No assistant output was recorded.";
+}
+
+function lostRunMessage(run: LedgerRun, launched: NonNullable<LedgerRun["launched"]>, now: number) {
+	const admitted = run.admitted as NonNullable<LedgerRun["admitted"]>;
+	const elapsed = Math.max(0, Math.floor((now - launched.startTime) / 1000));
+	return {
+		customType: "subagent_result",
+		content:
+			`Sub-agent "${admitted.name}" [${run.runId}] was running when pi exited and is gone: its pane no longer ` +
+			`exists and it recorded no completion. Its outcome is unknown after ${formatElapsed(elapsed)}; any output ` +
+			`it produced is below and in its session log.\n\n${lastOutput(launched)}\n\nSession log: ${launched.sessionFile}`,
+		display: true,
+		details: {
+			id: run.runId,
+			name: admitted.name,
+			task: admitted.task,
+			agent: admitted.agent,
+			exitCode: 1,
+			elapsed,
+			sessionFile: launched.sessionFile,
+			watchAbandoned: true,
+			...(launched.worktree ? { worktree: launched.worktree } : {}),
+		},
+	};
+}
+
+function unlaunchedRunMessage(run: LedgerRun) {
+	const admitted = run.admitted as NonNullable<LedgerRun["admitted"]>;
+	return {
+		customType: "subagent_result",
+		content:
+			`Sub-agent "${admitted.name}" [${run.runId}] was still queued when pi exited and never launched. ` +
+			"Start it again if its task is still needed.",
+		display: true,
+		details: {
+			id: run.runId,
+			name: admitted.name,
+			task: admitted.task,
+			agent: admitted.agent,
+			exitCode: 1,
+			elapsed: 0,
+			notLaunched: true,
+		},
+	};
+}
+
+function redeliver(parentSessionId: string, parentSessionFile: string, runId: string, message: any): void {
+	const options = { sessionFile: parentSessionFile, expectedRunId: runId };
+	void deliverBackgroundMessage(undefined, parentSessionId, message, options)
+		.then(() => recordLedgerEvent(runId, { type: "delivered" }))
+		.catch((error) =>
+			queuePendingDeliveryWithVerification(
+				runId,
+				parentSessionId,
+				message,
+				error,
+				options,
+				isSessionRuntimeUnavailable(error) ? 0 : 1,
+			),
+		);
+}
+
+export function formatLedgerRecovery(recovery: LedgerRecovery): string | undefined {
+	const parts = [
+		recovery.reattached.length ? `re-attached ${recovery.reattached.length} running` : "",
+		recovery.redelivered.length ? `delivering ${recovery.redelivered.length} finished` : "",
+		recovery.lost.length ? `${recovery.lost.length} lost while pi was closed` : "",
+	].filter(Boolean);
+	return parts.length ? `Subagent runs from before restart: ${parts.join(", ")}.` : undefined;
+}
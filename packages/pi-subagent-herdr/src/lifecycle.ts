@@ -1,5 +1,6 @@
 import type { ActivityReadResult, SubagentActivityScope, SubagentActivityState } from "./activity.ts";
 import type { CompletionResult } from "./completion.ts";
+import type { RunProgress, StallRecoveryStep } from "./stall-recovery.ts";
 
 export type HerdrAgentStatus = "idle" | "working" | "blocked" | "done" | "unknown";
 
@@ -63,6 +64,10 @@ export interface SubagentLifecycle {
 	hasWorked: boolean;
 	lastActivitySequence: number | null;
 	delivery: CompletionDelivery;
+	/** Last change of the progress signal `stall-recovery:` watches; only tracked under a policy. */
+	progress?: RunProgress;
+	/** Nudges and stops taken under the agent's `stall-recovery:` policy, oldest first. */
+	stallRecovery?: StallRecoveryStep[];
 }
 
 export interface LifecycleProjection {
@@ -0,0 +1,161 @@
+/**
+ * Structured subagent results.
+ *
+ * Agent definitions may declare `result-schema:` as a single-line JSON object
+ * using a focused JSON Schema subset: `type`, `properties`, `required`,
+ * `additionalProperties: false`, `items`, and `enum`. Other keywords (such as
+ * `description` or `title`) are carried to the child model as documentation
+ * but are not enforced. The same validator runs in the child before
+ * `subagent_done` accepts a payload, so the parent only ever receives results
+ * that matched the declared shape.
+ */
+
+export type ResultSchema = Record<string, unknown>;
+
+const SCHEMA_TYPES = ["object", "array", "string", "number", "integer", "boolean", "null"] as const;
+const MAX_REPORTED_VIOLATIONS = 8;
+
+type SchemaType = (typeof SCHEMA_TYPES)[number];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Parse a frontmatter `result-schema` value; returns the schema or throws a plain message. */
+export function parseResultSchema(raw: string): ResultSchema {
+	let schema: unknown;
+	try {
+		schema = JSON.parse(raw);
+	} catch {
+		throw new Error("result-schema must be a single-line JSON object.");
+	}
+	const problem = describeSchemaProblem(schema, "result-schema");
+	if (problem) throw new Error(problem);
+	return schema as ResultSchema;
+}
+
+function describeSchemaProblem(schema: unknown, path: string): string | undefined {
+	if (!isPlainObject(schema)) return `${path} must be a JSON object.`;
+	return (
+		schemaTypeProblem(schema.type, path) ??
+		schemaPropertiesProblem(schema.properties, path) ??
+		schemaRequiredProblem(schema.required, path) ??
+		schemaItemsProblem(schema.items, path) ??
+		schemaEnumProblem(schema.enum, path) ??
+		schemaAdditionalPropertiesProblem(schema.additionalProperties, path)
+	);
+}
+
+function schemaTypeProblem(type: unknown, path: string): string | undefined {
+	if (type === undefined) return undefined;
+	const types = Array.isArray(type) ? type : [type];
+	const valid = types.length > 0 && types.every((entry) => SCHEMA_TYPES.includes(entry as SchemaType));
+	return valid ? undefined : `${path}.type must be one of: ${SCHEMA_TYPES.join(", ")}.`;
+}
+
+function schemaPropertiesProblem(properties: unknown, path: string): string | undefined {
+	if (properties === undefined) return undefined;
+	if (!isPlainObject(properties)) return `${path}.properties must be an object.`;
+	for (const [key, child] of Object.entries(properties)) {
+		const problem = describeSchemaProblem(child, `${path}.properties.${key}`);
+		if (problem) return problem;
+	}
+	return undefined;
+}
+
+function schemaRequiredProblem(required: unknown, path: string): string | undefined {
+	if (required === undefined) return undefined;
+	const valid = Array.isArray(required) && required.every((entry) => typeof entry === "string");
+	return valid ? undefined : `${path}.required must be an array of property names.`;
+}
+
+function schemaItemsProblem(items: unknown, path: string): string | undefined {
+	return items === undefined ? undefined : describeSchemaProblem(items, `${path}.items`);
+}
+
+function schemaEnumProblem(values: unknown, path: string): string | undefined {
+	if (values === undefined) return undefined;
+	return Array.isArray(values) && values.length > 0 ? undefined : `${path}.enum must be a non-empty array.`;
+}
+
+function schemaAdditionalPropertiesProblem(value: unknown, path: string): string | undefined {
+	if (value === undefined || typeof value === "boolean") return undefined;
+	return `${path}.additionalProperties must be a boolean.`;
+}
+
+/** Validate a child payload; returns human-readable violations (empty when valid). */
+export function validateResultPayload(schema: ResultSchema, value: unknown): string[] {
+	const violations: string[] = [];
+	collectViolations(schema, value, "result", violations);
+	return violations.slice(0, MAX_REPORTED_VIOLATIONS);
+}
+
+function collectViolations(schema: ResultSchema, value: unknown, path: string, violations: string[]): void {
+	if (!matchesSchemaType(schema.type, value)) {
+		violations.push(`${path} must be ${describeSchemaType(schema.type)}`);
+		return;
+	}
+	if (Array.isArray(schema.enum) && !schema.enum.some((candidate) => jsonEqual(candidate, value))) {
+		violations.push(`${path} must be one of ${schema.enum.map((entry) => JSON.stringify(entry)).join(", ")}`);
+	}
+	if (isPlainObject(value)) collectObjectViolations(schema, value, path, violations);
+	if (Array.isArray(value) && isPlainObject(schema.items))
+		collectItemViolations(schema.items, value, path, violations);
+}
+
+function collectObjectViolations(
+	schema: ResultSchema,
+	value: Record<string, unknown>,
+	path: string,
+	violations: string[],
+): void {
+	const properties = isPlainObject(schema.properties) ? schema.properties : {};
+	for (const key of Array.isArray(schema.required) ? (schema.required as string[]) : []) {
+		if (!(key in value)) violations.push(`${path}.${key} is required`);
+	}
+	for (const [key, child] of Object.entries(value)) {
+		const childSchema = properties[key];
+		if (isPlainObject(childSchema)) collectViolations(childSchema, child, `${path}.${key}`, violations);
+		else if (schema.additionalProperties === false) violations.push(`${path}.${key} is not allowed`);
+	}
+}
+
+function collectItemViolations(schema: ResultSchema, value: unknown[], path: string, violations: string[]): void {
+	value.forEach((item, index) => {
+		collectViolations(schema, item, `${path}[${index}]`, violations);
+	});
+}
+
+function matchesSchemaType(type: unknown, value: unknown): boolean {
+	if (type === undefined) return true;
+	const types = (Array.isArray(type) ? type : [type]) as SchemaType[];
+	return types.some((entry) => valueHasType(entry, value));
+}
+
+const typePredicates: Record<SchemaType, (value: unknown) => boolean> = {
+	object: isPlainObject,
+	array: Array.isArray,
+	string: (value) => typeof value === "string",
+	number: (value) => typeof value === "number" && Number.isFinite(value),
+	integer: (value) => Number.isInteger(value),
+	boolean: (value) => typeof value === "boolean",
+	null: (value) => value === null,
+};
+
+function valueHasType(type: SchemaType, value: unknown): boolean {
+	return typePredicates[type]?.(value) ?? false;
+}
+
+function describeSchemaType(type: unknown): string {
+	const types = Array.isArray(type) ? type : [type];
+	return types.map(describeSingleType).join(" or ");
+}
+
+function describeSingleType(type: unknown): string {
+	if (type === "null") return "null";
+	return `${/^[aeiou]/.test(String(type)) ? "an" : "a"} ${type}`;
+}
+
+function jsonEqual(left: unknown, right: unknown): boolean {
+	return JSON.stringify(left) === JSON.stringify(right);
+}
@@ -17,6 +17,25 @@ export type RuntimeSource = "request" | "agent" | "parent";
 export interface RuntimeRequest {
 	model?: string;
 	thinking?: ThinkingLevel;
+	/** Ordered fallbacks from agent frontmatter; the first usable entry wins. */
+	modelChain?: ModelChainEntry[];
+}
+
+/** One `model:` list entry: `provider/model-id` with an optional `:thinking` suffix. */
+export interface ModelChainEntry {
+	model: string;
+	thinking?: ThinkingLevel;
+}
+
+/** Which `model:` list entry a plan uses, and why the ones before it were passed over. */
+export interface ModelChainChoice {
+	/** Zero-based index of the chosen entry. */
+	index: number;
+	entries: string[];
+	/** `first`: the first entry was usable; `fallback`: earlier entries were skipped; `relaunch`: chosen after a provider error. */
+	reason: "first" | "fallback" | "relaunch";
+	skipped?: Array<{ entry: string; reason: string }>;
+	relaunchedFrom?: { runId: string; model: string; error: string };
 }
 
 export interface ParentRuntime {
@@ -66,6 +85,7 @@ export interface ResolvedRuntimePlan {
 		thinking?: ThinkingLevel;
 	};
 	runtimeMismatch?: string;
+	modelChain?: ModelChainChoice;
 }
 
 export class RuntimeResolutionError extends Error {
@@ -84,6 +104,28 @@ export function parseExactModelRef(reference: string): { provider: string; model
 	return provider && modelId ? { provider, modelId } : undefined;
 }
 
+/**
+ * Parse a `model:` scalar: one reference, or a comma-separated (optionally
+ * bracketed) list. A trailing `:level` is read as that entry's thinking level
+ * only when it names one, so model IDs that contain colons stay intact.
+ */
+export function parseModelChain(raw: string): ModelChainEntry[] {
+	const trimmed = raw.trim();
+	const list = trimmed.startsWith("[") && trimmed.endsWith("]") ? trimmed.slice(1, -1) : trimmed;
+	const entries = list.split(",").map((entry) => entry.trim());
+	if (entries.some((entry) => entry === "")) throw new RuntimeResolutionError("model must not contain empty entries");
+	return entries.map((entry) => {
+		const separator = entry.lastIndexOf(":");
+		const suffix = separator > 0 ? entry.slice(separator + 1).trim() : "";
+		if (!isThinkingLevel(suffix)) return { model: entry };
+		return { model: entry.slice(0, separator).trim(), thinking: suffix };
+	});
+}
+
+export function formatModelChainEntry(entry: ModelChainEntry): string {
+	return entry.thinking ? `${entry.model}:${entry.thinking}` : entry.model;
+}
+
 function toRoutingModel(value: any): RoutingModel | undefined {
 	if (!value || typeof value.provider !== "string" || typeof value.id !== "string") {
 		return undefined;
@@ -200,11 +242,66 @@ export function resolveRuntimePlan(
 	parent: ParentRuntime,
 	registry: ModelRegistryAdapter,
 ): ResolvedRuntimePlan {
+	if (!request.model && agentDefaults.modelChain?.length) {
+		return resolveModelChain(request, agentDefaults, parent, registry, 0);
+	}
 	const model = resolveModel(request, agentDefaults, parent, registry);
 	const thinking = resolveThinking(request, agentDefaults, parent, model);
 	return buildRuntimePlan(model, thinking);
 }
 
+/**
+ * The plan a provider-error relaunch would use: the next usable chain entry
+ * after the one `plan` chose, or undefined when the chain has none left.
+ */
+export function resolveFallbackRuntimePlan(
+	plan: ResolvedRuntimePlan,
+	request: RuntimeRequest,
+	agentDefaults: RuntimeRequest,
+	parent: ParentRuntime,
+	registry: ModelRegistryAdapter,
+): ResolvedRuntimePlan | undefined {
+	if (!plan.modelChain || request.model || !agentDefaults.modelChain) return undefined;
+	try {
+		const fallback = resolveModelChain(request, agentDefaults, parent, registry, plan.modelChain.index + 1);
+		return { ...fallback, modelChain: { ...(fallback.modelChain as ModelChainChoice), reason: "relaunch" } };
+	} catch (error) {
+		if (error instanceof RuntimeResolutionError) return undefined;
+		throw error;
+	}
+}
+
+/** Walk the chain from `start`; an entry without auth or with an unsupported thinking level is skipped. */
+function resolveModelChain(
+	request: RuntimeRequest,
+	agentDefaults: RuntimeRequest,
+	parent: ParentRuntime,
+	registry: ModelRegistryAdapter,
+	start: number,
+): ResolvedRuntimePlan {
+	const chain = agentDefaults.modelChain ?? [];
+	const entries = chain.map(formatModelChainEntry);
+	const skipped: Array<{ entry: string; reason: string }> = [];
+	for (let index = start; index < chain.length; index++) {
+		const entry = chain[index];
+		try {
+			const plan = resolveRuntimePlan(
+				request,
+				{ model: entry.model, thinking: entry.thinking ?? agentDefaults.thinking },
+				parent,
+				registry,
+			);
+			const reason = skipped.length === 0 && index === 0 ? "first" : "fallback";
+			return { ...plan, modelChain: { index, entries, reason, ...(skipped.length ? { skipped } : {}) } };
+		} catch (error) {
+			if (!(error instanceof RuntimeResolutionError)) throw error;
+			skipped.push({ entry: entries[index], reason: error.message });
+		}
+	}
+	const reasons = skipped.map((skip) => `${skip.entry}: ${skip.reason}`).join("; ");
+	throw new RuntimeResolutionError(`no usable model in the chain${reasons ? ` (${reasons})` : ""}`);
+}
+
 function resolveModel(
 	request: RuntimeRequest,
 	agentDefaults: RuntimeRequest,
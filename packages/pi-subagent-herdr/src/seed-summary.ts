@@ -0,0 +1,146 @@
+/**
+ * `seed: summary`: brief a child on the parent session instead of copying it.
+ *
+ * At tool-call time the parent's current branch is rendered as a transcript and
+ * a model condenses it into a briefing (goal, decisions, relevant files, open
+ * questions), which becomes the child's first session entry. The briefing is
+ * generated before admission so a queued launch holds text, not the parent's
+ * context, and records the parent leaf it was derived from.
+ */
+import type { ExtensionContext } from "@earendil-works/pi-coding-agent";
+import type { AgentDefinition } from "./agent-definition.ts";
+import { parseExactModelRef } from "./runtime-routing.ts";
+import { formatSessionTranscript, type SessionEntry } from "./session.ts";
+import { loadSeedSummaryModel } from "./settings.ts";
+import type { StableParentContext } from "./types.ts";
+
+export interface SeedBriefing {
+	text: string;
+	/** Parent entry the briefing covers up to; null for an empty parent session. */
+	parentLeafId: string | null;
+	/** `provider/model` that wrote it. */
+	model: string;
+}
+
+/** Sends one prompt to `model` and returns the reply text. */
+export type SeedSummaryCompletion = (
+	ctx: ExtensionContext,
+	model: { provider: string; modelId: string },
+	prompt: string,
+	signal: AbortSignal,
+) => Promise<string>;
+
+export const SEED_SUMMARY_TIMEOUT_MS = 120_000;
+/** Transcript budget: the opening (where the goal usually is) and the most recent turns. */
+const TRANSCRIPT_HEAD_CHARS = 20_000;
+const TRANSCRIPT_TAIL_CHARS = 100_000;
+
+const SEED_SUMMARY_INSTRUCTIONS = `You are briefing a subagent that will take over part of the work in the session below. It cannot see the session; your briefing is all it gets. Write a compact briefing in Markdown with exactly these sections:
+
+## Goal
+What the user is trying to achieve overall, and the current state of the work.
+
+## Decisions
+Choices already made and constraints stated, with the reason when one was given.
+
+## Relevant files
+Paths, symbols, and commands that matter, one per line with a few words on why.
+
+## Open questions
+What is unresolved or still unknown.
+
+Be specific and terse. Omit small talk, abandoned attempts, and tool output that no longer matters. Do not invent anything that is not in the session.`;
+
+/** The branch the parent is on, with the latest compaction summary standing in for what it replaced. */
+export function parentBranchTranscript(entries: SessionEntry[]): string {
+	let compactionIndex = entries.length - 1;
+	while (compactionIndex >= 0 && entries[compactionIndex].type !== "compaction") compactionIndex--;
+	const compaction = compactionIndex >= 0 ? entries[compactionIndex] : undefined;
+	const summary = typeof compaction?.summary === "string" ? compaction.summary.trim() : "";
+	const transcript = formatSessionTranscript(entries.slice(compactionIndex + 1));
+	return [summary ? `## Summary of earlier conversation\n\n${summary}` : "", transcript].filter(Boolean).join("\n\n");
+}
+
+function capTranscript(transcript: string): string {
+	if (transcript.length <= TRANSCRIPT_HEAD_CHARS + TRANSCRIPT_TAIL_CHARS) return transcript;
+	const omitted = transcript.length - TRANSCRIPT_HEAD_CHARS - TRANSCRIPT_TAIL_CHARS;
+	return `${transcript.slice(0, TRANSCRIPT_HEAD_CHARS)}\n\n[… ${omitted} characters omitted …]\n\n${transcript.slice(-TRANSCRIPT_TAIL_CHARS)}`;
+}
+
+export function buildSeedSummaryPrompt(transcript: string): string {
+	return `${SEED_SUMMARY_INSTRUCTIONS}\n\n<session>\n${capTranscript(transcript)}\n</session>`;
+}
+
+/** Agent `summary-model:`, then `subagentHerdr.seedSummary.model`, then the parent's model. */
+export function resolveSeedSummaryModel(
+	definition: AgentDefinition,
+	stableCtx: StableParentContext,
+	parentModel: { provider: string; id: string } | undefined,
+): string {
+	const model =
+		definition.summaryModel ??
+		loadSeedSummaryModel(stableCtx) ??
+		(parentModel ? `${parentModel.provider}/${parentModel.id}` : undefined);
+	if (!model) throw new Error("seed: summary needs a summary-model or a resolved parent model.");
+	return model;
+}
+
+/** Calls the model through the parent's registry, the way pi's own turns reach the provider. */
+export const completeWithModelRegistry: SeedSummaryCompletion = async (ctx, ref, prompt, signal) => {
+	const model = ctx.modelRegistry.find(ref.provider, ref.modelId);
+	if (!model) throw new Error(`model ${ref.provider}/${ref.modelId} is not available`);
+	const auth = await ctx.modelRegistry.getApiKeyAndHeaders(model);
+	if (!auth.ok) throw new Error("error" in auth ? auth.error : "authentication failed");
+	const providerAuth = await ctx.modelRegistry.getProviderAuth(model.provider);
+	const effectiveModel = providerAuth?.auth.baseUrl ? { ...model, baseUrl: providerAuth.auth.baseUrl } : model;
+	const provider = ctx.modelRegistry.getProvider(effectiveModel.provider);
+	if (!provider?.streamSimple) throw new Error(`provider ${effectiveModel.provider} cannot stream`);
+	const reply = await provider
+		.streamSimple(
+			effectiveModel,
+			{ messages: [{ role: "user", content: [{ type: "text", text: prompt }], timestamp: Date.now() }] },
+			{ apiKey: auth.apiKey, headers: auth.headers, env: auth.env, signal },
+		)
+		.result();
+	if (reply.stopReason === "error" || reply.stopReason === "aborted") {
+		throw new Error(reply.errorMessage ?? `the request ended with ${reply.stopReason}`);
+	}
+	return reply.content
+		.flatMap((block) => (block.type === "text" ? [block.text] : []))
+		.join("")
+		.trim();
+};
+
+/** Throws with the agent named, so the tool call fails before anything is admitted. */
+export async function generateSeedBriefing(params: {
+	ctx: ExtensionContext;
+	stableCtx: StableParentContext;
+	definition: AgentDefinition;
+	signal?: AbortSignal;
+	complete?: SeedSummaryCompletion;
+	timeoutMs?: number;
+}): Promise<SeedBriefing> {
+	const failed = (message: string) =>
+		new Error(`Could not summarize the parent session for ${JSON.stringify(params.definition.id)}: ${message}.`);
+	const model = resolveSeedSummaryModel(params.definition, params.stableCtx, params.ctx.model);
+	const ref = parseExactModelRef(model);
+	if (!ref) throw failed(`${model} is not a provider/model reference`);
+	const entries = params.ctx.sessionManager.getBranch() as unknown as SessionEntry[];
+	const transcript = parentBranchTranscript(entries);
+	if (!transcript) throw failed("the session has no messages yet; use seed: fresh");
+	const timeout = AbortSignal.timeout(params.timeoutMs ?? SEED_SUMMARY_TIMEOUT_MS);
+	const signal = params.signal ? AbortSignal.any([params.signal, timeout]) : timeout;
+	let text: string;
+	try {
+		text = await (params.complete ?? completeWithModelRegistry)(
+			params.ctx,
+			ref,
+			buildSeedSummaryPrompt(transcript),
+			signal,
+		);
+	} catch (error) {
+		throw failed(timeout.aborted ? `${model} timed out` : `${model}: ${(error as Error).message}`);
+	}
+	if (!text) throw failed(`${model} returned an empty briefing`);
+	return { text, parentLeafId: params.ctx.sessionManager.getLeafId(), model };
+}
@@ -17,7 +17,10 @@ export interface MessageEntry extends SessionEntry {
 	};
 }
 
-export type SeededSubagentSessionMode = "fresh" | "fork" | "lineage-only"; // lineage-only = legacy alias of fresh
+export type SeededSubagentSessionMode = "fresh" | "fork" | "summary" | "lineage-only"; // lineage-only = legacy alias of fresh
+
+/** `customType` of the briefing entry a `seed: summary` child starts with. */
+export const SEED_SUMMARY_CUSTOM_TYPE = "subagent_seed_summary";
 
 /**
  * Schema for write-only session provenance. It records initial-dispatch lineage
@@ -31,6 +34,8 @@ export interface SubagentSessionOwner {
 	agentId: string;
 	parentSessionId: string;
 	parentSessionFile: string;
+	/** Set for `seed: summary`: the parent leaf the briefing was derived from, and the model that wrote it. */
+	seedSummary?: { parentLeafId: string | null; model: string };
 	createdAt: string;
 }
 
@@ -89,7 +94,10 @@ export function seedSubagentSessionFile(params: {
 	childSessionFile: string;
 	childCwd: string;
 	sessionName?: string;
+	/** Required for `summary`; written as the child's first message. */
+	briefing?: { text: string; parentLeafId: string | null; model: string };
 }): void {
+	if (params.mode === "summary" && !params.briefing) throw new Error("seed: summary launch has no briefing.");
 	const ownerToken = params.agentId && params.parentSessionId ? randomBytes(32).toString("hex") : undefined;
 	const header = {
 		type: "session",
@@ -130,7 +138,9 @@ export function seedSubagentSessionFile(params: {
 						return true;
 					}
 				})
-			: [];
+			: params.mode === "summary" && params.briefing
+				? [briefingEntryLine(params.briefing, params.parentSessionFile, sessionInfoLines)]
+				: [];
 	const lines = [JSON.stringify(header), ...sessionInfoLines, ...contentLines];
 	mkdirSync(dirname(params.childSessionFile), { recursive: true });
 	writeFileSync(params.childSessionFile, `${lines.join("\n")}\n`, "utf8");
@@ -141,10 +151,32 @@ export function seedSubagentSessionFile(params: {
 			agentId: params.agentId,
 			parentSessionId: params.parentSessionId,
 			parentSessionFile: params.parentSessionFile,
+			...(params.mode === "summary" && params.briefing
+				? { seedSummary: { parentLeafId: params.briefing.parentLeafId, model: params.briefing.model } }
+				: {}),
 		});
 	}
 }
 
+/** A displayed custom message, so the child's model reads the briefing as context and the user sees it. */
+function briefingEntryLine(
+	briefing: { text: string; parentLeafId: string | null; model: string },
+	parentSessionFile: string,
+	sessionInfoLines: string[],
+): string {
+	const parentId = sessionInfoLines.length > 0 ? JSON.parse(sessionInfoLines[0]).id : null;
+	return JSON.stringify({
+		type: "custom_message",
+		id: randomBytes(4).toString("hex"),
+		parentId,
+		timestamp: new Date().toISOString(),
+		customType: SEED_SUMMARY_CUSTOM_TYPE,
+		content: `[pi-subagent-herdr] Briefing on the parent session:\n\n${briefing.text}`,
+		display: true,
+		details: { parentSessionFile, parentLeafId: briefing.parentLeafId, model: briefing.model },
+	});
+}
+
 function readEntries(sessionFile: string): SessionEntry[] {
 	const raw = readFileSync(sessionFile, "utf8");
 	return raw
@@ -223,6 +255,26 @@ export function findLastAssistantMessage(entries: SessionEntry[]): string | null
 	return null;
 }
 
+/** Plain-text transcript of a session's user and assistant messages; tool calls are listed by name. */
+export function formatSessionTranscript(entries: SessionEntry[]): string {
+	const sections: string[] = [];
+	for (const entry of entries) {
+		if (entry.type !== "message") continue;
+		const { role, content } = (entry as MessageEntry).message;
+		if (role === "toolResult") continue;
+		// User messages may carry plain string content.
+		const blocks = typeof content === "string" ? [{ type: "text", text: content as string }] : (content ?? []);
+		const lines = blocks.flatMap((block: { type: string; text?: string; name?: unknown }) => {
+			if (block.type === "text" && typeof block.text === "string" && block.text.trim())
+				return [block.text.trim()];
+			if (block.type === "toolCall" && typeof block.name === "string") return [`→ ${block.name}`];
+			return [];
+		});
+		if (lines.length > 0) sections.push(`## ${role}\n\n${lines.join("\n")}`);
+	}
+	return sections.join("\n\n");
+}
+
 /**
  * Append a branch_summary entry to the session file.
  * Returns the new entry's id.
@@ -0,0 +1,109 @@
+/**
+ * Extension settings read from pi's `settings.json` files under the
+ * `subagentHerdr` key: the global `<agent dir>/settings.json`, then a trusted
+ * project's `.pi/settings.json`, which wins field by field. Files are re-read at
+ * every admission or launch that needs them, so edits apply without /reload. Invalid or missing values
+ * fall back silently to the layer below; settings never fail a launch.
+ */
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseBudgetDuration } from "./budget.ts";
+import { type AdmissionLimits, DEFAULT_ADMISSION_LIMITS } from "./coordinator.ts";
+import type { HookConfig } from "./hooks.ts";
+import { parseExactModelRef } from "./runtime-routing.ts";
+
+export const SETTINGS_KEY = "subagentHerdr";
+
+/** Upper bound for any slot count, so a typo cannot open hundreds of panes. */
+const MAX_ADMISSION_SLOTS = 32;
+
+function readSettingsBlock(path: string): Record<string, unknown> | undefined {
+	try {
+		const parsed = JSON.parse(readFileSync(path, "utf8"));
+		const block = parsed?.[SETTINGS_KEY];
+		return block && typeof block === "object" && !Array.isArray(block) ? block : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function slotCount(value: unknown): number | undefined {
+	return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_ADMISSION_SLOTS
+		? (value as number)
+		: undefined;
+}
+
+/** Agent caps may be 0 to keep an agent from running at all in this project. */
+function agentCap(value: unknown): number | undefined {
+	return value === 0 ? 0 : slotCount(value);
+}
+
+function applyAdmissionBlock(limits: AdmissionLimits, block: Record<string, unknown> | undefined): void {
+	const admission = block?.admission;
+	if (!admission || typeof admission !== "object" || Array.isArray(admission)) return;
+	const raw = admission as Record<string, unknown>;
+	for (const kind of ["foreground", "background"] as const) {
+		const value = slotCount(raw[kind]);
+		if (value !== undefined) limits[kind] = value;
+	}
+	if (!raw.agents || typeof raw.agents !== "object" || Array.isArray(raw.agents)) return;
+	for (const [agent, value] of Object.entries(raw.agents as Record<string, unknown>)) {
+		const cap = agentCap(value);
+		if (cap !== undefined) limits.agents[agent] = cap;
+	}
+}
+
+export function loadAdmissionLimits(options: {
+	cwd: string;
+	agentDir: string;
+	projectTrusted: boolean;
+}): AdmissionLimits {
+	const limits: AdmissionLimits = { ...DEFAULT_ADMISSION_LIMITS, agents: {} };
+	applyAdmissionBlock(limits, readSettingsBlock(join(options.agentDir, "settings.json")));
+	if (options.projectTrusted) {
+		applyAdmissionBlock(limits, readSettingsBlock(join(options.cwd, ".pi", "settings.json")));
+	}
+	return limits;
+}
+
+function seedSummaryModel(block: Record<string, unknown> | undefined): string | undefined {
+	const seedSummary = block?.seedSummary;
+	if (!seedSummary || typeof seedSummary !== "object" || Array.isArray(seedSummary)) return undefined;
+	const model = (seedSummary as Record<string, unknown>).model;
+	return typeof model === "string" && parseExactModelRef(model) ? model.trim() : undefined;
+}
+
+/** `subagentHerdr.seedSummary.model`: the model that writes `seed: summary` briefings when the agent names none. */
+export function loadSeedSummaryModel(options: {
+	cwd: string;
+	agentDir: string;
+	projectTrusted: boolean;
+}): string | undefined {
+	const project = options.projectTrusted
+		? seedSummaryModel(readSettingsBlock(join(options.cwd, ".pi", "settings.json")))
+		: undefined;
+	return project ?? seedSummaryModel(readSettingsBlock(join(options.agentDir, "settings.json")));
+}
+
+function applyHooksBlock(hooks: HookConfig, block: Record<string, unknown> | undefined): void {
+	const raw = block?.hooks;
+	if (!raw || typeof raw !== "object" || Array.isArray(raw)) return;
+	const { onComplete, onFail, attachOutput, timeout } = raw as Record<string, unknown>;
+	if (typeof onComplete === "string" && onComplete.trim()) hooks.onComplete = onComplete.trim();
+	if (typeof onFail === "string" && onFail.trim()) hooks.onFail = onFail.trim();
+	if (typeof attachOutput === "boolean") hooks.attachOutput = attachOutput;
+	const timeoutMs = parseBudgetDuration(timeout);
+	if (timeoutMs !== undefined) hooks.timeoutMs = timeoutMs;
+}
+
+/** `subagentHerdr.hooks`: `onComplete`, `onFail`, `attachOutput`, and `timeout` (`"90s"`, `"5m"`, or seconds). */
+export function loadHookSettings(options: {
+	cwd: string;
+	agentDir: string;
+	projectTrusted: boolean;
+}): HookConfig | undefined {
+	const hooks: HookConfig = {};
+	applyHooksBlock(hooks, readSettingsBlock(join(options.agentDir, "settings.json")));
+	if (options.projectTrusted) applyHooksBlock(hooks, readSettingsBlock(join(options.cwd, ".pi", "settings.json")));
+	return hooks.onComplete || hooks.onFail ? hooks : undefined;
+}
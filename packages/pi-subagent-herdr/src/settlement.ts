@@ -1,4 +1,11 @@
-export type SettlementSource = "sidecar" | "sentinel" | "pane-disappearance" | "abort" | "timeout";
+export type SettlementSource =
+	| "sidecar"
+	| "sentinel"
+	| "pane-disappearance"
+	| "abort"
+	| "timeout"
+	| "budget-exceeded"
+	| "stalled";
 
 export interface SettlementClaim {
 	runId: string;
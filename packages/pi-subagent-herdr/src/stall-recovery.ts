@@ -0,0 +1,286 @@
+/**
+ * What the parent does about a child that has made no progress for
+ * STALL_NO_PROGRESS_MS while its process runs: no turn change and no new
+ * activity event (steering the child has merely received does not count).
+ *
+ * Agents opt in with `stall-recovery:`. `wake` appends a message to the child's
+ * steering inbox; `interrupt` sends Escape and a "continue" prompt to its pane;
+ * `stop` skips straight to stopping. A nudge that has not brought the child back
+ * within STALL_NUDGE_INTERVAL_MS counts as unanswered, and after `stall-nudges`
+ * of them (default 2) the run is stopped: the pane screen is saved as the run's
+ * `stall-screen.txt` artifact and a `stalled` exit sidecar is written, which the
+ * watcher settles like any other completion. Every action is recorded in the
+ * run's lifecycle.
+ */
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { SubagentActivityState } from "./activity.ts";
+import type { SubagentLifecycle, TurnState } from "./lifecycle.ts";
+import { formatElapsedDuration, SNAPSHOT_STALLED_AFTER_MS } from "./status.ts";
+
+export type StallRecoveryAction = "wake" | "interrupt" | "stop";
+
+export const STALL_RECOVERY_ACTIONS: readonly StallRecoveryAction[] = ["wake", "interrupt", "stop"];
+
+export interface StallRecoveryPolicy {
+	action: StallRecoveryAction;
+	/** Unanswered nudges before the run is stopped; unused when `action` is `stop`. */
+	nudges: number;
+}
+
+/** One recovery action, as recorded in the run's lifecycle. */
+export interface StallRecoveryStep {
+	action: StallRecoveryAction;
+	at: number;
+	/** Set when the nudge could not be delivered; it still counts. */
+	error?: string;
+}
+
+/** The run's latest progress signal and when it last changed. */
+export interface RunProgress {
+	mark: string;
+	since: number;
+}
+
+/** The `stalled` exit sidecar's payload and the settled result's `stalled` field. */
+export interface StallSettlement {
+	stalledForMs: number;
+	nudges: number;
+	/** Artifact holding the pane screen at the time of the stop; absent when it could not be read. */
+	screen?: string;
+}
+
+export interface StallRecoveryDeps {
+	appendSteerMessage(sessionFile: string, text: string): void;
+	interruptPane(surface: string): void;
+	runInPane(surface: string, command: string): void;
+	readPaneAsync(surface: string, lines: number): Promise<string>;
+}
+
+export const DEFAULT_STALL_NUDGES = 2;
+export const MAX_STALL_NUDGES = 10;
+/** How long a running child may go without progress before the policy acts. */
+export const STALL_NO_PROGRESS_MS = 5 * 60_000;
+/** How long a nudge has to bring the child back before the next step. */
+export const STALL_NUDGE_INTERVAL_MS = SNAPSHOT_STALLED_AFTER_MS;
+export const STALL_SCREEN_ARTIFACT = "stall-screen.txt";
+const STALL_SCREEN_LINES = 200;
+const STALL_SCREEN_TIMEOUT_MS = 10_000;
+const STALL_CONTINUE_PROMPT = "continue";
+const STALL_WAKE_MESSAGE =
+	"You appear to be stalled: the parent has seen no progress from you for a while. Continue the task where you left off, or call subagent_done if you are finished.";
+
+/**
+ * A receipt bumps the activity sequence, so received steers are subtracted:
+ * a wake message the child took from its inbox is not an answer to it.
+ */
+function progressMark(turn: TurnState, activity: SubagentActivityState | undefined): string {
+	const events = activity ? activity.sequence - (activity.steerCount ?? 0) : "";
+	return `${turn.kind}:${turnSince(turn) ?? ""}:${events}`;
+}
+
+function turnSince(turn: TurnState): number | undefined {
+	if (turn.kind === "unknown") return undefined;
+	if (turn.kind === "starting") return turn.observedAt;
+	return turn.kind === "interrupted" ? turn.requestedAt : turn.startedAt;
+}
+
+/** Records when the run's progress signal last changed; the first observation starts the clock. */
+export function observeRunProgress(
+	lifecycle: SubagentLifecycle,
+	activity: SubagentActivityState | undefined,
+	now: number,
+): SubagentLifecycle {
+	const mark = progressMark(lifecycle.turn, activity);
+	if (lifecycle.progress?.mark === mark) return lifecycle;
+	return { ...lifecycle, progress: { mark, since: now } };
+}
+
+/** Start of the current no-progress stall, or undefined while the run is progressing, blocked on the user, or not running. */
+export function noProgressSince(lifecycle: SubagentLifecycle, now: number): number | undefined {
+	if (lifecycle.process.kind !== "running" || lifecycle.turn.kind === "blocked" || !lifecycle.progress)
+		return undefined;
+	return now - lifecycle.progress.since >= STALL_NO_PROGRESS_MS ? lifecycle.progress.since : undefined;
+}
+
+/** Steps of the stall that began at `stalledSince`; earlier stalls the child recovered from are not counted. */
+function stallEpisode(lifecycle: SubagentLifecycle, stalledSince: number): StallRecoveryStep[] {
+	return (lifecycle.stallRecovery ?? []).filter((step) => step.at >= stalledSince);
+}
+
+/** The action due now, or undefined while the last nudge is still being given time or the run is already stopping. */
+export function dueStallRecoveryAction(
+	policy: StallRecoveryPolicy,
+	lifecycle: SubagentLifecycle,
+	stalledSince: number,
+	now: number,
+): StallRecoveryAction | undefined {
+	const episode = stallEpisode(lifecycle, stalledSince);
+	if (episode.some((step) => step.action === "stop")) return undefined;
+	if (policy.action === "stop") return "stop";
+	const last = episode[episode.length - 1];
+	if (last && now - last.at < STALL_NUDGE_INTERVAL_MS) return undefined;
+	return episode.length >= policy.nudges ? "stop" : policy.action;
+}
+
+export function recordStallRecovery(lifecycle: SubagentLifecycle, step: StallRecoveryStep): SubagentLifecycle {
+	return { ...lifecycle, stallRecovery: [...(lifecycle.stallRecovery ?? []), step] };
+}
+
+interface StalledRun {
+	id: string;
+	surface: string;
+	startTime: number;
+	sessionFile: string;
+	artifactsDir?: string;
+	lifecycle: SubagentLifecycle;
+	activity?: SubagentActivityState;
+	stallRecovery?: StallRecoveryPolicy;
+}
+
+/**
+ * Note the run's progress, then take the policy's due action if it has stalled
+ * and record it. Nudges are sent synchronously; a stop captures the screen and
+ * writes the sidecar in the background. Returns the recorded step, or
+ * undefined when nothing was due.
+ */
+export function applyStallRecovery(
+	running: StalledRun,
+	now: number,
+	deps: StallRecoveryDeps,
+): StallRecoveryStep | undefined {
+	if (!running.stallRecovery) return undefined;
+	running.lifecycle = observeRunProgress(running.lifecycle, running.activity, now);
+	const stalledSince = noProgressSince(running.lifecycle, now);
+	if (stalledSince === undefined) return undefined;
+	const action = dueStallRecoveryAction(running.stallRecovery, running.lifecycle, stalledSince, now);
+	if (!action) return undefined;
+	const step: StallRecoveryStep = { action, at: now };
+	if (action === "stop") {
+		const nudges = stallEpisode(running.lifecycle, stalledSince).length;
+		void stopStalledRun(running, { stalledForMs: now - stalledSince, nudges }, deps);
+	} else {
+		try {
+			sendStallNudge(running, action, deps);
+		} catch (error) {
+			step.error = error instanceof Error ? error.message : String(error);
+		}
+	}
+	running.lifecycle = recordStallRecovery(running.lifecycle, step);
+	return step;
+}
+
+function sendStallNudge(running: StalledRun, action: Exclude<StallRecoveryAction, "stop">, deps: StallRecoveryDeps) {
+	if (action === "wake") {
+		deps.appendSteerMessage(running.sessionFile, STALL_WAKE_MESSAGE);
+		return;
+	}
+	deps.interruptPane(running.surface);
+	deps.runInPane(running.surface, STALL_CONTINUE_PROMPT);
+}
+
+async function stopStalledRun(
+	running: StalledRun,
+	settlement: StallSettlement,
+	deps: StallRecoveryDeps,
+): Promise<void> {
+	const screen = await captureStallScreen(running, deps);
+	writeStallSidecar(running.sessionFile, running.id, screen ? { ...settlement, screen } : settlement);
+}
+
+/** Saves the pane screen as an artifact; undefined when the pane cannot be read in time. */
+async function captureStallScreen(running: StalledRun, deps: StallRecoveryDeps): Promise<string | undefined> {
+	if (!running.artifactsDir) return undefined;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<undefined>((resolve) => {
+		timer = setTimeout(() => resolve(undefined), STALL_SCREEN_TIMEOUT_MS);
+	});
+	try {
+		const screen = await Promise.race([deps.readPaneAsync(running.surface, STALL_SCREEN_LINES), timeout]);
+		if (!screen?.trim()) return undefined;
+		mkdirSync(running.artifactsDir, { recursive: true, mode: 0o700 });
+		writeFileSync(
+			join(running.artifactsDir, STALL_SCREEN_ARTIFACT),
+			screen.endsWith("\n") ? screen : `${screen}\n`,
+		);
+		return STALL_SCREEN_ARTIFACT;
+	} catch {
+		return undefined;
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/** Never overwrites a sidecar the child wrote first: its own completion wins. */
+function writeStallSidecar(sessionFile: string, runId: string, stalled: StallSettlement): void {
+	try {
+		writeFileSync(`${sessionFile}.exit`, JSON.stringify({ type: "stalled", runId, stalled }), {
+			encoding: "utf8",
+			mode: 0o600,
+			flag: "wx",
+		});
+	} catch {}
+}
+
+export function parseStallSettlement(value: unknown): StallSettlement | undefined {
+	const stalled = value as Partial<StallSettlement> | undefined;
+	if (typeof stalled?.stalledForMs !== "number" || typeof stalled.nudges !== "number") return undefined;
+	return {
+		stalledForMs: Math.max(0, stalled.stalledForMs),
+		nudges: Math.max(0, Math.floor(stalled.nudges)),
+		...(typeof stalled.screen === "string" ? { screen: stalled.screen } : {}),
+	};
+}
+
+function formatNudgeCount(nudges: number): string {
+	return `${nudges} unanswered nudge${nudges === 1 ? "" : "s"}`;
+}
+
+/** `stalled for 3m; stopped after 2 unanswered nudges` */
+export function formatStallSettlement(stalled: StallSettlement): string {
+	const after = stalled.nudges > 0 ? ` after ${formatNudgeCount(stalled.nudges)}` : "";
+	return `stalled for ${formatElapsedDuration(stalled.stalledForMs)}; stopped${after}`;
+}
+
+/** Status line for a recorded step, in the shape of the lifecycle's stalled/recovered lines. */
+export function formatStallRecoveryLine(name: string, running: StalledRun, step: StallRecoveryStep): string {
+	const stalledSince = running.lifecycle.progress?.since ?? step.at;
+	const nudges = stallEpisode(running.lifecycle, stalledSince).filter((entry) => entry.action !== "stop").length;
+	const lead = `${name} running ${formatElapsedDuration(step.at - running.startTime)}, no progress for ${formatElapsedDuration(step.at - stalledSince)}`;
+	if (step.action === "stop") return `${lead}; stopping it${nudges > 0 ? ` after ${formatNudgeCount(nudges)}` : ""}.`;
+	const what = step.action === "wake" ? "a wake message" : 'Escape and "continue"';
+	const count = `nudge ${nudges} of ${running.stallRecovery?.nudges ?? nudges}`;
+	return step.error
+		? `${lead}; could not send ${what} (${count}): ${step.error}.`
+		: `${lead}; sent ${what} (${count}).`;
+}
+
+/** Widget note for a stalled run: `wake 1/2`, `interrupt 2/2`, or `stopping`; undefined before the first step. */
+export function formatStallRecoveryNote(running: StalledRun, now: number): string | undefined {
+	if (!running.stallRecovery) return undefined;
+	const stalledSince = noProgressSince(running.lifecycle, now);
+	if (stalledSince === undefined) return undefined;
+	const episode = stallEpisode(running.lifecycle, stalledSince);
+	const last = episode[episode.length - 1];
+	if (!last) return undefined;
+	if (last.action === "stop") return "stopping";
+	return `${last.action} ${episode.length}/${running.stallRecovery.nudges}`;
+}
+
+/** `stall-recovery:` and `stall-nudges:` frontmatter; throws a message the agent parser prefixes. */
+export function parseStallRecoveryPolicy(
+	action: string | undefined,
+	nudges: string | undefined,
+): StallRecoveryPolicy | undefined {
+	if (action !== undefined && action !== "none" && !STALL_RECOVERY_ACTIONS.includes(action as StallRecoveryAction)) {
+		throw new Error("stall-recovery must be none, wake, interrupt, or stop.");
+	}
+	if (nudges !== undefined && (!/^\d+$/.test(nudges) || Number(nudges) > MAX_STALL_NUDGES)) {
+		throw new Error(`stall-nudges must be an integer from 0 to ${MAX_STALL_NUDGES}.`);
+	}
+	if (action === undefined || action === "none") return undefined;
+	return {
+		action: action as StallRecoveryAction,
+		nudges: nudges === undefined ? DEFAULT_STALL_NUDGES : Number(nudges),
+	};
+}
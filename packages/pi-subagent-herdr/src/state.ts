@@ -14,7 +14,16 @@ export const runtime =
 		queuedSubagents: new Map<string, any>(),
 		pendingDeliveries: new Map<string, any>(),
 		stickyTerminalRuns: new Map<string, any>(),
+		subagentBatches: new Map<string, any>(),
+		settledRuns: new Map<string, any>(),
+		settlementWaiters: new Map<string, any>(),
 		deliveredRunIds: new Set<string>(),
+		headlessPanes: new Map<string, any>(),
+		runWorktrees: new Map<string, any>(),
+		subagentUsageBySession: new Map<string, any>(),
+		runHistory: new Map<string, any>(),
+		ledgerFiles: new Map<string, string>(),
+		recoveredLedgers: new Set<string>(),
 		parentActivity: { streaming: false, turnStartedAtMs: 0 },
 	});
 
@@ -24,14 +33,43 @@ runtime.runningSubagents ??= new Map<string, any>();
 runtime.queuedSubagents ??= new Map<string, any>();
 runtime.pendingDeliveries ??= new Map<string, any>();
 runtime.stickyTerminalRuns ??= new Map<string, any>();
+runtime.subagentBatches ??= new Map<string, any>();
+runtime.settledRuns ??= new Map<string, any>();
+runtime.settlementWaiters ??= new Map<string, any>();
 runtime.deliveredRunIds ??= new Set<string>();
+runtime.headlessPanes ??= new Map<string, any>();
+runtime.runWorktrees ??= new Map<string, any>();
+runtime.subagentUsageBySession ??= new Map<string, any>();
+runtime.runHistory ??= new Map<string, any>();
+runtime.ledgerFiles ??= new Map<string, string>();
+runtime.recoveredLedgers ??= new Set<string>();
 runtime.parentActivity ??= { streaming: false, turnStartedAtMs: 0 };
 
 export const runningSubagents = runtime.runningSubagents as Map<string, any>;
 export const queuedSubagents = runtime.queuedSubagents as Map<string, any>;
 export const pendingDeliveries = runtime.pendingDeliveries as Map<string, any>;
 export const stickyTerminalRuns = runtime.stickyTerminalRuns as Map<string, any>;
+export const subagentBatches = runtime.subagentBatches as Map<string, any>;
+/** Recent terminal outcomes by run ID, consulted by `dependsOn` launches. */
+export const settledRuns = runtime.settledRuns as Map<string, any>;
+/** Continuations waiting on a run ID; shared so a reloaded module wakes old closures. */
+export const settlementWaiters = runtime.settlementWaiters as Map<string, Set<(settlement: any) => void>>;
 export const deliveredRunIds = runtime.deliveredRunIds as Set<string>;
+/** Headless backend panes; they own live child processes so must survive /reload. */
+export const headlessPanes = runtime.headlessPanes as Map<string, any>;
+/** Isolated run worktrees awaiting `/subagent-worktree merge|discard`, by run ID. */
+export const runWorktrees = runtime.runWorktrees as Map<string, any>;
+/** Latest cumulative usage per run, grouped by parent session, for `cost:external`. */
+export const subagentUsageBySession = runtime.subagentUsageBySession as Map<
+	string,
+	{ runs: Map<string, any>; lastEmitted?: string }
+>;
+/** Settled runs by run ID in settlement order, listed by `/subagents`. */
+export const runHistory = runtime.runHistory as Map<string, any>;
+/** Run ledger file per run ID, so every lifecycle event lands next to the parent session. */
+export const ledgerFiles = runtime.ledgerFiles as Map<string, string>;
+/** Ledgers already reconciled by this process; /reload must not re-attach runs twice. */
+export const recoveredLedgers = runtime.recoveredLedgers as Set<string>;
 
 /** In-flight acknowledgement promises are intentionally not reload-persistent. */
 export const inflightDelivery = new Map<string, Promise<void>>();
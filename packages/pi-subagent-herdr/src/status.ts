@@ -488,6 +488,17 @@ export function formatTransitionLine(
 	return formatStatusLine(boundedName, snapshot);
 }
 
+/** `auth running 4m, progress 40%: Parsed 12 of 30 modules` */
+export function formatProgressStatusLine(
+	name: string,
+	note: string,
+	percent: number | undefined,
+	runtimeMs: number,
+): string {
+	const amount = percent === undefined ? "" : ` ${Math.round(percent)}%`;
+	return boundStatusLine(`${name} running ${formatElapsedDuration(runtimeMs)}, progress${amount}: ${note}`);
+}
+
 export function capStatusLines(lines: string[], lineLimit: number): CappedStatusLines {
 	const visibleLines = lines.slice(0, lineLimit);
 	return {
@@ -0,0 +1,87 @@
+/**
+ * Parent-to-child steering through a file inbox.
+ *
+ * The parent appends instructions to `<child session file>.inbox` (JSONL); the
+ * child extension polls it and injects each new line as a steering user
+ * message, so it works with every terminal backend, including headless. The
+ * child's activity file counts steers received, which doubles as the read
+ * offset across a child /reload. Imports nothing local: subagent-done.ts loads
+ * it into every child.
+ */
+import { appendFileSync, readFileSync } from "node:fs";
+
+export interface SteerMessage {
+	text: string;
+	sentAt: number;
+}
+
+export const STEER_POLL_INTERVAL_MS = 1000;
+
+export function steeringInboxFile(sessionFile: string): string {
+	return `${sessionFile}.inbox`;
+}
+
+export function appendSteerMessage(sessionFile: string, text: string, sentAt = Date.now()): void {
+	const message: SteerMessage = { text, sentAt };
+	appendFileSync(steeringInboxFile(sessionFile), `${JSON.stringify(message)}\n`, { mode: 0o600 });
+}
+
+/** Complete inbox lines after the first `consumed`; a line still being written is left for the next poll. */
+export function readSteerMessages(sessionFile: string, consumed: number): SteerMessage[] {
+	let raw: string;
+	try {
+		raw = readFileSync(steeringInboxFile(sessionFile), "utf8");
+	} catch {
+		return [];
+	}
+	const lines = raw.split("\n").slice(0, -1);
+	return lines.slice(consumed).map((line) => {
+		try {
+			const parsed = JSON.parse(line) as Partial<SteerMessage>;
+			return { text: typeof parsed.text === "string" ? parsed.text : "", sentAt: Number(parsed.sentAt) || 0 };
+		} catch {
+			return { text: "", sentAt: 0 };
+		}
+	});
+}
+
+export function formatSteerMessage(text: string): string {
+	return `[pi-subagent-herdr] Message from the parent orchestrator:\n\n${text}`;
+}
+
+/**
+ * Child-side poller. `deliver` runs once per inbox line, in order, starting
+ * after the `consumed` lines already handled; an unreadable line arrives with
+ * empty text so the caller's count stays aligned with the file.
+ */
+export function createSteeringInbox(params: {
+	sessionFile: string;
+	consumed: number;
+	deliver: (message: SteerMessage) => void;
+	intervalMs?: number;
+}) {
+	let consumed = params.consumed;
+	let timer: ReturnType<typeof setInterval> | undefined;
+
+	function poll(): number {
+		const messages = readSteerMessages(params.sessionFile, consumed);
+		for (const message of messages) {
+			consumed += 1;
+			params.deliver(message);
+		}
+		return messages.length;
+	}
+
+	return {
+		poll,
+		start(): void {
+			if (timer) return;
+			timer = setInterval(poll, params.intervalMs ?? STEER_POLL_INTERVAL_MS);
+			(timer as unknown as { unref?: () => void }).unref?.();
+		},
+		stop(): void {
+			if (timer) clearInterval(timer);
+			timer = undefined;
+		},
+	};
+}
@@ -2,13 +2,21 @@
  * Extension loaded into sub-agents.
  * - Shows agent identity + available tools as a styled widget above the editor (toggle with Ctrl+J)
  * - Provides a `subagent_done` tool for autonomous agents to self-terminate
+ * - Provides a `subagent_progress` tool that publishes milestone notes to the parent via the activity file
+ * - Provides a `subagent_attach` tool that copies files into the run's artifact directory for the parent
+ * - Injects parent `subagent_message` instructions from the run's inbox as steering messages
  */
 
 import { chmodSync, mkdirSync, renameSync, writeFileSync } from "node:fs";
 import type { ExtensionAPI, ExtensionContext } from "@earendil-works/pi-coding-agent";
 import { Box, Text } from "@earendil-works/pi-tui";
 import { Type } from "@sinclair/typebox";
-import { createSubagentActivityRecorder } from "./activity.ts";
+import { createSubagentActivityRecorder, MAX_ACTIVITY_STRING_LENGTH } from "./activity.ts";
+import { attachRunArtifact, formatArtifactSize } from "./artifacts.ts";
+import { type BudgetBreach, budgetWrapUpMessage, createBudgetGuard, parseBudgetEnvironment } from "./budget.ts";
+import { parseResultSchema, type ResultSchema, validateResultPayload } from "./result-schema.ts";
+import { createSteeringInbox, formatSteerMessage, type SteerMessage } from "./steering.ts";
+import type { ProviderUsage, SubagentUsage } from "./usage.ts";
 
 export function shouldMarkUserTookOver(agentStarted: boolean): boolean {
 	return agentStarted;
@@ -76,12 +84,91 @@ export function findLatestAssistantError(messages: any[] | undefined): SubagentE
 
 export function buildCompletionSidecar(
 	messages: any[] | undefined,
-): { type: "done"; runId?: string } | { type: "error"; errorMessage: string; stopReason: "error"; runId?: string } {
+	result?: unknown,
+	usage?: SubagentUsage,
+):
+	| { type: "done"; runId?: string; result?: unknown; usage?: SubagentUsage }
+	| { type: "error"; errorMessage: string; stopReason: "error"; runId?: string; usage?: SubagentUsage } {
 	const errorInfo = findLatestAssistantError(messages);
 	const runId = process.env.PI_SUBAGENT_ID;
+	const usageField = usage ? { usage } : {};
 	return errorInfo
-		? { type: "error", ...errorInfo, ...(runId ? { runId } : {}) }
-		: { type: "done", ...(runId ? { runId } : {}) };
+		? { type: "error", ...errorInfo, ...(runId ? { runId } : {}), ...usageField }
+		: { type: "done", ...(runId ? { runId } : {}), ...(result !== undefined ? { result } : {}), ...usageField };
+}
+
+/** Terminal sidecar for a run stopped at a hard budget limit; distinct from provider errors. */
+export function buildBudgetExceededSidecar(
+	breach: BudgetBreach,
+	usage?: SubagentUsage,
+): { type: "budget-exceeded"; budget: BudgetBreach; runId?: string; usage?: SubagentUsage } {
+	const runId = process.env.PI_SUBAGENT_ID;
+	return { type: "budget-exceeded", budget: breach, ...(runId ? { runId } : {}), ...(usage ? { usage } : {}) };
+}
+
+/** Provider usage of a finished assistant message, keyed `provider/model`; null for other messages. */
+export function assistantMessageUsage(message: any): { model: string; usage: ProviderUsage } | null {
+	if (message?.role !== "assistant" || !message.usage || typeof message.model !== "string") return null;
+	const model = typeof message.provider === "string" ? `${message.provider}/${message.model}` : message.model;
+	return { model, usage: message.usage };
+}
+
+/** One line the activity file accepts: whitespace collapsed, truncated to its string limit. */
+export function normalizeProgressNote(note: string): string {
+	const collapsed = note.replace(/\s+/g, " ").trim();
+	if (collapsed.length <= MAX_ACTIVITY_STRING_LENGTH) return collapsed;
+	return `${collapsed.slice(0, MAX_ACTIVITY_STRING_LENGTH - 1)}…`;
+}
+
+export const SubagentProgressParams = Type.Object({
+	note: Type.String({ description: 'Short milestone note, e.g. "Parsed 12 of 30 modules".' }),
+	percent: Type.Optional(Type.Number({ minimum: 0, maximum: 100, description: "Estimated percent complete." })),
+	notify: Type.Optional(
+		Type.Boolean({
+			description:
+				"Also send this note to the parent as a status line. Reserve for milestones the caller should act on.",
+		}),
+	),
+});
+
+export const SubagentAttachParams = Type.Object({
+	path: Type.String({ description: "File to attach, absolute or relative to your working directory." }),
+	name: Type.Optional(
+		Type.String({
+			description:
+				'Name the parent sees, e.g. "fix.patch"; defaults to the file name. Re-using a name replaces it.',
+		}),
+	),
+});
+
+export function parseResultSchemaEnvironment(raw: string | undefined): ResultSchema | undefined {
+	return raw ? parseResultSchema(raw) : undefined;
+}
+
+/** `subagent_done` advertises the declared schema as its required `result` parameter. */
+export function buildSubagentDoneParameters(schema: ResultSchema | undefined) {
+	if (!schema) return Type.Object({});
+	return Type.Object({
+		result: Type.Unsafe<unknown>({
+			...schema,
+			description:
+				typeof schema.description === "string"
+					? schema.description
+					: "Structured result for the caller; must match this agent's result schema.",
+		}),
+	});
+}
+
+/** Throws a model-facing validation error so the child can correct and call again. */
+export function assertStructuredResult(schema: ResultSchema | undefined, params: unknown): unknown {
+	if (!schema) return undefined;
+	const result = (params as { result?: unknown } | undefined)?.result;
+	if (result === undefined) throw new Error("subagent_done requires a `result` matching this agent's result schema.");
+	const violations = validateResultPayload(schema, result);
+	if (violations.length > 0) {
+		throw new Error(`subagent_done result does not match the result schema:\n- ${violations.join("\n- ")}`);
+	}
+	return result;
 }
 
 function writeCompletionSidecar(sessionFile: string, payload: object): void {
@@ -228,11 +315,57 @@ export default function (pi: ExtensionAPI) {
 	const autoExit = process.env.PI_SUBAGENT_AUTO_EXIT === "1";
 	const selectedSkills = parseSelectedSkillMetadata(process.env.PI_SUBAGENT_SELECTED_SKILLS);
 	assertSelectedSkillCompanionOrdering(selectedSkills.length, process.env.PI_SUBAGENT_COMPANION_ORDER);
+	const resultSchema = parseResultSchemaEnvironment(process.env.PI_SUBAGENT_RESULT_SCHEMA);
+	let structuredResult: unknown;
 	const recorder = createSubagentActivityRecorder({
 		runningChildId: process.env.PI_SUBAGENT_ID,
 		activityFile: process.env.PI_SUBAGENT_ACTIVITY_FILE,
 	});
 
+	const budget = parseBudgetEnvironment(process.env.PI_SUBAGENT_BUDGET);
+	let budgetCtx: Pick<ExtensionContext, "abort" | "shutdown"> | undefined;
+	let budgetExceeded = false;
+	const budgetGuard = budget
+		? createBudgetGuard({
+				budget,
+				readUsage: () => recorder.usageTotals(),
+				onSoft: (breach) => pi.sendUserMessage(budgetWrapUpMessage(breach, budget), { deliverAs: "steer" }),
+				onHard: stopForBudget,
+				turns: recorder.turnsCompleted(),
+				startedAt: recorder.runStartedAt(),
+			})
+		: undefined;
+
+	function stopForBudget(breach: BudgetBreach): void {
+		budgetExceeded = true;
+		inbox?.stop();
+		const sessionFile = process.env.PI_SUBAGENT_SESSION;
+		if (sessionFile) {
+			try {
+				writeCompletionSidecar(sessionFile, buildBudgetExceededSidecar(breach, recorder.usageTotals()));
+			} catch {
+				// Best effort — the parent's watch budget still bounds the run.
+			}
+		}
+		recorder.sessionShutdown("quit");
+		budgetCtx?.abort();
+		budgetCtx?.shutdown();
+	}
+
+	const inboxSessionFile = process.env.PI_SUBAGENT_SESSION;
+	const inbox = inboxSessionFile
+		? createSteeringInbox({
+				sessionFile: inboxSessionFile,
+				consumed: recorder.steersReceived(),
+				deliver: receiveSteer,
+			})
+		: undefined;
+
+	function receiveSteer(message: SteerMessage): void {
+		recorder.steerReceived();
+		if (message.text) pi.sendUserMessage(formatSteerMessage(message.text), { deliverAs: "steer" });
+	}
+
 	function sampleContextUsage(ctx: Pick<ExtensionContext, "getContextUsage">): void {
 		const usage = ctx.getContextUsage();
 		if (!usage) return;
@@ -254,6 +387,8 @@ export default function (pi: ExtensionAPI) {
 	// Show widget + status bar on session start
 	pi.on("session_start", (_event, ctx) => {
 		recorder.sessionStart();
+		budgetCtx = ctx;
+		inbox?.start();
 		const tools = pi.getAllTools();
 		toolNames = tools.map((t) => t.name).sort();
 		denied = parseDeniedTools(deniedToolsValue);
@@ -328,6 +463,8 @@ export default function (pi: ExtensionAPI) {
 	}
 
 	function publishSettledSidecar(messages: any[] | undefined, shouldExit: boolean, interrupted: boolean): void {
+		// A budget stop already wrote the terminal sidecar; the aborted turn must not replace it.
+		if (budgetExceeded) return;
 		const sessionFile = sidecarSessionFile(messages, shouldExit, interrupted);
 		if (!sessionFile) return;
 		writeCompletionSidecarBestEffort(sessionFile, messages);
@@ -346,7 +483,10 @@ export default function (pi: ExtensionAPI) {
 
 	function writeCompletionSidecarBestEffort(sessionFile: string, messages: any[] | undefined): void {
 		try {
-			writeCompletionSidecar(sessionFile, buildCompletionSidecar(messages));
+			writeCompletionSidecar(
+				sessionFile,
+				buildCompletionSidecar(messages, structuredResult, recorder.usageTotals()),
+			);
 		} catch {
 			// Best effort — the watcher can still detect the terminal sentinel after shutdown.
 		}
@@ -361,6 +501,7 @@ export default function (pi: ExtensionAPI) {
 	pi.on("turn_end", (event, ctx) => {
 		recorder.turnEnd((event as any).turnIndex);
 		sampleContextUsage(ctx);
+		budgetGuard?.turnEnded();
 	});
 
 	pi.on("before_provider_request", () => {
@@ -372,6 +513,12 @@ export default function (pi: ExtensionAPI) {
 		sampleContextUsage(ctx);
 	});
 
+	pi.on("message_end", (event) => {
+		const usage = assistantMessageUsage((event as any).message);
+		if (usage) recorder.providerUsage(usage.model, usage.usage);
+		budgetGuard?.check();
+	});
+
 	pi.on("message_update", (event) => {
 		recorder.messageUpdate((event as any).assistantMessageEvent?.type);
 	});
@@ -402,6 +549,8 @@ export default function (pi: ExtensionAPI) {
 	});
 
 	pi.on("session_shutdown", (event) => {
+		budgetGuard?.stop();
+		inbox?.stop();
 		recorder.sessionShutdown((event as any).reason);
 	});
 
@@ -414,19 +563,64 @@ export default function (pi: ExtensionAPI) {
 		},
 	});
 
+	pi.registerTool({
+		name: "subagent_progress",
+		label: "Subagent Progress",
+		description:
+			"Publish a short progress note (and optionally percent complete) to the parent that launched you. " +
+			"The latest note is shown next to this run in the parent's widget. Use it at real milestones, not every step; " +
+			"it does not end your task.",
+		parameters: SubagentProgressParams,
+		async execute(_toolCallId, params) {
+			const note = normalizeProgressNote(params.note);
+			if (!note) throw new Error("subagent_progress requires a non-empty note.");
+			recorder.progress(note, params.percent, params.notify);
+			return {
+				content: [{ type: "text", text: "Progress recorded." }],
+				details: { note, ...(params.percent !== undefined ? { percent: params.percent } : {}) },
+			};
+		},
+	});
+
+	pi.registerTool({
+		name: "subagent_attach",
+		label: "Subagent Attach",
+		description:
+			"Attach a file you produced (a patch, report, or log) to your result for the parent that launched you. " +
+			"The file is copied as it is now; attach it again after changing it. " +
+			"The parent sees each attachment's name and size and can read it; mention what each one is in your final message.",
+		parameters: SubagentAttachParams,
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			const artifactsDir = process.env.PI_SUBAGENT_ARTIFACTS_DIR;
+			if (!artifactsDir) throw new Error("subagent_attach is unavailable: this run has no artifact directory.");
+			const artifact = attachRunArtifact({ artifactsDir, source: params.path, name: params.name, cwd: ctx.cwd });
+			return {
+				content: [{ type: "text", text: `Attached ${artifact.name} (${formatArtifactSize(artifact.size)}).` }],
+				details: { name: artifact.name, size: artifact.size },
+			};
+		},
+	});
+
 	pi.registerTool({
 		name: "subagent_done",
 		label: "Subagent Done",
 		description:
 			"Call this tool when you have completed your task. " +
 			"It will close this session and return your results to the main session. " +
-			"Your LAST assistant message before calling this becomes the summary returned to the caller.",
-		parameters: Type.Object({}),
-		async execute(_toolCallId, _params, _signal, _onUpdate, ctx) {
+			"Your LAST assistant message before calling this becomes the summary returned to the caller." +
+			(resultSchema ? " Pass your structured findings as `result`; it must match the declared schema." : ""),
+		parameters: buildSubagentDoneParameters(resultSchema),
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			structuredResult = assertStructuredResult(resultSchema, params);
+			budgetGuard?.stop();
+			inbox?.stop();
 			const sessionFile = process.env.PI_SUBAGENT_SESSION;
 			recorder.subagentDone();
 			if (sessionFile) {
-				writeCompletionSidecar(sessionFile, { type: "done", runId: process.env.PI_SUBAGENT_ID });
+				writeCompletionSidecar(
+					sessionFile,
+					buildCompletionSidecar(undefined, structuredResult, recorder.usageTotals()),
+				);
 			}
 			ctx.shutdown();
 			return {
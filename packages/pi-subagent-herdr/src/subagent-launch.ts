@@ -1,11 +1,15 @@
 import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
 import { dirname, join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
-import type { AgentDefinition } from "./agent-definition.ts";
+import type { AgentDefinition, SeedMode } from "./agent-definition.ts";
+import { getRunArtifactsDir, listRunArtifacts, type SubagentArtifact } from "./artifacts.ts";
+import { batchResultMessage, recordBatchMemberOutcome } from "./batch.ts";
+import { formatBudgetBreach, mergeRunBudgets, parseCallBudget, type RunBudget } from "./budget.ts";
 import type { CompletionResult } from "./completion.ts";
 import { waitForCompletion } from "./completion.ts";
 import type { AdmissionLease } from "./coordinator.ts";
 import { getAdmissionCoordinator } from "./coordinator.ts";
+import { recordSubagentUsage } from "./cost.ts";
 import {
 	deliverBackgroundMessage,
 	isSessionRuntimeUnavailable,
@@ -13,9 +17,13 @@ import {
 	startDeliveryRetry,
 } from "./delivery.ts";
 import { getForegroundDeliveryBarrier } from "./delivery-barrier.ts";
-import { inspectHerdrPane } from "./herdr.ts";
-import { beginLaunchTransaction, finishLaunchTransaction } from "./launch-transaction.ts";
+import { recordRunSettlement, runSettlementFromResult } from "./dependencies.ts";
+import { headlessPanePid } from "./headless.ts";
+import { recordRunHistory, recordUnlaunchedRunHistory } from "./history.ts";
+import { buildRunHookPayload, formatHookStatusLine, resolveRunHooks, runSettlementHooks } from "./hooks.ts";
+import { beginLaunchTransaction, finishLaunchTransaction, LaunchTransaction } from "./launch-transaction.ts";
 import { attachPaneSerialized, removePaneFromRegion, tryRederiveRegionFromLayout } from "./layout.ts";
+import { recordLedgerEvent } from "./ledger.ts";
 import {
 	markCompleted,
 	markCompletionDetected,
@@ -25,6 +33,7 @@ import {
 	projectLifecycle,
 } from "./lifecycle.ts";
 import type { ResolvedRuntimePlan } from "./runtime-routing.ts";
+import type { SeedBriefing } from "./seed-summary.ts";
 import {
 	findLastAssistantMessage,
 	findObservedSessionRuntime,
@@ -32,17 +41,33 @@ import {
 	seedSubagentSessionFile,
 } from "./session.ts";
 import { getSessionLeaseRegistry } from "./session-leases.ts";
+import { loadHookSettings } from "./settings.ts";
 import { getSettlementRegistry, type SettlementSource } from "./settlement.ts";
 import type { SelectedSkill } from "./skills.ts";
 import { runningSubagents, stickyTerminalRuns } from "./state.ts";
-import { inspectHerdrPaneSync, inspectPane, readPaneAsync, safeCloseSubagentPane, shellQuote } from "./terminal.ts";
+import { normalizeStatusName } from "./status.ts";
+import {
+	createSubagentPane,
+	currentParentPaneId,
+	inspectPane,
+	inspectPaneSync,
+	readPaneAsync,
+	safeCloseSubagentPane,
+	shellQuote,
+	terminalParentPaneEnv,
+} from "./terminal.ts";
 import type {
+	ModelFallback,
 	RunningSubagent,
+	RunWorktree,
 	StableParentContext,
 	StickyTerminalKind,
 	StickyTerminalRun,
+	SubagentBatch,
 	SubagentResult,
 } from "./types.ts";
+import type { SubagentUsage } from "./usage.ts";
+import { createRunWorktree, planRunWorktree, removeRunWorktree, reportRunWorktree } from "./worktree.ts";
 
 const SUBAGENTS_DIR = dirname(fileURLToPath(import.meta.url));
 const ERROR_PANE_MONITOR_INTERVAL_MS = 2000;
@@ -53,7 +78,7 @@ type LaunchDeps = {
 	resolveSurface: (params: any) => any;
 	resolveDirection: (params: any) => any;
 	resolveLaunchBehavior: (definition: AgentDefinition) => {
-		seed: "fresh" | "fork";
+		seed: SeedMode;
 		inheritsConversationContext: boolean;
 		taskDelivery: "direct" | "artifact";
 	};
@@ -79,6 +104,8 @@ type LaunchDeps = {
 	startStatusRefresh: () => void;
 	resolveResultPresentation: (result: SubagentResult, name: string, runId?: string) => string;
 	shouldDeliverSubagentCompletion: (running: RunningSubagent) => boolean;
+	/** Posts parent status lines, e.g. background hook failures; dropped when absent. */
+	reportStatusLines?: (lines: string[]) => void;
 };
 
 type LaunchOptions = {
@@ -90,6 +117,9 @@ type LaunchOptions = {
 	admissionLease?: AdmissionLease;
 	projectTrusted?: boolean;
 	surface?: string;
+	batchId?: string;
+	/** Generated at tool-call time for `seed: summary` agents. */
+	seedBriefing?: SeedBriefing;
 };
 
 type LaunchState = {
@@ -108,7 +138,24 @@ type LaunchState = {
 	rollbackPaths: string[];
 	surface?: string;
 	layoutWarning?: string;
+	worktree?: RunWorktree;
+	budget?: RunBudget;
 	sessionLease?: any;
+	/** Set by `previewLaunch`: launch artifacts are collected here instead of written. */
+	previewArtifacts?: LaunchArtifact[];
+};
+
+export type LaunchArtifact = { path: string; content: string };
+
+/** What a launch would run, built by the launch code itself with nothing created. */
+export type LaunchPreview = {
+	runId: string;
+	cwd: string;
+	/** The worktree an `isolation: worktree` launch would create; `cwd` is already inside it. */
+	worktree?: Pick<RunWorktree, "path" | "branch">;
+	environment: string[];
+	command: string;
+	artifacts: LaunchArtifact[];
 };
 
 type PreparedLaunch = {
@@ -133,7 +180,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 	}
 
 	function safeCloseAndReap(running: RunningSubagent): void {
-		const parentPaneId = process.env.HERDR_PANE_ID;
+		const parentPaneId = currentParentPaneId();
 		try {
 			safeCloseSubagentPane(running.surface);
 		} catch {}
@@ -144,7 +191,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 	}
 
 	function startErrorPaneMonitor(running: RunningSubagent): void {
-		const parentPaneId = process.env.HERDR_PANE_ID;
+		const parentPaneId = currentParentPaneId();
 		if (running.errorPaneMonitorStarted) return;
 		running.errorPaneMonitorStarted = true;
 		const surface = running.surface;
@@ -152,7 +199,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		const timer = setInterval(() => {
 			if (probeInFlight) return;
 			probeInFlight = true;
-			void inspectHerdrPane(surface)
+			void inspectPane(surface)
 				.then((inspection) => inspection.kind === "missing")
 				.catch(() => false)
 				.then((gone) => {
@@ -172,7 +219,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 
 	function preserveErrorPane(running: RunningSubagent): boolean {
 		try {
-			if (inspectHerdrPaneSync(running.surface).kind === "missing") return false;
+			if (inspectPaneSync(running.surface).kind === "missing") return false;
 		} catch {
 			// An unavailable probe is never evidence that a pane vanished.
 		}
@@ -180,8 +227,12 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		return true;
 	}
 
-	function fallbackSummary(result: Pick<CompletionResult, "reason" | "exitCode" | "errorMessage">): string {
+	function fallbackSummary(
+		result: Pick<CompletionResult, "reason" | "exitCode" | "errorMessage" | "budgetExceeded">,
+	): string {
 		if (result.reason === "timeout") return "Sub-agent had produced no output when watching stopped.";
+		if (result.budgetExceeded) return `Sub-agent stopped at ${formatBudgetBreach(result.budgetExceeded)}.`;
+		if (result.reason === "stalled") return "Sub-agent stalled without output.";
 		if (result.errorMessage) return `Subagent error: ${result.errorMessage}`;
 		if (result.exitCode !== 0) return `Sub-agent exited with code ${result.exitCode}`;
 		return "Sub-agent exited without output";
@@ -208,7 +259,10 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 
 	function classifyStickyTerminal(
 		running: RunningSubagent,
-		result: Pick<SubagentResult, "exitCode" | "error" | "errorMessage" | "watchAbandoned" | "alreadySettled">,
+		result: Pick<
+			SubagentResult,
+			"exitCode" | "error" | "errorMessage" | "watchAbandoned" | "alreadySettled" | "budgetExceeded"
+		>,
 	): StickyTerminalKind | undefined {
 		if (stickyTerminalExcluded(running, result)) return undefined;
 		return stickyTerminalKind(running, result);
@@ -223,9 +277,10 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 
 	function stickyTerminalKind(
 		running: RunningSubagent,
-		result: Pick<SubagentResult, "exitCode" | "error" | "errorMessage" | "watchAbandoned">,
+		result: Pick<SubagentResult, "exitCode" | "error" | "errorMessage" | "watchAbandoned" | "budgetExceeded">,
 	): StickyTerminalKind | undefined {
 		if (result.watchAbandoned) return "watch-abandoned";
+		if (result.budgetExceeded) return "budget-exceeded";
 		if (running.lifecycle.turn.kind === "interrupted") return "stopped";
 		return terminalFailure(result) ? "failed" : undefined;
 	}
@@ -236,7 +291,10 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 
 	function captureStickyTerminalRun(
 		running: RunningSubagent,
-		result: Pick<SubagentResult, "exitCode" | "error" | "errorMessage" | "watchAbandoned" | "alreadySettled">,
+		result: Pick<
+			SubagentResult,
+			"exitCode" | "error" | "errorMessage" | "watchAbandoned" | "alreadySettled" | "budgetExceeded"
+		>,
 		capturedAt = Date.now(),
 	): boolean {
 		const kind = classifyStickyTerminal(running, result);
@@ -346,6 +404,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 	): Promise<RunningSubagent> {
 		const state = createLaunchState(params, ctx, options);
 		try {
+			prepareLaunchIsolation(state);
 			await initializeLaunchSurface(state);
 			const prepared = prepareLaunchSession(state);
 			const launchCommand = buildLaunchCommand(state, prepared);
@@ -356,7 +415,44 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		}
 	}
 
-	function createLaunchState(params: any, ctx: StableParentContext, options: LaunchOptions): LaunchState {
+	/**
+	 * Build the environment, command line, and prompt/task files a launch of
+	 * `params` would use, without a pane, session file, worktree, or admission.
+	 * The run ID, session file, and timestamps are fresh values of the same shape.
+	 */
+	function previewLaunch(params: any, ctx: StableParentContext, options: LaunchOptions): LaunchPreview {
+		const state = createLaunchState(params, ctx, options, true);
+		const worktree = previewLaunchIsolation(state);
+		const behavior = deps.resolveLaunchBehavior(options.agentDefinition);
+		const prepared: PreparedLaunch = {
+			activityFile: deps.getSubagentActivityFile(state.artifactDir, state.id),
+			entryCountBefore: 0,
+			fullTask: buildLaunchTask(params.task, behavior.inheritsConversationContext),
+		};
+		const { command } = buildLaunchCommand(state, prepared);
+		return {
+			runId: state.id,
+			cwd: state.effectiveCwd,
+			...(worktree ? { worktree: { path: worktree.path, branch: worktree.branch } } : {}),
+			environment: buildLaunchEnvironment(state, prepared.activityFile),
+			command,
+			artifacts: state.previewArtifacts ?? [],
+		};
+	}
+
+	/** Agent frontmatter limits merged with the call's `budget`; the call was validated before admission. */
+	function launchBudget(definition: AgentDefinition, params: any): { budget?: RunBudget } {
+		const call = parseCallBudget(params.budget);
+		const budget = mergeRunBudgets(definition.budget, "budget" in call ? call.budget : undefined);
+		return budget ? { budget } : {};
+	}
+
+	function createLaunchState(
+		params: any,
+		ctx: StableParentContext,
+		options: LaunchOptions,
+		preview = false,
+	): LaunchState {
 		ensureLaunchIdentity(options.agentDefinition, params.agent);
 		const sessionFile = requireParentSessionFile(ctx.sessionFile);
 		const id = options.runId ?? deps.createRunId();
@@ -364,7 +460,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		assertAdmissionLeaseCurrent(sessionId, options.admissionLease);
 		const effectiveCwd = resolve(ctx.cwd);
 		const sessionDir = buildChildSessionDirectory(ctx.agentDir, effectiveCwd);
-		mkdirSync(sessionDir, { recursive: true });
+		if (!preview) mkdirSync(sessionDir, { recursive: true });
 		return {
 			params,
 			ctx,
@@ -377,8 +473,10 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 			effectiveCwd,
 			subagentSessionFile: buildChildSessionFile(sessionDir, id),
 			surfacePreCreated: Boolean(options.surface),
-			launchTransaction: createLaunchTransaction(id, options.admissionLease),
+			launchTransaction: preview ? new LaunchTransaction() : createLaunchTransaction(id, options.admissionLease),
 			rollbackPaths: [],
+			...(preview ? { previewArtifacts: [] } : {}),
+			...launchBudget(options.agentDefinition, params),
 		};
 	}
 
@@ -415,6 +513,32 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		return transaction;
 	}
 
+	/** Move the child into its own worktree before any pane exists; rollback removes it again. */
+	function prepareLaunchIsolation(state: LaunchState): void {
+		if (state.options.agentDefinition.isolation !== "worktree") return;
+		const worktree = createRunWorktree({
+			cwd: state.effectiveCwd,
+			runId: state.id,
+			agent: state.options.agentDefinition.id,
+		});
+		state.launchTransaction.own(() => removeRunWorktree(worktree));
+		state.launchTransaction.advance("worktree");
+		state.worktree = worktree;
+		state.effectiveCwd = worktree.cwd;
+	}
+
+	/** The worktree `prepareLaunchIsolation` would create, with the child's cwd moved into it. */
+	function previewLaunchIsolation(state: LaunchState): RunWorktree | undefined {
+		if (state.options.agentDefinition.isolation !== "worktree") return undefined;
+		const worktree = planRunWorktree({
+			cwd: state.effectiveCwd,
+			runId: state.id,
+			agent: state.options.agentDefinition.id,
+		});
+		state.effectiveCwd = worktree.cwd;
+		return worktree;
+	}
+
 	async function initializeLaunchSurface(state: LaunchState): Promise<void> {
 		const preparedSurface = await resolveLaunchSurface(state);
 		state.surface = preparedSurface.surface;
@@ -428,6 +552,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 	}
 
 	async function attachLaunchSurface(state: LaunchState): Promise<{ surface: string; warning?: string }> {
+		if (!terminalParentPaneEnv()) return createDetachedSurface(state);
 		const parentPaneId = requireParentPaneId();
 		const direction = deps.resolveDirection(state.params);
 		tryRederiveRegionFromLayout(
@@ -448,9 +573,18 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		return { surface: attached.paneId, warning: attached.warning };
 	}
 
+	/** Backends without a parent pane (headless) skip the attached layout entirely. */
+	function createDetachedSurface(state: LaunchState): { surface: string } {
+		const surface = createSubagentPane(displayLaunchName(state.params), state.effectiveCwd);
+		state.launchTransaction.own(() => closeAttachedSurface(undefined, surface));
+		state.launchTransaction.advance("pane");
+		assertAdmissionCurrent(state);
+		return { surface };
+	}
+
 	function requireParentPaneId(): string {
-		const parentPaneId = process.env.HERDR_PANE_ID;
-		if (!parentPaneId) throw new Error("HERDR_PANE_ID not set");
+		const parentPaneId = currentParentPaneId();
+		if (!parentPaneId) throw new Error(`${terminalParentPaneEnv()} not set`);
 		return parentPaneId;
 	}
 
@@ -458,10 +592,11 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		state.launchTransaction.own(() => closeAttachedSurface(parentPaneId, surface));
 	}
 
-	function closeAttachedSurface(parentPaneId: string, surface: string): void {
+	function closeAttachedSurface(parentPaneId: string | undefined, surface: string): void {
 		try {
 			safeCloseSubagentPane(surface);
 		} catch {}
+		if (!parentPaneId) return;
 		try {
 			removePaneFromRegion(parentPaneId, surface);
 		} catch {}
@@ -496,6 +631,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 			childSessionFile: state.subagentSessionFile,
 			childCwd: state.effectiveCwd,
 			sessionName,
+			...(state.options.seedBriefing ? { briefing: state.options.seedBriefing } : {}),
 		});
 		state.sessionLease = getSessionLeaseRegistry(state.sessionId).acquire(
 			state.subagentSessionFile,
@@ -584,6 +720,10 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 	}
 
 	function writeLaunchArtifact(state: LaunchState, path: string, content: string): void {
+		if (state.previewArtifacts) {
+			state.previewArtifacts.push({ path, content });
+			return;
+		}
 		mkdirSync(dirname(path), { recursive: true });
 		state.launchTransaction.own(() => rmSync(path, { force: true }));
 		writeFileSync(path, content, "utf8");
@@ -602,13 +742,22 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 			`PI_SUBAGENT_SESSION=${shellQuote(state.subagentSessionFile)}`,
 			`PI_SUBAGENT_ID=${shellQuote(state.id)}`,
 			`PI_SUBAGENT_ACTIVITY_FILE=${shellQuote(activityFile)}`,
+			`PI_SUBAGENT_ARTIFACTS_DIR=${shellQuote(getRunArtifactsDir(state.artifactDir, state.id))}`,
 			`PI_SUBAGENT_SURFACE=${shellQuote(state.surface ?? "")}`,
 			`PI_SUBAGENT_PARENT_SESSION=${shellQuote(state.sessionId)}`,
 		];
+		appendResultSchemaEnvironment(entries, state.options.agentDefinition);
+		if (state.budget) entries.push(`PI_SUBAGENT_BUDGET=${shellQuote(JSON.stringify(state.budget))}`);
 		appendOptionalEnvironment(entries);
 		return entries;
 	}
 
+	function appendResultSchemaEnvironment(entries: string[], definition: AgentDefinition): void {
+		if (definition.resultSchema) {
+			entries.push(`PI_SUBAGENT_RESULT_SCHEMA=${shellQuote(JSON.stringify(definition.resultSchema))}`);
+		}
+	}
+
 	function selectedSkillMetadata(skills: SelectedSkill[]) {
 		return skills.map((skill) => ({ name: skill.name, description: skill.description, filePath: skill.filePath }));
 	}
@@ -683,6 +832,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 			id: state.id,
 			name: displayLaunchName(state.params),
 			task: state.params.task,
+			...(state.params.vars ? { vars: state.params.vars } : {}),
 			agent: state.options.agentDefinition.id,
 			parentSessionId: state.sessionId,
 			surface: state.surface ?? "",
@@ -690,6 +840,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 			sessionFile: state.subagentSessionFile,
 			launchScriptFile,
 			activityFile: prepared.activityFile,
+			artifactsDir: getRunArtifactsDir(state.artifactDir, state.id),
 			...launchPresentationFlags(state),
 			runtimePlan: state.options.runtimePlan,
 			admissionClass: state.options.admissionClass,
@@ -698,9 +849,31 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 			entryCountBefore: prepared.entryCountBefore,
 			lifecycle: deps.createLifecycle(state.startTime),
 			launchTransaction: state.launchTransaction,
+			...(state.options.batchId ? { batchId: state.options.batchId } : {}),
+			...(state.worktree ? { worktree: state.worktree } : {}),
+			...(state.budget ? { budget: state.budget } : {}),
+			...launchPriority(state),
+			...(state.options.agentDefinition.stallRecovery
+				? { stallRecovery: state.options.agentDefinition.stallRecovery }
+				: {}),
+			...launchHooks(state),
 		};
 	}
 
+	function launchPriority(state: LaunchState): Pick<RunningSubagent, "priority"> {
+		const priority = state.params.priority ?? state.options.agentDefinition.priority;
+		return priority ? { priority } : {};
+	}
+
+	function launchHooks(state: LaunchState): Pick<RunningSubagent, "hooks"> {
+		const hooks = resolveRunHooks(
+			state.options.agentDefinition.hooks,
+			loadHookSettings(state.ctx),
+			state.effectiveCwd,
+		);
+		return hooks ? { hooks } : {};
+	}
+
 	function launchPresentationFlags(
 		state: LaunchState,
 	): Pick<RunningSubagent, "suppressStatusSteer" | "layoutWarning"> {
@@ -721,8 +894,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 
 	function cleanupLaunchSurface(state: LaunchState): void {
 		if (!state.surface || state.surfacePreCreated) return;
-		const parentPaneId = process.env.HERDR_PANE_ID;
-		if (parentPaneId) closeAttachedSurface(parentPaneId, state.surface);
+		closeAttachedSurface(currentParentPaneId(), state.surface);
 	}
 
 	function cleanupRollbackPaths(paths: string[]): void {
@@ -742,16 +914,32 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		signal: AbortSignal,
 		options: { releaseOwnership?: boolean; timeoutMs?: number } = { releaseOwnership: true },
 	): Promise<SubagentResult> {
+		let result: SubagentResult;
 		try {
-			const result = await waitForRunCompletion(running, signal, options);
-			return settleWatchedCompletion(running, result);
+			result = settleWatchedCompletion(running, await waitForRunCompletion(running, signal, options));
 		} catch (error) {
-			return handleWatchFailure(running, signal, error);
+			result = handleWatchFailure(running, signal, error);
+		}
+		try {
+			recordRunHistory(running, result);
+			return await runResultHooks(running, result);
 		} finally {
 			finalizeWatchOwnership(running, options);
 		}
 	}
 
+	/** Runs the settled outcome's hooks; attached reports join the result, background failures become status lines. */
+	async function runResultHooks(running: RunningSubagent, result: SubagentResult): Promise<SubagentResult> {
+		if (!running.hooks || result.alreadySettled) return result;
+		const reports = await runSettlementHooks({
+			hooks: running.hooks,
+			payload: buildRunHookPayload(running, result, running.hooks.cwd),
+			onBackgroundFailure: (report) =>
+				deps.reportStatusLines?.([formatHookStatusLine(normalizeStatusName(running.name), report)]),
+		});
+		return reports.length > 0 ? { ...result, hooks: reports } : result;
+	}
+
 	function waitForRunCompletion(
 		running: RunningSubagent,
 		signal: AbortSignal,
@@ -802,6 +990,8 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 			done: "sidecar",
 			error: "sidecar",
 			sentinel: "sentinel",
+			"budget-exceeded": "budget-exceeded",
+			stalled: "stalled",
 		};
 		return sources[reason] ?? "pane-disappearance";
 	}
@@ -868,9 +1058,11 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 	}
 
 	function terminalLifecycle(running: RunningSubagent, completion: CompletionResult, summary: string) {
-		return completion.exitCode === 0
-			? markCompleted(running.lifecycle, Date.now())
-			: markFailed(running.lifecycle, completion.errorMessage ?? summary, Date.now(), completion.exitCode);
+		if (completion.exitCode === 0) return markCompleted(running.lifecycle, Date.now());
+		const message = completion.budgetExceeded
+			? `Budget exceeded: ${formatBudgetBreach(completion.budgetExceeded)}`
+			: (completion.errorMessage ?? summary);
+		return markFailed(running.lifecycle, message, Date.now(), completion.exitCode);
 	}
 
 	function completionResult(
@@ -888,10 +1080,30 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 			exitCode: completion.exitCode,
 			elapsed: Math.floor((detectedAt - running.startTime) / 1000),
 			...(completion.errorMessage ? { errorMessage: completion.errorMessage } : {}),
+			...(completion.result !== undefined ? { result: completion.result } : {}),
+			...(completion.budgetExceeded ? { budgetExceeded: completion.budgetExceeded } : {}),
+			...(completion.stalled ? { stalled: completion.stalled } : {}),
+			...(running.worktree ? { worktree: reportRunWorktree(running.worktree) } : {}),
+			...settledArtifacts(running),
+			...settledUsage(running, completion),
 			...(watchAbandoned ? { watchAbandoned: true } : {}),
+			...(completion.providerError ? { providerError: true } : {}),
 		};
 	}
 
+	function settledArtifacts(running: RunningSubagent): { artifacts?: SubagentArtifact[] } {
+		const artifacts = listRunArtifacts(running.artifactsDir);
+		return artifacts.length > 0 ? { artifacts } : {};
+	}
+
+	/** The sidecar's final figure wins; sentinel-only settlements fall back to the last activity sample. */
+	function settledUsage(running: RunningSubagent, completion: CompletionResult): { usage?: SubagentUsage } {
+		const usage = completion.usage ?? running.activity?.usage;
+		if (!usage) return {};
+		recordSubagentUsage(running.parentSessionId, running.id, usage);
+		return { usage };
+	}
+
 	function handleWatchFailure(running: RunningSubagent, signal: AbortSignal, error: unknown): SubagentResult {
 		const preserved = preserveWatchFailurePane(running, signal);
 		settleWatchFailure(running, signal, error, preserved);
@@ -966,6 +1178,25 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		transaction.commit();
 		finishLaunchTransaction(running.id, transaction);
 		running.launchTransaction = undefined;
+		recordLedgerEvent(running.id, {
+			type: "launched",
+			surface: running.surface,
+			sessionFile: running.sessionFile,
+			activityFile: running.activityFile,
+			...(running.artifactsDir ? { artifactsDir: running.artifactsDir } : {}),
+			entryCountBefore: running.entryCountBefore,
+			startTime: running.startTime,
+			...headlessPid(running.surface),
+			runtimePlan: running.runtimePlan,
+			...(running.worktree ? { worktree: running.worktree } : {}),
+			...(running.stallRecovery ? { stallRecovery: running.stallRecovery } : {}),
+			...(running.hooks ? { hooks: running.hooks } : {}),
+		});
+	}
+
+	function headlessPid(surface: string): { pid?: number } {
+		const pid = headlessPanePid(surface);
+		return pid !== undefined ? { pid } : {};
 	}
 
 	function failLaunch(running: RunningSubagent, error: unknown, aborted: boolean): void {
@@ -999,12 +1230,22 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		rawResult: SubagentResult,
 		summarize?: (result: SubagentResult) => SubagentResult,
 	): Promise<void> {
+		if (!rawResult.alreadySettled)
+			recordRunSettlement(runSettlementFromResult(running.id, rawResult, parentSessionId));
 		if (backgroundDeliverySuppressed(running, rawResult)) {
 			suppressBackgroundResult(running);
+			// A reloaded watcher may have settled this run first; repeats are ignored by the batch.
+			if (running.batchId) await settleBatchMember(running.batchId, running.id, rawResult);
 			return;
 		}
 		const result = summarize ? summarize(rawResult) : rawResult;
-		const message = backgroundResultMessage(running, result);
+		if (running.batchId) {
+			await settleBatchMemberRun(running, running.batchId, result);
+			return;
+		}
+		const relaunch = await relaunchOnFallbackModel(running, result);
+		const message = backgroundResultMessage(running, result, relaunch);
+		recordLedgerEvent(running.id, { type: "pending", message });
 		await deliverBackgroundResult(parentSessionId, running, message);
 		finishBackgroundResult(running, result);
 	}
@@ -1020,12 +1261,36 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		deps.updateWidget();
 	}
 
-	function backgroundResultMessage(running: RunningSubagent, result: SubagentResult) {
+	/** A provider error on a `model-fallback: relaunch` agent starts one new run on the next chain entry. */
+	async function relaunchOnFallbackModel(
+		running: RunningSubagent,
+		result: SubagentResult,
+	): Promise<{ id?: string; text: string } | undefined> {
+		const fallback = running.modelFallback;
+		if (!fallback || !result.providerError) return undefined;
+		running.modelFallback = undefined;
+		const failed = { runId: running.id, model: running.runtimePlan?.model ?? "", error: result.errorMessage ?? "" };
+		try {
+			return await fallback.relaunch(failed);
+		} catch (error) {
+			return { text: `Relaunch on ${fallback.runtimePlan.model} failed: ${errorMessage(error)}` };
+		}
+	}
+
+	function backgroundResultMessage(
+		running: RunningSubagent,
+		result: SubagentResult,
+		relaunch?: { id?: string; text: string },
+	) {
+		const content = backgroundResultContent(running, result);
 		return {
 			customType: "subagent_result",
-			content: backgroundResultContent(running, result),
+			content: relaunch ? `${content}\n\nModel fallback: ${relaunch.text}` : content,
 			display: true,
-			details: backgroundResultDetails(running, result),
+			details: {
+				...backgroundResultDetails(running, result),
+				...(relaunch?.id ? { relaunchedAs: relaunch.id } : {}),
+			},
 		};
 	}
 
@@ -1045,6 +1310,13 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 			elapsed: result.elapsed,
 			sessionFile: result.sessionFile,
 			...(result.errorMessage ? { errorMessage: result.errorMessage } : {}),
+			...(result.result !== undefined ? { result: result.result } : {}),
+			...(result.worktree ? { worktree: result.worktree } : {}),
+			...(result.artifacts ? { artifacts: result.artifacts } : {}),
+			...(result.usage ? { usage: result.usage } : {}),
+			...(result.budgetExceeded ? { budgetExceeded: result.budgetExceeded } : {}),
+			...(result.stalled ? { stalled: result.stalled } : {}),
+			...(result.hooks ? { hooks: result.hooks } : {}),
 			...(result.watchAbandoned ? { watchAbandoned: true } : {}),
 			...(running.runtimePlan ? { runtimePlan: running.runtimePlan } : {}),
 		};
@@ -1059,6 +1331,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		try {
 			await deliverBackgroundMessage(undefined, parentSessionId, message, deliveryOptions(running));
 			running.lifecycle = markDelivery(running.lifecycle, "delivered");
+			recordLedgerEvent(running.id, { type: "delivered" });
 		} catch (error) {
 			handleBackgroundDeliveryFailure(parentSessionId, running, message, error);
 		}
@@ -1084,19 +1357,68 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		message: any,
 		error: unknown,
 	): void {
-		if (getForegroundDeliveryBarrier(parentSessionId).isSuppressed()) {
+		if (!queueUndeliveredMessage(parentSessionId, running.id, running.parentSessionFile, message, error)) {
 			running.lifecycle = markDelivery(running.lifecycle, "suppressed");
-			return;
 		}
+	}
+
+	/** Hand a failed delivery to the retry queue; false when the parent barrier suppresses it. */
+	function queueUndeliveredMessage(
+		parentSessionId: string,
+		id: string,
+		sessionFile: string | undefined,
+		message: any,
+		error: unknown,
+	): boolean {
+		if (getForegroundDeliveryBarrier(parentSessionId).isSuppressed()) return false;
 		queuePendingDeliveryWithVerification(
-			running.id,
+			id,
 			parentSessionId,
 			message,
 			error,
-			{ sessionFile: running.parentSessionFile, expectedRunId: running.id },
+			{ sessionFile, expectedRunId: id },
 			isSessionRuntimeUnavailable(error) ? 0 : 1,
 		);
 		startDeliveryRetry();
+		return true;
+	}
+
+	/**
+	 * Batch members hand their result to the batch instead of the parent; the
+	 * member's own delivery is complete once recorded there.
+	 */
+	async function settleBatchMemberRun(
+		running: RunningSubagent,
+		batchId: string,
+		result: SubagentResult,
+	): Promise<void> {
+		running.sessionLease?.transition("finalizing");
+		running.lifecycle = markDelivery(running.lifecycle, "delivered");
+		finishBackgroundResult(running, result);
+		await settleBatchMember(batchId, running.id, result);
+	}
+
+	/** Record a member outcome and deliver the aggregated result once the last member settles. */
+	async function settleBatchMember(batchId: string, runId: string, result: SubagentResult): Promise<void> {
+		const batch = recordBatchMemberOutcome(batchId, runId, result);
+		deps.updateWidget();
+		if (batch) await deliverBatchResult(batch);
+	}
+
+	async function deliverBatchResult(batch: SubagentBatch): Promise<void> {
+		const message = batchResultMessage(batch, deps.resolveResultPresentation);
+		try {
+			await deliverBackgroundMessage(undefined, batch.parentSessionId, message, {
+				sessionFile: batch.parentSessionFile,
+				expectedRunId: batch.id,
+			});
+		} catch (error) {
+			queueUndeliveredMessage(batch.parentSessionId, batch.id, batch.parentSessionFile, message, error);
+		}
+	}
+
+	function failedRunResult(running: Pick<RunningSubagent, "name" | "task">, message: string): SubagentResult {
+		return { name: running.name, task: running.task, summary: message, exitCode: 1, elapsed: 0, error: message };
 	}
 
 	function finishBackgroundResult(running: RunningSubagent, result: SubagentResult): void {
@@ -1116,6 +1438,9 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		if (running.errorPanePreserved) releaseAdmissionOnly(running);
 		else releaseRunOwnership(running);
 		deps.updateWidget();
+		const result = { ...failedRunResult(running, message), elapsed: elapsedSince(running.startTime) };
+		recordRunSettlement(runSettlementFromResult(running.id, result, running.parentSessionId));
+		if (running.batchId) void settleBatchMember(running.batchId, running.id, result).catch(() => undefined);
 	}
 
 	function commitBackgroundWatch(running: RunningSubagent): void {
@@ -1147,6 +1472,9 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		admissionLease: AdmissionLease;
 		projectTrusted: boolean;
 		surface?: string;
+		batchId?: string;
+		modelFallback?: ModelFallback;
+		seedBriefing?: SeedBriefing;
 	}): Promise<RunningSubagent> {
 		let running: RunningSubagent | undefined;
 		try {
@@ -1155,6 +1483,7 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 				admissionClass: "background",
 			});
 			running.parentSessionFile = options.ctx.sessionFile;
+			if (options.modelFallback) running.modelFallback = options.modelFallback;
 			superviseBackgroundRun(options.ctx.sessionId, running);
 			return running;
 		} catch (error) {
@@ -1171,7 +1500,13 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 	}
 
 	function handleBackgroundSpawnFailure(
-		options: { params: any; runId: string; admissionLease: AdmissionLease },
+		options: {
+			params: any;
+			ctx: StableParentContext;
+			runId: string;
+			admissionLease: AdmissionLease;
+			batchId?: string;
+		},
 		error: unknown,
 	): void {
 		captureStickyLaunchFailure({
@@ -1183,6 +1518,11 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 			error,
 		});
 		options.admissionLease.release();
+		const member = { name: displayLaunchName(options.params), task: options.params.task };
+		const result = failedRunResult(member, `failed to launch: ${errorMessage(error)}`);
+		recordRunSettlement(runSettlementFromResult(options.runId, result, options.ctx.sessionId));
+		recordUnlaunchedRunHistory(options.runId, options.ctx.sessionId, options.params, result);
+		if (options.batchId) void settleBatchMember(options.batchId, options.runId, result).catch(() => undefined);
 	}
 
 	return {
@@ -1195,9 +1535,11 @@ export function createSubagentLaunchService(deps: LaunchDeps) {
 		failLaunch,
 		launchSubagent,
 		preserveErrorPane,
+		previewLaunch,
 		releaseAdmissionOnly,
 		releaseRunOwnership,
 		safeCloseAndReap,
+		settleBatchMember,
 		startBackgroundSpawn,
 		startErrorPaneMonitor,
 		superviseBackgroundRun,
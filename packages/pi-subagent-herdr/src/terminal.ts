@@ -1,18 +1,30 @@
 import { mkdirSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { dirname, join } from "node:path";
+import {
+	closeHeadlessSurface,
+	createHeadlessSurface,
+	inspectHeadlessPane,
+	readHeadlessScreen,
+	readHeadlessScreenAsync,
+	sendHeadlessCommand,
+	sendHeadlessEscape,
+} from "./headless.ts";
 import {
 	closeHerdrSurface,
 	createHerdrSurface,
 	createHerdrSurfaceSplit,
+	focusHerdrPane,
 	getHerdrPaneLayout,
 	type HerdrLayoutPane,
 	type HerdrPaneLayout,
 	type HerdrPaneRect,
+	hasCommand,
 	herdrPaneExists,
 	inspectHerdrPane,
 	inspectHerdrPaneSync,
 	isHerdrAvailable,
+	type PaneInspectionResult,
 	readHerdrScreen,
 	readHerdrScreenAsync,
 	renameHerdrTab,
@@ -21,6 +33,23 @@ import {
 	sendHerdrEscape,
 	withPaneRetries,
 } from "./herdr.ts";
+import {
+	closeTmuxSurface,
+	createTmuxSurface,
+	createTmuxSurfaceSplit,
+	focusTmuxPane,
+	getTmuxPaneLayout,
+	inspectTmuxPane,
+	inspectTmuxPaneSync,
+	isTmuxAvailable,
+	readTmuxScreen,
+	readTmuxScreenAsync,
+	renameTmuxSession,
+	renameTmuxWindow,
+	sendTmuxCommand,
+	sendTmuxEscape,
+	tmuxPaneExists,
+} from "./tmux.ts";
 
 // fallow-ignore-next-line unused-type -- re-export preserved from HEAD for downstream consumers
 export type { HerdrPaneLayout, HerdrLayoutPane, HerdrPaneRect };
@@ -28,62 +57,206 @@ export { getHerdrPaneLayout, herdrPaneExists, inspectHerdrPaneSync };
 
 export type PaneId = string;
 export type SplitDirection = "right" | "down";
+export type TerminalBackendName = "herdr" | "tmux" | "headless";
+
+/**
+ * Primitives a terminal backend provides to host subagent children. Everything
+ * above this layer (launch scripts, completion sidecars, activity files,
+ * delivery) is backend-agnostic.
+ */
+export interface TerminalBackend {
+	name: TerminalBackendName;
+	/**
+	 * Environment variable naming the caller's pane. Backends with one split
+	 * children from it through the attached layout; backends without one
+	 * (headless) create standalone surfaces.
+	 */
+	parentPaneEnv?: string;
+	isAvailable(): boolean;
+	setupHint(): string;
+	createPane(name: string, cwd: string): PaneId;
+	splitPane(name: string, direction: SplitDirection, targetPaneId: string | undefined, cwd: string): PaneId;
+	sendCommand(paneId: PaneId, command: string): void;
+	sendEscape(paneId: PaneId): void;
+	readScreen(paneId: PaneId, lines: number): string;
+	readScreenAsync(paneId: PaneId, lines: number): Promise<string>;
+	inspect(paneId: PaneId): Promise<PaneInspectionResult>;
+	inspectSync(paneId: PaneId): PaneInspectionResult;
+	close(paneId: PaneId): void;
+	/** Geometry of the panes sharing `paneId`'s tab; null when unavailable. */
+	getLayout(paneId: PaneId): HerdrPaneLayout | null;
+	paneExists(paneId: PaneId): boolean;
+	/** Give the pane keyboard focus; absent on backends without visible panes. */
+	focus?(paneId: PaneId): void;
+	renameTab?(title: string): void;
+	renameWorkspace?(title: string): void;
+}
 
 const SETUP_HINT = "Start pi inside herdr (`herdr`, then run `pi`).";
+const BACKEND_ENV = "PI_SUBAGENT_BACKEND";
+
+const herdrBackend: TerminalBackend = {
+	name: "herdr",
+	parentPaneEnv: "HERDR_PANE_ID",
+	isAvailable: isHerdrAvailable,
+	setupHint: () => SETUP_HINT,
+	createPane: createHerdrSurface,
+	splitPane: createHerdrSurfaceSplit,
+	sendCommand: sendHerdrCommand,
+	sendEscape: sendHerdrEscape,
+	readScreen: readHerdrScreen,
+	readScreenAsync: readHerdrScreenAsync,
+	inspect: inspectHerdrPane,
+	inspectSync: inspectHerdrPaneSync,
+	close: closeHerdrSurface,
+	getLayout: getHerdrPaneLayout,
+	paneExists: herdrPaneExists,
+	focus: focusHerdrPane,
+	renameTab: renameHerdrTab,
+	renameWorkspace: renameHerdrWorkspace,
+};
+
+const tmuxBackend: TerminalBackend = {
+	name: "tmux",
+	parentPaneEnv: "TMUX_PANE",
+	isAvailable: isTmuxAvailable,
+	setupHint: () => "Start pi inside tmux (`tmux`, then run `pi`).",
+	createPane: createTmuxSurface,
+	splitPane: createTmuxSurfaceSplit,
+	sendCommand: sendTmuxCommand,
+	sendEscape: sendTmuxEscape,
+	readScreen: readTmuxScreen,
+	readScreenAsync: readTmuxScreenAsync,
+	inspect: inspectTmuxPane,
+	inspectSync: inspectTmuxPaneSync,
+	close: closeTmuxSurface,
+	getLayout: getTmuxPaneLayout,
+	paneExists: tmuxPaneExists,
+	focus: focusTmuxPane,
+	renameTab: renameTmuxWindow,
+	renameWorkspace: renameTmuxSession,
+};
+
+const headlessBackend: TerminalBackend = {
+	name: "headless",
+	isAvailable: () => hasCommand("bash"),
+	setupHint: () => "Install bash to run headless subagents.",
+	createPane: createHeadlessSurface,
+	splitPane: (name, _direction, _targetPaneId, cwd) => createHeadlessSurface(name, cwd),
+	sendCommand: sendHeadlessCommand,
+	sendEscape: sendHeadlessEscape,
+	readScreen: readHeadlessScreen,
+	readScreenAsync: readHeadlessScreenAsync,
+	inspect: async (paneId) => inspectHeadlessPane(paneId),
+	inspectSync: inspectHeadlessPane,
+	close: closeHeadlessSurface,
+	getLayout: () => null,
+	paneExists: (paneId) => inspectHeadlessPane(paneId).kind === "present",
+};
+
+const terminalBackends: Record<TerminalBackendName, TerminalBackend> = {
+	herdr: herdrBackend,
+	tmux: tmuxBackend,
+	headless: headlessBackend,
+};
+
+/**
+ * Resolve the backend from `PI_SUBAGENT_BACKEND`, or detect it: herdr when pi
+ * runs inside herdr, then tmux, headless otherwise. Undefined for an unknown name.
+ */
+function resolveTerminalBackend(): TerminalBackend | undefined {
+	const requested = process.env[BACKEND_ENV]?.trim();
+	if (!requested) return [herdrBackend, tmuxBackend].find((backend) => backend.isAvailable()) ?? headlessBackend;
+	return Object.hasOwn(terminalBackends, requested) ? terminalBackends[requested as TerminalBackendName] : undefined;
+}
+
+function unknownBackendHint(): string {
+	return `Set ${BACKEND_ENV} to one of: ${Object.keys(terminalBackends).join(", ")}.`;
+}
+
+export function activeTerminalBackend(): TerminalBackend {
+	const backend = resolveTerminalBackend();
+	if (!backend) throw new Error(`Unknown terminal backend. ${unknownBackendHint()}`);
+	return backend;
+}
 
 export function isTerminalAvailable(): boolean {
-	return isHerdrAvailable();
+	return resolveTerminalBackend()?.isAvailable() ?? false;
 }
 
 export function terminalSetupHint(): string {
-	return SETUP_HINT;
+	return resolveTerminalBackend()?.setupHint() ?? unknownBackendHint();
+}
+
+/** The caller-pane variable launches require (`HERDR_PANE_ID`, `TMUX_PANE`), or undefined when children are standalone. */
+export function terminalParentPaneEnv(): string | undefined {
+	return resolveTerminalBackend()?.parentPaneEnv;
+}
+
+/** The caller's pane ID under the active backend, when it has one. */
+export function currentParentPaneId(): string | undefined {
+	const env = terminalParentPaneEnv();
+	return env ? process.env[env] || undefined : undefined;
 }
 
-function assertTerminalAvailable(): void {
-	if (!isTerminalAvailable()) throw new Error(`herdr is not available. ${SETUP_HINT}`);
+/** Pane geometry for the attached layout; null when the backend has none or the query fails. */
+export function getPaneLayout(paneId: PaneId): HerdrPaneLayout | null {
+	return resolveTerminalBackend()?.getLayout(paneId) ?? null;
+}
+
+export function paneExists(paneId: PaneId): boolean {
+	return resolveTerminalBackend()?.paneExists(paneId) ?? false;
+}
+
+function availableTerminalBackend(): TerminalBackend {
+	const backend = activeTerminalBackend();
+	if (!backend.isAvailable()) throw new Error(`${backend.name} is not available. ${backend.setupHint()}`);
+	return backend;
 }
 
 export function shellQuote(value: string): string {
 	return `'${value.replace(/'/g, "'\\''")}'`;
 }
 
-/** Create a new herdr tab and return its root pane ID. */
+/** Create a standalone subagent surface (a herdr tab, or a headless process slot) and return its pane ID. */
 export function createSubagentPane(name: string, cwd = process.cwd()): PaneId {
-	assertTerminalAvailable();
-	return createHerdrSurface(name, cwd);
+	return availableTerminalBackend().createPane(name, cwd);
 }
 
-/** Split a herdr pane (default: caller pane) and return the child pane ID. */
+/** Split a pane (default: caller pane) and return the child pane ID. */
 export function splitCurrentPane(
 	name: string,
 	direction: SplitDirection,
 	targetPaneId?: string,
 	cwd = process.cwd(),
 ): PaneId {
-	assertTerminalAvailable();
-	return createHerdrSurfaceSplit(name, direction, targetPaneId, cwd);
+	return availableTerminalBackend().splitPane(name, direction, targetPaneId, cwd);
 }
 
 // fallow-ignore-next-line unused-export -- public terminal API preserved from HEAD
 export function renameCurrentTab(title: string): void {
-	assertTerminalAvailable();
-	renameHerdrTab(title);
+	availableTerminalBackend().renameTab?.(title);
 }
 
 // fallow-ignore-next-line unused-export -- public terminal API preserved from HEAD
 export function renameCurrentWorkspace(title: string): void {
-	assertTerminalAvailable();
-	renameHerdrWorkspace(title);
+	availableTerminalBackend().renameWorkspace?.(title);
+}
+
+/** Focus a child pane; false when the active backend has no visible panes. */
+export function focusPane(paneId: PaneId): boolean {
+	const backend = availableTerminalBackend();
+	if (!backend.focus) return false;
+	backend.focus(paneId);
+	return true;
 }
 
 export function runInPane(paneId: PaneId, command: string): void {
-	assertTerminalAvailable();
-	sendHerdrCommand(paneId, command);
+	availableTerminalBackend().sendCommand(paneId, command);
 }
 
 export function interruptPane(paneId: PaneId): void {
-	assertTerminalAvailable();
-	sendHerdrEscape(paneId);
+	availableTerminalBackend().sendEscape(paneId);
 }
 
 export function runScriptInPane(
@@ -116,18 +289,15 @@ function preambleLines(scriptPreamble: string | undefined): string[] {
 }
 
 export function readPane(paneId: PaneId, lines = 50): string {
-	assertTerminalAvailable();
-	return readHerdrScreen(paneId, lines);
+	return availableTerminalBackend().readScreen(paneId, lines);
 }
 
 export async function readPaneAsync(paneId: PaneId, lines = 50): Promise<string> {
-	assertTerminalAvailable();
-	return readHerdrScreenAsync(paneId, lines);
+	return availableTerminalBackend().readScreenAsync(paneId, lines);
 }
 
 export async function inspectPane(paneId: PaneId): Promise<import("./lifecycle.ts").PaneInspection> {
-	assertTerminalAvailable();
-	const result = await inspectHerdrPane(paneId);
+	const result = await availableTerminalBackend().inspect(paneId);
 	if (result.kind === "present") {
 		return { ...result, observedAt: Date.now() };
 	}
@@ -135,8 +305,7 @@ export async function inspectPane(paneId: PaneId): Promise<import("./lifecycle.t
 }
 
 export function closePane(paneId: PaneId): void {
-	assertTerminalAvailable();
-	closeHerdrSurface(paneId);
+	availableTerminalBackend().close(paneId);
 }
 
 /**
@@ -149,10 +318,15 @@ export function closePane(paneId: PaneId): void {
  * after its parent has moved on.
  */
 export function safeCloseSubagentPane(surface: string): void {
-	assertTerminalAvailable();
-	const inspection = inspectHerdrPaneSync(surface);
+	const backend = availableTerminalBackend();
+	const inspection = backend.inspectSync(surface);
 	if (!shouldCloseSubagentPane(inspection)) return;
-	withPaneRetries(`pane close ${surface}`, () => closeHerdrSurface(surface));
+	withPaneRetries(`pane close ${surface}`, () => backend.close(surface));
+}
+
+/** Synchronous tri-state inspection through the active backend. */
+export function inspectPaneSync(paneId: PaneId): PaneInspectionResult {
+	return availableTerminalBackend().inspectSync(paneId);
 }
 
 /**
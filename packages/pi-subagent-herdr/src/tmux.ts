@@ -0,0 +1,218 @@
+/**
+ * tmux terminal backend.
+ *
+ * Maps the Herdr pane primitives onto tmux: tabs are windows, splits are
+ * `split-window`, geometry comes from `list-panes -F`, screens from
+ * `capture-pane` and input from `send-keys`. Pane IDs are tmux's stable `%N`
+ * identifiers, so the attached region model in layout.ts works unchanged.
+ */
+import { execFile, execFileSync } from "node:child_process";
+import { promisify } from "node:util";
+import { type HerdrLayoutPane, type HerdrPaneLayout, hasCommand, type PaneInspectionResult } from "./herdr.ts";
+
+const execFileAsync = promisify(execFile);
+
+const LAYOUT_FORMAT =
+	"#{pane_id} #{pane_left} #{pane_top} #{pane_width} #{pane_height} #{pane_active} #{window_width} #{window_height}";
+
+export function isTmuxAvailable(): boolean {
+	return Boolean(process.env.TMUX) && hasCommand("tmux");
+}
+
+function tmuxExec(args: string[], timeoutMs?: number): string {
+	return execFileSync("tmux", args, timeoutMs ? { encoding: "utf8", timeout: timeoutMs } : { encoding: "utf8" });
+}
+
+async function tmuxExecAsync(args: string[]): Promise<string> {
+	// Same bound as the herdr watcher: a hung client must not stall the completion poll loop.
+	const { stdout } = await execFileAsync("tmux", args, { encoding: "utf8", timeout: 5000 });
+	return stdout;
+}
+
+function getTmuxParentPaneId(): string {
+	const paneId = process.env.TMUX_PANE;
+	if (!paneId) throw new Error("TMUX_PANE not set");
+	return paneId;
+}
+
+function extractTmuxPaneId(output: string, context: string): string {
+	const paneId = output.trim();
+	if (!/^%\d+$/.test(paneId)) throw new Error(`Unexpected tmux ${context} output: ${paneId || "(empty)"}`);
+	return paneId;
+}
+
+function titleTmuxPane(paneId: string, name: string): void {
+	try {
+		tmuxExec(["select-pane", "-t", paneId, "-T", name]);
+	} catch {
+		// Optional — pane title is cosmetic.
+	}
+}
+
+/** Window holding the caller's pane; new windows open next to it, in the caller's session. */
+function parentWindowId(): string | undefined {
+	const paneId = process.env.TMUX_PANE;
+	if (!paneId) return undefined;
+	try {
+		return tmuxExec(["display-message", "-p", "-t", paneId, "#{window_id}"]).trim() || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function buildWindowCreateArgs(name: string, cwd: string, windowId: string | undefined): string[] {
+	const target = windowId ? ["-a", "-t", windowId] : [];
+	return ["new-window", "-d", ...target, "-P", "-F", "#{pane_id}", "-n", name, "-c", cwd];
+}
+
+function buildSplitArgs(direction: "right" | "down", targetPaneId: string, cwd: string): string[] {
+	return [
+		"split-window",
+		"-d",
+		"-P",
+		"-F",
+		"#{pane_id}",
+		direction === "right" ? "-h" : "-v",
+		"-t",
+		targetPaneId,
+		"-c",
+		cwd,
+	];
+}
+
+/** Create a detached tmux window per subagent and return its pane ID. */
+export function createTmuxSurface(name: string, cwd = process.cwd()): string {
+	const paneId = extractTmuxPaneId(tmuxExec(buildWindowCreateArgs(name, cwd, parentWindowId())), "new-window");
+	titleTmuxPane(paneId, name);
+	return paneId;
+}
+
+export function createTmuxSurfaceSplit(
+	name: string,
+	direction: "right" | "down",
+	targetPaneId?: string,
+	cwd = process.cwd(),
+): string {
+	const output = tmuxExec(buildSplitArgs(direction, targetPaneId ?? getTmuxParentPaneId(), cwd));
+	const paneId = extractTmuxPaneId(output, "split-window");
+	titleTmuxPane(paneId, name);
+	return paneId;
+}
+
+/** Query the panes of `paneId`'s window; returns null when unavailable/malformed. */
+export function getTmuxPaneLayout(paneId: string): HerdrPaneLayout | null {
+	try {
+		return parseTmuxPaneLayout(tmuxExec(["list-panes", "-t", paneId, "-F", LAYOUT_FORMAT]));
+	} catch {
+		return null;
+	}
+}
+
+function parseTmuxPaneLayout(output: string): HerdrPaneLayout | null {
+	const rows = output
+		.split("\n")
+		.map((line) => line.trim().split(/\s+/))
+		.filter((fields) => fields.length === 8 && /^%\d+$/.test(fields[0]));
+	if (rows.length === 0) return null;
+	const panes: HerdrLayoutPane[] = rows.map(([paneId, x, y, width, height, active]) => ({
+		paneId,
+		rect: { x: Number(x), y: Number(y), width: Number(width), height: Number(height) },
+		focused: active === "1",
+	}));
+	const [, , , , , , areaWidth, areaHeight] = rows[0];
+	return { area: { x: 0, y: 0, width: Number(areaWidth), height: Number(areaHeight) }, panes };
+}
+
+// `display-message -t` on an unknown pane exits 0 with empty output on some tmux
+// versions, so presence is read from the server's full pane list instead.
+const PANE_LIST_ARGS = ["list-panes", "-a", "-F", "#{pane_id}"];
+
+function parsePaneListOutput(output: string, paneId: string): PaneInspectionResult {
+	return output.split("\n").some((line) => line.trim() === paneId)
+		? { kind: "present", agentStatus: "unknown" }
+		: { kind: "missing", error: `can't find pane: ${paneId}` };
+}
+
+function parsePaneListError(error: any): PaneInspectionResult {
+	const stderr = typeof error?.stderr === "string" ? error.stderr.trim() : "";
+	return { kind: "unavailable", error: stderr || error?.message || "tmux list-panes failed" };
+}
+
+/**
+ * Tri-state pane inspection: missing only when the server answered without the
+ * pane; a failed query (no server, timeout) is `unavailable`, never evidence of a gone pane.
+ */
+export function inspectTmuxPaneSync(paneId: string): PaneInspectionResult {
+	try {
+		return parsePaneListOutput(tmuxExec(PANE_LIST_ARGS, 5000), paneId);
+	} catch (error) {
+		return parsePaneListError(error);
+	}
+}
+
+export async function inspectTmuxPane(paneId: string): Promise<PaneInspectionResult> {
+	try {
+		return parsePaneListOutput(await tmuxExecAsync(PANE_LIST_ARGS), paneId);
+	} catch (error) {
+		return parsePaneListError(error);
+	}
+}
+
+export function tmuxPaneExists(paneId: string): boolean {
+	return inspectTmuxPaneSync(paneId).kind === "present";
+}
+
+/** Last `lines` lines of the visible screen; capture-pane pads the screen with trailing blank rows. */
+function visibleLines(output: string, lines: number): string {
+	return output.replace(/\s+$/, "").split("\n").slice(-lines).join("\n");
+}
+
+export function readTmuxScreen(paneId: string, lines = 50): string {
+	return visibleLines(tmuxExec(["capture-pane", "-p", "-J", "-t", paneId]), lines);
+}
+
+export async function readTmuxScreenAsync(paneId: string, lines = 50): Promise<string> {
+	return visibleLines(await tmuxExecAsync(["capture-pane", "-p", "-J", "-t", paneId]), lines);
+}
+
+function buildSendCommandArgs(paneId: string, command: string): string[] {
+	// One client invocation: the literal text and Enter reach the server as one command list.
+	return ["send-keys", "-t", paneId, "-l", command, ";", "send-keys", "-t", paneId, "Enter"];
+}
+
+export function sendTmuxCommand(paneId: string, command: string): void {
+	tmuxExec(buildSendCommandArgs(paneId, command));
+}
+
+export function sendTmuxEscape(paneId: string): void {
+	tmuxExec(["send-keys", "-t", paneId, "Escape"]);
+}
+
+/** Select the pane's window, then the pane within it. */
+export function focusTmuxPane(paneId: string): void {
+	tmuxExec(["select-window", "-t", paneId]);
+	tmuxExec(["select-pane", "-t", paneId]);
+}
+
+export function closeTmuxSurface(paneId: string): void {
+	tmuxExec(["kill-pane", "-t", paneId], 5000);
+}
+
+export function renameTmuxWindow(title: string): void {
+	tmuxExec(["rename-window", "-t", getTmuxParentPaneId(), title]);
+}
+
+export function renameTmuxSession(title: string): void {
+	tmuxExec(["rename-session", "-t", getTmuxParentPaneId(), title]);
+}
+
+export const __tmuxTest__ = {
+	buildWindowCreateArgs,
+	buildSplitArgs,
+	buildSendCommandArgs,
+	extractTmuxPaneId,
+	parseTmuxPaneLayout,
+	parsePaneListOutput,
+	parsePaneListError,
+	visibleLines,
+};
@@ -1,6 +1,8 @@
 import type { ExtensionAPI, ExtensionContext } from "@earendil-works/pi-coding-agent";
-import { type AgentDefinition, loadAgentDefinition } from "./agent-definition.ts";
-import { getAdmissionCoordinator } from "./coordinator.ts";
+import { type AgentDefinition, applyAgentVars, loadAgentDefinition } from "./agent-definition.ts";
+import { createSubagentBatch, MAX_BATCH_SIZE } from "./batch.ts";
+import { parseCallBudget } from "./budget.ts";
+import { type AdmissionRequest, getAdmissionCoordinator } from "./coordinator.ts";
 import {
 	deliverBackgroundMessage,
 	isSessionRuntimeUnavailable,
@@ -8,13 +10,38 @@ import {
 	startDeliveryRetry,
 } from "./delivery.ts";
 import { getForegroundDeliveryBarrier } from "./delivery-barrier.ts";
+import {
+	buildDependentTask,
+	knownRunName,
+	recordRunSettlement,
+	runSettlementFromResult,
+	validateDependencies,
+	waitForDependencies,
+} from "./dependencies.ts";
+import { recordUnlaunchedRunHistory } from "./history.ts";
 import { finishLaunchTransaction } from "./launch-transaction.ts";
+import { openRunLedger } from "./ledger.ts";
 import { markDelivery } from "./lifecycle.ts";
-import { resolveRuntimePlan, type ThinkingLevel, wrapPiModelRegistry } from "./runtime-routing.ts";
+import {
+	type RuntimeRequest,
+	resolveFallbackRuntimePlan,
+	resolveRuntimePlan,
+	type ThinkingLevel,
+	wrapPiModelRegistry,
+} from "./runtime-routing.ts";
+import { generateSeedBriefing, type SeedBriefing, type SeedSummaryCompletion } from "./seed-summary.ts";
+import { loadAdmissionLimits } from "./settings.ts";
 import { resolveSelectedSkills, type SelectedSkill } from "./skills.ts";
 import { queuedSubagents, runningSubagents } from "./state.ts";
-import { isTerminalAvailable, terminalSetupHint } from "./terminal.ts";
-import type { QueuedSubagent, RunningSubagent, StableParentContext, SubagentResult } from "./types.ts";
+import { isTerminalAvailable, terminalParentPaneEnv, terminalSetupHint } from "./terminal.ts";
+import type {
+	ModelFallback,
+	QueuedSubagent,
+	RunningSubagent,
+	RunSettlement,
+	StableParentContext,
+	SubagentResult,
+} from "./types.ts";
 
 const THINKING_LEVELS = ["off", "minimal", "low", "medium", "high", "xhigh", "max"] as const;
 
@@ -40,7 +67,11 @@ type ToolExecuteDeps = {
 		runId: string;
 		admissionLease: AdmissionTicket["lease"];
 		projectTrusted: boolean;
+		batchId?: string;
+		modelFallback?: ModelFallback;
+		seedBriefing?: SeedBriefing;
 	}) => Promise<RunningSubagent>;
+	settleBatchMember: (batchId: string, runId: string, result: SubagentResult) => Promise<void>;
 	captureStickyLaunchFailure: (params: {
 		id: string;
 		name: string;
@@ -60,6 +91,7 @@ type ToolExecuteDeps = {
 			admissionClass?: "foreground" | "background";
 			admissionLease?: AdmissionTicket["lease"];
 			projectTrusted?: boolean;
+			seedBriefing?: SeedBriefing;
 		},
 	) => Promise<RunningSubagent>;
 	watchSubagent: (
@@ -80,6 +112,9 @@ type ToolExecuteDeps = {
 	/** Injectable only to exercise the tool path without a live Herdr binary. */
 	isTerminalAvailable?: () => boolean;
 	terminalSetupHint?: () => string;
+	terminalParentPaneEnv?: () => string | undefined;
+	/** Injectable so `seed: summary` is testable without a provider. */
+	completeSeedSummary?: SeedSummaryCompletion;
 };
 
 type CallContext = {
@@ -89,11 +124,18 @@ type CallContext = {
 	ctx: ExtensionContext;
 };
 
-type ResolvedLaunchContext = {
+/** What admission and launch read from the call; a model-fallback relaunch has no live tool call. */
+type AdmissionCall = Pick<CallContext, "params" | "signal">;
+
+export type ResolvedLaunchContext = {
 	stableCtx: StableParentContext;
 	agentDefinition: AgentDefinition;
 	selectedSkills: SelectedSkill[];
 	runtimePlan: RuntimePlan;
+	/** Next usable `model:` chain entry for `model-fallback: relaunch` agents. */
+	fallbackPlan?: RuntimePlan;
+	/** The parent-session briefing a `seed: summary` child starts with. */
+	seedBriefing?: SeedBriefing;
 };
 
 type Admission = {
@@ -104,6 +146,20 @@ type Admission = {
 	runtimePlan: RuntimePlan;
 	ticket: AdmissionTicket;
 	foregroundBarrierLease: ReturnType<ReturnType<typeof getForegroundDeliveryBarrier>["enter"]> | undefined;
+	batchId?: string;
+};
+
+type BatchMember = {
+	params: any;
+	context: ResolvedLaunchContext;
+};
+
+type BatchMemberLaunch = {
+	id: string;
+	name: string;
+	agent: string;
+	status: "started" | "queued" | "failed";
+	error?: string;
 };
 
 export function createToolExecute(deps: ToolExecuteDeps) {
@@ -116,11 +172,17 @@ export function createToolExecute(deps: ToolExecuteDeps) {
 		ctx: ExtensionContext,
 	): Promise<ToolResult> {
 		const call = { pi, params, signal, ctx };
+		const budget = parseCallBudget(params.budget);
+		if ("error" in budget) return toolResult(budget.error, budget.error, true);
+		if (params.batch !== undefined) return executeBatch(deps, call);
 		const resolved = await resolveLaunchContext(deps, call);
 		if ("result" in resolved) return resolved.result;
 		const unavailable = validateExecutionEnvironment(deps, resolved.stableCtx);
 		if (unavailable) return unavailable;
-		return runAdmittedLaunch(deps, call, resolved);
+		const seeded = await attachSeedBriefing(deps, call, resolved);
+		if ("result" in seeded) return seeded.result;
+		if (params.dependsOn !== undefined) return holdDependentLaunch(deps, call, seeded);
+		return runAdmittedLaunch(deps, call, seeded);
 	};
 }
 
@@ -128,22 +190,71 @@ async function resolveLaunchContext(
 	deps: ToolExecuteDeps,
 	call: CallContext,
 ): Promise<ResolvedLaunchContext | { result: ToolResult }> {
-	const stableCtx = deps.snapshotParentContext(call.ctx);
 	try {
-		const agentDefinition = loadAgentDefinition({
-			id: call.params.agent,
-			cwd: stableCtx.cwd,
-			agentDir: stableCtx.agentDir,
-			projectTrusted: stableCtx.projectTrusted,
-		});
-		const runtimePlan = resolveChildRuntimePlan(call.pi, call.ctx, agentDefinition);
-		const selectedSkills = await resolveSelectedSkills({
-			raw: agentDefinition.skills,
+		return await resolveAgentLaunch(call.pi, call.ctx, deps.snapshotParentContext(call.ctx), call.params);
+	} catch (error) {
+		return { result: failureResult(error) };
+	}
+}
+
+/**
+ * Everything a launch resolves before admission: the definition (with `vars`
+ * applied), runtime routing, and skills. Throws the error the tool would report;
+ * `/agents` runs the same checks without launching.
+ */
+export async function resolveAgentLaunch(
+	pi: ExtensionAPI,
+	ctx: ExtensionContext,
+	stableCtx: StableParentContext,
+	params: { agent: unknown; vars?: unknown },
+): Promise<ResolvedLaunchContext> {
+	const agentDefinition = applyAgentVars(
+		loadAgentDefinition({
+			id: params.agent,
 			cwd: stableCtx.cwd,
 			agentDir: stableCtx.agentDir,
 			projectTrusted: stableCtx.projectTrusted,
+		}),
+		params.vars,
+	);
+	const { runtimePlan, fallbackPlan } = resolveChildRuntimePlan(pi, ctx, agentDefinition);
+	const selectedSkills = await resolveSelectedSkills({
+		raw: agentDefinition.skills,
+		cwd: stableCtx.cwd,
+		agentDir: stableCtx.agentDir,
+		projectTrusted: stableCtx.projectTrusted,
+	});
+	return { stableCtx, agentDefinition, selectedSkills, runtimePlan, ...(fallbackPlan ? { fallbackPlan } : {}) };
+}
+
+/**
+ * Summarize the parent for a `seed: summary` agent while the tool call still
+ * has its context; launches, including queued and dependent ones, only carry
+ * the text. `briefings` shares one summary per model across a batch.
+ */
+async function attachSeedBriefing(
+	deps: ToolExecuteDeps,
+	call: CallContext,
+	context: ResolvedLaunchContext,
+	briefings?: Map<string, Promise<SeedBriefing>>,
+): Promise<ResolvedLaunchContext | { result: ToolResult }> {
+	if (context.agentDefinition.seed !== "summary") return context;
+	const generate = () =>
+		generateSeedBriefing({
+			ctx: call.ctx,
+			stableCtx: context.stableCtx,
+			definition: context.agentDefinition,
+			...(call.signal ? { signal: call.signal } : {}),
+			...(deps.completeSeedSummary ? { complete: deps.completeSeedSummary } : {}),
 		});
-		return { stableCtx, agentDefinition, selectedSkills, runtimePlan };
+	try {
+		const key = context.agentDefinition.summaryModel ?? "";
+		let briefing = briefings?.get(key);
+		if (!briefing) {
+			briefing = generate();
+			briefings?.set(key, briefing);
+		}
+		return { ...context, seedBriefing: await briefing };
 	} catch (error) {
 		return { result: failureResult(error) };
 	}
@@ -152,29 +263,31 @@ async function resolveLaunchContext(
 function validateExecutionEnvironment(deps: ToolExecuteDeps, stableCtx: StableParentContext): ToolResult | undefined {
 	if (!(deps.isTerminalAvailable ?? isTerminalAvailable)()) {
 		const hint = (deps.terminalSetupHint ?? terminalSetupHint)();
-		return toolResult(`Subagents require herdr. ${hint}`, "herdr not available");
+		return toolResult(`Subagents require a terminal backend. ${hint}`, "terminal backend not available");
 	}
 	if (!stableCtx.sessionFile) return toolResult("Error: no session file.", "no session file");
-	if (!process.env.HERDR_PANE_ID) return toolResult("Error: HERDR_PANE_ID not set", "missing HERDR_PANE_ID", true);
+	const parentPaneEnv = (deps.terminalParentPaneEnv ?? terminalParentPaneEnv)();
+	if (parentPaneEnv && !process.env[parentPaneEnv])
+		return toolResult(`Error: ${parentPaneEnv} not set`, `missing ${parentPaneEnv}`, true);
 	return undefined;
 }
 
 async function runAdmittedLaunch(
 	deps: ToolExecuteDeps,
-	call: CallContext,
+	call: AdmissionCall,
 	context: ResolvedLaunchContext,
 ): Promise<ToolResult> {
 	const admission = beginAdmission(deps, call, context);
 	const queuedResult = await handleQueuedAdmission(deps, call, context, admission);
 	if (queuedResult) return queuedResult;
-	const cancellation = await awaitAdmission(deps, admission);
+	const cancellation = await awaitAdmission(deps, call, admission);
 	if (cancellation) return cancellation;
 	return launchAdmittedRun(deps, call, context, admission);
 }
 
 async function handleQueuedAdmission(
 	deps: ToolExecuteDeps,
-	call: CallContext,
+	call: AdmissionCall,
 	context: ResolvedLaunchContext,
 	admission: Admission,
 ): Promise<ToolResult | undefined> {
@@ -186,7 +299,7 @@ async function handleQueuedAdmission(
 
 function launchAdmittedRun(
 	deps: ToolExecuteDeps,
-	call: CallContext,
+	call: AdmissionCall,
 	context: ResolvedLaunchContext,
 	admission: Admission,
 ): Promise<ToolResult> {
@@ -197,20 +310,24 @@ function launchAdmittedRun(
 	return runBackgroundLaunch(deps, call.params, context, admission);
 }
 
-function beginAdmission(deps: ToolExecuteDeps, call: CallContext, context: ResolvedLaunchContext): Admission {
+function beginAdmission(
+	deps: ToolExecuteDeps,
+	call: AdmissionCall,
+	context: ResolvedLaunchContext,
+	runId = deps.createRunId(),
+): Admission {
 	const blocking = deps.resolveBlocking(call.params);
 	const admissionClass = blocking ? "foreground" : "background";
-	const runId = deps.createRunId();
 	const parentSessionId = context.stableCtx.sessionId;
 	const foregroundBarrierLease = createForegroundBarrierLease(blocking, parentSessionId, runId);
 	const ticket = requestAdmission(
-		parentSessionId,
-		runId,
-		admissionClass,
-		call.signal,
-		blocking,
+		context,
+		{ id: runId, class: admissionClass, ...admissionOrder(call.params, context) },
+		blocking ? call.signal : undefined,
 		foregroundBarrierLease,
 	);
+	// After the request, so a refused run leaves no ledger entry to report as lost on restart.
+	openAdmissionLedger(call.params, context.stableCtx, runId);
 	return {
 		blocking,
 		admissionClass,
@@ -222,24 +339,41 @@ function beginAdmission(deps: ToolExecuteDeps, call: CallContext, context: Resol
 	};
 }
 
+function openAdmissionLedger(params: any, stableCtx: StableParentContext, runId: string): void {
+	openRunLedger(runId, stableCtx.sessionFile, {
+		name: displayName(params),
+		agent: params.agent,
+		task: params.task,
+		parentSessionId: stableCtx.sessionId,
+		...(params.dependsOn?.length ? { dependsOn: params.dependsOn } : {}),
+		...(params.vars ? { vars: params.vars } : {}),
+	});
+}
+
 function createForegroundBarrierLease(blocking: boolean, parentSessionId: string, runId: string) {
 	return blocking ? getForegroundDeliveryBarrier(parentSessionId).enter(runId) : undefined;
 }
 
+function admissionOrder(params: any, context: ResolvedLaunchContext): Pick<AdmissionRequest, "agent" | "priority"> {
+	const priority = params.priority ?? context.agentDefinition.priority;
+	return { agent: context.agentDefinition.id, ...(priority ? { priority } : {}) };
+}
+
+/** The coordinator for this parent session, with limits re-read from settings for this admission. */
+function configuredCoordinator(stableCtx: StableParentContext) {
+	const coordinator = getAdmissionCoordinator(stableCtx.sessionId);
+	coordinator.configure(loadAdmissionLimits(stableCtx));
+	return coordinator;
+}
+
 function requestAdmission(
-	parentSessionId: string,
-	runId: string,
-	admissionClass: Admission["admissionClass"],
-	signal: any,
-	blocking: boolean,
+	context: ResolvedLaunchContext,
+	request: AdmissionRequest,
+	signal: AbortSignal | undefined,
 	foregroundBarrierLease: Admission["foregroundBarrierLease"],
 ): AdmissionTicket {
 	try {
-		return getAdmissionCoordinator(parentSessionId).request({
-			id: runId,
-			class: admissionClass,
-			...(blocking ? { signal } : {}),
-		});
+		return configuredCoordinator(context.stableCtx).request({ ...request, ...(signal ? { signal } : {}) });
 	} catch (error) {
 		foregroundBarrierLease?.release();
 		throw error;
@@ -250,35 +384,63 @@ function resolveChildRuntimePlan(
 	pi: ExtensionAPI,
 	ctx: ExtensionContext,
 	agentDefinition: AgentDefinition,
-): RuntimePlan {
+): { runtimePlan: RuntimePlan; fallbackPlan?: RuntimePlan } {
 	const thinking = pi.getThinkingLevel();
 	if (!THINKING_LEVELS.includes(thinking as ThinkingLevel))
 		throw new Error(`Unsupported parent thinking level: ${thinking}`);
 	if (!ctx.model) throw new Error("Subagent launch requires a resolved parent model");
-	return resolveRuntimePlan(
-		{},
-		{ model: agentDefinition.model, thinking: agentDefinition.thinking as ThinkingLevel | undefined },
-		{ provider: ctx.model.provider, modelId: ctx.model.id, thinking },
-		wrapPiModelRegistry(ctx.modelRegistry),
-	);
+	const agentDefaults: RuntimeRequest = {
+		model: agentDefinition.model,
+		thinking: agentDefinition.thinking as ThinkingLevel | undefined,
+		...(agentDefinition.modelChain ? { modelChain: agentDefinition.modelChain } : {}),
+	};
+	const parent = { provider: ctx.model.provider, modelId: ctx.model.id, thinking };
+	const registry = wrapPiModelRegistry(ctx.modelRegistry);
+	const runtimePlan = resolveRuntimePlan({}, agentDefaults, parent, registry);
+	if (agentDefinition.modelFallback !== "relaunch") return { runtimePlan };
+	const fallbackPlan = resolveFallbackRuntimePlan(runtimePlan, {}, agentDefaults, parent, registry);
+	return fallbackPlan ? { runtimePlan, fallbackPlan } : { runtimePlan };
+}
+
+/** The context a provider-error relaunch runs with: the fallback plan, recording the failed attempt, and no further fallback. */
+function relaunchContext(
+	context: ResolvedLaunchContext,
+	failed: { runId: string; model: string; error: string },
+): ResolvedLaunchContext | undefined {
+	const plan = context.fallbackPlan;
+	if (!plan?.modelChain) return undefined;
+	const runtimePlan = { ...plan, modelChain: { ...plan.modelChain, relaunchedFrom: failed } };
+	return { ...context, runtimePlan, fallbackPlan: undefined };
+}
+
+/** Background runs relaunch when their result settles; batch members report the failure to their batch. */
+function backgroundModelFallback(
+	deps: ToolExecuteDeps,
+	params: any,
+	context: ResolvedLaunchContext,
+	admission: Admission,
+): { modelFallback?: ModelFallback } {
+	if (!context.fallbackPlan || admission.batchId) return {};
+	return {
+		modelFallback: {
+			runtimePlan: context.fallbackPlan,
+			relaunch: async (failed) => {
+				const relaunch = relaunchContext(context, failed) as ResolvedLaunchContext;
+				const result = await runAdmittedLaunch(deps, { params, signal: undefined }, relaunch);
+				const id = typeof result.details.id === "string" ? result.details.id : undefined;
+				return { ...(id ? { id } : {}), text: result.content.map((part) => part.text).join("\n") };
+			},
+		},
+	};
 }
 
 function queueBackgroundLaunch(
 	deps: ToolExecuteDeps,
-	call: CallContext,
+	call: AdmissionCall,
 	context: ResolvedLaunchContext,
 	admission: Admission,
 ): ToolResult {
-	const entry: QueuedSubagent = {
-		id: admission.runId,
-		name: displayName(call.params),
-		agent: call.params.agent,
-		admissionClass: "background",
-		queuedAt: Date.now(),
-		cancel: () => admission.ticket.lease.cancel(),
-	};
-	queuedSubagents.set(admission.runId, entry);
-	deps.updateWidget();
+	registerQueuedLaunch(deps, call.params, admission);
 	watchQueuedBackgroundAdmission(deps, call.params, context, admission);
 	return {
 		content: [
@@ -306,7 +468,7 @@ function watchQueuedBackgroundAdmission(
 	void admission.ticket.admitted
 		.then(
 			() => startQueuedBackgroundLaunch(deps, params, context, admission),
-			() => rejectQueuedBackgroundLaunch(deps, admission),
+			() => rejectQueuedBackgroundLaunch(deps, params, admission),
 		)
 		.catch((error) => reportQueuedBackgroundFailure(params, context.stableCtx, admission, error))
 		.catch(() => undefined);
@@ -330,46 +492,79 @@ function startQueuedBackgroundLaunch(
 		runId: admission.runId,
 		admissionLease: admission.ticket.lease,
 		projectTrusted: context.stableCtx.projectTrusted,
+		...(admission.batchId ? { batchId: admission.batchId } : {}),
+		...backgroundModelFallback(deps, params, context, admission),
+		...(context.seedBriefing ? { seedBriefing: context.seedBriefing } : {}),
 	});
 }
 
-function rejectQueuedBackgroundLaunch(deps: ToolExecuteDeps, admission: Admission): never {
+function rejectQueuedBackgroundLaunch(deps: ToolExecuteDeps, params: any, admission: Admission): never {
 	queuedSubagents.delete(admission.runId);
 	deps.updateWidget();
+	const result = unlaunchedRunResult(params, "Admission was cancelled before launch.", true);
+	settleUnlaunchedRun(params, admission.runId, admission.parentSessionId, result);
+	if (admission.batchId)
+		void deps.settleBatchMember(admission.batchId, admission.runId, result).catch(() => undefined);
 	throw new Error("Subagent admission cancelled.");
 }
 
+/** Settle a run that never launched so dependents observe it and `/subagents` lists it. */
+function settleUnlaunchedRun(params: any, runId: string, parentSessionId: string, result: SubagentResult): void {
+	recordRunSettlement(runSettlementFromResult(runId, result, parentSessionId));
+	recordUnlaunchedRunHistory(runId, parentSessionId, params, result);
+}
+
+/** Terminal result for a run that never got a pane, so dependents and batches still observe its outcome. */
+function unlaunchedRunResult(params: any, summary: string, cancelled: boolean): SubagentResult {
+	return {
+		name: displayName(params),
+		task: params.task,
+		summary,
+		exitCode: 1,
+		elapsed: 0,
+		...(cancelled ? { error: "cancelled" } : {}),
+	};
+}
+
 async function reportQueuedBackgroundFailure(
 	params: any,
 	stableCtx: StableParentContext,
 	admission: Admission,
 	error: unknown,
 ): Promise<void> {
-	if (admission.ticket.lease.state === "cancelled") return;
-	const message = queuedFailureMessage(params, admission.runId, error);
+	// Batch members report through the aggregated batch result instead.
+	if (admission.ticket.lease.state === "cancelled" || admission.batchId) return;
+	const text = `Queued subagent "${displayName(params)}" [${admission.runId}] failed to launch: ${errorMessage(error)}`;
+	await deliverQueuedNotice(stableCtx, queuedNoticeMessage(params, admission.runId, text));
+}
+
+/** Deliver a notice for a run whose tool call already returned; undelivered notices join the retry queue. */
+async function deliverQueuedNotice(
+	stableCtx: StableParentContext,
+	message: ReturnType<typeof queuedNoticeMessage>,
+): Promise<void> {
 	try {
-		await deliverBackgroundMessage(undefined, admission.parentSessionId, message, {
+		await deliverBackgroundMessage(undefined, stableCtx.sessionId, message, {
 			sessionFile: stableCtx.sessionFile,
-			expectedRunId: admission.runId,
+			expectedRunId: message.details.id,
 		});
 	} catch (deliveryError) {
-		queueQueuedBackgroundFailure(stableCtx, admission, message, deliveryError);
+		queueQueuedNotice(stableCtx, message, deliveryError);
 	}
 }
 
-function queueQueuedBackgroundFailure(
+function queueQueuedNotice(
 	stableCtx: StableParentContext,
-	admission: Admission,
-	message: ReturnType<typeof queuedFailureMessage>,
+	message: ReturnType<typeof queuedNoticeMessage>,
 	error: unknown,
 ): void {
-	if (getForegroundDeliveryBarrier(admission.parentSessionId).isSuppressed()) return;
+	if (getForegroundDeliveryBarrier(stableCtx.sessionId).isSuppressed()) return;
 	queuePendingDeliveryWithVerification(
-		admission.runId,
-		admission.parentSessionId,
+		message.details.id,
+		stableCtx.sessionId,
 		message,
 		error,
-		{ sessionFile: stableCtx.sessionFile, expectedRunId: admission.runId },
+		{ sessionFile: stableCtx.sessionFile, expectedRunId: message.details.id },
 		deliveryAttempt(error),
 	);
 	startDeliveryRetry();
@@ -379,28 +574,39 @@ function deliveryAttempt(error: unknown): number {
 	return isSessionRuntimeUnavailable(error) ? 0 : 1;
 }
 
-function queuedFailureMessage(params: any, runId: string, error: unknown) {
+function queuedNoticeMessage(params: any, runId: string, content: string) {
 	return {
 		customType: "subagent_result",
-		content: `Queued subagent "${displayName(params)}" [${runId}] failed to launch: ${errorMessage(error)}`,
+		content,
 		display: true,
-		details: { id: runId, name: displayName(params), agent: params.agent },
+		details: { id: runId, name: displayName(params), agent: params.agent, exitCode: 1 },
 	};
 }
 
 function queueForegroundLaunch(deps: ToolExecuteDeps, params: any, admission: Admission): void {
-	queuedSubagents.set(admission.runId, {
+	registerQueuedLaunch(deps, params, admission);
+}
+
+function registerQueuedLaunch(deps: ToolExecuteDeps, params: any, admission: Admission): void {
+	const entry: QueuedSubagent = {
 		id: admission.runId,
 		name: displayName(params),
 		agent: params.agent,
-		admissionClass: "foreground",
+		admissionClass: admission.admissionClass,
+		parentSessionId: admission.parentSessionId,
 		queuedAt: Date.now(),
 		cancel: () => admission.ticket.lease.cancel(),
-	});
+		...(admission.batchId ? { batchId: admission.batchId } : {}),
+	};
+	queuedSubagents.set(admission.runId, entry);
 	deps.updateWidget();
 }
 
-async function awaitAdmission(deps: ToolExecuteDeps, admission: Admission): Promise<ToolResult | undefined> {
+async function awaitAdmission(
+	deps: ToolExecuteDeps,
+	call: AdmissionCall,
+	admission: Admission,
+): Promise<ToolResult | undefined> {
 	try {
 		await admission.ticket.admitted;
 		return undefined;
@@ -408,6 +614,8 @@ async function awaitAdmission(deps: ToolExecuteDeps, admission: Admission): Prom
 		queuedSubagents.delete(admission.runId);
 		deps.updateWidget();
 		admission.foregroundBarrierLease?.release();
+		const result = unlaunchedRunResult(call.params, errorMessage(error), true);
+		settleUnlaunchedRun(call.params, admission.runId, admission.parentSessionId, result);
 		return toolResult(errorMessage(error), "cancelled", true, { id: admission.runId, status: "cancelled" });
 	}
 }
@@ -437,6 +645,9 @@ function startBackgroundLaunch(
 		runId: admission.runId,
 		admissionLease: admission.ticket.lease,
 		projectTrusted: context.stableCtx.projectTrusted,
+		...(admission.batchId ? { batchId: admission.batchId } : {}),
+		...backgroundModelFallback(deps, params, context, admission),
+		...(context.seedBriefing ? { seedBriefing: context.seedBriefing } : {}),
 	});
 }
 
@@ -470,14 +681,27 @@ function startedResult(deps: ToolExecuteDeps, params: any, running: RunningSubag
 
 async function runBlockingLaunch(
 	deps: ToolExecuteDeps,
-	call: CallContext,
+	call: AdmissionCall,
 	context: ResolvedLaunchContext,
 	admission: Admission,
 ): Promise<ToolResult> {
 	const running = await launchBlockingRun(deps, call.params, context, admission);
 	const watcherAbort = createBlockingWatcherAbort(call.signal, running);
 	const watcher = startBlockingWatcher(deps, running, watcherAbort, admission.foregroundBarrierLease);
-	return settleBlockingLaunch(deps, running, watcher);
+	return settleBlockingLaunch(deps, call, context, running, watcher);
+}
+
+/** The relaunch's own result, prefixed with the failed attempt it replaces. */
+function relaunchedBlockingResult(failed: ToolResult, relaunched: ToolResult): ToolResult {
+	const failedText = failed.content.map((part) => part.text).join("\n");
+	return {
+		...relaunched,
+		content: [
+			{ type: "text", text: `Model fallback — first attempt failed:\n${failedText}` },
+			...relaunched.content,
+		],
+		details: { ...relaunched.details, relaunchedFrom: failed.details.id },
+	};
 }
 
 async function launchBlockingRun(
@@ -495,11 +719,14 @@ async function launchBlockingRun(
 			admissionClass: admission.admissionClass,
 			admissionLease: admission.ticket.lease,
 			projectTrusted: context.stableCtx.projectTrusted,
+			...(context.seedBriefing ? { seedBriefing: context.seedBriefing } : {}),
 		});
 		running.foregroundBarrierLease = admission.foregroundBarrierLease;
 		running.suppressStatusSteer = true;
 		return running;
 	} catch (error) {
+		const result = unlaunchedRunResult(params, `failed to launch: ${errorMessage(error)}`, false);
+		settleUnlaunchedRun(params, admission.runId, admission.parentSessionId, result);
 		deps.captureStickyLaunchFailure({
 			id: admission.runId,
 			name: displayName(params),
@@ -548,15 +775,26 @@ function startBlockingWatcher(
 
 async function settleBlockingLaunch(
 	deps: ToolExecuteDeps,
+	call: AdmissionCall,
+	context: ResolvedLaunchContext,
 	running: RunningSubagent,
 	watcher: Promise<SubagentResult>,
 ): Promise<ToolResult> {
 	const result = await watcher;
 	completeBlockingRun(deps, running, result);
-	return blockingResult(deps, running, result);
+	const error = result.errorMessage ?? "";
+	const failed = { runId: running.id, model: running.runtimePlan?.model ?? "", error };
+	const relaunch = result.providerError ? relaunchContext(context, failed) : undefined;
+	if (!relaunch) return blockingResult(deps, running, result);
+	return relaunchedBlockingResult(
+		blockingResult(deps, running, result),
+		await runAdmittedLaunch(deps, call, relaunch),
+	);
 }
 
 function completeBlockingRun(deps: ToolExecuteDeps, running: RunningSubagent, result: SubagentResult): void {
+	if (!result.alreadySettled)
+		recordRunSettlement(runSettlementFromResult(running.id, result, running.parentSessionId));
 	running.sessionLease?.transition("finalizing");
 	running.lifecycle = markDelivery(
 		running.lifecycle,
@@ -600,16 +838,308 @@ function blockingResultDetails(
 }
 
 function isTerminalFailure(result: SubagentResult): boolean {
-	if (result.watchAbandoned) return false;
+	if (result.watchAbandoned || result.budgetExceeded) return false;
 	return result.error === "cancelled" || result.exitCode !== 0 || Boolean(result.errorMessage);
 }
 
 function blockingStatus(result: SubagentResult, failed: boolean): string {
 	if (result.watchAbandoned) return "abandoned";
+	if (result.budgetExceeded) return "budget-exceeded";
+	if (result.stalled) return "stalled";
 	if (failed) return "error";
 	return "completed";
 }
 
+/**
+ * Hold a `dependsOn` run outside the admission queue: it occupies no capacity
+ * slot until every predecessor completes, then enters normal background admission.
+ */
+function holdDependentLaunch(deps: ToolExecuteDeps, call: CallContext, context: ResolvedLaunchContext): ToolResult {
+	const invalid = validateDependentParams(call.params, context.stableCtx.sessionId);
+	if (invalid) return toolResult(invalid, invalid, true);
+	const runId = deps.createRunId();
+	const controller = new AbortController();
+	const entry = registerDependentLaunch(deps, call.params, context.stableCtx.sessionId, runId, controller);
+	openAdmissionLedger(call.params, context.stableCtx, runId);
+	void waitForDependencies(call.params.dependsOn, controller.signal, (settlement) =>
+		markPredecessorSettled(deps, entry, settlement.runId),
+	)
+		.then((settlements) => releaseDependentLaunch(deps, call, context, runId, settlements))
+		.catch((error) => cancelDependentLaunch(deps, call.params, context.stableCtx, runId, controller.signal, error))
+		.catch(() => undefined);
+	return dependentQueuedResult(call.params, entry);
+}
+
+function validateDependentParams(params: any, parentSessionId: string): string | undefined {
+	if (params.blocking === true) return "dependsOn runs are background-only; omit blocking.";
+	return validateDependencies(params.dependsOn, parentSessionId);
+}
+
+function registerDependentLaunch(
+	deps: ToolExecuteDeps,
+	params: any,
+	parentSessionId: string,
+	runId: string,
+	controller: AbortController,
+): QueuedSubagent {
+	const entry: QueuedSubagent = {
+		id: runId,
+		name: displayName(params),
+		agent: params.agent,
+		admissionClass: "background",
+		parentSessionId,
+		queuedAt: Date.now(),
+		cancel: () => {
+			if (controller.signal.aborted || queuedSubagents.get(runId) !== entry) return false;
+			controller.abort();
+			return true;
+		},
+		waitingOn: (params.dependsOn as string[]).map((id) => ({ id, name: knownRunName(id, parentSessionId) ?? id })),
+	};
+	queuedSubagents.set(runId, entry);
+	deps.updateWidget();
+	return entry;
+}
+
+function markPredecessorSettled(deps: ToolExecuteDeps, entry: QueuedSubagent, runId: string): void {
+	entry.waitingOn = entry.waitingOn?.filter((predecessor) => predecessor.id !== runId);
+	deps.updateWidget();
+}
+
+async function releaseDependentLaunch(
+	deps: ToolExecuteDeps,
+	call: CallContext,
+	context: ResolvedLaunchContext,
+	runId: string,
+	settlements: RunSettlement[],
+): Promise<void> {
+	const params = { ...call.params, task: buildDependentTask(call.params.task, settlements) };
+	const dependentCall = { ...call, params };
+	const admission = beginAdmission(deps, dependentCall, context, runId);
+	if (admission.ticket.queued) {
+		queueBackgroundLaunch(deps, dependentCall, context, admission);
+		return;
+	}
+	try {
+		await launchAdmittedRun(deps, dependentCall, context, admission);
+	} catch (error) {
+		await reportQueuedBackgroundFailure(params, context.stableCtx, admission, error);
+	}
+}
+
+async function cancelDependentLaunch(
+	deps: ToolExecuteDeps,
+	params: any,
+	stableCtx: StableParentContext,
+	runId: string,
+	signal: AbortSignal,
+	error: unknown,
+): Promise<void> {
+	queuedSubagents.delete(runId);
+	deps.updateWidget();
+	const reason = errorMessage(error);
+	settleUnlaunchedRun(params, runId, stableCtx.sessionId, unlaunchedRunResult(params, reason, true));
+	// User cancellation and parent shutdown are silent, as for any queued run.
+	if (signal.aborted) return;
+	const text = `Queued subagent "${displayName(params)}" [${runId}] was cancelled before launch: ${reason}.`;
+	await deliverQueuedNotice(stableCtx, queuedNoticeMessage(params, runId, text));
+}
+
+function dependentQueuedResult(params: any, entry: QueuedSubagent): ToolResult {
+	const predecessors = (entry.waitingOn ?? []).map((predecessor) => `"${predecessor.name}" [${predecessor.id}]`);
+	return {
+		content: [
+			{
+				type: "text",
+				text:
+					`Sub-agent "${entry.name}" [${entry.id}] is waiting on ${predecessors.join(", ")}; ` +
+					"it will be admitted once they complete and cancelled if any does not. No pane or session has been created.",
+			},
+		],
+		details: {
+			id: entry.id,
+			name: entry.name,
+			agent: params.agent,
+			status: "queued",
+			class: "background",
+			dependsOn: params.dependsOn,
+		},
+	};
+}
+
+async function executeBatch(deps: ToolExecuteDeps, call: CallContext): Promise<ToolResult> {
+	const invalid = validateBatchParams(call.params);
+	if (invalid) return toolResult(invalid, invalid, true);
+	const members = await resolveBatchMembers(deps, call);
+	if ("result" in members) return members.result;
+	const unavailable = validateExecutionEnvironment(deps, members[0].context.stableCtx);
+	if (unavailable) return unavailable;
+	const seeded = await attachBatchSeedBriefings(deps, call, members);
+	if ("result" in seeded) return seeded.result;
+	return launchBatch(deps, seeded);
+}
+
+async function attachBatchSeedBriefings(
+	deps: ToolExecuteDeps,
+	call: CallContext,
+	members: BatchMember[],
+): Promise<BatchMember[] | { result: ToolResult }> {
+	const briefings = new Map<string, Promise<SeedBriefing>>();
+	const seeded: BatchMember[] = [];
+	for (const [index, member] of members.entries()) {
+		const context = await attachSeedBriefing(deps, call, member.context, briefings);
+		if ("result" in context) return { result: batchMemberFailure(index, member.params, context.result) };
+		seeded.push({ ...member, context });
+	}
+	return seeded;
+}
+
+function validateBatchParams(params: any): string | undefined {
+	if (params.agent !== undefined || params.task !== undefined) return "Pass either agent/task or batch, not both.";
+	if (params.blocking === true) return "Batch runs are background-only; omit blocking.";
+	if (params.dependsOn !== undefined) return "dependsOn is not supported with batch.";
+	if (!Array.isArray(params.batch) || params.batch.length === 0 || params.batch.length > MAX_BATCH_SIZE)
+		return `batch must list between 1 and ${MAX_BATCH_SIZE} members.`;
+	return undefined;
+}
+
+/** Resolve every member before admitting any, so one bad entry rejects the whole batch. */
+async function resolveBatchMembers(
+	deps: ToolExecuteDeps,
+	call: CallContext,
+): Promise<BatchMember[] | { result: ToolResult }> {
+	const members: BatchMember[] = [];
+	for (const [index, entry] of (call.params.batch as any[]).entries()) {
+		const params = batchMemberParams(call.params, entry);
+		const context = await resolveLaunchContext(deps, { ...call, params });
+		if ("result" in context) return { result: batchMemberFailure(index, params, context.result) };
+		members.push({ params, context });
+	}
+	return members;
+}
+
+function batchMemberParams(params: any, entry: any): any {
+	const { batch: _batch, ...shared } = params;
+	return {
+		...shared,
+		agent: entry.agent,
+		task: entry.task,
+		...(entry.label ? { label: entry.label } : {}),
+		...(entry.priority ? { priority: entry.priority } : {}),
+		...(entry.vars ? { vars: { ...shared.vars, ...entry.vars } } : {}),
+	};
+}
+
+function batchMemberFailure(index: number, params: any, result: ToolResult): ToolResult {
+	const text = `Batch member ${index + 1} (${JSON.stringify(params.agent)}): ${result.content[0]?.text ?? ""}`;
+	return toolResult(text, text, true);
+}
+
+async function launchBatch(deps: ToolExecuteDeps, members: BatchMember[]): Promise<ToolResult> {
+	const stableCtx = members[0].context.stableCtx;
+	const batchId = deps.createRunId();
+	const runIds = members.map(() => deps.createRunId());
+	let tickets: AdmissionTicket[];
+	try {
+		tickets = configuredCoordinator(stableCtx).requestGroup(
+			members.map((member, index) => ({
+				id: runIds[index],
+				class: "background" as const,
+				...admissionOrder(member.params, member.context),
+			})),
+		);
+	} catch (error) {
+		// requestGroup is all-or-nothing: nothing was admitted, so every member failed.
+		return batchRejectedResult(batchId, members, runIds, error);
+	}
+	createSubagentBatch({
+		id: batchId,
+		parentSessionId: stableCtx.sessionId,
+		parentSessionFile: stableCtx.sessionFile,
+		members: members.map(({ params }, index) => ({
+			runId: runIds[index],
+			name: displayName(params),
+			agent: params.agent,
+			task: params.task,
+		})),
+	});
+	const launches: BatchMemberLaunch[] = [];
+	for (const [index, member] of members.entries()) {
+		openAdmissionLedger(member.params, member.context.stableCtx, runIds[index]);
+		const admission = batchMemberAdmission(member, runIds[index], tickets[index], batchId);
+		launches.push(await launchBatchMember(deps, member, admission));
+	}
+	return batchStartedResult(batchId, launches);
+}
+
+function batchMemberAdmission(member: BatchMember, runId: string, ticket: AdmissionTicket, batchId: string): Admission {
+	return {
+		blocking: false,
+		admissionClass: "background",
+		runId,
+		parentSessionId: member.context.stableCtx.sessionId,
+		runtimePlan: member.context.runtimePlan,
+		ticket,
+		foregroundBarrierLease: undefined,
+		batchId,
+	};
+}
+
+async function launchBatchMember(
+	deps: ToolExecuteDeps,
+	member: BatchMember,
+	admission: Admission,
+): Promise<BatchMemberLaunch> {
+	const launch = { id: admission.runId, name: displayName(member.params), agent: member.params.agent };
+	if (admission.ticket.queued) {
+		registerQueuedLaunch(deps, member.params, admission);
+		watchQueuedBackgroundAdmission(deps, member.params, member.context, admission);
+		return { ...launch, status: "queued" };
+	}
+	deps.clearStickyTerminalsOnAdmission();
+	try {
+		await startBackgroundLaunch(deps, member.params, member.context, admission);
+		return { ...launch, status: "started" };
+	} catch (error) {
+		// startBackgroundSpawn has already released the slot and recorded the member as failed.
+		return { ...launch, status: "failed", error: errorMessage(error) };
+	}
+}
+
+function batchStartedResult(batchId: string, launches: BatchMemberLaunch[]): ToolResult {
+	const count = (status: BatchMemberLaunch["status"]) => launches.filter((entry) => entry.status === status).length;
+	const lines = launches.map(
+		(entry) => `- "${entry.name}" [${entry.id}] ${entry.status}${entry.error ? `: ${entry.error}` : ""}`,
+	);
+	const header =
+		`Subagent batch [${batchId}] admitted ${launches.length} members ` +
+		`(${count("started")} started, ${count("queued")} queued, ${count("failed")} failed to launch); ` +
+		"one aggregated result will arrive automatically when every member settles.";
+	return {
+		content: [{ type: "text", text: [header, ...lines].join("\n") }],
+		details: { id: batchId, status: "batch", class: "background", members: launches },
+	};
+}
+
+function batchRejectedResult(batchId: string, members: BatchMember[], runIds: string[], error: unknown): ToolResult {
+	const reason = errorMessage(error);
+	const launches: BatchMemberLaunch[] = members.map(({ params }, index) => ({
+		id: runIds[index],
+		name: displayName(params),
+		agent: params.agent,
+		status: "failed",
+		error: reason,
+	}));
+	const lines = launches.map((entry) => `- "${entry.name}" [${entry.id}] failed: ${reason}`);
+	return {
+		content: [
+			{ type: "text", text: [`Subagent batch [${batchId}] was not admitted: ${reason}`, ...lines].join("\n") },
+		],
+		details: { id: batchId, status: "batch", class: "background", members: launches, error: reason },
+		isError: true,
+	};
+}
+
 function displayName(params: any): string {
 	return params.label?.trim() || params.agent;
 }
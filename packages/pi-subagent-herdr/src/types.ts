@@ -1,11 +1,16 @@
 import type { SubagentActivityState } from "./activity.ts";
-import type { AdmissionLease } from "./coordinator.ts";
+import type { SubagentArtifact } from "./artifacts.ts";
+import type { BudgetBreach, RunBudget } from "./budget.ts";
+import type { AdmissionLease, AdmissionPriority } from "./coordinator.ts";
 import type { ForegroundBarrierLease } from "./delivery-barrier.ts";
+import type { RunHookReport, RunHooks } from "./hooks.ts";
 import type { LaunchTransaction } from "./launch-transaction.ts";
 import type { LifecycleProjection, PaneInspection, SubagentLifecycle } from "./lifecycle.ts";
 import type { ResolvedRuntimePlan } from "./runtime-routing.ts";
 import type { SessionLease } from "./session-leases.ts";
+import type { StallRecoveryPolicy, StallSettlement } from "./stall-recovery.ts";
 import type { SubagentStatusState } from "./status.ts";
+import type { SubagentUsage } from "./usage.ts";
 
 /** Result from running a single subagent. */
 export interface SubagentResult {
@@ -18,9 +23,31 @@ export interface SubagentResult {
 	error?: string;
 	/** Provider/agent error message when auto-retry exhausted. */
 	errorMessage?: string;
+	/** Structured payload passed to `subagent_done` when the agent declares `result-schema`. */
+	result?: unknown;
+	/** State of the run's isolated worktree when the agent declares `isolation: worktree`. */
+	worktree?: WorktreeReport;
+	/** Cumulative tokens and cost per `provider/model` the child reported. */
+	usage?: SubagentUsage;
+	/** Files the child attached with `subagent_attach`, readable through `subagent_artifact`. */
+	artifacts?: SubagentArtifact[];
+	/** The child was stopped at this hard budget limit. */
+	budgetExceeded?: BudgetBreach;
+	/** The parent stopped the child under its `stall-recovery:` policy. */
+	stalled?: StallSettlement;
+	/** Reports of the `hook-output: attach` hooks that ran at settlement. */
+	hooks?: RunHookReport[];
 	alreadySettled?: boolean;
 	/** Watching stopped without completion evidence; outcome remains unknown. */
 	watchAbandoned?: boolean;
+	/** The child's last assistant turn ended with a provider error (an `error` completion sidecar). */
+	providerError?: boolean;
+}
+
+/** Relaunch on the next `model:` chain entry after a provider error; used at most once per run. */
+export interface ModelFallback {
+	runtimePlan: ResolvedRuntimePlan;
+	relaunch: (failed: { runId: string; model: string; error: string }) => Promise<{ id?: string; text: string }>;
 }
 
 /** State for a launched but not yet completed subagent. */
@@ -28,6 +55,8 @@ export interface RunningSubagent {
 	id: string;
 	name: string;
 	task: string;
+	/** The call's `vars`, kept so a re-run fills the agent body the same way. */
+	vars?: Record<string, string>;
 	agent?: string;
 	parentSessionId?: string;
 	surface: string;
@@ -35,12 +64,16 @@ export interface RunningSubagent {
 	sessionFile: string;
 	launchScriptFile?: string;
 	activityFile?: string;
+	/** Where `subagent_attach` copies the child's artifacts. */
+	artifactsDir?: string;
 	activity?: SubagentActivityState;
 	activityRead?: { ok: boolean; reason?: "missing" | "invalid" | "wrong-id"; error?: string };
 	abortController?: AbortController;
 	statusState?: SubagentStatusState;
 	lifecycle: SubagentLifecycle;
 	lastProjectedKind?: LifecycleProjection["kind"];
+	/** `progressCount` of the last `subagent_progress` note the parent observed. */
+	lastProgressCount?: number;
 	suppressStatusSteer?: boolean;
 	layoutWarning?: string;
 	runtimePlan: ResolvedRuntimePlan | undefined;
@@ -57,6 +90,45 @@ export interface RunningSubagent {
 	completionTimeoutMs?: number;
 	watchAbandoned?: boolean;
 	inspectPaneOverride?: () => Promise<PaneInspection>;
+	/** Owning fan-out batch; member results are aggregated instead of delivered individually. */
+	batchId?: string;
+	/** Dedicated git worktree the child runs in (`isolation: worktree`). */
+	worktree?: RunWorktree;
+	/** Effective limits: the stricter of agent frontmatter and the call's `budget`. */
+	budget?: RunBudget;
+	/** Admission priority: the call's `priority`, else the agent's frontmatter. */
+	priority?: AdmissionPriority;
+	/** The agent's `stall-recovery:` policy; applied by the status tick while the run projects `stalled`. */
+	stallRecovery?: StallRecoveryPolicy;
+	/** `on-complete` / `on-fail` hooks from settings and frontmatter, run once the run settles. */
+	hooks?: RunHooks;
+	/** Set for `model-fallback: relaunch` agents while a later chain entry is usable. */
+	modelFallback?: ModelFallback;
+}
+
+/** A git worktree and branch created for one isolated run. */
+export interface RunWorktree {
+	runId: string;
+	agent: string;
+	repoRoot: string;
+	path: string;
+	branch: string;
+	baseCommit: string;
+	/** Child cwd inside the worktree, mirroring the parent's position in the repository. */
+	cwd: string;
+	createdAt: number;
+}
+
+export interface WorktreeReport {
+	branch: string;
+	path: string;
+	clean: boolean;
+	/** Commits on the branch since the base commit. */
+	commits: number;
+	/** `git diff --stat` of the worktree against the base commit; tracked files only. */
+	diffstat: string;
+	untracked?: boolean;
+	error?: string;
 }
 
 export interface QueuedSubagent {
@@ -64,11 +136,71 @@ export interface QueuedSubagent {
 	name: string;
 	agent: string;
 	admissionClass: "foreground" | "background";
+	parentSessionId?: string;
 	queuedAt: number;
 	cancel: () => boolean;
+	batchId?: string;
+	/** Predecessors that have not settled yet; the run is held (without a capacity slot) until this is empty. */
+	waitingOn?: Array<{ id: string; name: string }>;
+}
+
+export type RunSettlementOutcome = "completed" | "failed" | "cancelled" | "abandoned" | "budget-exceeded" | "stalled";
+
+/** Terminal outcome of a run, kept briefly so later `dependsOn` launches can consume it. */
+export interface RunSettlement {
+	runId: string;
+	/** Parent session that launched the run; `dependsOn` only resolves runs of the same session. */
+	parentSessionId?: string;
+	name: string;
+	outcome: RunSettlementOutcome;
+	summary: string;
+	result?: unknown;
+	settledAt: number;
+}
+
+/** A settled run as listed by `/subagents`, kept per parent session across /reload. */
+export interface RunHistoryEntry {
+	id: string;
+	name: string;
+	agent: string;
+	task: string;
+	vars?: Record<string, string>;
+	parentSessionId: string;
+	startTime: number;
+	elapsed: number;
+	outcome: RunSettlementOutcome;
+	summary: string;
+	/** Absent for runs that were cancelled or failed before they launched. */
+	sessionFile?: string;
+	surface?: string;
+	usage?: SubagentUsage;
+	/** Kept so a re-run launches with the same limits and queue position. */
+	budget?: RunBudget;
+	priority?: AdmissionPriority;
+	settledAt: number;
+}
+
+export type BatchMemberOutcome = "pending" | RunSettlementOutcome;
+
+export interface SubagentBatchMember {
+	runId: string;
+	name: string;
+	agent: string;
+	task: string;
+	outcome: BatchMemberOutcome;
+	result?: SubagentResult;
+}
+
+/** One fan-out `subagent({ batch })` call; delivered as a single aggregated result. */
+export interface SubagentBatch {
+	id: string;
+	parentSessionId: string;
+	parentSessionFile?: string;
+	createdAt: number;
+	members: SubagentBatchMember[];
 }
 
-export type StickyTerminalKind = "failed" | "stopped" | "watch-abandoned";
+export type StickyTerminalKind = "failed" | "stopped" | "watch-abandoned" | "budget-exceeded";
 
 export interface StickyTerminalRun {
 	id: string;
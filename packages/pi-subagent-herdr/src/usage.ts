@@ -0,0 +1,107 @@
+/**
+ * Token and cost accounting shared by the child extension and the parent.
+ *
+ * The child accumulates provider usage per `provider/model` into its activity
+ * sidecar and completion sidecar. Imports nothing local: subagent-done.ts loads
+ * it into every child.
+ */
+
+export interface SubagentModelUsage {
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	/** Provider-reported cost in USD. */
+	cost: number;
+}
+
+/** Cumulative usage keyed by `provider/model`. */
+export type SubagentUsage = Record<string, SubagentModelUsage>;
+
+/** The subset of pi's assistant-message `usage` the child reads. */
+export interface ProviderUsage {
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	cost: { total: number };
+}
+
+const USAGE_FIELDS = ["input", "output", "cacheRead", "cacheWrite", "cost"] as const;
+const MAX_USAGE_MODELS = 32;
+
+function finite(value: unknown): number {
+	return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+export function addProviderUsage(usage: SubagentUsage | undefined, model: string, delta: ProviderUsage): SubagentUsage {
+	const previous = usage?.[model] ?? { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 };
+	return {
+		...usage,
+		[model]: {
+			input: previous.input + finite(delta.input),
+			output: previous.output + finite(delta.output),
+			cacheRead: previous.cacheRead + finite(delta.cacheRead),
+			cacheWrite: previous.cacheWrite + finite(delta.cacheWrite),
+			cost: previous.cost + finite(delta.cost?.total),
+		},
+	};
+}
+
+/** Validate usage read back from a sidecar; returns an error string for the activity validator. */
+export function validateSubagentUsage(value: unknown): string | null {
+	if (value == null) return null;
+	if (typeof value !== "object" || Array.isArray(value)) return "usage must be an object when present";
+	const entries = Object.entries(value);
+	if (entries.length > MAX_USAGE_MODELS) return "usage has too many models";
+	for (const [model, totals] of entries) {
+		if (totals == null || typeof totals !== "object") return `usage for ${model} must be an object`;
+		for (const field of USAGE_FIELDS) {
+			if (!Number.isFinite((totals as Record<string, unknown>)[field])) return `usage.${field} must be finite`;
+		}
+	}
+	return null;
+}
+
+export function parseSubagentUsage(value: unknown): SubagentUsage | undefined {
+	if (value == null || validateSubagentUsage(value) !== null) return undefined;
+	return Object.keys(value as object).length > 0 ? (value as SubagentUsage) : undefined;
+}
+
+export function totalSubagentUsage(usage: SubagentUsage | undefined): SubagentModelUsage {
+	const total = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 };
+	for (const model of Object.values(usage ?? {})) {
+		for (const field of USAGE_FIELDS) total[field] += model[field];
+	}
+	return total;
+}
+
+function formatTokens(tokens: number): string {
+	if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}m`;
+	if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+	return `${Math.round(tokens)}`;
+}
+
+export function formatUsageCost(cost: number): string {
+	if (cost > 0 && cost < 0.001) return "<$0.001";
+	return `$${cost.toFixed(3)}`;
+}
+
+/** `12.3k in · 4.5k out · 80.0k cache · $0.123`; cache is omitted when zero. */
+export function formatModelUsage(usage: SubagentModelUsage): string {
+	const cache = usage.cacheRead + usage.cacheWrite;
+	return [
+		`${formatTokens(usage.input)} in`,
+		`${formatTokens(usage.output)} out`,
+		...(cache > 0 ? [`${formatTokens(cache)} cache`] : []),
+		formatUsageCost(usage.cost),
+	].join(" · ");
+}
+
+/** One total line, plus a line per model when the run used more than one. */
+export function formatSubagentUsage(usage: SubagentUsage): string {
+	const models = Object.entries(usage);
+	const total = `Usage: ${formatModelUsage(totalSubagentUsage(usage))}`;
+	if (models.length <= 1) return models.length === 1 ? `${total} (${models[0][0]})` : total;
+	return [total, ...models.map(([model, totals]) => `  ${model}: ${formatModelUsage(totals)}`)].join("\n");
+}
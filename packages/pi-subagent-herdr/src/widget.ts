@@ -2,15 +2,28 @@ import type { Theme } from "@earendil-works/pi-coding-agent";
 import { keyHint } from "@earendil-works/pi-coding-agent";
 import { Box, Text, truncateToWidth, visibleWidth } from "@earendil-works/pi-tui";
 import type { SubagentActivityState } from "./activity.ts";
+import { formatArtifactSize, type SubagentArtifact } from "./artifacts.ts";
+import { batchProgress } from "./batch.ts";
+import { type BudgetBreach, formatBudgetBreach } from "./budget.ts";
 import { rememberTuiSize } from "./layout.ts";
 import { type LifecycleProjection, projectLifecycle, type SubagentLifecycle } from "./lifecycle.ts";
-import { pendingDeliveries, queuedSubagents, runningSubagents, stickyTerminalRuns } from "./state.ts";
-import type { DeliveryWaitKind, PendingDelivery, QueuedSubagent, RunningSubagent, StickyTerminalRun } from "./types.ts";
+import { formatStallRecoveryNote, formatStallSettlement, type StallSettlement } from "./stall-recovery.ts";
+import { pendingDeliveries, queuedSubagents, runningSubagents, stickyTerminalRuns, subagentBatches } from "./state.ts";
+import type {
+	DeliveryWaitKind,
+	PendingDelivery,
+	QueuedSubagent,
+	RunningSubagent,
+	StickyTerminalRun,
+	SubagentBatch,
+} from "./types.ts";
+import { formatSubagentUsage, formatUsageCost, type SubagentUsage, totalSubagentUsage } from "./usage.ts";
 
 export const MAX_QUEUED_WIDGET_ROWS = 3;
 export const MAX_STICKY_WIDGET_ROWS = 3;
 export const MIN_WIDGET_RUN_ID_LENGTH = 8;
 
+const BUDGET_GLYPH = "⊘";
 const SPINNER_FRAMES = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"] as const;
 
 export function formatElapsed(seconds: number): string {
@@ -120,6 +133,7 @@ interface ActivityTelemetryParts {
 	tokenBase?: string;
 	percent?: string;
 	compactions?: string;
+	cost?: string;
 }
 
 function telemetryParts(activity: SubagentActivityState | undefined, theme: Theme): ActivityTelemetryParts {
@@ -130,6 +144,7 @@ function telemetryParts(activity: SubagentActivityState | undefined, theme: Them
 		tokenBase: activity.contextTokens == null ? undefined : `◈${formatContextTokens(activity.contextTokens)}`,
 		percent: renderContextPercent(activity, theme),
 		compactions: renderCompactionCount(activity, theme),
+		cost: activity.usage ? formatUsageCost(totalSubagentUsage(activity.usage).cost) : undefined,
 	};
 }
 
@@ -165,6 +180,7 @@ function buildTelemetryChunks(parts: ActivityTelemetryParts): string[] {
 	} else if (parts.compactions) {
 		chunks.push(parts.compactions);
 	}
+	if (parts.cost) chunks.push(parts.cost);
 	return chunks;
 }
 
@@ -181,6 +197,7 @@ function fitActivityContent(
 	const fits = () => visibleWidth(`${activityPrefix}${render()}`) <= width;
 	if (!fits()) parts.compactions = undefined;
 	if (!fits()) parts.percent = undefined;
+	if (!fits()) parts.cost = undefined;
 	if (!fits()) parts.tools = undefined;
 	if (!fits()) parts.turns = undefined;
 	return truncateToWidth(`${activityPrefix}${render()}`, width);
@@ -204,13 +221,30 @@ function lifecycleActivityLead(
 ): string | undefined {
 	const runLabel = agent.agent && agent.name !== agent.agent ? sanitizeWidgetText(agent.name).trim() : undefined;
 	const duration = lifecycleStateDuration(projection, now);
+	const recovery = stallRecoveryLead(agent, now);
+	if (recovery) return joinLifecycleLead(recovery, runLabel);
 	if (["starting", "running", "active"].includes(projection.kind)) return runLabel;
 	if (projection.kind === "blocked") return joinLifecycleLead(`blocked${duration}`, runLabel);
-	if (["waiting", "interrupted", "stalled"].includes(projection.kind)) return `${projection.kind}${duration}`;
+	if (projection.kind === "stalled") return `stalled${duration}`;
+	if (["waiting", "interrupted"].includes(projection.kind)) return `${projection.kind}${duration}`;
 	if (["finalizing", "completed", "failed"].includes(projection.kind)) return deliveryLifecycleLead(agent, now);
 	return undefined;
 }
 
+/** `no progress 6m · wake 1/2` once the agent's `stall-recovery:` policy has acted on the current stall. */
+function stallRecoveryLead(agent: RunningSubagent, now: number): string | undefined {
+	const note = formatStallRecoveryNote(agent, now);
+	const since = agent.lifecycle?.progress?.since;
+	return note && since !== undefined ? `no progress ${formatWidgetDuration(now - since)} · ${note}` : undefined;
+}
+
+/** Latest `subagent_progress` note: `40% · Parsed 12 of 30 modules`. */
+function progressLead(activity: SubagentActivityState | undefined): string | undefined {
+	if (!activity?.progressNote) return undefined;
+	const note = sanitizeWidgetText(activity.progressNote).trim();
+	return activity.progressPercent === undefined ? note : `${Math.round(activity.progressPercent)}% · ${note}`;
+}
+
 function lifecycleStateDuration(projection: LifecycleProjection, now: number): string {
 	return projection.stateDurationSince == null ? "" : ` ${formatWidgetDuration(now - projection.stateDurationSince)}`;
 }
@@ -240,11 +274,12 @@ export function renderSubagentWidgetLines(
 	pending: PendingDelivery[] = [],
 	sticky: StickyTerminalRun[] = [],
 	ensureLifecycle: (agent: RunningSubagent) => SubagentLifecycle = (agent) => agent.lifecycle,
+	batches: SubagentBatch[] = [],
 ): string[] {
 	const now = Date.now();
 	const rendered = renderLifecycleProjections(agents, ensureLifecycle, now);
-	const displayRunId = createDisplayRunId(agents, queued, pending, sticky);
-	const items = buildWidgetItems({ rendered, queued, pending, sticky, displayRunId, theme, now });
+	const displayRunId = createDisplayRunId(agents, queued, pending, sticky, batches);
+	const items = buildWidgetItems({ rendered, batches, queued, pending, sticky, displayRunId, theme, now });
 	return [renderWidgetHeader(rendered, queued, pending, theme, width), ...renderWidgetItems(items, width)];
 }
 
@@ -303,10 +338,12 @@ function createDisplayRunId(
 	queued: QueuedSubagent[],
 	pending: PendingDelivery[],
 	sticky: StickyTerminalRun[],
+	batches: SubagentBatch[],
 ): DisplayRunId {
 	const labels = buildWidgetRunIdLabels([
+		...batches.map((batch) => batch.id),
 		...agents.map((agent) => agent.id),
-		...queued.map((entry) => entry.id),
+		...queued.flatMap((entry) => [entry.id, ...(entry.waitingOn ?? []).map((predecessor) => predecessor.id)]),
 		...pending.map((entry) => entry.id),
 		...sticky.map((entry) => entry.id),
 	]);
@@ -315,6 +352,7 @@ function createDisplayRunId(
 
 function buildWidgetItems(params: {
 	rendered: RenderedWidgetRun[];
+	batches: SubagentBatch[];
 	queued: QueuedSubagent[];
 	pending: PendingDelivery[];
 	sticky: StickyTerminalRun[];
@@ -324,6 +362,7 @@ function buildWidgetItems(params: {
 }): WidgetTreeItem[] {
 	const items: WidgetTreeItem[] = [];
 	appendLiveWidgetItems(items, params);
+	for (const batch of params.batches) items.push(batchWidgetItem(batch, params.displayRunId));
 	appendQueuedWidgetItems(items, params.queued, params.displayRunId);
 	appendPendingWidgetItems(items, params.pending, params.displayRunId);
 	appendStickyWidgetItems(items, params.sticky, params.displayRunId, params.theme);
@@ -347,7 +386,10 @@ function appendLiveWidgetItems(
 				}),
 			activity: (available) =>
 				fitActivityContent(
-					lifecycleActivityLead(agent, projection, params.now),
+					joinLifecycleLead(
+						lifecycleActivityLead(agent, projection, params.now) ?? "",
+						progressLead(agent.activity),
+					) || undefined,
 					agent.activity,
 					params.theme,
 					available,
@@ -356,6 +398,18 @@ function appendLiveWidgetItems(
 	}
 }
 
+function batchWidgetItem(batch: SubagentBatch, displayRunId: DisplayRunId): WidgetTreeItem {
+	const progress = batchProgress(batch);
+	const failed = progress.failed > 0 ? ` · ${progress.failed} failed` : "";
+	return {
+		identity: (available) =>
+			truncateToWidth(
+				`⧉ Batch [${displayRunId(batch.id)}] · ${progress.settled}/${progress.total} settled${failed}`,
+				available,
+			),
+	};
+}
+
 function appendQueuedWidgetItems(items: WidgetTreeItem[], queued: QueuedSubagent[], displayRunId: DisplayRunId): void {
 	for (const entry of queued.slice(0, MAX_QUEUED_WIDGET_ROWS)) items.push(queuedWidgetItem(entry, displayRunId));
 	if (queued.length > MAX_QUEUED_WIDGET_ROWS)
@@ -366,12 +420,20 @@ function queuedWidgetItem(entry: QueuedSubagent, displayRunId: DisplayRunId): Wi
 	return {
 		identity: (available) =>
 			truncateToWidth(
-				`◷ ${formatAgentDisplayName(entry.agent, entry.name)} [${displayRunId(entry.id)}] · ${entry.admissionClass} · queued`,
+				`◷ ${formatAgentDisplayName(entry.agent, entry.name)} [${displayRunId(entry.id)}] · ${entry.admissionClass} · ${queuedWaitingCause(entry, displayRunId)}`,
 				available,
 			),
 	};
 }
 
+function queuedWaitingCause(entry: QueuedSubagent, displayRunId: DisplayRunId): string {
+	if (!entry.waitingOn?.length) return "queued";
+	const predecessors = entry.waitingOn.map(
+		(predecessor) => `${sanitizeWidgetText(predecessor.name).trim()} [${displayRunId(predecessor.id)}]`,
+	);
+	return `waiting on ${predecessors.join(", ")}`;
+}
+
 function appendPendingWidgetItems(
 	items: WidgetTreeItem[],
 	pending: PendingDelivery[],
@@ -441,6 +503,7 @@ function stickyWidgetItem(entry: StickyTerminalRun, displayRunId: DisplayRunId,
 
 function stickyGlyph(entry: StickyTerminalRun): string {
 	if (entry.kind === "failed") return "✗";
+	if (entry.kind === "budget-exceeded") return BUDGET_GLYPH;
 	return entry.kind === "stopped" ? "■" : "⚠";
 }
 
@@ -476,11 +539,13 @@ export function renderSubagentWidget(
 		Array.from(pendingDeliveries.values()),
 		Array.from(stickyTerminalRuns.values()),
 		ensureLifecycle,
+		Array.from(subagentBatches.values()),
 	);
 }
 
 export function renderSubagentToolCall(args: any, theme: any) {
 	const partialArgs = args as Record<string, unknown>;
+	if (Array.isArray(partialArgs.batch)) return renderBatchToolCall(partialArgs.batch, theme);
 	const agentId = typeof partialArgs.agent === "string" && partialArgs.agent ? partialArgs.agent : "(agent required)";
 	const name = typeof partialArgs.label === "string" && partialArgs.label ? partialArgs.label : agentId;
 	const task = typeof partialArgs.task === "string" ? partialArgs.task : "";
@@ -497,6 +562,19 @@ export function renderSubagentToolCall(args: any, theme: any) {
 	return new Text(text, 0, 0);
 }
 
+function renderBatchToolCall(batch: unknown[], theme: any): Text {
+	const agents = batch.map((entry: any) =>
+		typeof entry?.label === "string" && entry.label ? entry.label : (entry?.agent ?? "(agent required)"),
+	);
+	const count = `${batch.length} ${batch.length === 1 ? "agent" : "agents"}`;
+	const preview = agents.join(", ");
+	return new Text(
+		`▸ ${theme.fg("toolTitle", theme.bold("batch"))}${theme.fg("dim", ` · ${count}`)}${preview ? `\n${theme.fg("toolOutput", preview.length > 100 ? `${preview.slice(0, 100)}…` : preview)}` : ""}`,
+		0,
+		0,
+	);
+}
+
 export function renderSubagentToolResult(result: any, _opts: any, theme: any) {
 	const details = result.details as any;
 	if (details?.status === "started") return renderStartedToolResult(details, theme);
@@ -525,8 +603,10 @@ function renderBlockingToolResult(result: any, details: any, theme: any): Text {
 function blockingToolPresentation(result: any, details: any, theme: any): { header: string } {
 	const abandoned = details.status === "abandoned";
 	const failed = details.status === "error" || result.isError;
-	const icon = toolResultIcon(abandoned, failed, theme);
-	const status = blockingToolStatus(abandoned, failed);
+	const budget =
+		details.status === "budget-exceeded" ? (details.budgetExceeded as BudgetBreach | undefined) : undefined;
+	const icon = budget ? theme.fg("warning", BUDGET_GLYPH) : toolResultIcon(abandoned, failed, theme);
+	const status = budget ? `${budgetExceededStatus(budget)} (blocking)` : blockingToolStatus(abandoned, failed);
 	const agentTag = details.agent ? theme.fg("dim", ` (${details.agent})`) : "";
 	const runTag = details.id ? theme.fg("dim", ` [${details.id}]`) : "";
 	return {
@@ -539,6 +619,10 @@ function toolResultIcon(abandoned: boolean, failed: boolean, theme: any): string
 	return failed ? theme.fg("error", "✗") : theme.fg("success", "✓");
 }
 
+function budgetExceededStatus(breach: BudgetBreach): string {
+	return `budget exceeded (${formatBudgetBreach(breach)})`;
+}
+
 function blockingToolStatus(abandoned: boolean, failed: boolean): string {
 	if (abandoned) return "watch abandoned (outcome unknown)";
 	return failed ? "failed (blocking)" : "completed (blocking)";
@@ -560,10 +644,18 @@ type ResultMessageDetails = {
 	exitCode?: number;
 	errorMessage?: string;
 	watchAbandoned?: boolean;
+	/** Recovered from the run ledger: still queued when pi exited. */
+	notLaunched?: boolean;
+	budgetExceeded?: BudgetBreach;
+	stalled?: StallSettlement;
 	elapsed?: number;
 	agent?: string;
 	id?: string;
 	sessionFile?: string;
+	usage?: SubagentUsage;
+	artifacts?: SubagentArtifact[];
+	batch?: boolean;
+	members?: Array<{ outcome?: string }>;
 };
 
 type ResultMessagePresentation = {
@@ -589,13 +681,22 @@ function resultMessagePresentation(details: ResultMessageDetails, theme: any): R
 	const name = details.name ?? "subagent";
 	const exitCode = details.exitCode ?? 0;
 	const errorMessage = typeof details.errorMessage === "string" ? details.errorMessage : "";
-	const abandoned = details.watchAbandoned === true;
-	const failed = !abandoned && (exitCode !== 0 || Boolean(errorMessage));
+	const abandoned = details.watchAbandoned === true || details.notLaunched === true;
+	const budget = abandoned ? undefined : details.budgetExceeded;
+	const failed = !abandoned && !budget && (exitCode !== 0 || Boolean(errorMessage));
 	const elapsed = details.elapsed != null ? formatElapsed(details.elapsed) : "?";
-	const icon = toolResultIcon(abandoned, failed, theme);
+	const icon = budget ? theme.fg("warning", BUDGET_GLYPH) : toolResultIcon(abandoned, failed, theme);
 	const agentTag = details.agent ? theme.fg("dim", ` (${details.agent})`) : "";
 	const runTag = details.id ? theme.fg("dim", ` [${details.id}]`) : "";
-	const status = resultMessageStatus(abandoned, failed, errorMessage, exitCode);
+	const status = details.batch
+		? batchResultStatus(details.members ?? [])
+		: budget
+			? budgetExceededStatus(budget)
+			: details.notLaunched
+				? "not launched (pi exited while queued)"
+				: details.stalled
+					? formatStallSettlement(details.stalled)
+					: resultMessageStatus(abandoned, failed, errorMessage, exitCode);
 	return {
 		name,
 		exitCode,
@@ -603,18 +704,32 @@ function resultMessagePresentation(details: ResultMessageDetails, theme: any): R
 		abandoned,
 		failed,
 		elapsed,
-		background: resultMessageBackground(abandoned, failed, theme),
-		header: `${subagentRowHeader(theme, icon, name, agentTag, runTag)} ${theme.fg("dim", "—")} ${status} ${theme.fg("dim", `(${elapsed})`)}`,
+		background: resultMessageBackground(abandoned || Boolean(budget), failed, theme),
+		header: `${subagentRowHeader(theme, icon, name, agentTag, runTag)} ${theme.fg("dim", "—")} ${status} ${theme.fg("dim", `(${resultHeaderStats(elapsed, details)})`)}`,
 		details,
 	};
 }
 
+function resultHeaderStats(elapsed: string, details: ResultMessageDetails): string {
+	const stats = [elapsed];
+	if (details.usage) stats.push(formatUsageCost(totalSubagentUsage(details.usage).cost));
+	const artifacts = details.artifacts?.length ?? 0;
+	if (artifacts > 0) stats.push(`${artifacts} artifact${artifacts === 1 ? "" : "s"}`);
+	return stats.join(" · ");
+}
+
 function resultMessageStatus(abandoned: boolean, failed: boolean, errorMessage: string, exitCode: number): string {
 	if (abandoned) return "watch abandoned (outcome unknown)";
 	if (errorMessage) return "failed (provider/agent error)";
 	return failed ? `failed (exit ${exitCode})` : "completed";
 }
 
+function batchResultStatus(members: Array<{ outcome?: string }>): string {
+	const completed = members.filter((member) => member.outcome === "completed").length;
+	const unsuccessful = members.length - completed;
+	return `${completed}/${members.length} completed${unsuccessful > 0 ? ` · ${unsuccessful} not completed` : ""}`;
+}
+
 function resultMessageBackground(abandoned: boolean, failed: boolean, theme: any): (text: string) => string {
 	if (failed) return (text) => theme.bg("toolErrorBg", text);
 	return abandoned ? (text) => theme.bg("customMessageBg", text) : (text) => theme.bg("toolSuccessBg", text);
@@ -623,9 +738,12 @@ function resultMessageBackground(abandoned: boolean, failed: boolean, theme: any
 function resultMessageSummary(content: unknown, presentation: ResultMessagePresentation): string {
 	return (typeof content === "string" ? content : "")
 		.replace(/\n\nSession log: .+$/, "")
+		.replace(/\n\nArtifacts \(read with subagent_artifact\):(?:\n- [^\n]*)+$/, "")
+		.replace(/^Subagent batch \[[^\]]+\] settled: [^\n]*\n\n/, "")
 		.replace(completedResultPrefix(presentation), "")
 		.replace(failedResultPrefix(presentation), "")
-		.replace(providerFailurePrefix(presentation), "");
+		.replace(providerFailurePrefix(presentation), "")
+		.replace(budgetStopPrefix(presentation), "");
 }
 
 function completedResultPrefix(presentation: ResultMessagePresentation): string {
@@ -648,6 +766,12 @@ function providerFailurePrefix(presentation: ResultMessagePresentation): RegExp
 	);
 }
 
+function budgetStopPrefix(presentation: ResultMessagePresentation): RegExp {
+	const name = escapeRegExp(presentation.name);
+	const id = presentation.details.id ? ` \\[${escapeRegExp(String(presentation.details.id))}\\]` : "";
+	return new RegExp(`^Sub-agent "${name}"${id} stopped at its budget after [^\\n]*\\n\\n`);
+}
+
 function escapeRegExp(value: string): string {
 	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
@@ -673,10 +797,25 @@ function appendExpandedResultLines(
 	width: number,
 ): void {
 	for (const line of summaryLines(summary, width)) lines.push(line);
+	if (details.usage)
+		lines.push("", ...summaryLines(formatSubagentUsage(details.usage), width).map((line) => theme.fg("dim", line)));
+	if (details.artifacts?.length) lines.push("", ...artifactLines(details.artifacts, theme, width));
 	if (!details.sessionFile) return;
 	lines.push("", theme.fg("dim", `Session log: ${details.sessionFile}`));
 }
 
+function artifactLines(artifacts: SubagentArtifact[], theme: any, width: number): string[] {
+	return [
+		theme.fg("dim", "Artifacts:"),
+		...artifacts.map((artifact) =>
+			truncateToWidth(
+				`  ${theme.fg("accent", artifact.name)} ${theme.fg("dim", formatArtifactSize(artifact.size))}`,
+				Math.max(0, width - 6),
+			),
+		),
+	];
+}
+
 function appendCollapsedResultLines(lines: string[], summary: string, theme: any, width: number): void {
 	const preview = summaryLines(summary, width).slice(0, 5);
 	for (const line of preview) lines.push(theme.fg("dim", line));
@@ -0,0 +1,189 @@
+/**
+ * Per-run git worktree isolation.
+ *
+ * Agents declaring `isolation: worktree` run in a dedicated worktree on a
+ * fresh `pi-subagent/<agent>-<run>` branch cut from the parent's HEAD, so
+ * concurrent write-capable runs never share a checkout. Worktrees live under
+ * the repository's common git dir (invisible to `git status`) and stay on disk
+ * after the run settles until `/subagent-worktree merge|discard <run>`.
+ * The registry lives on `runtime` for /reload durability and is rebuilt from
+ * the run ledger when a parent session resumes in a fresh process.
+ */
+import { execFileSync } from "node:child_process";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import type { ExtensionAPI, ExtensionCommandContext } from "@earendil-works/pi-coding-agent";
+import { runWorktrees } from "./state.ts";
+import type { RunWorktree, WorktreeReport } from "./types.ts";
+
+const BRANCH_PREFIX = "pi-subagent";
+
+function git(cwd: string, args: string[]): string {
+	try {
+		return execFileSync("git", ["-C", cwd, ...args], {
+			encoding: "utf8",
+			stdio: ["ignore", "pipe", "pipe"],
+		}).trim();
+	} catch (error: any) {
+		const detail = typeof error?.stderr === "string" && error.stderr.trim() ? error.stderr.trim() : error?.message;
+		throw new Error(`git ${args[0]} failed: ${detail}`);
+	}
+}
+
+function branchSegment(value: string): string {
+	return value.replace(/[^A-Za-z0-9._-]+/g, "-").replace(/^[.-]+|[.-]+$/g, "") || "run";
+}
+
+/**
+ * Where the run's worktree and branch would go, without creating either. The
+ * child's cwd keeps the parent's position inside the repository (a run started
+ * from `repo/pkg` runs in `<worktree>/pkg`).
+ */
+export function planRunWorktree(options: { cwd: string; runId: string; agent: string }): RunWorktree {
+	let repoRoot: string;
+	try {
+		repoRoot = git(options.cwd, ["rev-parse", "--show-toplevel"]);
+	} catch {
+		throw new Error(`isolation: worktree requires a git repository; ${options.cwd} is not inside one.`);
+	}
+	const commonDir = resolve(repoRoot, git(repoRoot, ["rev-parse", "--git-common-dir"]));
+	const name = `${branchSegment(options.agent)}-${branchSegment(options.runId)}`;
+	const branch = `${BRANCH_PREFIX}/${name}`;
+	const path = join(commonDir, "pi-subagent-worktrees", name);
+	const baseCommit = git(repoRoot, ["rev-parse", "HEAD"]);
+	const offset = relative(repoRoot, resolve(options.cwd));
+	return {
+		runId: options.runId,
+		agent: options.agent,
+		repoRoot,
+		path,
+		branch,
+		baseCommit,
+		cwd: offset && !offset.startsWith("..") && !isAbsolute(offset) ? join(path, offset) : path,
+		createdAt: Date.now(),
+	};
+}
+
+/** Create the run's worktree and branch where `planRunWorktree` puts them. */
+export function createRunWorktree(options: { cwd: string; runId: string; agent: string }): RunWorktree {
+	const worktree = planRunWorktree(options);
+	git(worktree.repoRoot, ["worktree", "add", "-b", worktree.branch, worktree.path, worktree.baseCommit]);
+	runWorktrees.set(worktree.runId, worktree);
+	return worktree;
+}
+
+/** Remove the worktree and delete its branch; used for discard and launch rollback. */
+export function removeRunWorktree(worktree: RunWorktree): void {
+	runWorktrees.delete(worktree.runId);
+	git(worktree.repoRoot, ["worktree", "remove", "--force", worktree.path]);
+	git(worktree.repoRoot, ["branch", "-D", worktree.branch]);
+}
+
+/** Branch, diffstat against the base commit (committed and uncommitted), and cleanliness. */
+export function reportRunWorktree(worktree: RunWorktree): WorktreeReport {
+	try {
+		const status = git(worktree.path, ["status", "--porcelain"]);
+		const diffstat = git(worktree.path, ["diff", "--stat", worktree.baseCommit]);
+		const commits = Number(git(worktree.path, ["rev-list", "--count", `${worktree.baseCommit}..HEAD`]));
+		return {
+			branch: worktree.branch,
+			path: worktree.path,
+			clean: status === "",
+			commits,
+			diffstat,
+			...(status.split("\n").some((line) => line.startsWith("??")) ? { untracked: true } : {}),
+		};
+	} catch (error) {
+		return {
+			branch: worktree.branch,
+			path: worktree.path,
+			clean: false,
+			commits: 0,
+			diffstat: "",
+			error: (error as Error).message,
+		};
+	}
+}
+
+export function formatWorktreeReport(report: WorktreeReport): string {
+	const state = report.error
+		? `unreadable (${report.error})`
+		: `${report.clean ? "clean" : "uncommitted changes"}, ${report.commits} commit(s)${report.untracked ? ", untracked files" : ""}`;
+	const diffstat = report.diffstat ? `\n\`\`\`\n${report.diffstat}\n\`\`\`` : "\nNo changes against the base commit.";
+	return `Worktree: branch ${report.branch} (${state})\nPath: ${report.path}${diffstat}`;
+}
+
+/**
+ * Merge the run's branch into the parent checkout's current branch, committing
+ * any uncommitted worktree changes first. A conflicting merge is aborted and
+ * the worktree kept so the user can resolve it by hand.
+ */
+export function mergeRunWorktree(worktree: RunWorktree): string {
+	git(worktree.path, ["add", "-A"]);
+	if (git(worktree.path, ["status", "--porcelain"]) !== "") {
+		git(worktree.path, ["commit", "-m", `Subagent ${worktree.agent} [${worktree.runId}] changes`]);
+	}
+	try {
+		git(worktree.repoRoot, ["merge", "--no-ff", "--no-edit", worktree.branch]);
+	} catch (error) {
+		try {
+			git(worktree.repoRoot, ["merge", "--abort"]);
+		} catch {}
+		throw error;
+	}
+	removeRunWorktree(worktree);
+	return `Merged ${worktree.branch} and removed its worktree.`;
+}
+
+export function discardRunWorktree(worktree: RunWorktree): string {
+	removeRunWorktree(worktree);
+	return `Discarded ${worktree.branch} and its worktree.`;
+}
+
+const WORKTREE_USAGE = "Usage: /subagent-worktree [list | merge <run-id> | discard <run-id>]";
+
+export function runWorktreeCommand(args: string): { text: string; level: "info" | "warning" | "error" } {
+	const [action = "list", runId] = args.trim().split(/\s+/).filter(Boolean);
+	if (action === "list") return { text: listRunWorktrees(), level: "info" };
+	if ((action !== "merge" && action !== "discard") || !runId) return { text: WORKTREE_USAGE, level: "warning" };
+	const worktree = runWorktrees.get(runId) as RunWorktree | undefined;
+	if (!worktree) return { text: `No subagent worktree for run ${JSON.stringify(runId)}.`, level: "warning" };
+	try {
+		return { text: action === "merge" ? mergeRunWorktree(worktree) : discardRunWorktree(worktree), level: "info" };
+	} catch (error) {
+		return { text: `Could not ${action} ${worktree.branch}: ${(error as Error).message}`, level: "error" };
+	}
+}
+
+function listRunWorktrees(): string {
+	const worktrees = Array.from(runWorktrees.values()) as RunWorktree[];
+	if (worktrees.length === 0) return "No subagent worktrees.";
+	return worktrees
+		.map((worktree) => {
+			const report = reportRunWorktree(worktree);
+			return `${worktree.runId}  ${report.branch}  ${report.clean ? "clean" : "dirty"}, ${report.commits} commit(s)`;
+		})
+		.join("\n");
+}
+
+export function registerWorktreeCommand(pi: ExtensionAPI): void {
+	pi.registerCommand("subagent-worktree", {
+		description: "List, merge, or discard git worktrees created for isolation: worktree subagents",
+		getArgumentCompletions: (prefix: string) => worktreeCompletions(prefix),
+		handler: async (args: string, ctx: ExtensionCommandContext) => {
+			const { text, level } = runWorktreeCommand(args);
+			ctx.ui.notify(text, level);
+		},
+	});
+}
+
+function worktreeCompletions(prefix: string) {
+	const [action, partial = ""] = prefix.split(/\s+/);
+	if (action !== "merge" && action !== "discard") {
+		return ["list", "merge", "discard"]
+			.filter((value) => value.startsWith(action ?? ""))
+			.map((value) => ({ value, label: value }));
+	}
+	return Array.from(runWorktrees.keys())
+		.filter((runId) => runId.startsWith(partial))
+		.map((runId) => ({ value: `${action} ${runId}`, label: runId }));
+}
@@ -66,6 +66,25 @@ describe("activity telemetry schema and recorder", () => {
 		assert.equal(read.activity.contextPercent, null);
 	});
 
+	it("accumulates provider usage per model and keeps it across a recorder reload", () => {
+		const activityFile = tempFile();
+		const turn = { input: 1_000, output: 200, cacheRead: 500, cacheWrite: 100, cost: { total: 0.02 } };
+		const recorder = createSubagentActivityRecorder({ runningChildId: "child", activityFile });
+		recorder.sessionStart();
+		recorder.providerUsage("acme/large", turn);
+		recorder.providerUsage("acme/large", turn);
+
+		const reloaded = createSubagentActivityRecorder({ runningChildId: "child", activityFile });
+		reloaded.providerUsage("acme/small", { ...turn, cost: { total: 0.001 } });
+		assert.deepEqual(reloaded.usageTotals(), {
+			"acme/large": { input: 2_000, output: 400, cacheRead: 1_000, cacheWrite: 200, cost: 0.04 },
+			"acme/small": { input: 1_000, output: 200, cacheRead: 500, cacheWrite: 100, cost: 0.001 },
+		});
+		const read = readSubagentActivityFile(activityFile, "child");
+		assert.equal(read.ok, true);
+		if (read.ok) assert.deepEqual(read.activity.usage, reloaded.usageTotals());
+	});
+
 	it("round-trips both old and telemetry-bearing version-1 states and ignores unknown keys", () => {
 		const oldFile = tempFile("old.json");
 		writeSubagentActivityFile(oldFile, baseActivity());
@@ -102,6 +121,11 @@ describe("activity telemetry schema and recorder", () => {
 			["contextWindow", "Infinity", /contextWindow must be finite/],
 			["contextPercent", "84", /contextPercent must be finite/],
 			["compactionCount", 2.25, /compactionCount must be an integer/],
+			[
+				"usage",
+				{ "acme/large": { input: 1, output: 1, cacheRead: 0, cacheWrite: 0 } },
+				/usage.cost must be finite/,
+			],
 		];
 
 		for (const [field, value, expected] of invalidCases) {
@@ -150,12 +174,18 @@ describe("child telemetry event wiring", () => {
 
 		try {
 			subagentDoneExtension(pi as never);
-			assert.deepEqual(registeredTools, ["subagent_done"]);
+			assert.deepEqual(registeredTools, ["subagent_progress", "subagent_attach", "subagent_done"]);
 			handlers.get("session_start")?.({}, ctx);
 			handlers.get("turn_end")?.({ turnIndex: 3 }, ctx);
 			handlers.get("after_provider_response")?.({}, ctx);
 			handlers.get("tool_execution_end")?.({ toolCallId: "t1", toolName: "read" }, ctx);
 			handlers.get("session_compact")?.({}, ctx);
+			const usage = { input: 100, output: 20, cacheRead: 0, cacheWrite: 0, cost: { total: 0.5 } };
+			handlers.get("message_end")?.(
+				{ message: { role: "assistant", provider: "acme", model: "m1", usage } },
+				ctx,
+			);
+			handlers.get("message_end")?.({ message: { role: "user", content: "ignored" } }, ctx);
 
 			assert.equal(samples, 3);
 			const read = readSubagentActivityFile(activityFile, "wired-child");
@@ -167,6 +197,9 @@ describe("child telemetry event wiring", () => {
 			assert.equal(read.activity.contextTokens, 30_000);
 			assert.equal(read.activity.contextWindow, 100_000);
 			assert.equal(read.activity.contextPercent, null);
+			assert.deepEqual(read.activity.usage, {
+				"acme/m1": { input: 100, output: 20, cacheRead: 0, cacheWrite: 0, cost: 0.5 },
+			});
 
 			handlers.get("agent_end")?.({ messages: [{ role: "assistant", stopReason: "aborted" }] }, ctx);
 			handlers.get("agent_settled")?.({}, ctx);
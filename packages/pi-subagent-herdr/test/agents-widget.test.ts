@@ -83,8 +83,9 @@ function render(
 	queued: unknown[] = [],
 	pending: unknown[] = [],
 	sticky: unknown[] = [],
+	batches: unknown[] = [],
 ) {
-	return testApi.renderSubagentWidgetLines(agents, width, plainTheme, queued, pending, sticky);
+	return testApi.renderSubagentWidgetLines(agents, width, plainTheme, queued, pending, sticky, batches);
 }
 
 afterEach(() => {
@@ -118,6 +119,20 @@ describe("agents dashboard rows", () => {
 		assert.match(lines[2], /⎿ {2}adversarial review · ↻5 · ⚙5 · ◈33\.8k \(62% · ⇊2\)/);
 	});
 
+	it("appends the child's running cost and drops it before tool and turn counters when narrow", () => {
+		const usage = { "acme/large": { input: 40_000, output: 2_000, cacheRead: 0, cacheWrite: 0, cost: 0.4567 } };
+		const run = baseRun({
+			id: "c0st",
+			name: "costly review",
+			activity: telemetry({ runningChildId: "c0st", usage }),
+		});
+		const wide = withNow(10_000, () => render([run]));
+		assert.match(wide[2], /◈33\.8k \(62% · ⇊2\) · \$0\.457/);
+		const narrow = withNow(10_000, () => render([run], 46));
+		assert.match(narrow[2], /costly review · ↻5 · ⚙5 · ◈33\.8k/);
+		assert.doesNotMatch(narrow[2], /\$/);
+	});
+
 	it("shows compact widget-only run IDs and expands colliding visible prefixes", () => {
 		const single = withNow(10_000, () =>
 			render([
@@ -223,6 +238,63 @@ describe("agents dashboard rows", () => {
 		assert.doesNotMatch(text, /\x1b\[31m|\nretry/);
 	});
 
+	it("summarizes batch progress in one row alongside its queued members", () => {
+		const member = (runId: string, outcome: string) => ({
+			runId,
+			name: "Review",
+			agent: "reviewer",
+			task: "",
+			outcome,
+		});
+		const batches = [
+			{
+				id: "batch-1",
+				parentSessionId: "parent",
+				createdAt: 0,
+				members: [
+					member("m1", "completed"),
+					member("m2", "failed"),
+					member("m3", "pending"),
+					member("m4", "pending"),
+				],
+			},
+		];
+		const queued = [
+			{
+				id: "m4",
+				name: "Review",
+				agent: "reviewer",
+				admissionClass: "background",
+				queuedAt: 0,
+				batchId: "batch-1",
+				cancel() {
+					return true;
+				},
+			},
+		];
+		const text = render([], 120, queued, [], [], batches).join("\n");
+		assert.match(text, /⧉ Batch \[batch-1\] · 2\/4 settled · 1 failed/);
+		assert.match(text, /◷ Reviewer \[m4\] · background · queued/);
+	});
+
+	it("shows the unsettled predecessors a dependent run is waiting on", () => {
+		const queued = [
+			{
+				id: "dependent",
+				name: "Review",
+				agent: "reviewer",
+				admissionClass: "background",
+				queuedAt: 0,
+				waitingOn: [{ id: "impl-1", name: "implementer" }],
+				cancel() {
+					return true;
+				},
+			},
+		];
+		const text = render([], 120, queued).join("\n");
+		assert.match(text, /◷ Reviewer \[dependent\] · background · waiting on implementer \[impl-1\]/);
+	});
+
 	it("colors utilization tiers through theme tokens, derives absent percent, and dims compactions", () => {
 		const runs = [
 			baseRun({ id: "low", activity: telemetry({ runningChildId: "low", contextPercent: 62 }) }),
@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { loadAgentDefinition } from "../src/agent-definition.ts";
+import { listAgentFiles, listInvalidAgentFiles, registerAgentsCommand } from "../src/agents.ts";
+
+function writeAgent(dir: string, id: string, frontmatter: string, body = "Do the work."): void {
+	mkdirSync(dir, { recursive: true });
+	writeFileSync(join(dir, `${id}.md`), `---\n${frontmatter}\n---\n${body}\n`);
+}
+
+describe("/agents", () => {
+	const dirs: string[] = [];
+
+	function fixture() {
+		const root = mkdtempSync(join(tmpdir(), "subagent-agents-"));
+		dirs.push(root);
+		const cwd = join(root, "project");
+		const agentDir = join(root, "agent");
+		writeAgent(join(agentDir, "agents"), "reviewer", "tools: read\nmodel: acme/global");
+		writeAgent(join(agentDir, "agents"), "broken", "tools: read,");
+		writeAgent(join(agentDir, "agents"), "Not-Canonical", "tools: read");
+		writeAgent(join(cwd, ".pi", "agents"), "reviewer", "tools: read,grep\nmodel: acme/project");
+		writeAgent(join(cwd, ".pi", "agents"), "scoped", "tools: read", "Review {{area}} only.");
+		return { cwd, agentDir };
+	}
+
+	afterEach(() => {
+		for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("lists which definition wins for trusted and untrusted projects", () => {
+		const { cwd, agentDir } = fixture();
+		const trusted = listAgentFiles({ cwd, agentDir, projectTrusted: true });
+		assert.deepEqual(
+			trusted.map((listing) => [listing.id, listing.source, listing.shadowed?.reason]),
+			[
+				["broken", "global", undefined],
+				["reviewer", "project", "overridden"],
+				["scoped", "project", undefined],
+			],
+		);
+		const untrusted = listAgentFiles({ cwd, agentDir, projectTrusted: false });
+		assert.deepEqual(
+			untrusted.map((listing) => [listing.id, listing.source, listing.shadowed?.reason]),
+			[
+				["broken", "global", undefined],
+				["reviewer", "global", "untrusted"],
+			],
+		);
+	});
+
+	it("reports agent files whose names are not canonical IDs", () => {
+		const { cwd, agentDir } = fixture();
+		writeAgent(join(cwd, ".pi", "agents"), "my agent", "tools: read");
+		assert.deepEqual(
+			listInvalidAgentFiles({ cwd, agentDir, projectTrusted: true }).map((invalid) => [
+				invalid.file,
+				invalid.source,
+			]),
+			[
+				["my agent.md", "project"],
+				["Not-Canonical.md", "global"],
+			],
+		);
+		assert.deepEqual(
+			listInvalidAgentFiles({ cwd, agentDir, projectTrusted: false }).map((invalid) => invalid.file),
+			["Not-Canonical.md"],
+		);
+	});
+
+	it("checks every agent through the launch resolver and previews one launch", async () => {
+		const { cwd, agentDir } = fixture();
+		const commands = new Map<string, any>();
+		const resolved: Array<{ agent: string; vars?: Record<string, string> }> = [];
+		const stableCtx = { cwd, agentDir, projectTrusted: true, sessionId: "parent-1", sessionDir: cwd };
+		registerAgentsCommand(
+			{ registerCommand: (name: string, command: any) => commands.set(name, command) } as never,
+			{
+				snapshot: () => stableCtx,
+				resolve: async (_ctx, _stable, params) => {
+					resolved.push(params);
+					const agentDefinition = loadAgentDefinition({
+						id: params.agent,
+						cwd,
+						agentDir,
+						projectTrusted: true,
+					});
+					if (agentDefinition.model === "acme/project") throw new Error('no auth for provider "acme"');
+					return {
+						stableCtx,
+						agentDefinition,
+						selectedSkills: [],
+						runtimePlan: { model: agentDefinition.model } as never,
+					};
+				},
+				preview: (params) => ({
+					runId: "r1",
+					cwd,
+					environment: ["PI_SUBAGENT_AGENT='scoped'"],
+					command: `pi --tools read '${params.task}'`,
+					artifacts: [{ path: "/tmp/sysprompt.md", content: "Review {{area}} only." }],
+				}),
+			},
+		);
+		const notices: Array<{ text: string; level: string }> = [];
+		const edited: string[] = [];
+		const ctx = {
+			hasUI: false,
+			ui: {
+				notify: (text: string, level: string) => notices.push({ text, level }),
+				editor: async (_title: string, text: string) => edited.push(text),
+			},
+		};
+		const command = commands.get("agents");
+
+		await command.handler("", ctx);
+		assert.equal(notices[0].level, "warning");
+		assert.deepEqual(notices[0].text.split("\n"), [
+			'✗ broken (global): Invalid subagent "broken": tools must not contain empty entries.',
+			'✗ reviewer (project, overrides global): no auth for provider "acme"',
+			"✓ scoped (project): inherits parent model · tools read · vars area",
+			'✗ Not-Canonical.md (global): Invalid subagent agent "Not-Canonical". Filenames must be lowercase letters, ' +
+				"digits, `.`, `_`, or `-` (at most 63 characters); no launch can load this file.",
+		]);
+		assert.deepEqual(resolved.at(-1), { agent: "scoped", vars: { area: "{{area}}" } });
+
+		await command.handler("dry-run scoped Check the login form", { ...ctx, hasUI: true });
+		assert.match(edited[0], /^Dry run of scoped: nothing was created/);
+		assert.match(edited[0], /Command:\n {2}pi --tools read 'Check the login form'/);
+		assert.match(edited[0], /File \/tmp\/sysprompt\.md:\nReview \{\{area\}\} only\./);
+
+		await command.handler("dry-run missing", ctx);
+		assert.deepEqual(notices.at(-1), {
+			text: 'Cannot launch missing: Unknown subagent "missing".',
+			level: "error",
+		});
+		assert.deepEqual(command.getArgumentCompletions("dr"), [{ value: "dry-run ", label: "dry-run" }]);
+	});
+});
@@ -0,0 +1,197 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import {
+	attachRunArtifact,
+	formatArtifactSize,
+	getRunArtifactsDir,
+	listRunArtifacts,
+	readRunArtifact,
+} from "../src/artifacts.ts";
+import * as subagentsModule from "../src/index.ts";
+import subagentDoneExtension from "../src/subagent-done.ts";
+import { renderSubagentResultMessage } from "../src/widget.ts";
+import { createPlainWidgetTheme } from "./widget-theme.ts";
+
+const testApi = (subagentsModule as any).__test__;
+
+describe("subagent artifacts", () => {
+	const dirs: string[] = [];
+	const saved = { artifacts: process.env.PI_SUBAGENT_ARTIFACTS_DIR, id: process.env.PI_SUBAGENT_ID };
+
+	function tempDir(): string {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-artifacts-"));
+		dirs.push(dir);
+		return dir;
+	}
+
+	afterEach(() => {
+		for (const [key, value] of [
+			["PI_SUBAGENT_ARTIFACTS_DIR", saved.artifacts],
+			["PI_SUBAGENT_ID", saved.id],
+		] as const) {
+			if (value === undefined) delete process.env[key];
+			else process.env[key] = value;
+		}
+		for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("copies attached files under flat names and lists them with sizes", () => {
+		const cwd = tempDir();
+		const artifactsDir = getRunArtifactsDir(join(cwd, "artifacts"), "r1");
+		writeFileSync(join(cwd, "fix.patch"), "diff --git a/x b/x\n");
+		writeFileSync(join(cwd, "out.log"), "x".repeat(2048));
+
+		assert.deepEqual(attachRunArtifact({ artifactsDir, source: "fix.patch", cwd }), {
+			name: "fix.patch",
+			path: join(artifactsDir, "fix.patch"),
+			size: 19,
+		});
+		attachRunArtifact({ artifactsDir, source: join(cwd, "out.log"), name: "test-run.log", cwd });
+		writeFileSync(join(cwd, "fix.patch"), "diff --git a/y b/y\n+line\n");
+		attachRunArtifact({ artifactsDir, source: "fix.patch", cwd });
+
+		assert.deepEqual(
+			listRunArtifacts(artifactsDir).map((artifact) => [artifact.name, artifact.size]),
+			[
+				["fix.patch", 25],
+				["test-run.log", 2048],
+			],
+		);
+		assert.throws(() => attachRunArtifact({ artifactsDir, source: "missing.txt", cwd }), /no such file/);
+		assert.throws(() => attachRunArtifact({ artifactsDir, source: cwd, cwd }), /not a regular file/);
+		for (const name of ["../escape", ".hidden", "a/b"]) {
+			assert.throws(
+				() => attachRunArtifact({ artifactsDir, source: "fix.patch", name, cwd }),
+				/Invalid artifact name/,
+			);
+		}
+		assert.deepEqual(listRunArtifacts(join(cwd, "nowhere")), []);
+		assert.equal(formatArtifactSize(2048), "2.0 KB");
+	});
+
+	it("reads text artifacts a window of lines at a time and reports binary ones by size", () => {
+		const dir = tempDir();
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(join(dir, "report.md"), `${Array.from({ length: 5 }, (_, i) => `line ${i + 1}`).join("\n")}\n`);
+		writeFileSync(join(dir, "image.png"), Buffer.from([0x89, 0x50, 0x00, 0x01]));
+
+		assert.equal(readRunArtifact(dir, "report.md").text, "line 1\nline 2\nline 3\nline 4\nline 5");
+		assert.equal(
+			readRunArtifact(dir, "report.md", { offset: 2, limit: 2 }).text,
+			"line 2\nline 3\n\n[report.md: lines 2-3 of 5. Continue with offset 4.]",
+		);
+		assert.equal(readRunArtifact(dir, "report.md", { offset: 5 }).text, "line 5\n\n[report.md: lines 5-5 of 5.]");
+		assert.match(readRunArtifact(dir, "image.png").text, /^image\.png is a binary file \(4 B\) at /);
+		assert.deepEqual(readRunArtifact(dir, "nope.txt"), {
+			ok: false,
+			text: 'No artifact named "nope.txt". Available: image.png, report.md.',
+		});
+		assert.equal(
+			readRunArtifact(dir, undefined).text,
+			"Artifacts (read with subagent_artifact):\n- image.png (4 B)\n- report.md (35 B)",
+		);
+	});
+
+	it("cuts a single line over the character budget and says where the rest is", () => {
+		const dir = tempDir();
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(join(dir, "dump.json"), `${"x".repeat(60_000)}\ntail\n`);
+
+		const first = readRunArtifact(dir, "dump.json").text;
+		assert.equal(first.indexOf("\n"), 50_000);
+		assert.equal(
+			first.slice(50_000),
+			`\n\n[dump.json: lines 1-1 of 2. Line 1 is cut at 50000 of 60000 characters; read ${join(dir, "dump.json")} for the rest of it. Continue with offset 2.]`,
+		);
+		assert.equal(readRunArtifact(dir, "dump.json", { offset: 2 }).text, "tail\n\n[dump.json: lines 2-2 of 2.]");
+	});
+
+	it("attaches from the child's subagent_attach tool", async () => {
+		const cwd = tempDir();
+		const artifactsDir = join(cwd, "run-artifacts");
+		writeFileSync(join(cwd, "notes.txt"), "done\n");
+		process.env.PI_SUBAGENT_ID = "attach-child";
+
+		const tools = new Map<string, any>();
+		subagentDoneExtension({
+			on() {},
+			registerShortcut() {},
+			registerTool: (tool: any) => tools.set(tool.name, tool),
+			getAllTools: () => [],
+		} as never);
+		const attach = tools.get("subagent_attach");
+
+		delete process.env.PI_SUBAGENT_ARTIFACTS_DIR;
+		await assert.rejects(attach.execute("c0", { path: "notes.txt" }, undefined, undefined, { cwd }), /unavailable/);
+		process.env.PI_SUBAGENT_ARTIFACTS_DIR = artifactsDir;
+		const result = await attach.execute("c1", { path: "notes.txt", name: "summary.txt" }, undefined, undefined, {
+			cwd,
+		});
+		assert.equal(result.content[0].text, "Attached summary.txt (5 B).");
+		assert.deepEqual(
+			listRunArtifacts(artifactsDir).map((artifact) => artifact.name),
+			["summary.txt"],
+		);
+	});
+
+	it("lists artifacts in the completion text and the rendered result", () => {
+		const artifacts = [{ name: "fix.patch", path: "/tmp/a/fix.patch", size: 4300 }];
+		const result = {
+			exitCode: 0,
+			elapsed: 12,
+			summary: "Patched the parser.",
+			sessionFile: "/tmp/c.jsonl",
+			artifacts,
+		};
+		const text = testApi.resolveResultPresentation(result, "worker", "r1");
+		assert.match(
+			text,
+			/Patched the parser\.\n\nArtifacts \(read with subagent_artifact\):\n- fix\.patch \(4\.2 KB\)\n\nSession log: /,
+		);
+
+		const rendered = renderSubagentResultMessage(
+			{ content: text, details: { name: "worker", id: "r1", ...result } },
+			{ expanded: true },
+			createPlainWidgetTheme(),
+			120,
+		).join("\n");
+		assert.match(rendered, /completed \(12s · 1 artifact\)/);
+		assert.match(rendered, /Artifacts: *\n +fix\.patch 4\.2 KB/);
+		assert.doesNotMatch(rendered, /read with subagent_artifact/);
+	});
+
+	it("reads only runs in this session's artifact directory through subagent_artifact", async () => {
+		const dir = tempDir();
+		const tools = new Map<string, any>();
+		delete process.env.PI_SUBAGENT_ID;
+		subagentsModule.default({
+			on() {},
+			registerTool: (tool: any) => tools.set(tool.name, tool),
+			registerCommand() {},
+			registerMessageRenderer() {},
+		} as never);
+		const ctx = {
+			cwd: dir,
+			isProjectTrusted: () => false,
+			sessionManager: {
+				getSessionFile: () => join(dir, "parent.jsonl"),
+				getSessionId: () => "parent-1",
+				getSessionDir: () => dir,
+			},
+		};
+		const runDir = getRunArtifactsDir(join(dir, "artifacts", "parent-1"), "r1");
+		mkdirSync(runDir, { recursive: true });
+		writeFileSync(join(runDir, "report.md"), "All clear.\n");
+
+		const artifact = tools.get("subagent_artifact");
+		const read = await artifact.execute("c1", { id: "r1", name: "report.md" }, undefined, undefined, ctx);
+		assert.equal(read.content[0].text, "All clear.");
+		assert.deepEqual(read.details, { id: "r1", name: "report.md", size: 11 });
+		const outside = await artifact.execute("c2", { id: "../parent-2", name: "x" }, undefined, undefined, ctx);
+		assert.equal(outside.isError, true);
+		assert.equal(outside.content[0].text, 'Invalid run ID "../parent-2".');
+	});
+});
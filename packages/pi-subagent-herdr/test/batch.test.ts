@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+	batchMemberOutcome,
+	batchProgress,
+	batchResultMessage,
+	createSubagentBatch,
+	formatBatchOutcomeTable,
+	recordBatchMemberOutcome,
+} from "../src/batch.ts";
+import { subagentBatches } from "../src/state.ts";
+import type { SubagentResult } from "../src/types.ts";
+
+function result(overrides: Partial<SubagentResult> = {}): SubagentResult {
+	return { name: "reviewer", task: "Review.", summary: "Looks good.", exitCode: 0, elapsed: 12, ...overrides };
+}
+
+function twoMemberBatch() {
+	return createSubagentBatch({
+		id: "batch-1",
+		parentSessionId: "parent",
+		parentSessionFile: "/tmp/parent.jsonl",
+		members: [
+			{ runId: "run-a", name: "Frontend", agent: "reviewer", task: "Review the UI." },
+			{ runId: "run-b", name: "Backend", agent: "reviewer", task: "Review the API." },
+		],
+	});
+}
+
+describe("subagent batches", () => {
+	afterEach(() => subagentBatches.clear());
+
+	it("classifies member outcomes", () => {
+		assert.equal(batchMemberOutcome(result()), "completed");
+		assert.equal(batchMemberOutcome(result({ exitCode: 1 })), "failed");
+		assert.equal(batchMemberOutcome(result({ errorMessage: "rate limited" })), "failed");
+		assert.equal(batchMemberOutcome(result({ exitCode: 1, error: "cancelled" })), "cancelled");
+		assert.equal(batchMemberOutcome(result({ watchAbandoned: true })), "abandoned");
+	});
+
+	it("returns the batch only when its last member settles, and ignores repeats", () => {
+		const batch = twoMemberBatch();
+		assert.equal(recordBatchMemberOutcome("batch-1", "run-a", result()), undefined);
+		assert.equal(recordBatchMemberOutcome("batch-1", "run-a", result({ exitCode: 1 })), undefined);
+		assert.deepEqual(batchProgress(batch), { settled: 1, failed: 0, total: 2 });
+		assert.equal(recordBatchMemberOutcome("batch-1", "run-b", result({ exitCode: 1, summary: "Crashed." })), batch);
+		assert.equal(subagentBatches.has("batch-1"), false);
+		assert.deepEqual(
+			batch.members.map((member) => member.outcome),
+			["completed", "failed"],
+		);
+		assert.equal(recordBatchMemberOutcome("batch-1", "run-b", result()), undefined);
+	});
+
+	it("renders one table row per member with escaped first-line summaries", () => {
+		const batch = twoMemberBatch();
+		recordBatchMemberOutcome("batch-1", "run-a", result({ summary: "Found a | b\nsecond line" }));
+		assert.equal(
+			formatBatchOutcomeTable(batch),
+			[
+				"| # | Agent | Run | Outcome | Elapsed | Summary |",
+				"|---|---|---|---|---|---|",
+				"| 1 | Frontend | run-a | completed | 12s | Found a \\| b |",
+				"| 2 | Backend | run-b | pending | — |  |",
+			].join("\n"),
+		);
+	});
+
+	it("aggregates member presentations into one subagent_result keyed by the batch ID", () => {
+		const batch = twoMemberBatch();
+		recordBatchMemberOutcome("batch-1", "run-a", result({ result: { verdict: "approve" } }));
+		recordBatchMemberOutcome("batch-1", "run-b", result({ exitCode: 1 }));
+		const message = batchResultMessage(
+			batch,
+			(memberResult, name, runId) => `${name} [${runId}]: ${memberResult.summary}`,
+		);
+		assert.equal(message.customType, "subagent_result");
+		assert.equal(message.details.id, "batch-1");
+		assert.equal(message.details.batch, true);
+		assert.equal(message.details.exitCode, 1);
+		assert.deepEqual(
+			message.details.members.map((member) => [member.id, member.outcome]),
+			[
+				["run-a", "completed"],
+				["run-b", "failed"],
+			],
+		);
+		assert.deepEqual(message.details.members[0].result, { verdict: "approve" });
+		assert.match(message.content, /^Subagent batch \[batch-1\] settled: 1 completed, 1 failed\.\n\n\| # \|/);
+		assert.match(message.content, /Frontend \[run-a\]: Looks good\.\n\nBackend \[run-b\]: Looks good\.$/);
+	});
+});
@@ -0,0 +1,298 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { initTheme } from "@earendil-works/pi-coding-agent";
+import { parseAgentDefinition } from "../src/agent-definition.ts";
+import {
+	createBudgetGuard,
+	findBudgetBreach,
+	formatBudgetBreach,
+	mergeRunBudgets,
+	parseBudgetDuration,
+	parseCallBudget,
+} from "../src/budget.ts";
+import { interpretExitSidecar } from "../src/completion.ts";
+import * as subagentsModule from "../src/index.ts";
+import subagentDoneExtension from "../src/subagent-done.ts";
+import { renderSubagentResultMessage } from "../src/widget.ts";
+import { createPlainWidgetTheme } from "./widget-theme.ts";
+
+initTheme("dark");
+
+function usage(input: number, cost: number) {
+	return { "acme/m1": { input, output: 0, cacheRead: 0, cacheWrite: 0, cost } };
+}
+
+describe("run budgets", () => {
+	it("parses durations and per-call budgets", () => {
+		assert.equal(parseBudgetDuration("90s"), 90_000);
+		assert.equal(parseBudgetDuration("30m"), 1_800_000);
+		assert.equal(parseBudgetDuration("1.5h"), 5_400_000);
+		assert.equal(parseBudgetDuration("45"), 45_000);
+		assert.equal(parseBudgetDuration("0s"), undefined);
+		assert.equal(parseBudgetDuration("soon"), undefined);
+
+		assert.deepEqual(parseCallBudget({ maxTurns: 5, maxTime: "2m" }), {
+			budget: { maxTurns: 5, maxTimeMs: 120_000 },
+		});
+		assert.deepEqual(parseCallBudget(undefined), {});
+		assert.match((parseCallBudget({ maxTime: "later" }) as { error: string }).error, /budget\.maxTime/);
+	});
+
+	it("keeps the stricter limit when agent and call both set one", () => {
+		assert.deepEqual(mergeRunBudgets({ maxTurns: 20, maxCost: 1 }, { maxTurns: 5, maxTokens: 1000 }), {
+			maxTurns: 5,
+			maxTokens: 1000,
+			maxCost: 1,
+		});
+		assert.equal(mergeRunBudgets(undefined, undefined), undefined);
+	});
+
+	it("finds soft and hard breaches across turns, tokens, cost, and time", () => {
+		const budget = { maxTurns: 10, maxTokens: 1000, maxCost: 0.5, maxTimeMs: 60_000 };
+		assert.equal(findBudgetBreach(budget, { turns: 7, usage: usage(700, 0.1), elapsedMs: 1000 }, 0.8), undefined);
+		assert.deepEqual(findBudgetBreach(budget, { turns: 8, elapsedMs: 0 }, 0.8), {
+			limit: "turns",
+			used: 8,
+			max: 10,
+		});
+		assert.deepEqual(findBudgetBreach(budget, { turns: 1, usage: usage(1200, 0.1), elapsedMs: 0 }), {
+			limit: "tokens",
+			used: 1200,
+			max: 1000,
+		});
+		assert.equal(findBudgetBreach(budget, { turns: 1, usage: usage(10, 0.45), elapsedMs: 0 })?.limit, undefined);
+		assert.equal(findBudgetBreach(budget, { turns: 1, usage: usage(10, 0.45), elapsedMs: 0 }, 0.8)?.limit, "cost");
+		assert.equal(findBudgetBreach(budget, { turns: 1, elapsedMs: 60_000 })?.limit, "time");
+		assert.equal(formatBudgetBreach({ limit: "cost", used: 0.52, max: 0.5 }), "max-cost $0.500 (used $0.520)");
+	});
+
+	it("asks once to wrap up, then stops exactly once at the limit", () => {
+		const events: string[] = [];
+		const guard = createBudgetGuard({
+			budget: { maxTurns: 5 },
+			readUsage: () => undefined,
+			onSoft: (breach) => events.push(`soft:${breach.used}`),
+			onHard: (breach) => events.push(`hard:${breach.used}`),
+		});
+		for (let turn = 0; turn < 7; turn += 1) guard.turnEnded();
+		assert.deepEqual(events, ["soft:4", "hard:5"]);
+	});
+
+	it("enforces wall-clock time against the injected clock", () => {
+		let now = 1_000;
+		const events: string[] = [];
+		const guard = createBudgetGuard({
+			budget: { maxTimeMs: 10_000 },
+			readUsage: () => undefined,
+			onSoft: (breach) => events.push(`soft:${breach.limit}`),
+			onHard: (breach) => events.push(`hard:${breach.limit}`),
+			now: () => now,
+		});
+		now += 8_500;
+		guard.check();
+		now += 2_000;
+		guard.check();
+		guard.stop();
+		assert.deepEqual(events, ["soft:time", "hard:time"]);
+	});
+
+	it("counts time from a seeded run start", () => {
+		const events: string[] = [];
+		const guard = createBudgetGuard({
+			budget: { maxTimeMs: 10_000 },
+			readUsage: () => undefined,
+			onSoft: (breach) => events.push(`soft:${breach.used}`),
+			onHard: (breach) => events.push(`hard:${breach.used}`),
+			startedAt: 1_000,
+			now: () => 9_500,
+		});
+		guard.check();
+		guard.stop();
+		assert.deepEqual(events, ["soft:8500"]);
+	});
+
+	it("parses budget frontmatter and rejects malformed limits", () => {
+		const parse = (lines: string) =>
+			parseAgentDefinition(`---\ntools: read\n${lines}\n---\nWork.`, "worker", "/agents/worker.md", "project");
+		assert.deepEqual(parse("max-turns: 20\nmax-tokens: 200000\nmax-cost: $1.50\nmax-time: 30m").budget, {
+			maxTurns: 20,
+			maxTokens: 200_000,
+			maxCost: 1.5,
+			maxTimeMs: 1_800_000,
+		});
+		assert.equal(Boolean(parse("seed: fresh").budget), false);
+		assert.throws(() => parse("max-turns: 2.5"), /max-turns must be a positive integer/);
+		assert.throws(() => parse("max-cost: free"), /max-cost must be a positive number/);
+		assert.throws(() => parse("max-time: forever"), /max-time must be a duration/);
+	});
+
+	it("decodes budget-exceeded sidecars as their own terminal reason", () => {
+		const budget = { limit: "turns", used: 5, max: 5 };
+		assert.deepEqual(
+			interpretExitSidecar({ type: "budget-exceeded", runId: "r1", budget, usage: usage(10, 0.01) }),
+			{
+				reason: "budget-exceeded",
+				exitCode: 1,
+				budgetExceeded: budget,
+				runId: "r1",
+				usage: usage(10, 0.01),
+			},
+		);
+		assert.equal(interpretExitSidecar({ type: "budget-exceeded", budget: { limit: "naps" } }).reason, "error");
+	});
+
+	it("presents a budget stop as a distinct state, not a failure", () => {
+		const result = {
+			exitCode: 1,
+			elapsed: 42,
+			summary: "Fixed two of three call sites.",
+			budgetExceeded: { limit: "turns" as const, used: 5, max: 5 },
+		};
+		const text = (subagentsModule as any).__test__.resolveResultPresentation(result, "worker", "r1");
+		assert.match(text, /^Sub-agent "worker" \[r1\] stopped at its budget after 42s: max-turns 5 \(used 5\)\./);
+		assert.doesNotMatch(text, /failed/);
+
+		const rendered = renderSubagentResultMessage(
+			{ content: text, details: { name: "worker", id: "r1", ...result } },
+			{ expanded: true },
+			createPlainWidgetTheme(),
+			120,
+		).join("\n");
+		assert.match(rendered, /worker \[r1\] — budget exceeded \(max-turns 5 \(used 5\)\)/);
+		assert.match(rendered, /Fixed two of three call sites\./);
+		assert.doesNotMatch(rendered, /stopped at its budget after/);
+	});
+});
+
+describe("child budget enforcement", () => {
+	const dirs: string[] = [];
+	const saved = {
+		budget: process.env.PI_SUBAGENT_BUDGET,
+		session: process.env.PI_SUBAGENT_SESSION,
+		activity: process.env.PI_SUBAGENT_ACTIVITY_FILE,
+		id: process.env.PI_SUBAGENT_ID,
+	};
+
+	afterEach(() => {
+		for (const [key, value] of [
+			["PI_SUBAGENT_BUDGET", saved.budget],
+			["PI_SUBAGENT_SESSION", saved.session],
+			["PI_SUBAGENT_ACTIVITY_FILE", saved.activity],
+			["PI_SUBAGENT_ID", saved.id],
+		] as const) {
+			if (value === undefined) delete process.env[key];
+			else process.env[key] = value;
+		}
+		for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("steers at the soft threshold and writes a budget-exceeded sidecar at the hard one", () => {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-budget-"));
+		dirs.push(dir);
+		const sessionFile = join(dir, "child.jsonl");
+		process.env.PI_SUBAGENT_BUDGET = JSON.stringify({ maxTokens: 1000 });
+		process.env.PI_SUBAGENT_SESSION = sessionFile;
+		process.env.PI_SUBAGENT_ACTIVITY_FILE = join(dir, "activity.json");
+		process.env.PI_SUBAGENT_ID = "budget-child";
+
+		const handlers = new Map<string, Function>();
+		const steers: Array<{ text: string; options: unknown }> = [];
+		let aborted = 0;
+		let shutdown = 0;
+		const pi = {
+			on: (name: string, handler: Function) => handlers.set(name, handler),
+			registerShortcut() {},
+			registerTool() {},
+			getAllTools: () => [],
+			getActiveTools: () => [],
+			sendUserMessage: (text: string, options: unknown) => steers.push({ text, options }),
+		};
+		const ctx = {
+			ui: { setWidget() {} },
+			getContextUsage: () => undefined,
+			abort: () => aborted++,
+			shutdown: () => shutdown++,
+		};
+		const response = (input: number) => ({
+			message: {
+				role: "assistant",
+				provider: "acme",
+				model: "m1",
+				usage: { input, output: 0, cacheRead: 0, cacheWrite: 0, cost: { total: 0 } },
+			},
+		});
+
+		subagentDoneExtension(pi as never);
+		handlers.get("session_start")?.({}, ctx);
+		handlers.get("message_end")?.(response(850), ctx);
+		assert.equal(steers.length, 1);
+		assert.match(steers[0].text, /Wrap up now/);
+		assert.deepEqual(steers[0].options, { deliverAs: "steer" });
+		assert.equal(existsSync(`${sessionFile}.exit`), false);
+
+		handlers.get("message_end")?.(response(200), ctx);
+		const sidecar = JSON.parse(readFileSync(`${sessionFile}.exit`, "utf8"));
+		assert.equal(sidecar.type, "budget-exceeded");
+		assert.equal(sidecar.runId, "budget-child");
+		assert.deepEqual(sidecar.budget, { limit: "tokens", used: 1050, max: 1000 });
+		assert.equal(sidecar.usage["acme/m1"].input, 1050);
+		assert.deepEqual({ aborted, shutdown }, { aborted: 1, shutdown: 1 });
+
+		handlers.get("agent_end")?.({ messages: [{ role: "assistant", stopReason: "aborted" }] }, ctx);
+		assert.equal(JSON.parse(readFileSync(`${sessionFile}.exit`, "utf8")).type, "budget-exceeded");
+		handlers.get("session_shutdown")?.({ reason: "quit" }, ctx);
+	});
+
+	it("keeps the turn count and run start across a child /reload", () => {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-budget-"));
+		dirs.push(dir);
+		const sessionFile = join(dir, "child.jsonl");
+		const activityFile = join(dir, "activity.json");
+		process.env.PI_SUBAGENT_BUDGET = JSON.stringify({ maxTurns: 5 });
+		process.env.PI_SUBAGENT_SESSION = sessionFile;
+		process.env.PI_SUBAGENT_ACTIVITY_FILE = activityFile;
+		process.env.PI_SUBAGENT_ID = "budget-child";
+
+		const steers: string[] = [];
+		const ctx = {
+			ui: { setWidget() {} },
+			getContextUsage: () => undefined,
+			abort() {},
+			shutdown() {},
+		};
+		const load = () => {
+			const handlers = new Map<string, Function>();
+			subagentDoneExtension({
+				on: (name: string, handler: Function) => handlers.set(name, handler),
+				registerShortcut() {},
+				registerTool() {},
+				getAllTools: () => [],
+				getActiveTools: () => [],
+				sendUserMessage: (text: string) => steers.push(text),
+			} as never);
+			handlers.get("session_start")?.({}, ctx);
+			return handlers;
+		};
+
+		const first = load();
+		for (let turn = 0; turn < 3; turn += 1) first.get("turn_end")?.({ turnIndex: turn }, ctx);
+		const startedAt = JSON.parse(readFileSync(activityFile, "utf8")).createdAt;
+		first.get("session_shutdown")?.({ reason: "reload" }, ctx);
+
+		const reloaded = load();
+		assert.equal(JSON.parse(readFileSync(activityFile, "utf8")).createdAt, startedAt);
+		reloaded.get("turn_end")?.({ turnIndex: 0 }, ctx);
+		assert.equal(steers.length, 1);
+		assert.match(steers[0], /Wrap up now/);
+		reloaded.get("turn_end")?.({ turnIndex: 1 }, ctx);
+		assert.deepEqual(JSON.parse(readFileSync(`${sessionFile}.exit`, "utf8")).budget, {
+			limit: "turns",
+			used: 5,
+			max: 5,
+		});
+		reloaded.get("session_shutdown")?.({ reason: "quit" }, ctx);
+	});
+});
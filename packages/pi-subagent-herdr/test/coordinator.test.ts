@@ -1,6 +1,11 @@
 import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { describe, it } from "node:test";
+import { AgentDefinitionError, parseAgentDefinition } from "../src/agent-definition.ts";
 import { AdmissionCoordinator, getAdmissionCoordinator } from "../src/coordinator.ts";
+import { loadAdmissionLimits } from "../src/settings.ts";
 
 function ticket(
 	coordinator: AdmissionCoordinator,
@@ -49,6 +54,44 @@ describe("AdmissionCoordinator", () => {
 		assert.equal((await sixth.admitted).id, "sixth");
 	});
 
+	it("admits a group up to capacity and queues the rest in member order", async () => {
+		const c = new AdmissionCoordinator();
+		const held = ticket(c, "held", "background");
+		const group = c.requestGroup(
+			Array.from({ length: 5 }, (_, i) => ({ id: `member-${i}`, class: "background" as const })),
+		);
+		assert.deepEqual(
+			group.map((entry) => entry.queued),
+			[false, false, false, true, true],
+		);
+		held.lease.release();
+		assert.equal((await group[3].admitted).id, "member-3");
+		group[0].lease.release();
+		assert.equal((await group[4].admitted).id, "member-4");
+	});
+
+	it("rejects a group with a duplicate ID before admitting any member", () => {
+		const c = new AdmissionCoordinator();
+		ticket(c, "taken", "background");
+		assert.throws(
+			() =>
+				c.requestGroup([
+					{ id: "fresh", class: "background" },
+					{ id: "taken", class: "background" },
+				]),
+			/Duplicate subagent run "taken"/,
+		);
+		assert.throws(
+			() =>
+				c.requestGroup([
+					{ id: "twin", class: "background" },
+					{ id: "twin", class: "background" },
+				]),
+			/Duplicate subagent run "twin"/,
+		);
+		assert.deepEqual(c.counts(), { foreground: 0, background: 1, queuedForeground: 0, queuedBackground: 0 });
+	});
+
 	it("cancels queued work including aborted foreground calls without admission", async () => {
 		const c = new AdmissionCoordinator();
 		const first = ticket(c, "first", "foreground");
@@ -170,4 +213,137 @@ describe("AdmissionCoordinator", () => {
 			else globals[key] = previous;
 		}
 	});
+
+	it("orders the queue by priority and keeps FIFO among equals", async () => {
+		const c = new AdmissionCoordinator();
+		const active = Array.from({ length: 4 }, (_, i) => ticket(c, `a-${i}`, "background"));
+		const order: string[] = [];
+		const queued = [
+			c.request({ id: "low", class: "background", priority: "low" }),
+			c.request({ id: "normal-1", class: "background" }),
+			c.request({ id: "high", class: "background", priority: "high" }),
+			c.request({ id: "normal-2", class: "background", priority: "normal" }),
+		];
+		for (const entry of queued) void entry.admitted.then((lease) => order.push(lease.id));
+		for (const entry of active) entry.lease.release();
+		await Promise.all(queued.map((entry) => entry.admitted));
+		assert.deepEqual(order, ["high", "normal-1", "normal-2", "low"]);
+	});
+
+	it("caps an agent across classes while other agents pass it in the queue", async () => {
+		const c = new AdmissionCoordinator();
+		c.configure({ foreground: 1, background: 4, agents: { implementer: 1 } });
+		const first = c.request({ id: "impl-1", class: "background", agent: "implementer" });
+		const second = c.request({ id: "impl-2", class: "background", agent: "implementer" });
+		const blocking = c.request({ id: "impl-fg", class: "foreground", agent: "implementer" });
+		const reviewer = c.request({ id: "rev", class: "background", agent: "reviewer" });
+		assert.deepEqual([first.queued, second.queued, blocking.queued, reviewer.queued], [false, true, true, false]);
+		assert.equal(first.lease.agent, "implementer");
+
+		first.lease.release();
+		assert.equal((await second.admitted).id, "impl-2");
+		assert.equal(blocking.lease.state, "queued");
+		second.lease.release();
+		assert.equal((await blocking.admitted).id, "impl-fg", "the other class is retried on an agent release");
+	});
+
+	it("rejects runs of an agent capped at 0 instead of queueing them forever", () => {
+		const c = new AdmissionCoordinator();
+		c.configure({ foreground: 1, background: 4, agents: { scout: 0 } });
+		assert.throws(
+			() => c.request({ id: "scout-1", class: "foreground", agent: "scout" }),
+			/Subagent "scout" is disabled: its subagentHerdr\.admission\.agents cap is 0/,
+		);
+		assert.throws(
+			() =>
+				c.requestGroup([
+					{ id: "rev", class: "background", agent: "reviewer" },
+					{ id: "scout-2", class: "background", agent: "scout" },
+				]),
+			/"scout" is disabled/,
+		);
+		assert.deepEqual(c.counts(), { foreground: 0, background: 0, queuedForeground: 0, queuedBackground: 0 });
+	});
+
+	it("admits queued work when configure raises a limit", async () => {
+		const c = new AdmissionCoordinator();
+		c.configure({ foreground: 1, background: 1, agents: {} });
+		ticket(c, "a", "background");
+		const waiting = ticket(c, "b", "background");
+		assert.equal(waiting.queued, true);
+		c.configure({ foreground: 1, background: 2, agents: {} });
+		assert.equal((await waiting.admitted).id, "b");
+		assert.deepEqual(c.counts(), { foreground: 0, background: 2, queuedForeground: 0, queuedBackground: 0 });
+	});
+
+	it("upgrades a coordinator from before per-agent caps in place", () => {
+		const globals = globalThis as any;
+		const key = Symbol.for("pi-subagent-herdr/coordinators");
+		const previous = globals[key];
+		const parent = `pre-caps-${Date.now()}`;
+		const old = new AdmissionCoordinator() as any;
+		delete old.activeAgents;
+		old.limits = { foreground: 1, background: 4 };
+		ticket(old, "running", "background");
+		globals[key] = new Map([[parent, old]]);
+		try {
+			const upgraded = getAdmissionCoordinator(parent);
+			assert.equal(upgraded, old);
+			assert.deepEqual(upgraded.limits, { foreground: 1, background: 4, agents: {} });
+			const next = upgraded.request({ id: "next", class: "background", agent: "implementer" });
+			assert.equal(next.queued, false);
+			next.lease.release();
+		} finally {
+			if (previous === undefined) delete globals[key];
+			else globals[key] = previous;
+		}
+	});
+});
+
+describe("admission settings", () => {
+	it("layers trusted project settings over global ones and ignores invalid values", () => {
+		const root = mkdtempSync(join(tmpdir(), "subagent-admission-"));
+		try {
+			const agentDir = join(root, "agent");
+			const cwd = join(root, "project");
+			mkdirSync(agentDir);
+			mkdirSync(join(cwd, ".pi"), { recursive: true });
+			writeFileSync(
+				join(agentDir, "settings.json"),
+				JSON.stringify({
+					theme: "dark",
+					subagentHerdr: { admission: { foreground: 2, background: 6, agents: { implementer: 1, bad: -1 } } },
+				}),
+			);
+			writeFileSync(
+				join(cwd, ".pi", "settings.json"),
+				JSON.stringify({ subagentHerdr: { admission: { background: 0, agents: { reviewer: 2, scout: 0 } } } }),
+			);
+
+			assert.deepEqual(loadAdmissionLimits({ cwd, agentDir, projectTrusted: true }), {
+				foreground: 2,
+				background: 6,
+				agents: { implementer: 1, reviewer: 2, scout: 0 },
+			});
+			assert.deepEqual(loadAdmissionLimits({ cwd, agentDir, projectTrusted: false }).agents, { implementer: 1 });
+			assert.deepEqual(loadAdmissionLimits({ cwd, agentDir: join(root, "missing"), projectTrusted: false }), {
+				foreground: 1,
+				background: 4,
+				agents: {},
+			});
+		} finally {
+			rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it("reads an agent's default priority from frontmatter", () => {
+		const parse = (priority: string) =>
+			parseAgentDefinition(
+				`---\ntools: read\npriority: ${priority}\n---\nWork.`,
+				"implementer",
+				"/agents/implementer.md",
+			);
+		assert.equal(parse("high").priority, "high");
+		assert.throws(() => parse("urgent"), AgentDefinitionError);
+	});
 });
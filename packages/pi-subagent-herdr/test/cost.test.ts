@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { EXTERNAL_COST_CHANNEL, EXTERNAL_COST_SOURCE, recordSubagentUsage, sessionSubagentUsage } from "../src/cost.ts";
+import { activateCompletionRuntime, resetActiveCompletionRuntimeForTest } from "../src/delivery.ts";
+import { subagentUsageBySession } from "../src/state.ts";
+
+function usage(input: number, cost: number) {
+	return { "acme/model-1": { input, output: input / 10, cacheRead: 0, cacheWrite: 0, cost } };
+}
+
+function activateRecordingRuntime(parentSessionId: string): Array<{ channel: string; payload: any }> {
+	const emitted: Array<{ channel: string; payload: any }> = [];
+	const api = { events: { emit: (channel: string, payload: unknown) => emitted.push({ channel, payload }) } };
+	activateCompletionRuntime(api as never, parentSessionId);
+	return emitted;
+}
+
+describe("subagent cost roll-up", () => {
+	afterEach(() => {
+		subagentUsageBySession.clear();
+		resetActiveCompletionRuntimeForTest();
+	});
+
+	it("emits the cumulative session total on cost:external, overwriting per run instead of adding samples", () => {
+		const emitted = activateRecordingRuntime("parent-1");
+		recordSubagentUsage("parent-1", "run-a", usage(1_000, 0.1));
+		recordSubagentUsage("parent-1", "run-a", usage(2_000, 0.2));
+		recordSubagentUsage("parent-1", "run-b", usage(500, 0.05));
+		recordSubagentUsage("parent-1", "run-b", usage(500, 0.05));
+
+		assert.deepEqual(
+			emitted.map(({ channel }) => channel),
+			[EXTERNAL_COST_CHANNEL, EXTERNAL_COST_CHANNEL, EXTERNAL_COST_CHANNEL],
+			"an unchanged total is not re-emitted",
+		);
+		const last = emitted.at(-1)?.payload;
+		assert.equal(last.source, EXTERNAL_COST_SOURCE);
+		assert.equal(last.inputTokens, 2_500);
+		assert.equal(last.outputTokens, 250);
+		assert.ok(Math.abs(last.totalCost - 0.25) < 1e-9);
+	});
+
+	it("keeps sessions apart and stays silent without an active runtime for the session", () => {
+		const emitted = activateRecordingRuntime("parent-1");
+		recordSubagentUsage("other-parent", "run-c", usage(4_000, 1));
+		recordSubagentUsage(undefined, "run-d", usage(4_000, 1));
+
+		assert.equal(emitted.length, 0);
+		assert.equal(sessionSubagentUsage("parent-1").input, 0);
+		assert.equal(sessionSubagentUsage("other-parent").input, 4_000);
+	});
+});
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+	buildDependentTask,
+	knownRunName,
+	recordRunSettlement,
+	runSettlementFromResult,
+	validateDependencies,
+	waitForDependencies,
+} from "../src/dependencies.ts";
+import { queuedSubagents, settledRuns, settlementWaiters } from "../src/state.ts";
+
+function settle(runId: string, outcome: "completed" | "failed" = "completed", summary = `${runId} done.`) {
+	recordRunSettlement({ runId, parentSessionId: "parent", name: `agent-${runId}`, outcome, summary });
+}
+
+describe("run dependencies", () => {
+	afterEach(() => {
+		settledRuns.clear();
+		settlementWaiters.clear();
+	});
+
+	it("resolves in dependsOn order once every predecessor completes", async () => {
+		settle("a");
+		const waiting = waitForDependencies(["b", "a"], new AbortController().signal);
+		settle("b");
+		const settlements = await waiting;
+		assert.deepEqual(
+			settlements.map((entry) => entry.runId),
+			["b", "a"],
+		);
+		assert.equal(settlementWaiters.get("b"), undefined);
+	});
+
+	it("rejects with the failing predecessor as soon as one does not complete", async () => {
+		const waiting = waitForDependencies(["slow", "broken"], new AbortController().signal);
+		settle("broken", "failed");
+		await assert.rejects(waiting, /^Error: predecessor "agent-broken" \[broken\] failed$/);
+		assert.equal(settlementWaiters.get("slow")?.size ?? 0, 0);
+	});
+
+	it("rejects with the standard cancellation error when aborted", async () => {
+		const controller = new AbortController();
+		const waiting = waitForDependencies(["never"], controller.signal);
+		controller.abort();
+		await assert.rejects(waiting, /Subagent admission cancelled\./);
+	});
+
+	it("keeps the first settlement and classifies results like batch members", () => {
+		recordRunSettlement(
+			runSettlementFromResult(
+				"run",
+				{ name: "impl", task: "", summary: "Done.", exitCode: 0, elapsed: 1 },
+				"parent",
+			),
+		);
+		recordRunSettlement(
+			runSettlementFromResult("run", { name: "impl", task: "", summary: "", exitCode: 1, elapsed: 1 }, "parent"),
+		);
+		assert.equal(settledRuns.get("run")?.outcome, "completed");
+		assert.equal(settledRuns.get("run")?.parentSessionId, "parent");
+		const cancelled = runSettlementFromResult(
+			"other",
+			{
+				name: "impl",
+				task: "",
+				summary: "Admission was cancelled before launch.",
+				exitCode: 1,
+				elapsed: 0,
+				error: "cancelled",
+			},
+			undefined,
+		);
+		assert.equal(cancelled.outcome, "cancelled");
+	});
+
+	it("validates run IDs against known runs", () => {
+		settle("known");
+		assert.equal(validateDependencies(["known"], "parent"), undefined);
+		assert.match(validateDependencies([], "parent") ?? "", /between 1 and 8/);
+		assert.equal(validateDependencies(["known", "known"], "parent"), "dependsOn must not repeat a run ID.");
+		assert.match(validateDependencies(["known", "ghost"], "parent") ?? "", /^Unknown dependsOn run "ghost"/);
+	});
+
+	it("only resolves runs launched by the same parent session", () => {
+		settle("mine");
+		queuedSubagents.set("theirs", { id: "theirs", name: "tests", parentSessionId: "other" } as any);
+		try {
+			assert.equal(knownRunName("mine", "parent"), "agent-mine");
+			assert.equal(knownRunName("mine", "other"), undefined);
+			assert.equal(knownRunName("theirs", "other"), "tests");
+			assert.match(validateDependencies(["theirs"], "parent") ?? "", /^Unknown dependsOn run "theirs"/);
+		} finally {
+			queuedSubagents.delete("theirs");
+		}
+	});
+
+	it("templates predecessor results at the placeholder or appends them", () => {
+		const settlements = [
+			{ runId: "a", name: "impl", outcome: "completed" as const, summary: "Added the API.", settledAt: 0 },
+			{
+				runId: "b",
+				name: "schema",
+				outcome: "completed" as const,
+				summary: "",
+				result: { tables: 2 },
+				settledAt: 0,
+			},
+		];
+		const block = [
+			"Predecessor results:",
+			"### impl [a]\n\nAdded the API.",
+			'### schema [b]\n\n(no summary)\n\n```json\n{\n  "tables": 2\n}\n```',
+		].join("\n\n");
+		assert.equal(
+			buildDependentTask("Review this:\n{{predecessors}}\nThanks.", settlements),
+			`Review this:\n${block}\nThanks.`,
+		);
+		assert.equal(buildDependentTask("Review the change.", settlements), `Review the change.\n\n${block}`);
+	});
+});
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { existsSync, readFileSync, rmSync } from "node:fs";
+import { afterEach, describe, it } from "node:test";
+import {
+	captureInvocation,
+	closeHeadlessSurface,
+	createHeadlessSurface,
+	getHeadlessPane,
+	inspectHeadlessPane,
+	readHeadlessScreenAsync,
+	screenFromLog,
+	sendHeadlessCommand,
+} from "../src/headless.ts";
+import { headlessPanes } from "../src/state.ts";
+import { activeTerminalBackend, isTerminalAvailable, terminalParentPaneEnv } from "../src/terminal.ts";
+
+async function waitFor(predicate: () => boolean | Promise<boolean>, timeoutMs = 5000): Promise<void> {
+	const deadline = Date.now() + timeoutMs;
+	while (!(await predicate())) {
+		if (Date.now() > deadline) throw new Error("timed out waiting for headless pane");
+		await new Promise((resolve) => setTimeout(resolve, 25));
+	}
+}
+
+function withBackendEnv(value: string | undefined, run: () => void): void {
+	const previous = process.env.PI_SUBAGENT_BACKEND;
+	if (value === undefined) delete process.env.PI_SUBAGENT_BACKEND;
+	else process.env.PI_SUBAGENT_BACKEND = value;
+	try {
+		run();
+	} finally {
+		if (previous === undefined) delete process.env.PI_SUBAGENT_BACKEND;
+		else process.env.PI_SUBAGENT_BACKEND = previous;
+	}
+}
+
+describe("headless terminal backend", () => {
+	const logs: string[] = [];
+
+	afterEach(() => {
+		for (const id of Array.from(headlessPanes.keys())) closeHeadlessSurface(id);
+		for (const log of logs.splice(0)) rmSync(log, { force: true });
+	});
+
+	function createPane(): string {
+		const id = createHeadlessSurface("reviewer", process.cwd());
+		logs.push(getHeadlessPane(id)?.logFile ?? "");
+		return id;
+	}
+
+	it("runs the first command detached, captures its output and stays present after exit", async () => {
+		const id = createPane();
+		sendHeadlessCommand(id, "read reply; echo steered:$reply");
+		sendHeadlessCommand(id, "continue");
+		await waitFor(async () => (await readHeadlessScreenAsync(id)).includes("steered:continue"));
+		await waitFor(() => getHeadlessPane(id)?.child?.exitCode === 0);
+		assert.deepEqual(inspectHeadlessPane(id), { kind: "present", agentStatus: "unknown" });
+		assert.ok(existsSync(getHeadlessPane(id)?.logFile ?? ""));
+	});
+
+	it("terminates the process group on close, keeps the log and reports the pane missing", async () => {
+		const id = createPane();
+		const pane = getHeadlessPane(id);
+		sendHeadlessCommand(id, "echo started; sleep 30");
+		await waitFor(async () => (await readHeadlessScreenAsync(id)).includes("started"));
+		closeHeadlessSurface(id);
+		assert.equal(inspectHeadlessPane(id).kind, "missing");
+		await waitFor(() => pane?.child?.exitCode !== null || pane?.child?.signalCode !== null);
+		assert.match(readFileSync(pane?.logFile ?? "", "utf8"), /started/);
+	});
+
+	it("reduces a PTY transcript to its last printable lines", () => {
+		const raw = "\x1b]0;title\x07first\r\n\x1b[32mgreen\x1b[0m\r\nprogress 10%\rprogress 99%\r\n";
+		assert.equal(screenFromLog(raw, 3), "green\nprogress 99%\n");
+	});
+
+	it("captures through script(1) when available and falls back to plain pipes", () => {
+		assert.deepEqual(captureInvocation("bash run.sh", "/tmp/pane.log", "linux", true), {
+			file: "script",
+			args: ["-q", "-f", "-e", "-c", "bash run.sh", "/tmp/pane.log"],
+			pty: true,
+		});
+		assert.equal(captureInvocation("bash run.sh", "/tmp/pane.log", "darwin", true).args[2], "/tmp/pane.log");
+		assert.deepEqual(captureInvocation("bash run.sh", "/tmp/pane.log", "linux", false), {
+			file: "bash",
+			args: ["-c", "bash run.sh"],
+			pty: false,
+		});
+	});
+
+	it("selects the backend from PI_SUBAGENT_BACKEND and rejects unknown names", () => {
+		withBackendEnv("headless", () => {
+			assert.equal(activeTerminalBackend().name, "headless");
+			assert.equal(terminalParentPaneEnv(), undefined);
+		});
+		withBackendEnv("tmux", () => assert.equal(terminalParentPaneEnv(), "TMUX_PANE"));
+		withBackendEnv("screen", () => {
+			assert.equal(isTerminalAvailable(), false);
+			assert.throws(() => activeTerminalBackend(), /Set PI_SUBAGENT_BACKEND to one of: herdr, tmux, headless\./);
+		});
+	});
+});
@@ -0,0 +1,233 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import {
+	formatRunRow,
+	listSubagentRuns,
+	recordRunHistory,
+	recordUnlaunchedRunHistory,
+	registerSubagentsCommand,
+	runActions,
+	runSubagentAction,
+} from "../src/history.ts";
+import { formatSessionTranscript } from "../src/session.ts";
+import { queuedSubagents, runHistory, runningSubagents } from "../src/state.ts";
+
+const usage = { "acme/m1": { input: 100, output: 10, cacheRead: 0, cacheWrite: 0, cost: 0.042 } };
+
+function running(id: string, overrides: Record<string, unknown> = {}): any {
+	return {
+		id,
+		name: "auth",
+		agent: "reviewer",
+		task: "Review auth",
+		parentSessionId: "parent-1",
+		startTime: 1_000,
+		sessionFile: "/nonexistent/child.jsonl",
+		...overrides,
+	};
+}
+
+function settle(id: string, result: Record<string, unknown>, settledAt: number, overrides = {}): void {
+	recordRunHistory(
+		running(id, overrides),
+		{ name: "auth", task: "Review auth", summary: "Done.", exitCode: 0, elapsed: 65, ...result },
+		settledAt,
+	);
+}
+
+function commandContext(selections: Array<string | undefined>, sessionId = "parent-1") {
+	const notices: Array<{ text: string; level: string }> = [];
+	const titles: string[] = [];
+	const ctx = {
+		hasUI: true,
+		sessionManager: { getSessionId: () => sessionId },
+		ui: {
+			notify: (text: string, level: string) => notices.push({ text, level }),
+			select: async (title: string, options: string[]) => {
+				titles.push(title);
+				const selection = selections.shift();
+				return selection === undefined ? undefined : options.find((option) => option.includes(selection));
+			},
+			editor: async () => undefined,
+		},
+	};
+	return { ctx, notices, titles };
+}
+
+describe("/subagents history", () => {
+	const dirs: string[] = [];
+
+	afterEach(() => {
+		runHistory.clear();
+		runningSubagents.clear();
+		queuedSubagents.clear();
+		for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("lists running, queued, then settled runs newest first for the current session only", () => {
+		settle("old", {}, 2_000);
+		settle("new", { exitCode: 1, errorMessage: "boom", usage }, 3_000);
+		settle("other", {}, 4_000, { parentSessionId: "parent-2" });
+		runningSubagents.set("live", running("live", { activity: { usage } }));
+		queuedSubagents.set("wait", {
+			id: "wait",
+			name: "tester",
+			agent: "tester",
+			admissionClass: "background",
+			parentSessionId: "parent-1",
+			queuedAt: 5_000,
+			cancel: () => true,
+			waitingOn: [{ id: "live", name: "auth" }],
+		});
+
+		const rows = listSubagentRuns("parent-1");
+		assert.deepEqual(
+			rows.map((row) => `${row.kind}:${row.run.id}`),
+			["running:live", "queued:wait", "settled:new", "settled:old"],
+		);
+		assert.equal(formatRunRow(rows[2]), 'failed           reviewer "auth" [new]  1m 5s  $0.042');
+		assert.equal(formatRunRow(rows[1], 7_000), "waiting          tester [wait]  2s");
+		assert.equal(formatRunRow(rows[0], 11_000), 'running          reviewer "auth" [live]  10s  $0.042');
+		assert.equal(runHistory.get("new").summary, "boom");
+	});
+
+	it("keeps a bounded history and ignores repeated settlements", () => {
+		for (let index = 0; index < 105; index += 1) settle(`r${index}`, {}, index);
+		assert.equal(runHistory.size, 100);
+		assert.equal(runHistory.has("r4"), false);
+		recordRunHistory(running("r104"), {
+			name: "auth",
+			task: "x",
+			summary: "again",
+			exitCode: 0,
+			elapsed: 1,
+			alreadySettled: true,
+		});
+		assert.equal(runHistory.get("r104").summary, "Done.");
+	});
+
+	it("offers actions that fit the run's state", () => {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-history-"));
+		dirs.push(dir);
+		const sessionFile = join(dir, "child.jsonl");
+		writeFileSync(sessionFile, "");
+		settle("done", {}, 1, { sessionFile });
+		const [settled] = listSubagentRuns("parent-1");
+		assert.deepEqual(runActions(settled), ["transcript", "rerun", "copy"]);
+		assert.deepEqual(runActions({ kind: "queued", run: { cancel: () => true } as any }), ["cancel"]);
+	});
+
+	it("re-runs a settled run with its agent, task, and label", async () => {
+		settle("done", {}, 1);
+		const [row] = listSubagentRuns("parent-1");
+		const calls: unknown[] = [];
+		const outcome = await runSubagentAction(row, "rerun", {} as never, async (params) => {
+			calls.push(params);
+			return "started";
+		});
+		assert.deepEqual(calls, [{ agent: "reviewer", task: "Review auth", label: "auth" }]);
+		assert.deepEqual(outcome, { text: "started", level: "info" });
+	});
+
+	it("re-runs with the original budget and priority", async () => {
+		settle("done", {}, 1, { budget: { maxTurns: 5, maxCost: 0.5, maxTimeMs: 90_000 }, priority: "low" });
+		const [row] = listSubagentRuns("parent-1");
+		const calls: unknown[] = [];
+		await runSubagentAction(row, "rerun", {} as never, async (params) => {
+			calls.push(params);
+			return "started";
+		});
+		assert.deepEqual(calls, [
+			{
+				agent: "reviewer",
+				task: "Review auth",
+				label: "auth",
+				budget: { maxTurns: 5, maxCost: 0.5, maxTime: "90s" },
+				priority: "low",
+			},
+		]);
+	});
+
+	it("records runs cancelled before launch without a transcript", () => {
+		recordUnlaunchedRunHistory(
+			"q1",
+			"parent-1",
+			{ agent: "tester", budget: { maxTurns: 2 }, priority: "high" },
+			{
+				name: "tester",
+				task: "Test it",
+				summary: "Admission was cancelled before launch.",
+				exitCode: 1,
+				elapsed: 0,
+				error: "cancelled",
+			},
+			7_000,
+		);
+		const [row] = listSubagentRuns("parent-1");
+		assert.equal(formatRunRow(row), "cancelled        tester [q1]  0s");
+		assert.deepEqual(runActions(row), ["rerun", "copy"]);
+		assert.deepEqual(runHistory.get("q1").budget, { maxTurns: 2 });
+	});
+
+	it("cancels a queued run from the browser", async () => {
+		let cancelled = 0;
+		queuedSubagents.set("q1", {
+			id: "q1",
+			name: "tester",
+			agent: "tester",
+			admissionClass: "background",
+			parentSessionId: "parent-1",
+			queuedAt: 1,
+			cancel: () => ++cancelled === 1,
+		});
+		const commands = new Map<string, any>();
+		registerSubagentsCommand(
+			{ registerCommand: (name: string, command: any) => commands.set(name, command) } as never,
+			async () => "",
+		);
+		const { ctx, notices, titles } = commandContext(["[q1]", "Cancel queued run"]);
+		await commands.get("subagents").handler("", ctx);
+		assert.deepEqual(titles, ["Subagents", "tester [q1]"]);
+		assert.equal(cancelled, 1);
+		assert.deepEqual(notices, [{ text: "Cancelled queued run q1.", level: "info" }]);
+	});
+
+	it("prints the list without a UI and reports an empty session", async () => {
+		const commands = new Map<string, any>();
+		registerSubagentsCommand(
+			{ registerCommand: (name: string, command: any) => commands.set(name, command) } as never,
+			async () => "",
+		);
+		const empty = commandContext([]);
+		await commands.get("subagents").handler("", empty.ctx);
+		assert.deepEqual(empty.notices, [{ text: "No subagent runs in this session.", level: "info" }]);
+
+		settle("done", {}, 1);
+		const headless = commandContext([]);
+		await commands.get("subagents").handler("", { ...headless.ctx, hasUI: false });
+		assert.match(headless.notices[0].text, /^completed {8}reviewer "auth" \[done\] {2}1m 5s$/);
+	});
+
+	it("renders transcripts from user and assistant messages", () => {
+		const transcript = formatSessionTranscript([
+			{ type: "session", id: "s" },
+			{ type: "message", id: "1", message: { role: "user", content: "Review auth" } },
+			{
+				type: "message",
+				id: "2",
+				message: {
+					role: "assistant",
+					content: [
+						{ type: "text", text: "Reading the module." },
+						{ type: "toolCall", name: "read" },
+					],
+				},
+			},
+			{ type: "message", id: "3", message: { role: "toolResult", content: [{ type: "text", text: "source" }] } },
+		] as never);
+		assert.equal(transcript, "## user\n\nReview auth\n\n## assistant\n\nReading the module.\n→ read");
+	});
+});
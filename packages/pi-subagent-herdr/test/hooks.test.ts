@@ -0,0 +1,273 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { parseAgentDefinition } from "../src/agent-definition.ts";
+import {
+	buildRunHookPayload,
+	formatHookReports,
+	formatHookStatusLine,
+	MAX_ATTACHED_HOOK_TIMEOUT_MS,
+	type RunHook,
+	type RunHookReport,
+	resolveRunHooks,
+	runHookCommand,
+	runSettlementHooks,
+} from "../src/hooks.ts";
+import * as subagentsModule from "../src/index.ts";
+import { createLifecycle } from "../src/lifecycle.ts";
+import { loadHookSettings } from "../src/settings.ts";
+import { renderSubagentResultMessage } from "../src/widget.ts";
+import { createPlainWidgetTheme } from "./widget-theme.ts";
+
+const testApi = (subagentsModule as any).__test__;
+
+function agent(frontmatter: string) {
+	return parseAgentDefinition(`---\nname: worker\ntools: read\n${frontmatter}\n---\nWork.\n`, "worker", "/x.md");
+}
+
+function hook(command: string, overrides: Partial<RunHook> = {}): RunHook {
+	return { event: "on-complete", source: "agent", command, attach: true, timeoutMs: 5_000, ...overrides };
+}
+
+const run = { id: "r1", agent: "worker", name: "worker" };
+const completed = {
+	name: "worker",
+	task: "t",
+	summary: "Done.",
+	exitCode: 0,
+	elapsed: 42,
+	sessionFile: "/tmp/c.jsonl",
+};
+
+describe("completion hooks", () => {
+	const dirs: string[] = [];
+
+	function tempDir(): string {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-hooks-"));
+		dirs.push(dir);
+		return dir;
+	}
+
+	afterEach(() => {
+		for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("parses hook frontmatter", () => {
+		assert.equal(agent("hook-output: attach").hooks, undefined);
+		assert.deepEqual(agent('on-complete: "./notify.sh done"\non-fail: ./page.sh\nhook-timeout: 90s').hooks, {
+			onComplete: "./notify.sh done",
+			onFail: "./page.sh",
+			timeoutMs: 90_000,
+		});
+		assert.deepEqual(agent("on-fail: ./page.sh\nhook-output: attach").hooks, {
+			onFail: "./page.sh",
+			attachOutput: true,
+		});
+		assert.throws(() => agent("on-fail: x\nhook-output: inline"), /hook-output must be none or attach/);
+		assert.throws(() => agent("on-fail: x\nhook-timeout: soon"), /hook-timeout must be a duration/);
+	});
+
+	it("merges settings hooks field by field and runs them before the agent's", () => {
+		const agentDir = tempDir();
+		const cwd = tempDir();
+		mkdirSync(join(cwd, ".pi"));
+		const write = (path: string, hooks: unknown) =>
+			writeFileSync(path, JSON.stringify({ subagentHerdr: { hooks } }));
+		write(join(agentDir, "settings.json"), { onComplete: "global-done", onFail: "global-fail", timeout: "2m" });
+		write(join(cwd, ".pi", "settings.json"), { onFail: "project-fail", attachOutput: true });
+
+		assert.deepEqual(loadHookSettings({ cwd, agentDir, projectTrusted: false }), {
+			onComplete: "global-done",
+			onFail: "global-fail",
+			timeoutMs: 120_000,
+		});
+		const settings = loadHookSettings({ cwd, agentDir, projectTrusted: true });
+		assert.deepEqual(settings, {
+			onComplete: "global-done",
+			onFail: "project-fail",
+			attachOutput: true,
+			timeoutMs: 120_000,
+		});
+		assert.equal(loadHookSettings({ cwd: tempDir(), agentDir: tempDir(), projectTrusted: true }), undefined);
+
+		const hooks = resolveRunHooks({ onComplete: "agent-done" }, settings, cwd);
+		assert.deepEqual(
+			hooks?.commands.map((entry) => [entry.event, entry.source, entry.command, entry.attach]),
+			[
+				["on-complete", "settings", "global-done", true],
+				["on-fail", "settings", "project-fail", true],
+				["on-complete", "agent", "agent-done", false],
+			],
+		);
+		assert.equal(resolveRunHooks(undefined, undefined, cwd), undefined);
+	});
+
+	it("caps the timeout of attached hooks but not of background ones", () => {
+		const hooks = resolveRunHooks(
+			{ onComplete: "./ci.sh", timeoutMs: 3_600_000 },
+			{ onFail: "./notify.sh", attachOutput: true, timeoutMs: 3_600_000 },
+			"/repo",
+		);
+		assert.deepEqual(
+			hooks?.commands.map((entry) => [entry.command, entry.attach, entry.timeoutMs]),
+			[
+				["./notify.sh", true, MAX_ATTACHED_HOOK_TIMEOUT_MS],
+				["./ci.sh", false, 3_600_000],
+			],
+		);
+	});
+
+	it("builds the stdin payload from the settled result", () => {
+		assert.deepEqual(buildRunHookPayload(run, completed, "/repo"), {
+			event: "on-complete",
+			runId: "r1",
+			agent: "worker",
+			name: "worker",
+			outcome: "completed",
+			exitCode: 0,
+			summary: "Done.",
+			sessionFile: "/tmp/c.jsonl",
+			elapsed: 42,
+			cwd: "/repo",
+		});
+		const failed = buildRunHookPayload(run, { ...completed, exitCode: 1, errorMessage: "boom" }, "/repo");
+		assert.equal(failed.event, "on-fail");
+		assert.equal(failed.outcome, "failed");
+		assert.equal(failed.errorMessage, "boom");
+	});
+
+	it("runs the command in the run's directory with the payload on stdin", async () => {
+		const cwd = tempDir();
+		const payload = buildRunHookPayload(run, completed, cwd);
+		const report = await runHookCommand(hook('cat > payload.json; echo "saved in $PWD"; exit 3'), payload, cwd);
+
+		assert.deepEqual(JSON.parse(readFileSync(join(cwd, "payload.json"), "utf8")), payload);
+		assert.equal(report.exitCode, 3);
+		assert.equal(report.output, `saved in ${cwd}`);
+		assert.equal(formatHookStatusLine("worker", report), "worker on-complete hook (agent) exited 3.");
+	});
+
+	it("kills a hook at its timeout and reports commands that cannot run", async () => {
+		const cwd = tempDir();
+		const payload = buildRunHookPayload(run, completed, cwd);
+		const startedAt = Date.now();
+		const slow = await runHookCommand(hook("echo started; sleep 30", { timeoutMs: 200 }), payload, cwd);
+		assert.equal(slow.timedOut, true);
+		assert.equal(slow.output, "started");
+		assert.ok(Date.now() - startedAt < 5_000);
+
+		const missing = await runHookCommand(hook("true"), payload, join(cwd, "gone"));
+		assert.match(missing.error ?? "", /ENOENT/);
+	});
+
+	it("awaits attached hooks and reports only failed background hooks", async () => {
+		const cwd = tempDir();
+		const failures: RunHookReport[] = [];
+		let reported: () => void = () => {};
+		const backgroundDone = new Promise<void>((resolve) => {
+			reported = resolve;
+		});
+		const reports = await runSettlementHooks({
+			hooks: {
+				cwd,
+				commands: [
+					hook("echo attached"),
+					hook("exit 0", { attach: false }),
+					hook("echo oops >&2; exit 1", { attach: false, source: "settings" }),
+					hook("echo never", { event: "on-fail" }),
+				],
+			},
+			payload: buildRunHookPayload(run, completed, cwd),
+			onBackgroundFailure: (report) => {
+				failures.push(report);
+				reported();
+			},
+		});
+
+		assert.deepEqual(
+			reports.map((report) => [report.command, report.exitCode, report.output]),
+			[["echo attached", 0, "attached"]],
+		);
+		await backgroundDone;
+		assert.deepEqual(
+			failures.map((report) => [report.source, report.exitCode, report.output]),
+			[["settings", 1, "oops"]],
+		);
+	});
+
+	it("runs on-fail hooks when the watch itself fails", async () => {
+		const cwd = tempDir();
+		const sessionFile = join(cwd, "child.jsonl");
+		writeFileSync(sessionFile, "");
+		const running = {
+			id: "hook-cancel",
+			agent: "worker",
+			name: "worker",
+			task: "t",
+			surface: "pane-hook-cancel",
+			startTime: Date.now(),
+			sessionFile,
+			lifecycle: createLifecycle(Date.now()),
+			entryCountBefore: 0,
+			parentSessionId: "parent-hook-cancel",
+			hooks: { cwd, commands: [hook("cat > payload.json; echo noted", { event: "on-fail" })] },
+			inspectPaneOverride: async () => ({ kind: "present", observedAt: Date.now(), agentStatus: "working" }),
+		};
+		const controller = new AbortController();
+		controller.abort();
+		try {
+			const result = await testApi.watchSubagent(running, controller.signal, { releaseOwnership: false });
+
+			assert.equal(result.error, "cancelled");
+			assert.deepEqual(
+				result.hooks?.map((report: RunHookReport) => [report.event, report.output]),
+				[["on-fail", "noted"]],
+			);
+			assert.equal(JSON.parse(readFileSync(join(cwd, "payload.json"), "utf8")).outcome, "cancelled");
+		} finally {
+			testApi.runningSubagents.delete(running.id);
+		}
+	});
+
+	it("attaches hook output to the completion text and the rendered result", () => {
+		const hooks: RunHookReport[] = [
+			{
+				event: "on-complete",
+				source: "agent",
+				command: "./ci.sh",
+				durationMs: 1_200,
+				exitCode: 0,
+				output: "CI green",
+			},
+			{
+				event: "on-complete",
+				source: "settings",
+				command: "./slow.sh",
+				durationMs: 60_000,
+				timedOut: true,
+				output: "",
+			},
+		];
+		assert.equal(
+			formatHookReports(hooks),
+			"Hook on-complete (agent) exited 0:\nCI green\n\nHook on-complete (settings) timed out after 1m.",
+		);
+		const result = { ...completed, hooks, artifacts: [{ name: "fix.patch", path: "/tmp/a/fix.patch", size: 10 }] };
+		const text = testApi.resolveResultPresentation(result, "worker", "r1");
+		assert.match(
+			text,
+			/Done\.\n\nHook on-complete \(agent\) exited 0:\nCI green\n\nHook on-complete \(settings\) timed out after 1m\.\n\nArtifacts/,
+		);
+
+		const rendered = renderSubagentResultMessage(
+			{ content: text, details: { id: "r1", ...result } },
+			{ expanded: true },
+			createPlainWidgetTheme(),
+			120,
+		).join("\n");
+		assert.match(rendered, /Hook on-complete \(agent\) exited 0:/);
+		assert.doesNotMatch(rendered, /read with subagent_artifact/);
+	});
+});
@@ -27,6 +27,7 @@ import { homedir, tmpdir } from "node:os";
 import { dirname, join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import {
+	activeTerminalBackend,
 	closePane,
 	createSubagentPane,
 	getHerdrPaneLayout,
@@ -88,7 +89,7 @@ export const PI_TIMEOUT = Number(process.env.PI_TEST_TIMEOUT ?? "120000");
 
 /** Detect whether the required herdr backend is available. */
 export function getAvailableBackends(): MuxBackend[] {
-	return isTerminalAvailable() ? ["herdr"] : [];
+	return isTerminalAvailable() && activeTerminalBackend().name === "herdr" ? ["herdr"] : [];
 }
 
 export function setBackend(_backend: MuxBackend): undefined {
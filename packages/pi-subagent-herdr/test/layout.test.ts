@@ -5,6 +5,7 @@ import {
 	getRegion,
 	MIN_ATTACHED_COLS_RIGHT,
 	MIN_ATTACHED_ROWS_DOWN,
+	MIN_REGION_PANE_ROWS,
 	measureParentTerminal,
 	type RegionState,
 	reapVanishedPanes,
@@ -367,6 +368,41 @@ describe("surface options", () => {
 		assert.equal(result.fellBackToTab, true);
 		assert.match(result.warning ?? "", /direction:right.*direction:down/);
 	});
+
+	it("opens a tab once the roomiest region pane is too small to split", () => {
+		const tabs: string[] = [];
+		const deps = (height: number) => ({
+			splitFn: () => "next-child",
+			tabCreateFn: (name: string) => {
+				tabs.push(name);
+				return `tab-${name}`;
+			},
+			paneExists: () => true,
+			layoutQuery: () => ({ panes: [{ paneId: "full-child", rect: { x: 60, y: 0, width: 60, height } }] }),
+		});
+		attachPane("full-parent", { name: "first" }, { splitFn: () => "full-child", paneExists: () => true });
+		const full = attachPane("full-parent", { name: "crowded" }, deps(MIN_REGION_PANE_ROWS * 2 - 1));
+		assert.equal(full.paneId, "tab-crowded");
+		assert.equal(full.fellBackToTab, true);
+		assert.match(full.warning ?? "", /region is full \(1 panes/);
+		assert.equal(getRegion("full-parent")?.panes.length, 1, "a tab does not join the region");
+
+		assert.equal(attachPane("full-parent", { name: "fits" }, deps(MIN_REGION_PANE_ROWS * 2)).paneId, "next-child");
+		assert.deepEqual(tabs, ["crowded"]);
+	});
+
+	it("shares the measured terminal across region panes when geometry is unavailable", () => {
+		const tab = () => "depth-tab";
+		const measure = { columns: 200, rows: MIN_REGION_PANE_ROWS * 4 };
+		attachPane("depth-parent", { name: "a" }, { splitFn: () => "d0", paneExists: () => true });
+		const split = { tabCreateFn: tab, paneExists: () => true, layoutQuery: () => null, measure };
+		assert.equal(attachPane("depth-parent", { name: "b" }, { ...split, splitFn: () => "d1" }).paneId, "d1");
+		assert.equal(attachPane("depth-parent", { name: "c" }, { ...split, splitFn: () => "d2" }).paneId, "d2");
+		assert.equal(attachPane("depth-parent", { name: "d" }, { ...split, splitFn: () => "d3" }).paneId, "d3");
+		const full = attachPane("depth-parent", { name: "e" }, { ...split, splitFn: () => "d4" });
+		assert.equal(full.paneId, "depth-tab");
+		assert.equal(full.fellBackToTab, true);
+	});
 });
 
 describe("rederive and vanished panes", () => {
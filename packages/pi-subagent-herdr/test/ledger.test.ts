@@ -0,0 +1,294 @@
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { appendFileSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { initTheme } from "@earendil-works/pi-coding-agent";
+import { activateCompletionRuntime, resetActiveCompletionRuntimeForTest } from "../src/delivery.ts";
+import { recordRunSettlement } from "../src/dependencies.ts";
+import { closeHeadlessSurface, getHeadlessPane, HEADLESS_PANE_ENV } from "../src/headless.ts";
+import {
+	foldRunLedger,
+	formatLedgerRecovery,
+	ledgerPath,
+	openRunLedger,
+	readRunLedger,
+	recordLedgerEvent,
+	recoverRunLedger,
+} from "../src/ledger.ts";
+import {
+	deliveredRunIds,
+	headlessPanes,
+	inflightDelivery,
+	ledgerFiles,
+	pendingDeliveries,
+	recoveredLedgers,
+	runningSubagents,
+	runWorktrees,
+	settledRuns,
+} from "../src/state.ts";
+import { renderSubagentResultMessage } from "../src/widget.ts";
+import { createPlainWidgetTheme } from "./widget-theme.ts";
+
+initTheme("dark");
+
+const admitted = { name: "auth", agent: "reviewer", task: "Review auth", parentSessionId: "parent-1" };
+
+function launched(dir: string, id: string) {
+	return {
+		type: "launched" as const,
+		surface: `pane-${id}`,
+		sessionFile: join(dir, `${id}.jsonl`),
+		entryCountBefore: 0,
+		startTime: 1_000,
+	};
+}
+
+function writeLedger(file: string, records: Array<Record<string, unknown>>): void {
+	writeFileSync(file, records.map((record) => `${JSON.stringify({ at: 1, ...record })}\n`).join(""));
+}
+
+function recordingParent(sessionFile: string, parentSessionId: string): void {
+	const pi = {
+		sendMessage(message: any) {
+			appendFileSync(sessionFile, `${JSON.stringify({ type: "custom_message", ...message })}\n`);
+		},
+	};
+	activateCompletionRuntime(pi as never, parentSessionId);
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+	for (let attempt = 0; attempt < 200 && !condition(); attempt += 1) {
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+	assert.ok(condition(), "condition not reached");
+}
+
+describe("run ledger", () => {
+	const dirs: string[] = [];
+
+	function tempDir(): string {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-ledger-"));
+		dirs.push(dir);
+		return dir;
+	}
+
+	afterEach(() => {
+		for (const surface of Array.from(headlessPanes.keys())) closeHeadlessSurface(surface);
+		for (const map of [
+			ledgerFiles,
+			recoveredLedgers,
+			runningSubagents,
+			settledRuns,
+			pendingDeliveries,
+			runWorktrees,
+		])
+			map.clear();
+		deliveredRunIds.clear();
+		inflightDelivery.clear();
+		resetActiveCompletionRuntimeForTest();
+		for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("appends admission, launch, settlement, and delivery events next to the parent session", () => {
+		const dir = tempDir();
+		const parentSessionFile = join(dir, "parent.jsonl");
+		openRunLedger("r1", parentSessionFile, admitted);
+		recordLedgerEvent("r1", launched(dir, "r1"));
+		recordRunSettlement({ runId: "r1", name: "auth", outcome: "completed", summary: "Done." });
+		recordLedgerEvent("r1", { type: "delivered" });
+		recordLedgerEvent("r1", { type: "pending", message: {} });
+		openRunLedger("r2", undefined, admitted);
+
+		const file = ledgerPath(parentSessionFile);
+		assert.equal(file, `${parentSessionFile}.subagents`);
+		appendFileSync(file, '{"runId":"r1","type":"sett');
+		const records = readRunLedger(file);
+		assert.deepEqual(
+			records.map((record) => record.type),
+			["admitted", "launched", "settled", "delivered"],
+			"events after delivery are not recorded and a torn line is skipped",
+		);
+		const [run] = foldRunLedger(records);
+		assert.equal(run.admitted?.task, "Review auth");
+		assert.equal(run.settled?.outcome, "completed");
+		assert.equal(run.delivered, true);
+		assert.deepEqual(readRunLedger(join(dir, "missing")), []);
+	});
+
+	it("re-attaches live runs, redelivers undelivered results, and reports runs that died", async () => {
+		const dir = tempDir();
+		const parentSessionFile = join(dir, "parent.jsonl");
+		writeFileSync(parentSessionFile, "");
+		const dead = launched(dir, "dead");
+		writeFileSync(
+			dead.sessionFile,
+			`${JSON.stringify({ type: "message", message: { role: "assistant", content: [{ type: "text", text: "Halfway through auth." }] } })}\n`,
+		);
+		const exited = launched(dir, "exited");
+		writeFileSync(`${exited.sessionFile}.exit`, "{}");
+		const result = { customType: "subagent_result", content: "done", display: true, details: { id: "done" } };
+		writeLedger(ledgerPath(parentSessionFile), [
+			{ runId: "live", type: "admitted", ...admitted },
+			{ runId: "live", ...launched(dir, "live"), worktree: { runId: "live", branch: "subagent/live" } },
+			{ runId: "exited", type: "admitted", ...admitted },
+			{ runId: "exited", ...exited },
+			{ runId: "dead", type: "admitted", ...admitted },
+			{ runId: "dead", ...dead },
+			{ runId: "queued", type: "admitted", ...admitted },
+			{ runId: "done", type: "admitted", ...admitted },
+			{ runId: "done", type: "settled", outcome: "completed" },
+			{ runId: "done", type: "pending", message: result },
+			{ runId: "old", type: "admitted", ...admitted },
+			{ runId: "old", type: "settled", outcome: "completed" },
+			{ runId: "old", type: "pending", message: result },
+			{ runId: "old", type: "delivered" },
+		]);
+		recordingParent(parentSessionFile, "parent-2");
+
+		const supervised: any[] = [];
+		const recovery = recoverRunLedger("parent-2", parentSessionFile, {
+			supervise: (parentSessionId, running) => supervised.push({ parentSessionId, running }),
+			paneAlive: (surface) => surface === "pane-live",
+			now: () => 66_000,
+		});
+
+		assert.deepEqual(recovery, { reattached: ["live", "exited"], redelivered: ["done"], lost: ["dead", "queued"] });
+		assert.equal(
+			formatLedgerRecovery(recovery),
+			"Subagent runs from before restart: re-attached 2 running, delivering 1 finished, 2 lost while pi was closed.",
+		);
+		assert.deepEqual(
+			supervised.map(({ running }) => running.id),
+			["live", "exited"],
+		);
+		const [live] = supervised;
+		assert.equal(live.parentSessionId, "parent-2");
+		assert.equal(live.running.parentSessionFile, parentSessionFile);
+		assert.equal(live.running.worktree.branch, "subagent/live");
+		assert.equal(runningSubagents.get("live"), live.running);
+
+		const delivered = () =>
+			readFileSync(parentSessionFile, "utf8")
+				.split("\n")
+				.filter(Boolean)
+				.map((line) => JSON.parse(line));
+		await waitFor(() => delivered().length === 3);
+		const byId = new Map(delivered().map((message) => [message.details.id, message]));
+		assert.match(byId.get("dead").content, /was running when pi exited and is gone.*after 1m 5s/);
+		assert.match(byId.get("dead").content, /Halfway through auth\./);
+		assert.equal(byId.get("dead").details.watchAbandoned, true);
+		assert.match(byId.get("queued").content, /was still queued when pi exited and never launched/);
+		assert.equal(byId.get("done").content, "done");
+
+		await waitFor(() => foldRunLedger(readRunLedger(ledgerPath(parentSessionFile))).every(isResolved));
+		const runs = new Map(
+			foldRunLedger(readRunLedger(ledgerPath(parentSessionFile))).map((run) => [run.runId, run]),
+		);
+		assert.equal(runs.get("dead")?.settled?.outcome, "abandoned");
+		assert.equal(runs.get("queued")?.settled?.outcome, "cancelled");
+
+		assert.deepEqual(recoverRunLedger("parent-2", parentSessionFile, { supervise: () => assert.fail() }), {
+			reattached: [],
+			redelivered: [],
+			lost: [],
+		});
+	});
+
+	it("adopts headless runs whose process group survived the restart", async () => {
+		const dir = tempDir();
+		const parentSessionFile = join(dir, "parent.jsonl");
+		writeFileSync(parentSessionFile, "");
+		const detached = (command: string, args: string[], surface: string) =>
+			spawn(command, args, {
+				detached: true,
+				stdio: "ignore",
+				env: { ...process.env, [HEADLESS_PANE_ENV]: surface },
+			});
+		const live = detached("sleep", ["30"], "headless-live");
+		// A live group whose leader was not started for the pane, as after pid reuse.
+		const stranger = detached("sleep", ["30"], "headless-other");
+		const exited = detached("true", [], "headless-gone");
+		await new Promise((resolve) => exited.once("exit", resolve));
+		writeLedger(ledgerPath(parentSessionFile), [
+			{ runId: "live", type: "admitted", ...admitted },
+			{ runId: "live", ...launched(dir, "live"), surface: "headless-live", pid: live.pid },
+			{ runId: "gone", type: "admitted", ...admitted },
+			{ runId: "gone", ...launched(dir, "gone"), surface: "headless-gone", pid: exited.pid },
+			{ runId: "reused", type: "admitted", ...admitted },
+			{ runId: "reused", ...launched(dir, "reused"), surface: "headless-reused", pid: stranger.pid },
+		]);
+		recordingParent(parentSessionFile, "parent-2");
+
+		const recovery = recoverRunLedger("parent-2", parentSessionFile, {
+			supervise: () => {},
+			paneAlive: () => false,
+		});
+
+		try {
+			assert.deepEqual(recovery, { reattached: ["live"], redelivered: [], lost: ["gone", "reused"] });
+			assert.equal(getHeadlessPane("headless-live")?.adoptedPid, live.pid);
+			assert.equal(getHeadlessPane("headless-gone"), undefined);
+			assert.equal(getHeadlessPane("headless-reused"), undefined);
+			assert.equal(stranger.exitCode, null);
+			const killed = new Promise((resolve) => live.once("exit", (_code, signal) => resolve(signal)));
+			closeHeadlessSurface("headless-live");
+			assert.equal(await killed, "SIGTERM");
+			await waitFor(
+				() => pendingDeliveries.size === 0 && readFileSync(parentSessionFile, "utf8").includes("reused"),
+			);
+		} finally {
+			stranger.kill("SIGKILL");
+			live.kill("SIGKILL");
+		}
+	});
+
+	it("rebuilds the worktree registry from runs whose worktree is still on disk", () => {
+		const dir = tempDir();
+		const parentSessionFile = join(dir, "parent.jsonl");
+		const worktree = (runId: string) => ({
+			runId,
+			agent: "writer",
+			repoRoot: dir,
+			path: join(dir, "worktrees", runId),
+			branch: `pi-subagent/writer-${runId}`,
+			baseCommit: "abc123",
+			cwd: join(dir, "worktrees", runId),
+			createdAt: 1_000,
+		});
+		mkdirSync(worktree("kept").path, { recursive: true });
+		const result = { customType: "subagent_result", content: "done", display: true, details: {} };
+		const settled = (runId: string) => [
+			{ runId, type: "admitted", ...admitted },
+			{ runId, ...launched(dir, runId), worktree: worktree(runId) },
+			{ runId, type: "settled", outcome: "completed" },
+			{ runId, type: "pending", message: result },
+			{ runId, type: "delivered" },
+		];
+		writeLedger(ledgerPath(parentSessionFile), [...settled("kept"), ...settled("merged")]);
+
+		recoverRunLedger("parent-2", parentSessionFile, { supervise: () => assert.fail() });
+
+		assert.deepEqual([...runWorktrees.keys()], ["kept"]);
+		assert.deepEqual(runWorktrees.get("kept"), worktree("kept"));
+	});
+
+	it("renders a never-launched run as its own state", () => {
+		const rendered = renderSubagentResultMessage(
+			{
+				content: 'Sub-agent "auth" [q1] was still queued when pi exited and never launched.',
+				details: { id: "q1", name: "auth", exitCode: 1, elapsed: 0, notLaunched: true },
+			},
+			{ expanded: true },
+			createPlainWidgetTheme(),
+			120,
+		).join("\n");
+		assert.match(rendered, /auth \[q1\] — not launched \(pi exited while queued\)/);
+		assert.doesNotMatch(rendered, /failed/);
+	});
+});
+
+function isResolved(run: ReturnType<typeof foldRunLedger>[number]): boolean {
+	return run.runId === "live" || run.runId === "exited" || run.delivered;
+}
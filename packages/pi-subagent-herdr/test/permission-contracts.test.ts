@@ -22,8 +22,8 @@ describe("permission contracts", () => {
 		assert.equal((prompt.content.match(/You are worker\./g) ?? []).length, 1);
 	});
 
-	it("hard-denies the parent subagent tool in children", () => {
-		assert.deepEqual([...testApi.lifecycleDenySet()], ["subagent"]);
+	it("hard-denies the parent subagent tools in children", () => {
+		assert.deepEqual([...testApi.lifecycleDenySet()], ["subagent", "subagent_message"]);
 		assert.equal(testApi.lifecycleDenySet().has("subagents_list"), false);
 	});
 
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { readSubagentActivityFile, type SubagentActivityState } from "../src/activity.ts";
+import * as subagentsModule from "../src/index.ts";
+import { createLifecycle, observePaneInspection } from "../src/lifecycle.ts";
+import { formatProgressStatusLine } from "../src/status.ts";
+import subagentDoneExtension, { normalizeProgressNote } from "../src/subagent-done.ts";
+import { createPlainWidgetTheme } from "./widget-theme.ts";
+
+const testApi = (subagentsModule as any).__test__;
+
+function progressActivity(overrides: Partial<SubagentActivityState> = {}): SubagentActivityState {
+	return {
+		version: 1,
+		runningChildId: "p1",
+		createdAt: 1_000,
+		updatedAt: 9_000,
+		sequence: 3,
+		latestEvent: "tool_execution_end",
+		phase: "active",
+		agentActive: true,
+		turnActive: true,
+		providerActive: false,
+		toolActive: false,
+		progressNote: "Parsed 12 of 30 modules",
+		progressPercent: 40,
+		progressAt: 9_000,
+		progressCount: 1,
+		...overrides,
+	};
+}
+
+function runningWithProgress(activity: SubagentActivityState): any {
+	return {
+		id: "p1",
+		name: "auth",
+		agent: "reviewer",
+		task: "",
+		surface: "pane-1",
+		startTime: 1_000,
+		sessionFile: "/tmp/p1.jsonl",
+		admissionClass: "background",
+		lifecycle: observePaneInspection(
+			createLifecycle(1_000),
+			{ kind: "present", observedAt: 2_000, agentStatus: "working" },
+			2_000,
+		),
+		activity,
+	};
+}
+
+describe("subagent progress", () => {
+	const dirs: string[] = [];
+	const saved = { activity: process.env.PI_SUBAGENT_ACTIVITY_FILE, id: process.env.PI_SUBAGENT_ID };
+
+	afterEach(() => {
+		testApi.runningSubagents.clear();
+		for (const [key, value] of [
+			["PI_SUBAGENT_ACTIVITY_FILE", saved.activity],
+			["PI_SUBAGENT_ID", saved.id],
+		] as const) {
+			if (value === undefined) delete process.env[key];
+			else process.env[key] = value;
+		}
+		for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("records normalized notes in the child's activity file", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-progress-"));
+		dirs.push(dir);
+		const activityFile = join(dir, "activity.json");
+		process.env.PI_SUBAGENT_ACTIVITY_FILE = activityFile;
+		process.env.PI_SUBAGENT_ID = "p1";
+
+		const tools = new Map<string, any>();
+		subagentDoneExtension({
+			on() {},
+			registerShortcut() {},
+			registerTool: (tool: any) => tools.set(tool.name, tool),
+			getAllTools: () => [],
+		} as never);
+		const progress = tools.get("subagent_progress");
+
+		await assert.rejects(progress.execute("c0", { note: "  \n " }), /non-empty note/);
+		const result = await progress.execute("c1", { note: "Parsed 12\nof 30   modules", percent: 40 });
+		assert.deepEqual(result.details, { note: "Parsed 12 of 30 modules", percent: 40 });
+		await progress.execute("c2", { note: "Found a blocker in the token refresh", notify: true });
+
+		const read = readSubagentActivityFile(activityFile, "p1");
+		assert.ok(read.ok);
+		assert.equal(read.activity.progressNote, "Found a blocker in the token refresh");
+		assert.equal(read.activity.progressPercent, undefined);
+		assert.equal(read.activity.progressNotify, true);
+		assert.equal(read.activity.progressCount, 2);
+		assert.equal(JSON.parse(readFileSync(activityFile, "utf8")).progressCount, 2);
+
+		const long = normalizeProgressNote("x".repeat(500));
+		assert.equal(long.length, 200);
+		assert.ok(long.endsWith("…"));
+	});
+
+	it("shows the latest note on the run's widget row", () => {
+		const originalNow = Date.now;
+		Date.now = () => 10_000;
+		try {
+			const lines = testApi.renderSubagentWidgetLines(
+				[runningWithProgress(progressActivity())],
+				160,
+				createPlainWidgetTheme(),
+			);
+			assert.match(lines[2], /⎿ {2}auth · 40% · Parsed 12 of 30 modules/);
+		} finally {
+			Date.now = originalNow;
+		}
+	});
+
+	it("sends a status line once for a notify note and only refreshes the widget otherwise", () => {
+		const quiet = runningWithProgress(progressActivity());
+		testApi.runningSubagents.set("p1", quiet);
+		testApi.collectStatusTransitions(10_000);
+		const first = testApi.collectStatusTransitions(10_000);
+		assert.deepEqual(first.transitionLines, []);
+
+		quiet.activity = progressActivity({ progressNote: "Blocked on creds", progressCount: 2, progressNotify: true });
+		const notified = testApi.collectStatusTransitions(61_000);
+		assert.equal(notified.shouldRefreshWidget, true);
+		assert.deepEqual(notified.transitionLines, [formatProgressStatusLine("auth", "Blocked on creds", 40, 60_000)]);
+		assert.deepEqual(testApi.collectStatusTransitions(62_000).transitionLines, []);
+		assert.equal(
+			formatProgressStatusLine("auth", "Blocked on creds", 40, 60_000),
+			"auth running 1m, progress 40%: Blocked on creds",
+		);
+	});
+});
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseResultSchema, validateResultPayload } from "../src/result-schema.ts";
+
+const findingsSchema = parseResultSchema(
+	JSON.stringify({
+		type: "object",
+		properties: {
+			verdict: { type: "string", enum: ["approve", "request-changes"] },
+			files: { type: "array", items: { type: "string" } },
+			score: { type: ["integer", "null"] },
+		},
+		required: ["verdict", "files"],
+		additionalProperties: false,
+	}),
+);
+
+describe("result schema", () => {
+	it("rejects non-JSON, non-object, and unsupported schema shapes", () => {
+		assert.throws(() => parseResultSchema("{type: object}"), /single-line JSON object/);
+		assert.throws(() => parseResultSchema('"object"'), /result-schema must be a JSON object/);
+		assert.throws(() => parseResultSchema('{"type":"tuple"}'), /result-schema\.type must be one of/);
+		assert.throws(
+			() => parseResultSchema('{"properties":{"files":{"items":{"type":"file"}}}}'),
+			/result-schema\.properties\.files\.items\.type/,
+		);
+		assert.throws(() => parseResultSchema('{"enum":[]}'), /enum must be a non-empty array/);
+		assert.throws(() => parseResultSchema('{"additionalProperties":{}}'), /additionalProperties must be a boolean/);
+	});
+
+	it("accepts payloads that match the declared shape", () => {
+		assert.deepEqual(validateResultPayload(findingsSchema, { verdict: "approve", files: [] }), []);
+		assert.deepEqual(
+			validateResultPayload(findingsSchema, { verdict: "request-changes", files: ["a.ts"], score: null }),
+			[],
+		);
+	});
+
+	it("reports required, type, enum, item, and additional-property violations by path", () => {
+		assert.deepEqual(validateResultPayload(findingsSchema, "approve"), ["result must be an object"]);
+		assert.deepEqual(
+			validateResultPayload(findingsSchema, { verdict: "lgtm", files: ["a.ts", 3], score: 1.5, extra: true }),
+			[
+				'result.verdict must be one of "approve", "request-changes"',
+				"result.files[1] must be a string",
+				"result.score must be an integer or null",
+				"result.extra is not allowed",
+			],
+		);
+		assert.deepEqual(validateResultPayload(findingsSchema, {}), [
+			"result.verdict is required",
+			"result.files is required",
+		]);
+	});
+});
@@ -3,8 +3,10 @@ import { describe, it } from "node:test";
 import {
 	buildAuthenticatedModelCatalog,
 	type ParentRuntime,
+	parseModelChain,
 	type RuntimeRequest,
 	RuntimeResolutionError,
+	resolveFallbackRuntimePlan,
 	resolveRuntimePlan,
 	wrapPiModelRegistry,
 } from "../src/runtime-routing.ts";
@@ -157,6 +159,72 @@ describe("runtime routing", () => {
 	});
 });
 
+describe("model chains", () => {
+	const plain = model("other", "plain", { reasoning: false });
+	const chainRegistry = () =>
+		registry([model("fake", "parent"), model("other", "unauthed"), plain, model("other", "fast")]);
+
+	it("parses list entries with optional thinking suffixes, keeping colons that are not levels", () => {
+		assert.deepEqual(parseModelChain("[other/fast:high, openrouter/llama:free ,other/plain]"), [
+			{ model: "other/fast", thinking: "high" },
+			{ model: "openrouter/llama:free" },
+			{ model: "other/plain" },
+		]);
+		assert.throws(() => parseModelChain("other/fast,,other/plain"), /empty entries/);
+	});
+
+	it("picks the first entry with auth and a compatible thinking level, recording what it skipped", () => {
+		const modelChain = parseModelChain("other/unauthed, other/plain:high, other/fast:low, fake/parent");
+		const plan = resolveRuntimePlan({}, { modelChain }, parent, chainRegistry());
+		assert.equal(plan.model, "other/fast");
+		assert.equal(plan.thinking, "low");
+		assert.equal(plan.modelSource, "agent");
+		assert.deepEqual(plan.modelChain, {
+			index: 2,
+			entries: ["other/unauthed", "other/plain:high", "other/fast:low", "fake/parent"],
+			reason: "fallback",
+			skipped: [
+				{ entry: "other/unauthed", reason: 'model "other/unauthed" has no configured authentication' },
+				{
+					entry: "other/plain:high",
+					reason: 'thinking "high" is not supported by "other/plain"; supported: off',
+				},
+			],
+		});
+
+		const fallback = resolveFallbackRuntimePlan(plan, {}, { modelChain }, parent, chainRegistry());
+		assert.equal(fallback?.model, "fake/parent");
+		assert.equal(fallback?.thinking, "medium");
+		assert.equal(fallback?.modelChain?.index, 3);
+		assert.equal(fallback?.modelChain?.reason, "relaunch");
+		assert.equal(
+			resolveFallbackRuntimePlan(fallback as any, {}, { modelChain }, parent, chainRegistry()),
+			undefined,
+		);
+	});
+
+	it("uses the agent thinking for entries without their own and fails when no entry is usable", () => {
+		const plan = resolveRuntimePlan(
+			{},
+			{ modelChain: parseModelChain("other/fast, fake/parent"), thinking: "low" },
+			parent,
+			chainRegistry(),
+		);
+		assert.equal(plan.thinking, "low");
+		assert.equal(plan.modelChain?.reason, "first");
+		assert.throws(
+			() =>
+				resolveRuntimePlan(
+					{},
+					{ modelChain: parseModelChain("other/unauthed, other/missing") },
+					parent,
+					chainRegistry(),
+				),
+			/no usable model in the chain \(other\/unauthed: .*; other\/missing: unknown model/,
+		);
+	});
+});
+
 describe("authenticated model catalog", () => {
 	it("lists exact authenticated IDs with concise capability facts", () => {
 		const available = [
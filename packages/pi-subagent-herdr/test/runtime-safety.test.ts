@@ -25,6 +25,7 @@ function fakeExtensionPi() {
 		},
 		registerTool() {},
 		registerMessageRenderer() {},
+		registerCommand() {},
 		registerShortcut() {},
 		sendMessage(message: unknown, _options?: unknown) {
 			sends.push(message);
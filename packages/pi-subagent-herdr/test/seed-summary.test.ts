@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { parseAgentDefinition } from "../src/agent-definition.ts";
+import {
+	buildSeedSummaryPrompt,
+	generateSeedBriefing,
+	parentBranchTranscript,
+	resolveSeedSummaryModel,
+} from "../src/seed-summary.ts";
+import { SEED_SUMMARY_CUSTOM_TYPE, seedSubagentSessionFile } from "../src/session.ts";
+
+function agent(frontmatter: string) {
+	return parseAgentDefinition(
+		`---\nname: briefed\ntools: read\n${frontmatter}\n---\nContinue.\n`,
+		"briefed",
+		"/x.md",
+	);
+}
+
+function message(id: string, role: string, text: string) {
+	return { type: "message", id, message: { role, content: [{ type: "text", text }] } };
+}
+
+describe("seed: summary", () => {
+	const dirs: string[] = [];
+
+	function tempDir(): string {
+		const dir = mkdtempSync(join(tmpdir(), "seed-summary-"));
+		dirs.push(dir);
+		return dir;
+	}
+
+	afterEach(() => {
+		for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("parses seed: summary and an exact summary-model", () => {
+		const parsed = agent("seed: summary\nsummary-model: anthropic/claude-haiku");
+		assert.equal(parsed.seed, "summary");
+		assert.equal(parsed.summaryModel, "anthropic/claude-haiku");
+		assert.throws(() => agent("seed: summary\nsummary-model: haiku"), /summary-model must be an exact/);
+	});
+
+	it("picks the agent's summary model, then settings, then the parent model", () => {
+		const cwd = tempDir();
+		const agentDir = join(cwd, "global");
+		mkdirSync(join(cwd, ".pi"), { recursive: true });
+		mkdirSync(agentDir, { recursive: true });
+		const stableCtx = { cwd, agentDir, projectTrusted: true, sessionId: "p", sessionDir: cwd };
+		const parent = { provider: "test", id: "parent" };
+
+		assert.equal(resolveSeedSummaryModel(agent("seed: summary"), stableCtx, parent), "test/parent");
+		writeFileSync(
+			join(agentDir, "settings.json"),
+			JSON.stringify({ subagentHerdr: { seedSummary: { model: "test/global" } } }),
+		);
+		writeFileSync(
+			join(cwd, ".pi", "settings.json"),
+			JSON.stringify({ subagentHerdr: { seedSummary: { model: "test/project" } } }),
+		);
+		assert.equal(resolveSeedSummaryModel(agent("seed: summary"), stableCtx, parent), "test/project");
+		assert.equal(
+			resolveSeedSummaryModel(agent("seed: summary"), { ...stableCtx, projectTrusted: false }, parent),
+			"test/global",
+		);
+		assert.equal(
+			resolveSeedSummaryModel(agent("seed: summary\nsummary-model: test/agent"), stableCtx, parent),
+			"test/agent",
+		);
+	});
+
+	it("summarizes the branch after the latest compaction and caps long transcripts", () => {
+		const transcript = parentBranchTranscript([
+			message("u0", "user", "Old request."),
+			{ type: "compaction", id: "c1", summary: "Earlier we chose JWT." },
+			message("u1", "user", "Add refresh tokens."),
+			message("a1", "assistant", "Editing src/auth.ts."),
+		] as never);
+		assert.equal(
+			transcript,
+			"## Summary of earlier conversation\n\nEarlier we chose JWT.\n\n## user\n\nAdd refresh tokens.\n\n## assistant\n\nEditing src/auth.ts.",
+		);
+
+		const prompt = buildSeedSummaryPrompt(`START${"x".repeat(200_000)}END`);
+		assert.match(prompt, /## Goal[\s\S]*## Decisions[\s\S]*## Relevant files[\s\S]*## Open questions/);
+		assert.match(prompt, /<session>\nSTART/);
+		assert.match(prompt, /characters omitted/);
+		assert.match(prompt, /END\n<\/session>$/);
+		assert.ok(prompt.length < 125_000);
+	});
+
+	it("fails with the agent named on an empty session, an empty reply, or a timeout", async () => {
+		const cwd = tempDir();
+		const params = (entries: unknown[], complete: any, timeoutMs?: number) => ({
+			ctx: {
+				model: { provider: "test", id: "parent" },
+				sessionManager: { getBranch: () => entries, getLeafId: () => "a1" },
+			} as never,
+			stableCtx: { cwd, agentDir: cwd, projectTrusted: false, sessionId: "p", sessionDir: cwd },
+			definition: agent("seed: summary"),
+			complete,
+			...(timeoutMs ? { timeoutMs } : {}),
+		});
+		const entries = [message("u1", "user", "Fix it.")];
+
+		await assert.rejects(
+			generateSeedBriefing(params([], async () => "brief")),
+			/for "briefed": the session has no messages yet/,
+		);
+		await assert.rejects(generateSeedBriefing(params(entries, async () => "")), /returned an empty briefing/);
+		await assert.rejects(
+			generateSeedBriefing(
+				params(
+					entries,
+					(_ctx: unknown, _model: unknown, _prompt: string, signal: AbortSignal) =>
+						new Promise((_resolve, reject) =>
+							signal.addEventListener("abort", () => reject(signal.reason)),
+						),
+					20,
+				),
+			),
+			/test\/parent timed out/,
+		);
+		assert.deepEqual(await generateSeedBriefing(params(entries, async () => "brief")), {
+			text: "brief",
+			parentLeafId: "a1",
+			model: "test/parent",
+		});
+	});
+
+	it("writes the briefing as the child's first entry and records its parent leaf in the owner file", () => {
+		const dir = tempDir();
+		const parentFile = join(dir, "parent.jsonl");
+		const childFile = join(dir, "child.jsonl");
+		writeFileSync(parentFile, `${JSON.stringify({ type: "session", id: "s" })}\n`);
+		const briefing = { text: "## Goal\nShip it.", parentLeafId: "a1", model: "test/cheap" };
+
+		seedSubagentSessionFile({
+			mode: "summary",
+			parentSessionFile: parentFile,
+			parentSessionId: "parent-1",
+			agentId: "briefed",
+			childSessionFile: childFile,
+			childCwd: dir,
+			sessionName: "briefed",
+			briefing,
+		});
+
+		const [header, info, entry, ...rest] = readFileSync(childFile, "utf8")
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line));
+		assert.equal(header.type, "session");
+		assert.equal(info.type, "session_info");
+		assert.equal(rest.length, 0);
+		assert.equal(entry.type, "custom_message");
+		assert.equal(entry.parentId, info.id);
+		assert.equal(entry.customType, SEED_SUMMARY_CUSTOM_TYPE);
+		assert.equal(entry.display, true);
+		assert.match(entry.content, /Briefing on the parent session:\n\n## Goal\nShip it\.$/);
+		assert.deepEqual(entry.details, { parentSessionFile: parentFile, parentLeafId: "a1", model: "test/cheap" });
+		const owner = JSON.parse(readFileSync(`${childFile}.owner.json`, "utf8"));
+		assert.deepEqual(owner.seedSummary, { parentLeafId: "a1", model: "test/cheap" });
+
+		assert.throws(
+			() =>
+				seedSubagentSessionFile({
+					mode: "summary",
+					parentSessionFile: parentFile,
+					childSessionFile: join(dir, "other.jsonl"),
+					childCwd: dir,
+				}),
+			/has no briefing/,
+		);
+	});
+});
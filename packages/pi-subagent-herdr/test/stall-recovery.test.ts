@@ -0,0 +1,273 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import type { SubagentActivityState } from "../src/activity.ts";
+import { parseAgentDefinition } from "../src/agent-definition.ts";
+import { interpretExitSidecar } from "../src/completion.ts";
+import * as subagentsModule from "../src/index.ts";
+import { createLifecycle, observeActivity, observePaneInspection, projectLifecycle } from "../src/lifecycle.ts";
+import {
+	applyStallRecovery,
+	dueStallRecoveryAction,
+	formatStallRecoveryLine,
+	noProgressSince,
+	STALL_NO_PROGRESS_MS,
+	STALL_NUDGE_INTERVAL_MS,
+	STALL_SCREEN_ARTIFACT,
+} from "../src/stall-recovery.ts";
+import { readSteerMessages } from "../src/steering.ts";
+import { renderSubagentResultMessage } from "../src/widget.ts";
+import { createPlainWidgetTheme } from "./widget-theme.ts";
+
+const testApi = (subagentsModule as any).__test__;
+const LAST_PROGRESS_AT = 10_000;
+const STALLED_AT = LAST_PROGRESS_AT + STALL_NO_PROGRESS_MS;
+
+function agent(frontmatter: string) {
+	return parseAgentDefinition(`---\nname: worker\ntools: read\n${frontmatter}\n---\nWork.\n`, "worker", "/x.md");
+}
+
+/** The child's activity file: stuck in a bash call since LAST_PROGRESS_AT. */
+function hungActivity(sequence: number, changes: Partial<SubagentActivityState> = {}): SubagentActivityState {
+	return {
+		version: 1,
+		runningChildId: "r1",
+		createdAt: 1_000,
+		updatedAt: LAST_PROGRESS_AT,
+		sequence,
+		latestEvent: "tool_execution_start",
+		phase: "active",
+		agentActive: true,
+		turnActive: true,
+		providerActive: false,
+		toolActive: true,
+		activeScope: "tool",
+		activeSince: LAST_PROGRESS_AT,
+		toolName: "bash",
+		toolStartedAt: LAST_PROGRESS_AT,
+		...changes,
+	};
+}
+
+type TestRun = ReturnType<typeof stalledRun>;
+
+/** The watcher's poll: read the activity file into the run, as observeRunningSubagent does. */
+function observe(run: TestRun, activity: SubagentActivityState, now: number): void {
+	run.activity = activity;
+	run.lifecycle = observeActivity(run.lifecycle, { ok: true, activity }, now);
+}
+
+/** A run whose last progress was at LAST_PROGRESS_AT, so it has stalled from STALLED_AT on. */
+function stalledRun(dir: string, policy: ReturnType<typeof agent>["stallRecovery"]) {
+	const run = {
+		id: "r1",
+		name: "worker",
+		surface: "pane-1",
+		startTime: 1_000,
+		sessionFile: join(dir, "child.jsonl"),
+		artifactsDir: join(dir, "artifacts"),
+		lifecycle: createLifecycle(1_000),
+		activity: undefined as SubagentActivityState | undefined,
+		stallRecovery: policy,
+	};
+	observe(run, hungActivity(12), LAST_PROGRESS_AT);
+	applyStallRecovery(run, LAST_PROGRESS_AT, fakeTerminal().deps);
+	return run;
+}
+
+function fakeTerminal(screen = "$ pi\n⠋ Working…") {
+	const calls: string[] = [];
+	return {
+		calls,
+		deps: {
+			appendSteerMessage: (sessionFile: string, text: string) => {
+				calls.push("wake");
+				writeFileSync(`${sessionFile}.inbox`, `${JSON.stringify({ text, sentAt: 0 })}\n`, { flag: "a" });
+			},
+			interruptPane: (surface: string) => calls.push(`escape ${surface}`),
+			runInPane: (surface: string, command: string) => calls.push(`run ${surface} ${command}`),
+			readPaneAsync: async () => screen,
+		},
+	};
+}
+
+function step(run: TestRun, now: number, deps: ReturnType<typeof fakeTerminal>["deps"]) {
+	return applyStallRecovery(run, now, deps);
+}
+
+describe("stall recovery", () => {
+	const dirs: string[] = [];
+
+	function tempDir(): string {
+		const dir = mkdtempSync(join(tmpdir(), "stall-recovery-"));
+		dirs.push(dir);
+		return dir;
+	}
+
+	afterEach(() => {
+		for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("parses stall-recovery and stall-nudges frontmatter", () => {
+		assert.equal(agent("tools: read").stallRecovery, undefined);
+		assert.equal(agent("stall-recovery: none").stallRecovery, undefined);
+		assert.deepEqual(agent("stall-recovery: wake").stallRecovery, { action: "wake", nudges: 2 });
+		assert.deepEqual(agent("stall-recovery: interrupt\nstall-nudges: 0").stallRecovery, {
+			action: "interrupt",
+			nudges: 0,
+		});
+		assert.throws(() => agent("stall-recovery: kill"), /stall-recovery must be none, wake, interrupt, or stop/);
+		assert.throws(() => agent("stall-recovery: wake\nstall-nudges: 11"), /stall-nudges must be an integer/);
+	});
+
+	it("nudges once per interval, stops after the last unanswered nudge, and starts over on a new stall", () => {
+		const policy = { action: "wake" as const, nudges: 2 };
+		const lifecycle = (steps: Array<{ action: "wake" | "stop"; at: number }>) => ({
+			...createLifecycle(0),
+			stallRecovery: steps,
+		});
+
+		assert.equal(dueStallRecoveryAction(policy, lifecycle([]), 10_000, STALLED_AT), "wake");
+		const once = lifecycle([{ action: "wake", at: STALLED_AT }]);
+		assert.equal(dueStallRecoveryAction(policy, once, 10_000, STALLED_AT + 1_000), undefined);
+		assert.equal(dueStallRecoveryAction(policy, once, 10_000, STALLED_AT + STALL_NUDGE_INTERVAL_MS), "wake");
+		const twice = lifecycle([
+			{ action: "wake", at: STALLED_AT },
+			{ action: "wake", at: STALLED_AT + STALL_NUDGE_INTERVAL_MS },
+		]);
+		assert.equal(dueStallRecoveryAction(policy, twice, 10_000, STALLED_AT + 2 * STALL_NUDGE_INTERVAL_MS), "stop");
+		assert.equal(dueStallRecoveryAction(policy, twice, 500_000, 560_000), "wake");
+		const stopping = lifecycle([{ action: "stop", at: STALLED_AT }]);
+		assert.equal(dueStallRecoveryAction(policy, stopping, 10_000, 900_000), undefined);
+		assert.equal(dueStallRecoveryAction({ action: "stop", nudges: 2 }, lifecycle([]), 10_000, STALLED_AT), "stop");
+	});
+
+	it("sends wake messages and Escape plus continue, recording each step in the lifecycle", () => {
+		const dir = tempDir();
+		const terminal = fakeTerminal();
+		const woken = stalledRun(dir, { action: "wake", nudges: 2 });
+
+		assert.equal(step(woken, STALLED_AT - 1_000, terminal.deps), undefined);
+		const first = step(woken, STALLED_AT, terminal.deps);
+		assert.deepEqual(first, { action: "wake", at: STALLED_AT });
+		assert.equal(step(woken, STALLED_AT + 1_000, terminal.deps), undefined);
+		assert.match(readSteerMessages(woken.sessionFile, 0)[0].text, /seen no progress from you/);
+		assert.deepEqual(woken.lifecycle.stallRecovery, [first]);
+		assert.equal(
+			formatStallRecoveryLine("worker", woken, first as never),
+			"worker running 5m, no progress for 5m; sent a wake message (nudge 1 of 2).",
+		);
+		// Taking the wake message from the inbox bumps the sequence but is no answer to it.
+		observe(woken, hungActivity(13, { steerCount: 1, lastSteerAt: STALLED_AT + 500 }), STALLED_AT + 1_000);
+		assert.deepEqual(step(woken, STALLED_AT + STALL_NUDGE_INTERVAL_MS, terminal.deps), {
+			action: "wake",
+			at: STALLED_AT + STALL_NUDGE_INTERVAL_MS,
+		});
+
+		const interrupted = stalledRun(dir, { action: "interrupt", nudges: 1 });
+		step(interrupted, STALLED_AT, terminal.deps);
+		assert.deepEqual(terminal.calls, ["wake", "wake", "escape pane-1", "run pane-1 continue"]);
+
+		const broken = stalledRun(dir, { action: "interrupt", nudges: 1 });
+		const failed = step(broken, STALLED_AT, {
+			...terminal.deps,
+			interruptPane: () => {
+				throw new Error("herdr unavailable");
+			},
+		});
+		assert.equal(
+			formatStallRecoveryLine("worker", broken, failed as never),
+			'worker running 5m, no progress for 5m; could not send Escape and "continue" (nudge 1 of 1): herdr unavailable.',
+		);
+	});
+
+	it("acts on a lack of progress, not on unreadable panes, and starts over once the child moves on", () => {
+		const dir = tempDir();
+		const terminal = fakeTerminal();
+		const run = stalledRun(dir, { action: "wake", nudges: 2 });
+		// Herdr cannot read the pane, but the child keeps streaming tool output.
+		run.lifecycle = observePaneInspection(run.lifecycle, { kind: "unavailable" }, LAST_PROGRESS_AT);
+		for (let now = LAST_PROGRESS_AT + 60_000; now <= STALLED_AT; now += 60_000) {
+			observe(run, hungActivity(12 + now / 1_000, { latestEvent: "tool_execution_update", updatedAt: now }), now);
+			assert.equal(step(run, now, terminal.deps), undefined);
+		}
+		assert.equal(projectLifecycle(run.lifecycle, STALLED_AT).kind, "stalled");
+		assert.deepEqual(terminal.calls, []);
+
+		const quiet = STALLED_AT + STALL_NO_PROGRESS_MS;
+		assert.equal(step(run, quiet, terminal.deps)?.action, "wake");
+		observe(run, hungActivity(900, { latestEvent: "turn_start", updatedAt: quiet + 1_000 }), quiet + 1_000);
+		assert.equal(step(run, quiet + 2_000, terminal.deps), undefined);
+		assert.equal(noProgressSince(run.lifecycle, quiet + 2_000), undefined);
+		assert.equal(noProgressSince(run.lifecycle, quiet + 2_000 + STALL_NO_PROGRESS_MS), quiet + 2_000);
+	});
+
+	it("stops with the pane screen saved as an artifact and a stalled sidecar the watcher settles", async () => {
+		const dir = tempDir();
+		const run = stalledRun(dir, { action: "interrupt", nudges: 1 });
+		const terminal = fakeTerminal();
+		step(run, STALLED_AT, terminal.deps);
+		const stop = step(run, STALLED_AT + STALL_NUDGE_INTERVAL_MS, terminal.deps);
+		assert.equal(stop?.action, "stop");
+		assert.equal(
+			formatStallRecoveryLine("worker", run, stop as never),
+			"worker running 6m, no progress for 6m; stopping it after 1 unanswered nudge.",
+		);
+
+		const exitFile = `${run.sessionFile}.exit`;
+		for (let attempt = 0; attempt < 50 && !existsSync(exitFile); attempt++) {
+			await new Promise((resolve) => setTimeout(resolve, 10));
+		}
+		assert.equal(readFileSync(join(run.artifactsDir, STALL_SCREEN_ARTIFACT), "utf8"), "$ pi\n⠋ Working…\n");
+		const completion = interpretExitSidecar(JSON.parse(readFileSync(exitFile, "utf8")));
+		assert.deepEqual(completion, {
+			reason: "stalled",
+			exitCode: 1,
+			errorMessage: "Subagent stalled for 6m; stopped after 1 unanswered nudge.",
+			stalled: { stalledForMs: 360_000, nudges: 1, screen: STALL_SCREEN_ARTIFACT },
+			runId: "r1",
+		});
+	});
+
+	it("explains a stalled settlement in the completion text and the rendered result", () => {
+		const result = {
+			exitCode: 1,
+			elapsed: 300,
+			summary: "Reading src/parser.ts.",
+			sessionFile: "/tmp/c.jsonl",
+			errorMessage: "Subagent stalled for 3m; stopped after 2 unanswered nudges.",
+			stalled: { stalledForMs: 180_000, nudges: 2, screen: STALL_SCREEN_ARTIFACT },
+		};
+		const text = testApi.resolveResultPresentation(result, "worker", "r1");
+		assert.match(
+			text,
+			/^Sub-agent "worker" \[r1\] stalled for 3m; stopped after 2 unanswered nudges, 5m 0s into the run\.\n\nIt did not call subagent_done; its last output is below and may be partial\. Its last pane screen is the stall-screen\.txt artifact\.\n\nReading src\/parser\.ts\./,
+		);
+
+		const rendered = renderSubagentResultMessage(
+			{ content: text, details: { name: "worker", id: "r1", ...result } },
+			{ expanded: true },
+			createPlainWidgetTheme(),
+			120,
+		).join("\n");
+		assert.match(rendered, /— stalled for 3m; stopped after 2 unanswered nudges \(5m 0s\)/);
+	});
+
+	it("shows the latest step and how long the run has made no progress in the widget", () => {
+		const dir = tempDir();
+		const run = { ...stalledRun(dir, { action: "wake", nudges: 2 }), agent: "worker", task: "" };
+		step(run, STALLED_AT, fakeTerminal().deps);
+		const originalNow = Date.now;
+		Date.now = () => STALLED_AT + 5_000;
+		try {
+			assert.match(
+				testApi.renderSubagentWidgetLines([run], 120, createPlainWidgetTheme()).join("\n"),
+				/no progress 5m05s · wake 1\/2/,
+			);
+		} finally {
+			Date.now = originalNow;
+		}
+	});
+});
@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { createSubagentActivityRecorder, readSubagentActivityFile } from "../src/activity.ts";
+import { registerSubagentsCommand, runActions, sendSubagentMessage } from "../src/history.ts";
+import { queuedSubagents, runningSubagents } from "../src/state.ts";
+import {
+	appendSteerMessage,
+	createSteeringInbox,
+	formatSteerMessage,
+	readSteerMessages,
+	steeringInboxFile,
+} from "../src/steering.ts";
+import subagentDoneExtension from "../src/subagent-done.ts";
+
+function running(id: string, sessionFile: string, parentSessionId = "parent-1"): any {
+	return { id, name: "auth", agent: "reviewer", task: "Review auth", parentSessionId, startTime: 1, sessionFile };
+}
+
+describe("subagent steering", () => {
+	const dirs: string[] = [];
+	const saved = {
+		session: process.env.PI_SUBAGENT_SESSION,
+		activity: process.env.PI_SUBAGENT_ACTIVITY_FILE,
+		id: process.env.PI_SUBAGENT_ID,
+	};
+
+	function tempDir(): string {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-steer-"));
+		dirs.push(dir);
+		return dir;
+	}
+
+	afterEach(() => {
+		runningSubagents.clear();
+		queuedSubagents.clear();
+		for (const [key, value] of [
+			["PI_SUBAGENT_SESSION", saved.session],
+			["PI_SUBAGENT_ACTIVITY_FILE", saved.activity],
+			["PI_SUBAGENT_ID", saved.id],
+		] as const) {
+			if (value === undefined) delete process.env[key];
+			else process.env[key] = value;
+		}
+		for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("queues a message only for a running run of the same parent session", () => {
+		const sessionFile = join(tempDir(), "child.jsonl");
+		runningSubagents.set("r1", running("r1", sessionFile));
+		runningSubagents.set("other", running("other", sessionFile, "parent-2"));
+		queuedSubagents.set("q1", { id: "q1", parentSessionId: "parent-1" });
+
+		const sent = sendSubagentMessage("parent-1", "r1", "  Only look at src/auth.  ");
+		assert.equal(sent.ok, true);
+		assert.match(sent.text, /^Sent to auth \[r1\]/);
+		assert.deepEqual(
+			readSteerMessages(sessionFile, 0).map((message) => message.text),
+			["Only look at src/auth."],
+		);
+
+		assert.match(sendSubagentMessage("parent-1", "other", "x").text, /No running subagent with run ID other/);
+		assert.match(sendSubagentMessage("parent-1", "q1", "x").text, /still queued/);
+		assert.deepEqual(sendSubagentMessage("parent-1", "r1", " "), { ok: false, text: "The message is empty." });
+		assert.deepEqual(runActions({ kind: "running", run: running("r1", sessionFile) }), ["focus", "send", "rerun"]);
+	});
+
+	it("reads complete inbox lines after the consumed offset, keeping torn and bad lines aligned", () => {
+		const sessionFile = join(tempDir(), "child.jsonl");
+		appendSteerMessage(sessionFile, "first", 1);
+		appendFileSync(steeringInboxFile(sessionFile), "not json\n");
+		appendSteerMessage(sessionFile, "second", 2);
+		appendFileSync(steeringInboxFile(sessionFile), '{"text":"half');
+
+		const delivered: string[] = [];
+		const inbox = createSteeringInbox({
+			sessionFile,
+			consumed: 1,
+			deliver: (message) => delivered.push(message.text),
+		});
+		assert.equal(inbox.poll(), 2);
+		assert.deepEqual(delivered, ["", "second"]);
+		appendFileSync(steeringInboxFile(sessionFile), 'ly"}\n');
+		assert.equal(inbox.poll(), 1);
+		assert.deepEqual(delivered, ["", "second", "halfly"]);
+		assert.equal(inbox.poll(), 0);
+	});
+
+	it("keeps the steer count across a recorder reload", () => {
+		const activityFile = join(tempDir(), "activity.json");
+		const recorder = createSubagentActivityRecorder({ runningChildId: "r1", activityFile, now: () => 5 });
+		recorder.steerReceived();
+		recorder.steerReceived();
+		const reloaded = createSubagentActivityRecorder({ runningChildId: "r1", activityFile });
+		assert.equal(reloaded.steersReceived(), 2);
+		const read = readSubagentActivityFile(activityFile, "r1");
+		assert.equal(read.ok && read.activity.lastSteerAt, 5);
+	});
+
+	it("injects inbox messages in the child as steering messages and records them", async () => {
+		const dir = tempDir();
+		const sessionFile = join(dir, "child.jsonl");
+		const activityFile = join(dir, "activity.json");
+		process.env.PI_SUBAGENT_SESSION = sessionFile;
+		process.env.PI_SUBAGENT_ACTIVITY_FILE = activityFile;
+		process.env.PI_SUBAGENT_ID = "steer-child";
+
+		const handlers = new Map<string, Function>();
+		const steers: Array<{ text: string; options: unknown }> = [];
+		subagentDoneExtension({
+			on: (name: string, handler: Function) => handlers.set(name, handler),
+			registerShortcut() {},
+			registerTool() {},
+			getAllTools: () => [],
+			sendUserMessage: (text: string, options: unknown) => steers.push({ text, options }),
+		} as never);
+		handlers.get("session_start")?.({}, { ui: { setWidget() {} } });
+		appendSteerMessage(sessionFile, "Skip the tests; just report.");
+		try {
+			await new Promise((resolve) => setTimeout(resolve, 1_200));
+			assert.deepEqual(steers, [
+				{ text: formatSteerMessage("Skip the tests; just report."), options: { deliverAs: "steer" } },
+			]);
+			const activity = JSON.parse(readFileSync(activityFile, "utf8"));
+			assert.equal(activity.steerCount, 1);
+		} finally {
+			handlers.get("session_shutdown")?.({ reason: "quit" });
+		}
+	});
+
+	it("sends from /subagents send and completes running run IDs", async () => {
+		const sessionFile = join(tempDir(), "child.jsonl");
+		runningSubagents.set("r1", running("r1", sessionFile));
+		const commands = new Map<string, any>();
+		registerSubagentsCommand(
+			{ registerCommand: (name: string, command: any) => commands.set(name, command) } as never,
+			async () => "",
+		);
+		const command = commands.get("subagents");
+		const notices: Array<{ text: string; level: string }> = [];
+		const ctx = {
+			hasUI: false,
+			sessionManager: { getSessionId: () => "parent-1" },
+			ui: { notify: (text: string, level: string) => notices.push({ text, level }) },
+		};
+
+		await command.handler("send r1 Focus on the login flow.\nIgnore signup.", ctx);
+		await command.handler("send r1", ctx);
+		assert.equal(notices[0].level, "info");
+		assert.deepEqual(notices[1], { text: "Usage: /subagents send <run-id> <message>", level: "warning" });
+		assert.deepEqual(
+			readSteerMessages(sessionFile, 0).map((message) => message.text),
+			["Focus on the login flow.\nIgnore signup."],
+		);
+		assert.deepEqual(command.getArgumentCompletions("se"), [{ value: "send ", label: "send" }]);
+		assert.deepEqual(command.getArgumentCompletions("send r"), [{ value: "send r1 ", label: "r1" }]);
+	});
+});
@@ -1,14 +1,17 @@
 import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
 import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { dirname, join } from "node:path";
 import { describe, it } from "node:test";
 import type { AgentDefinition } from "../src/agent-definition.ts";
 import { type AdmissionLease, getAdmissionCoordinator } from "../src/coordinator.ts";
+import { activateCompletionRuntime, resetActiveCompletionRuntimeForTest } from "../src/delivery.ts";
 import { finishLaunchTransaction, getLaunchTransactions } from "../src/launch-transaction.ts";
 import { createLifecycle } from "../src/lifecycle.ts";
 import type { ResolvedRuntimePlan } from "../src/runtime-routing.ts";
-import { runningSubagents, stickyTerminalRuns } from "../src/state.ts";
+import { getSessionLeaseRegistry } from "../src/session-leases.ts";
+import { runningSubagents, runWorktrees, stickyTerminalRuns } from "../src/state.ts";
 import { createSubagentLaunchService } from "../src/subagent-launch.ts";
 import type { RunningSubagent, StableParentContext } from "../src/types.ts";
 
@@ -219,6 +222,85 @@ describe("direct subagent launch path", () => {
 		}
 	});
 
+	it("previews the launch command, environment, and prompt files without creating anything", () => {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-preview-"));
+		const handoffs: ScriptHandoff[] = [];
+		const service = createService(handoffs);
+		const context = launchContext(dir, "preview-parent");
+		try {
+			const {
+				surface: _surface,
+				admissionLease: _lease,
+				...options
+			} = launchOptions("preview-run", undefined as never);
+			const preview = service.previewLaunch(
+				{ agent: "reviewer", task: "Inspect the preview." },
+				context,
+				options,
+			);
+
+			assert.equal(preview.runId, "preview-run");
+			assert.match(preview.command, /^cd '.*project' && PI_CODING_AGENT_DIR=.* pi --approve --session /);
+			assert.match(preview.command, /--model 'acme\/model-1' --thinking 'high'/);
+			assert.match(preview.command, /--skill '\/skills\/launch\/SKILL\.md'/);
+			assert.ok(preview.environment.includes("PI_SUBAGENT_AGENT='reviewer'"));
+			assert.deepEqual(
+				preview.artifacts.map((artifact) => artifact.content.split("\n")[0]),
+				['<active_agent name="reviewer"/>', "Complete your task autonomously."],
+			);
+			assert.match(preview.artifacts[1].content, /Inspect the preview\./);
+			assert.deepEqual(handoffs, []);
+			assert.equal(existsSync(join(dir, "agent", "sessions")), false);
+			assert.equal(existsSync(join(dir, "session-data")), false);
+			assert.equal(getLaunchTransactions().has("preview-run"), false);
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("previews an isolated launch in the worktree it would create", () => {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-preview-worktree-"));
+		const service = createService([]);
+		const context = launchContext(dir, "preview-worktree-parent");
+		const git = (...args: string[]) =>
+			execFileSync("git", ["-C", context.cwd, ...args], { encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] });
+		git("init", "-q");
+		git(
+			"-c",
+			"user.name=Test",
+			"-c",
+			"user.email=test@example.com",
+			"commit",
+			"-q",
+			"--allow-empty",
+			"-m",
+			"initial",
+		);
+		try {
+			const {
+				surface: _surface,
+				admissionLease: _lease,
+				...options
+			} = launchOptions("preview-isolated", undefined as never);
+			const preview = service.previewLaunch({ agent: "writer", task: "Edit." }, context, {
+				...options,
+				agentDefinition: { ...definition, id: "writer", isolation: "worktree" },
+			});
+
+			assert.match(preview.cwd, /pi-subagent-worktrees\/writer-preview-isolated$/);
+			assert.deepEqual(preview.worktree, {
+				path: preview.cwd,
+				branch: "pi-subagent/writer-preview-isolated",
+			});
+			assert.ok(preview.command.startsWith(`cd '${preview.cwd}' && `));
+			assert.equal(existsSync(preview.cwd), false);
+			assert.equal(git("branch", "--list", "pi-subagent/*").trim(), "");
+			assert.equal(runWorktrees.has("preview-isolated"), false);
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
 	it("releases the admission and records a sticky failure when background handoff fails", async () => {
 		const dir = mkdtempSync(join(tmpdir(), "subagent-launch-failure-"));
 		const runId = "background-launch-failure";
@@ -262,4 +344,131 @@ describe("direct subagent launch path", () => {
 			rmSync(dir, { recursive: true, force: true });
 		}
 	});
+
+	it("creates the run's worktree before the pane and removes it when the launch rolls back", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-launch-worktree-"));
+		const runId = "worktree-launch-failure";
+		const sessionId = "worktree-launch-parent";
+		const handoffs: ScriptHandoff[] = [];
+		const service = createService(handoffs, true);
+		const context = launchContext(dir, sessionId);
+		const git = (...args: string[]) =>
+			execFileSync("git", ["-C", context.cwd, ...args], { encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] });
+		git("init", "-q");
+		git(
+			"-c",
+			"user.name=Test",
+			"-c",
+			"user.email=test@example.com",
+			"commit",
+			"-q",
+			"--allow-empty",
+			"-m",
+			"initial",
+		);
+		const admissionLease = getAdmissionCoordinator(sessionId).request({ id: runId, class: "background" }).lease;
+
+		try {
+			await assert.rejects(
+				service.startBackgroundSpawn({
+					params: { agent: "writer", task: "Edit in isolation." },
+					ctx: context,
+					agentDefinition: { ...definition, id: "writer", isolation: "worktree" },
+					selectedSkills: [],
+					runtimePlan,
+					runId,
+					admissionLease,
+					projectTrusted: true,
+					surface: "pane-worktree-failure",
+				}),
+				/script handoff failed/,
+			);
+
+			assert.equal(handoffs.length, 1);
+			assert.match(handoffs[0].command, /^cd '[^']*pi-subagent-worktrees\/writer-worktree-launch-failure' && /);
+			assert.equal(runWorktrees.has(runId), false);
+			assert.equal(git("worktree", "list").trim().split("\n").length, 1);
+			assert.equal(git("branch", "--list", "pi-subagent/*").trim(), "");
+		} finally {
+			cleanupRun(runId);
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("background model fallback", () => {
+	async function superviseWithSidecar(id: string, sidecar: Record<string, unknown>) {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-fallback-"));
+		const parentSessionId = `fallback-parent-${id}`;
+		const parentSessionFile = join(dir, "parent.jsonl");
+		writeFileSync(parentSessionFile, "");
+		const delivered: any[] = [];
+		const pi = {
+			sendMessage(message: any) {
+				delivered.push(message);
+				writeFileSync(parentSessionFile, `${JSON.stringify({ type: "custom_message", ...message })}\n`, {
+					flag: "a",
+				});
+			},
+		};
+		activateCompletionRuntime(pi as never, parentSessionId);
+		const sessionFile = join(dir, `${id}.jsonl`);
+		writeFileSync(sessionFile, "");
+		writeFileSync(`${sessionFile}.exit`, JSON.stringify({ runId: id, ...sidecar }));
+		const relaunches: unknown[] = [];
+		const running: any = {
+			id,
+			name: "reviewer",
+			task: "Review.",
+			surface: `pane-${id}`,
+			startTime: Date.now(),
+			sessionFile,
+			parentSessionId,
+			parentSessionFile,
+			lifecycle: createLifecycle(Date.now()),
+			runtimePlan,
+			sessionLease: getSessionLeaseRegistry().acquire(sessionFile, id, "running"),
+			admissionLease: getAdmissionCoordinator(parentSessionId).request({ id, class: "background" }).lease,
+			entryCountBefore: 0,
+			inspectPaneOverride: async () => ({ kind: "present", observedAt: Date.now(), agentStatus: "working" }),
+			modelFallback: {
+				runtimePlan: { ...runtimePlan, model: "acme/model-2" },
+				relaunch: async (failed: unknown) => {
+					relaunches.push(failed);
+					return { id: `${id}-next`, text: "Relaunched on acme/model-2." };
+				},
+			},
+		};
+		try {
+			createService([]).superviseBackgroundRun(parentSessionId, running);
+			for (let attempt = 0; attempt < 200 && delivered.length === 0; attempt += 1) {
+				await new Promise((resolve) => setTimeout(resolve, 10));
+			}
+			return { relaunches, message: delivered[0] };
+		} finally {
+			running.abortController?.abort();
+			cleanupRun(id, running);
+			resetActiveCompletionRuntimeForTest();
+			rmSync(dir, { recursive: true, force: true });
+		}
+	}
+
+	it("relaunches on the next chain model after a provider error sidecar", async () => {
+		const { relaunches, message } = await superviseWithSidecar("fallback-provider", {
+			type: "error",
+			errorMessage: "429 rate limited",
+		});
+		assert.deepEqual(relaunches, [
+			{ runId: "fallback-provider", model: "acme/model-1", error: "429 rate limited" },
+		]);
+		assert.match(message.content, /Model fallback: Relaunched on acme\/model-2\./);
+		assert.equal(message.details.relaunchedAs, "fallback-provider-next");
+	});
+
+	it("does not relaunch when the run failed for another reason", async () => {
+		const { relaunches, message } = await superviseWithSidecar("fallback-malformed", { type: "mystery" });
+		assert.deepEqual(relaunches, []);
+		assert.equal(message.details.relaunchedAs, undefined);
+		assert.match(message.details.errorMessage, /unsupported payload type/);
+	});
 });
@@ -5,6 +5,7 @@ import { join } from "node:path";
 import { after, before, describe, it } from "node:test";
 import { visibleWidth } from "@earendil-works/pi-tui";
 import { createSubagentActivityRecorder, getSubagentActivityFile, readSubagentActivityFile } from "../src/activity.ts";
+import { applyAgentVars } from "../src/agent-definition.ts";
 import { interpretExitSidecar, waitForCompletion } from "../src/completion.ts";
 import { __herdrTest__, isHerdrAvailable } from "../src/herdr.ts";
 import * as subagentsModule from "../src/index.ts";
@@ -49,6 +50,7 @@ import {
 	STATUS_CONFIG,
 } from "../src/status.ts";
 import {
+	assertStructuredResult,
 	buildCompletionSidecar,
 	didLatestAssistantAbort,
 	findLatestAssistantError,
@@ -946,6 +948,24 @@ describe("strict subagent definitions", () => {
 		assert.match(parsed.frontmatter, /permission:\n {2}bash: deny/);
 	});
 
+	it("parses an inline result-schema and rejects malformed ones", () => {
+		const content = (schema: string) =>
+			`---\nname: reviewer\ntools: read\nresult-schema: ${schema}\n---\nReview.\n`;
+		const parsed = testApi.parseAgentDefinition(
+			content('{"type":"object","properties":{"verdict":{"type":"string"}},"required":["verdict"]}'),
+			"reviewer",
+			"/tmp/reviewer.md",
+		);
+		assert.deepEqual(parsed.resultSchema.required, ["verdict"]);
+		assert.equal(testApi.parseAgentDefinition(content(""), "reviewer", "/tmp/reviewer.md").resultSchema, undefined);
+		for (const schema of ["{type: object}", "[]", '{"type":"map"}', '{"required":"verdict"}']) {
+			assert.throws(
+				() => testApi.parseAgentDefinition(content(schema), "reviewer", "/tmp/reviewer.md"),
+				/Invalid subagent "reviewer": result-schema/,
+			);
+		}
+	});
+
 	it("rejects missing, empty, and malformed tools profiles before admission", () => {
 		for (const frontmatter of [
 			"name: reviewer",
@@ -982,7 +1002,7 @@ describe("strict subagent definitions", () => {
 		);
 		assert.throws(
 			() => testApi.parseAgentDefinition("---\nseed: sideways\n---\nbody\n", "reviewer", "/tmp/reviewer.md"),
-			/seed must be fresh or fork/,
+			/seed must be fresh, fork, or summary/,
 		);
 	});
 
@@ -1021,6 +1041,68 @@ describe("strict subagent definitions", () => {
 		});
 	});
 
+	it("merges extended definitions across project and global files", async () => {
+		await withIsolatedAgentEnv(async ({ projectDir, projectAgentsDir, globalDir, globalAgentsDir }) => {
+			writeAgentFile(
+				globalAgentsDir,
+				"base-reviewer",
+				"name: base-reviewer\nmodel: fake/base\ntools: read,grep\nskills: review\npermission:\n  bash: deny",
+				"Review carefully.",
+			);
+			writeAgentFile(
+				projectAgentsDir,
+				"security-reviewer",
+				"extends: base-reviewer\nmodel: fake/security # stricter model",
+				"Focus on {{area}} security.",
+			);
+			const load = (id: string) =>
+				testApi.loadAgentDefinition({ id, cwd: projectDir, agentDir: globalDir, projectTrusted: true });
+
+			const merged = load("security-reviewer");
+			assert.equal(merged.model, "fake/security");
+			assert.equal(merged.tools, "read,grep");
+			assert.equal(merged.skills, "review");
+			assert.deepEqual(merged.extends, ["base-reviewer"]);
+			assert.equal(merged.body, "Review carefully.\n\nFocus on {{area}} security.");
+			assert.match(merged.frontmatter, /permission:\n {2}bash: deny/);
+			assert.doesNotMatch(merged.frontmatter, /extends|name: base-reviewer/);
+			assert.equal(load("base-reviewer").extends, undefined);
+
+			writeAgentFile(globalAgentsDir, "loop-a", "extends: loop-b\ntools: read");
+			writeAgentFile(globalAgentsDir, "loop-b", "extends: loop-a");
+			writeAgentFile(globalAgentsDir, "orphan", "extends: nowhere\ntools: read");
+			assert.throws(
+				() => load("loop-a"),
+				/Invalid subagent "loop-a": extends cycle loop-a -> loop-b -> loop-a\./,
+			);
+			assert.throws(() => load("orphan"), /Invalid subagent "orphan": extends unknown agent "nowhere"\./);
+		});
+	});
+
+	it("fills body placeholders from call vars and rejects missing or unknown ones", () => {
+		const definition = testApi.parseAgentDefinition(
+			"---\ntools: read\n---\nReview {{area}} for {{ audience }}; {{area}} only.\n",
+			"reviewer",
+			"/tmp/reviewer.md",
+		);
+		assert.equal(
+			applyAgentVars(definition, { area: "auth", audience: "ops" }).body,
+			"Review auth for ops; auth only.",
+		);
+		assert.throws(() => applyAgentVars(definition, { area: "auth" }), /missing audience\./);
+		assert.throws(
+			() => applyAgentVars(definition, { area: "auth", audience: "ops", aera: "x" }),
+			/unknown aera; the body uses area, audience\./,
+		);
+		assert.throws(
+			() => applyAgentVars(definition, { area: "<active_agent>", audience: "ops" }),
+			/<active_agent> identity tag/,
+		);
+		const plain = { ...definition, body: "Plain." };
+		assert.equal(applyAgentVars(plain, undefined), plain);
+		assert.throws(() => applyAgentVars(plain, { area: "auth" }), /the body has no placeholders/);
+	});
+
 	it("uses agent seed only and builds fresh/fork launch behavior", () => {
 		assert.deepEqual(testApi.resolveLaunchBehavior({ seed: "fresh" }), {
 			seed: "fresh",
@@ -1035,7 +1117,10 @@ describe("strict subagent definitions", () => {
 	});
 
 	it("keeps agent tools authoritative and adds protocol controls", () => {
-		assert.equal(testApi.buildSubagentToolAllowlist("read,bash"), "read,bash,subagent_done");
+		assert.equal(
+			testApi.buildSubagentToolAllowlist("read,bash"),
+			"read,bash,subagent_done,subagent_progress,subagent_attach",
+		);
 		assert.throws(() => testApi.buildSubagentToolAllowlist(undefined), /explicit non-empty allowlist/);
 	});
 
@@ -1060,15 +1145,22 @@ describe("strict subagent definitions", () => {
 		(subagentsModule as any).default(api);
 		const tool = registeredTools.find((candidate) => candidate.name === "subagent");
 		assert.ok(tool);
-		assert.deepEqual(tool.parameters.required.sort(), ["agent", "task"]);
+		// agent/task are required per single run or per batch member; execute enforces the choice.
+		assert.equal(tool.parameters.required, undefined);
+		assert.deepEqual(tool.parameters.properties.batch.items.required.sort(), ["agent", "task"]);
 		assert.deepEqual(Object.keys(tool.parameters.properties).sort(), [
 			"agent",
+			"batch",
 			"blocking",
+			"budget",
+			"dependsOn",
 			"direction",
 			"label",
 			"layout",
+			"priority",
 			"surface",
 			"task",
+			"vars",
 		]);
 		assert.equal(
 			registeredTools.some((candidate) => candidate.name === "subagents_list"),
@@ -1231,6 +1323,52 @@ describe("subagent-done.ts", () => {
 				},
 			);
 		});
+
+		it("carries a structured result on done but never on provider errors", () => {
+			const result = { verdict: "approve" };
+			assert.deepEqual(buildCompletionSidecar(undefined, result), { type: "done", result });
+			assert.equal(
+				"result" in
+					buildCompletionSidecar([{ role: "assistant", stopReason: "error", errorMessage: "x" }], result),
+				false,
+			);
+		});
+
+		it("carries cumulative usage on both done and error sidecars", () => {
+			const usage = { "acme/model-1": { input: 10, output: 5, cacheRead: 0, cacheWrite: 0, cost: 0.01 } };
+			assert.deepEqual(buildCompletionSidecar(undefined, undefined, usage), { type: "done", usage });
+			assert.deepEqual(
+				buildCompletionSidecar(
+					[{ role: "assistant", stopReason: "error", errorMessage: "x" }],
+					undefined,
+					usage,
+				).usage,
+				usage,
+			);
+		});
+	});
+
+	describe("assertStructuredResult", () => {
+		const schema = {
+			type: "object",
+			properties: { verdict: { type: "string", enum: ["approve", "reject"] } },
+			required: ["verdict"],
+		};
+
+		it("accepts any parameters when no schema is declared", () => {
+			assert.equal(assertStructuredResult(undefined, { result: 1 }), undefined);
+		});
+
+		it("returns a matching payload and rejects missing or invalid ones with model-facing detail", () => {
+			assert.deepEqual(assertStructuredResult(schema, { result: { verdict: "approve" } }), {
+				verdict: "approve",
+			});
+			assert.throws(() => assertStructuredResult(schema, {}), /requires a `result`/);
+			assert.throws(
+				() => assertStructuredResult(schema, { result: { verdict: "maybe" } }),
+				/result\.verdict must be one of "approve", "reject"/,
+			);
+		});
 	});
 });
 
@@ -1606,6 +1744,24 @@ describe("completion.ts", () => {
 		});
 	});
 
+	it("decodes structured results from done payloads", () => {
+		assert.deepEqual(interpretExitSidecar({ type: "done", runId: "run", result: { files: ["a.ts"] } }), {
+			reason: "done",
+			exitCode: 0,
+			runId: "run",
+			result: { files: ["a.ts"] },
+		});
+	});
+
+	it("decodes usage from sidecars and drops malformed usage", () => {
+		const usage = { "acme/model-1": { input: 1200, output: 300, cacheRead: 800, cacheWrite: 0, cost: 0.0125 } };
+		assert.deepEqual(interpretExitSidecar({ type: "error", errorMessage: "x", usage }).usage, usage);
+		assert.equal(
+			"usage" in interpretExitSidecar({ type: "done", usage: { "acme/model-1": { input: "many" } } }),
+			false,
+		);
+	});
+
 	it("decodes error payloads and propagates the message with a non-zero exit code", () => {
 		assert.deepEqual(
 			interpretExitSidecar({
@@ -1617,6 +1773,7 @@ describe("completion.ts", () => {
 				reason: "error",
 				exitCode: 1,
 				errorMessage: "Anthropic 529 Overloaded after 3 retries",
+				providerError: true,
 			},
 		);
 	});
@@ -1632,6 +1789,7 @@ describe("completion.ts", () => {
 		const result = interpretExitSidecar({ type: "ping", name: "Worker", message: "need help" });
 		assert.equal(result.reason, "error");
 		assert.equal(result.exitCode, 1);
+		assert.equal(result.providerError, undefined);
 		assert.match(result.errorMessage ?? "", /Invalid subagent completion sidecar/);
 	});
 
@@ -1923,12 +2081,12 @@ describe("completion.ts", () => {
 });
 
 describe("commands", () => {
-	it("registers no slash commands", () => {
+	it("registers only the worktree, agents, and subagents commands", () => {
 		const { api, registeredCommands } = createMockExtensionApi();
 		(subagentsModule as any).default(api);
 		assert.deepEqual(
 			registeredCommands.map((command) => command.name),
-			[],
+			["subagent-worktree", "agents", "subagents"],
 			"pi-subagent-herdr must not register /iterate, /subagent, or /plan",
 		);
 	});
@@ -2010,11 +2168,15 @@ describe("spawn defaults", () => {
 });
 
 describe("tool registration", () => {
-	it("registers only subagent in the parent", () => {
+	it("registers subagent, subagent_message, and subagent_artifact in the parent", () => {
 		delete process.env.PI_SUBAGENT_ID;
 		const { api, registeredTools } = createMockExtensionApi();
 		(subagentsModule as any).default(api);
-		assert.deepEqual(registeredTools.map((tool) => tool.name).sort(), ["subagent"]);
+		assert.deepEqual(registeredTools.map((tool) => tool.name).sort(), [
+			"subagent",
+			"subagent_artifact",
+			"subagent_message",
+		]);
 	});
 
 	it("registers no parent lifecycle tools in a child regardless of permission env", () => {
@@ -2542,6 +2704,16 @@ describe("subagent result presentation", () => {
 		assert.match(presentation, /Session log: \/tmp\/subagent\.jsonl/);
 		assert.doesNotMatch(presentation, /ignored when errorMessage is present/);
 	});
+
+	it("repeats a structured result as JSON after the completion summary", () => {
+		const testApi = (subagentsModule as any).__test__;
+		const presentation = testApi.resolveResultPresentation(
+			{ exitCode: 0, elapsed: 3, summary: "Reviewed.", result: { verdict: "approve" } },
+			"Reviewer",
+		);
+
+		assert.match(presentation, /Reviewed\.\n\nStructured result:\n```json\n\{\n {2}"verdict": "approve"\n\}\n```/);
+	});
 });
 
 describe("subagent status renderer", () => {
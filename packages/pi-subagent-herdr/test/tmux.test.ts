@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { hasCommand } from "../src/herdr.ts";
+import { attachPane, resetLayoutStoreForTests } from "../src/layout.ts";
+import {
+	__tmuxTest__,
+	closeTmuxSurface,
+	createTmuxSurface,
+	createTmuxSurfaceSplit,
+	getTmuxPaneLayout,
+	inspectTmuxPaneSync,
+	readTmuxScreenAsync,
+	sendTmuxCommand,
+} from "../src/tmux.ts";
+
+async function waitFor(predicate: () => Promise<boolean>, timeoutMs = 10_000): Promise<void> {
+	const deadline = Date.now() + timeoutMs;
+	while (!(await predicate())) {
+		if (Date.now() > deadline) throw new Error("timed out waiting for tmux pane");
+		await new Promise((resolve) => setTimeout(resolve, 50));
+	}
+}
+
+/** Run `fn` against a private tmux server, with TMUX/TMUX_PANE pointing at its first pane. */
+async function withTmuxServer(fn: (parentPaneId: string) => Promise<void>): Promise<void> {
+	const dir = mkdtempSync(join(tmpdir(), "tmux-backend-"));
+	const socket = join(dir, "socket");
+	const previous = { TMUX: process.env.TMUX, TMUX_PANE: process.env.TMUX_PANE };
+	try {
+		// A plain sh keeps pane startup independent of the host's interactive shell profile.
+		execFileSync("tmux", ["-S", socket, "-f", "/dev/null", "new-session", "-d", "-x", "200", "-y", "50", "sh"]);
+		execFileSync("tmux", ["-S", socket, "set-option", "-g", "default-shell", "/bin/sh"]);
+		const parentPaneId = execFileSync("tmux", ["-S", socket, "display-message", "-p", "#{pane_id}"], {
+			encoding: "utf8",
+		}).trim();
+		process.env.TMUX = `${socket},0,0`;
+		process.env.TMUX_PANE = parentPaneId;
+		await fn(parentPaneId);
+	} finally {
+		try {
+			execFileSync("tmux", ["-S", socket, "kill-server"], { stdio: "ignore" });
+		} catch {}
+		for (const [key, value] of Object.entries(previous)) {
+			if (value === undefined) delete process.env[key];
+			else process.env[key] = value;
+		}
+		rmSync(dir, { recursive: true, force: true });
+	}
+}
+
+describe("tmux terminal backend", () => {
+	it("builds detached split and window commands that print the new pane ID", () => {
+		assert.deepEqual(__tmuxTest__.buildSplitArgs("right", "%3", "/repo"), [
+			"split-window",
+			"-d",
+			"-P",
+			"-F",
+			"#{pane_id}",
+			"-h",
+			"-t",
+			"%3",
+			"-c",
+			"/repo",
+		]);
+		assert.equal(__tmuxTest__.buildSplitArgs("down", "%3", "/repo")[5], "-v");
+		assert.deepEqual(__tmuxTest__.buildWindowCreateArgs("reviewer", "/repo", "@1").slice(0, 5), [
+			"new-window",
+			"-d",
+			"-a",
+			"-t",
+			"@1",
+		]);
+		assert.deepEqual(__tmuxTest__.buildSendCommandArgs("%4", "bash run.sh"), [
+			"send-keys",
+			"-t",
+			"%4",
+			"-l",
+			"bash run.sh",
+			";",
+			"send-keys",
+			"-t",
+			"%4",
+			"Enter",
+		]);
+		assert.throws(() => __tmuxTest__.extractTmuxPaneId("", "split-window"), /Unexpected tmux split-window output/);
+	});
+
+	it("parses list-panes geometry into the layout shape used for region selection", () => {
+		const layout = __tmuxTest__.parseTmuxPaneLayout(
+			"%0 0 0 100 50 1 201 50\n%1 101 0 100 24 0 201 50\n%2 101 25 100 25 0 201 50\n",
+		);
+		assert.deepEqual(layout?.area, { x: 0, y: 0, width: 201, height: 50 });
+		assert.deepEqual(
+			layout?.panes.map((pane) => [pane.paneId, pane.rect.height, pane.focused]),
+			[
+				["%0", 50, true],
+				["%1", 24, false],
+				["%2", 25, false],
+			],
+		);
+		assert.equal(__tmuxTest__.parseTmuxPaneLayout("garbage"), null);
+	});
+
+	it("reports a pane missing only when the server lists panes without it", () => {
+		assert.equal(__tmuxTest__.parsePaneListOutput("%0\n%9\n", "%9").kind, "present");
+		assert.equal(__tmuxTest__.parsePaneListOutput("%0\n%19\n", "%9").kind, "missing");
+		assert.equal(__tmuxTest__.parsePaneListError({ stderr: "no server running on /tmp/x\n" }).kind, "unavailable");
+		assert.equal(__tmuxTest__.visibleLines("a\nb\nc\n\n\n", 2), "b\nc");
+	});
+
+	it("drives a real tmux server through the attached layout", async (t) => {
+		if (!hasCommand("tmux")) {
+			t.skip("tmux not installed");
+			return;
+		}
+		await withTmuxServer(async (parentPaneId) => {
+			resetLayoutStoreForTests();
+			const deps = {
+				splitFn: createTmuxSurfaceSplit,
+				tabCreateFn: createTmuxSurface,
+				layoutQuery: getTmuxPaneLayout,
+			};
+			const first = attachPane(
+				parentPaneId,
+				{ name: "first", direction: "right" },
+				{ ...deps, measure: { columns: 200 } },
+			);
+			const second = attachPane(
+				parentPaneId,
+				{ name: "second", direction: "right" },
+				{ ...deps, measure: { columns: 200 } },
+			);
+			const layout = getTmuxPaneLayout(parentPaneId);
+			assert.deepEqual(
+				layout?.panes.map((pane) => pane.paneId).sort(),
+				[parentPaneId, first.paneId, second.paneId].sort(),
+			);
+			const firstRect = layout?.panes.find((pane) => pane.paneId === first.paneId)?.rect;
+			const secondRect = layout?.panes.find((pane) => pane.paneId === second.paneId)?.rect;
+			assert.equal(firstRect?.x, secondRect?.x, "second pane stacks below the first");
+
+			sendTmuxCommand(second.paneId, "echo backend-$((40 + 2))");
+			await waitFor(async () => (await readTmuxScreenAsync(second.paneId)).includes("backend-42"));
+
+			const tab = createTmuxSurface("isolated");
+			assert.equal(getTmuxPaneLayout(tab)?.panes.length, 1);
+			closeTmuxSurface(second.paneId);
+			assert.equal(inspectTmuxPaneSync(second.paneId).kind, "missing");
+			assert.equal(inspectTmuxPaneSync(first.paneId).kind, "present");
+			resetLayoutStoreForTests();
+		});
+	});
+});
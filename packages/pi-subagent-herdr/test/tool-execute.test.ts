@@ -3,7 +3,11 @@ import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, it } from "node:test";
+import { getAdmissionCoordinator } from "../src/coordinator.ts";
+import { getForegroundDeliveryBarrier } from "../src/delivery-barrier.ts";
+import { recordRunSettlement } from "../src/dependencies.ts";
 import { createLifecycle } from "../src/lifecycle.ts";
+import { queuedSubagents, runHistory, settledRuns, subagentBatches } from "../src/state.ts";
 import { createToolExecute } from "../src/tool-execute.ts";
 
 const fakePi = {
@@ -41,6 +45,7 @@ function createExecutor(cwd: string, sessionId: string, overrides: Record<string
 		startBackgroundSpawn: async () => {
 			throw new Error("startBackgroundSpawn was not configured");
 		},
+		settleBatchMember: async () => {},
 		captureStickyLaunchFailure: () => {},
 		launchSubagent: async () => {
 			throw new Error("launchSubagent was not configured");
@@ -57,6 +62,7 @@ function createExecutor(cwd: string, sessionId: string, overrides: Record<string
 		resolveResultPresentation: (result: { summary: string }) => result.summary,
 		shouldDeliverSubagentCompletion: () => true,
 		isTerminalAvailable: () => true,
+		terminalParentPaneEnv: () => "HERDR_PANE_ID",
 		...overrides,
 	} as Parameters<typeof createToolExecute>[0]);
 }
@@ -99,8 +105,60 @@ describe("subagent tool execution", () => {
 			);
 
 			assert.equal(result.isError, undefined);
-			assert.equal(result.details.error, "herdr not available");
-			assert.equal(result.content[0].text, "Subagents require herdr. Start Herdr first.");
+			assert.equal(result.details.error, "terminal backend not available");
+			assert.equal(result.content[0].text, "Subagents require a terminal backend. Start Herdr first.");
+		});
+	});
+
+	it("requires the caller-pane variable only for backends that attach to the parent pane", async () => {
+		await withProject(async (cwd) => {
+			const previous = process.env.HERDR_PANE_ID;
+			delete process.env.HERDR_PANE_ID;
+			try {
+				const attached = await createExecutor(cwd, "attached", {
+					terminalParentPaneEnv: () => "HERDR_PANE_ID",
+				})(
+					fakePi,
+					undefined,
+					{ agent: "reviewer", task: "Review this." },
+					undefined,
+					undefined,
+					fakeExtensionContext(),
+				);
+				assert.equal(attached.details.error, "missing HERDR_PANE_ID");
+
+				let spawned = false;
+				const headless = await createExecutor(cwd, "headless", {
+					terminalParentPaneEnv: () => undefined,
+					startBackgroundSpawn: async (options: any) => {
+						spawned = true;
+						options.admissionLease.release();
+						return {
+							id: options.runId,
+							name: "reviewer",
+							agent: "reviewer",
+							task: options.params.task,
+							surface: "headless-pane",
+							startTime: Date.now(),
+							sessionFile: join(cwd, "child.jsonl"),
+							launchScriptFile: join(cwd, "launch.sh"),
+							lifecycle: createLifecycle(Date.now()),
+							runtimePlan: options.runtimePlan,
+						};
+					},
+				})(
+					fakePi,
+					undefined,
+					{ agent: "reviewer", task: "Review this." },
+					undefined,
+					undefined,
+					fakeExtensionContext(),
+				);
+				assert.equal(headless.details.status, "started");
+				assert.equal(spawned, true);
+			} finally {
+				if (previous !== undefined) process.env.HERDR_PANE_ID = previous;
+			}
 		});
 	});
 
@@ -153,6 +211,213 @@ describe("subagent tool execution", () => {
 		});
 	});
 
+	it("admits a batch as one group and tags every spawned member with the batch", async () => {
+		await withProject(async (cwd) => {
+			const spawns: any[] = [];
+			let nextId = 0;
+			const execute = createExecutor(cwd, "batch", {
+				createRunId: () => `batch-${nextId++}`,
+				startBackgroundSpawn: async (options: any) => {
+					spawns.push(options);
+					return { id: options.runId, name: options.params.label ?? options.params.agent };
+				},
+			});
+
+			const result = await withPaneId(() =>
+				execute(
+					fakePi,
+					undefined,
+					{
+						batch: [
+							{ agent: "reviewer", task: "Review the UI.", label: "UI" },
+							{ agent: "reviewer", task: "Review the API." },
+						],
+						direction: "down",
+					},
+					undefined,
+					undefined,
+					fakeExtensionContext(),
+				),
+			);
+
+			assert.equal(result.isError, undefined);
+			assert.equal(result.details.status, "batch");
+			assert.equal(result.details.id, "batch-0");
+			assert.deepEqual(
+				(result.details.members as any[]).map((member) => [member.id, member.name, member.status]),
+				[
+					["batch-1", "UI", "started"],
+					["batch-2", "reviewer", "started"],
+				],
+			);
+			assert.deepEqual(
+				spawns.map((options) => [options.batchId, options.params.task, options.params.direction]),
+				[
+					["batch-0", "Review the UI.", "down"],
+					["batch-0", "Review the API.", "down"],
+				],
+			);
+			assert.equal("batch" in spawns[0].params, false);
+			assert.deepEqual(
+				subagentBatches.get("batch-0")?.members.map((member: any) => member.outcome),
+				["pending", "pending"],
+			);
+			for (const options of spawns) options.admissionLease.release();
+			subagentBatches.clear();
+		});
+	});
+
+	it("rejects the whole batch before admission when any member cannot resolve", async () => {
+		await withProject(async (cwd) => {
+			let spawned = false;
+			const execute = createExecutor(cwd, "batch-invalid", {
+				startBackgroundSpawn: async () => {
+					spawned = true;
+					throw new Error("unexpected spawn");
+				},
+			});
+			const call = (params: any) =>
+				withPaneId(() => execute(fakePi, undefined, params, undefined, undefined, fakeExtensionContext()));
+
+			const missing = await call({
+				batch: [
+					{ agent: "reviewer", task: "Review." },
+					{ agent: "missing", task: "Review." },
+				],
+			});
+			assert.equal(missing.isError, true);
+			assert.match(missing.content[0].text, /^Batch member 2 \("missing"\): /);
+
+			const mixed = await call({ agent: "reviewer", task: "Review.", batch: [{ agent: "reviewer", task: "x" }] });
+			assert.equal(mixed.content[0].text, "Pass either agent/task or batch, not both.");
+
+			const blocking = await call({ blocking: true, batch: [{ agent: "reviewer", task: "x" }] });
+			assert.equal(blocking.content[0].text, "Batch runs are background-only; omit blocking.");
+
+			assert.equal(spawned, false);
+			assert.equal(subagentBatches.size, 0);
+		});
+	});
+
+	it("turns a shut-down coordinator into failed member results instead of rejecting", async () => {
+		await withProject(async (cwd) => {
+			let nextId = 0;
+			let spawned = false;
+			const execute = createExecutor(cwd, "batch-shutdown", {
+				createRunId: () => `shutdown-${nextId++}`,
+				startBackgroundSpawn: async () => {
+					spawned = true;
+					throw new Error("unexpected spawn");
+				},
+			});
+			getAdmissionCoordinator("batch-shutdown").shutdownNow();
+
+			const result = await withPaneId(() =>
+				execute(
+					fakePi,
+					undefined,
+					{
+						batch: [
+							{ agent: "reviewer", task: "Review the UI." },
+							{ agent: "reviewer", task: "Review the API." },
+						],
+					},
+					undefined,
+					undefined,
+					fakeExtensionContext(),
+				),
+			);
+
+			assert.equal(result.isError, true);
+			assert.match(result.content[0].text, /^Subagent batch \[shutdown-0\] was not admitted: .*shut down/);
+			assert.deepEqual(
+				(result.details.members as any[]).map((member) => [member.id, member.status]),
+				[
+					["shutdown-1", "failed"],
+					["shutdown-2", "failed"],
+				],
+			);
+			assert.equal(spawned, false);
+			assert.equal(subagentBatches.size, 0);
+		});
+	});
+
+	it("holds a dependsOn run without a slot, then launches it with predecessor summaries", async () => {
+		await withProject(async (cwd) => {
+			let spawnOptions: any;
+			const execute = createExecutor(cwd, "dependent", {
+				startBackgroundSpawn: async (options: any) => {
+					spawnOptions = options;
+					return { id: options.runId, name: "reviewer" };
+				},
+			});
+			recordRunSettlement({
+				runId: "impl-done",
+				parentSessionId: "dependent",
+				name: "impl",
+				outcome: "completed",
+				summary: "Added the API.",
+			});
+			queuedSubagents.set("impl-running", {
+				id: "impl-running",
+				name: "tests",
+				agent: "tester",
+				parentSessionId: "dependent",
+			});
+
+			const result = await withPaneId(() =>
+				execute(
+					fakePi,
+					undefined,
+					{ agent: "reviewer", task: "Review:\n{{predecessors}}", dependsOn: ["impl-done", "impl-running"] },
+					undefined,
+					undefined,
+					fakeExtensionContext(),
+				),
+			);
+
+			assert.equal(result.details.status, "queued");
+			assert.match(result.content[0].text, /waiting on "impl" \[impl-done\], "tests" \[impl-running\]/);
+			const held = queuedSubagents.get("dependent-run");
+			await new Promise((resolve) => setImmediate(resolve));
+			assert.deepEqual(held.waitingOn, [{ id: "impl-running", name: "tests" }]);
+			assert.equal(Boolean(spawnOptions), false);
+
+			queuedSubagents.delete("impl-running");
+			recordRunSettlement({ runId: "impl-running", name: "tests", outcome: "completed", summary: "All green." });
+			await new Promise((resolve) => setImmediate(resolve));
+
+			assert.equal(spawnOptions.runId, "dependent-run");
+			assert.equal(spawnOptions.admissionLease.state, "admitted");
+			assert.equal(
+				spawnOptions.params.task,
+				"Review:\nPredecessor results:\n\n### impl [impl-done]\n\nAdded the API.\n\n### tests [impl-running]\n\nAll green.",
+			);
+			assert.equal(queuedSubagents.has("dependent-run"), false);
+			spawnOptions.admissionLease.release();
+			settledRuns.clear();
+		});
+	});
+
+	it("rejects unknown dependsOn run IDs before holding anything", async () => {
+		await withProject(async (cwd) => {
+			const execute = createExecutor(cwd, "dependent-unknown");
+			const result = await withPaneId(() =>
+				execute(
+					fakePi,
+					undefined,
+					{ agent: "reviewer", task: "Review.", dependsOn: ["ghost"] },
+					undefined,
+					undefined,
+					fakeExtensionContext(),
+				),
+			);
+			assert.equal(result.isError, true);
+			assert.match(result.content[0].text, /^Unknown dependsOn run "ghost"/);
+			assert.equal(queuedSubagents.size, 0);
+		});
+	});
+
 	it("settles a blocking run, commits the launch, and releases run ownership", async () => {
 		await withProject(async (cwd) => {
 			let committed = false;
@@ -211,4 +476,235 @@ describe("subagent tool execution", () => {
 			assert.equal(captured, true);
 		});
 	});
+
+	it("refuses a blocking run of an agent capped at 0 and releases its delivery barrier", async () => {
+		await withProject(async (cwd) => {
+			writeFileSync(
+				join(cwd, ".pi", "settings.json"),
+				JSON.stringify({ subagentHerdr: { admission: { agents: { reviewer: 0 } } } }),
+			);
+			const execute = createExecutor(cwd, "capped", { resolveBlocking: () => true });
+
+			await assert.rejects(
+				withPaneId(() =>
+					execute(
+						fakePi,
+						undefined,
+						{ agent: "reviewer", task: "Review." },
+						undefined,
+						undefined,
+						fakeExtensionContext(),
+					),
+				),
+				/Subagent "reviewer" is disabled/,
+			);
+
+			assert.equal(getForegroundDeliveryBarrier("capped").isActive(), false);
+			assert.equal(queuedSubagents.size, 0);
+		});
+	});
+
+	it("lists a run that failed to launch in history with its budget and priority", async () => {
+		await withProject(async (cwd) => {
+			const execute = createExecutor(cwd, "launch-failure", {
+				resolveBlocking: () => true,
+				launchSubagent: async () => {
+					throw new Error("pane refused");
+				},
+			});
+			const params = {
+				agent: "reviewer",
+				task: "Review.",
+				budget: { maxTurns: 3, maxTime: "90s" },
+				priority: "high",
+			};
+
+			await assert.rejects(
+				withPaneId(() => execute(fakePi, undefined, params, undefined, undefined, fakeExtensionContext())),
+				/pane refused/,
+			);
+
+			const entry = runHistory.get("launch-failure-run");
+			runHistory.clear();
+			settledRuns.clear();
+			assert.equal(entry.outcome, "failed");
+			assert.equal(entry.parentSessionId, "launch-failure");
+			assert.equal(entry.summary, "failed to launch: pane refused");
+			assert.equal(entry.sessionFile, undefined);
+			assert.deepEqual(entry.budget, { maxTurns: 3, maxTimeMs: 90_000 });
+			assert.equal(entry.priority, "high");
+		});
+	});
+
+	it("relaunches a blocking run once on the next chain model after a provider error", async () => {
+		await withProject(async (cwd) => {
+			writeFileSync(
+				join(cwd, ".pi", "agents", "fallback.md"),
+				"---\nname: fallback\ntools: read\nmodel: test/first, test/second:high\nmodel-fallback: relaunch\n---\n\nReview.\n",
+			);
+			let nextId = 0;
+			const launches: any[] = [];
+			const ctx = {
+				model: { provider: "test", id: "model" },
+				modelRegistry: {
+					find: (provider: string, id: string) => ({ provider, id, reasoning: true }),
+					hasConfiguredAuth: () => true,
+				},
+			} as any;
+			const execute = createExecutor(cwd, "fallback", {
+				resolveBlocking: () => true,
+				createRunId: () => `fallback-${nextId++}`,
+				launchSubagent: async (_params: any, _ctx: any, options: any) => {
+					launches.push(options);
+					return {
+						id: options.runId,
+						name: "fallback",
+						agent: "fallback",
+						task: "Review.",
+						surface: `pane-${options.runId}`,
+						startTime: Date.now(),
+						sessionFile: join(cwd, `${options.runId}.jsonl`),
+						lifecycle: createLifecycle(Date.now()),
+						runtimePlan: options.runtimePlan,
+						admissionLease: options.admissionLease,
+					};
+				},
+				watchSubagent: async (running: any) =>
+					running.id === "fallback-0"
+						? {
+								name: "fallback",
+								task: "Review.",
+								summary: "Subagent error: 429 rate limited",
+								errorMessage: "429 rate limited",
+								providerError: true,
+								exitCode: 1,
+								elapsed: 1,
+							}
+						: { name: "fallback", task: "Review.", summary: "Reviewed.", exitCode: 0, elapsed: 1 },
+				releaseRunOwnership: (running: any) => running.admissionLease.release(),
+			});
+
+			const result = await withPaneId(() =>
+				execute(fakePi, undefined, { agent: "fallback", task: "Review." }, undefined, undefined, ctx),
+			);
+
+			assert.deepEqual(
+				launches.map((options) => [options.runId, options.runtimePlan.model, options.runtimePlan.thinking]),
+				[
+					["fallback-0", "test/first", "low"],
+					["fallback-1", "test/second", "high"],
+				],
+			);
+			assert.deepEqual(launches[1].runtimePlan.modelChain.relaunchedFrom, {
+				runId: "fallback-0",
+				model: "test/first",
+				error: "429 rate limited",
+			});
+			assert.equal(result.isError, false);
+			assert.equal(result.details.id, "fallback-1");
+			assert.equal(result.details.relaunchedFrom, "fallback-0");
+			assert.match(result.content[0].text, /first attempt failed:\nSubagent error: 429 rate limited/);
+			assert.equal(result.content[1].text, "Reviewed.");
+		});
+	});
+
+	it("briefs a seed: summary agent before admission and shares one briefing across a batch", async () => {
+		await withProject(async (cwd) => {
+			writeFileSync(
+				join(cwd, ".pi", "agents", "briefed.md"),
+				"---\nname: briefed\ntools: read\nseed: summary\n---\n\nContinue the work.\n",
+			);
+			const prompts: Array<{ model: string; prompt: string }> = [];
+			const spawns: any[] = [];
+			let nextId = 0;
+			const execute = createExecutor(cwd, "briefed", {
+				createRunId: () => `briefed-${nextId++}`,
+				completeSeedSummary: async (_ctx: unknown, model: any, prompt: string) => {
+					prompts.push({ model: `${model.provider}/${model.modelId}`, prompt });
+					return "## Goal\nShip the login fix.";
+				},
+				startBackgroundSpawn: async (options: any) => {
+					spawns.push(options);
+					options.admissionLease.release();
+					return { id: options.runId, name: options.params.agent };
+				},
+			});
+			const ctx = {
+				...fakeExtensionContext(),
+				sessionManager: {
+					getBranch: () => [
+						{ type: "message", id: "u1", message: { role: "user", content: "Fix the login bug." } },
+					],
+					getLeafId: () => "u1",
+				},
+			};
+
+			const single = await withPaneId(() =>
+				execute(fakePi, undefined, { agent: "briefed", task: "Write the test." }, undefined, undefined, ctx),
+			);
+			const batch = await withPaneId(() =>
+				execute(
+					fakePi,
+					undefined,
+					{
+						batch: [
+							{ agent: "briefed", task: "Write the test." },
+							{ agent: "briefed", task: "Update the docs." },
+							{ agent: "reviewer", task: "Review." },
+						],
+					},
+					undefined,
+					undefined,
+					ctx,
+				),
+			);
+
+			assert.equal(single.details.status, "started");
+			assert.equal(batch.isError, undefined);
+			assert.equal(prompts.length, 2);
+			assert.equal(prompts[0].model, "test/model");
+			assert.match(prompts[0].prompt, /Fix the login bug\./);
+			assert.deepEqual(
+				spawns.map((options) => options.seedBriefing),
+				[
+					{ text: "## Goal\nShip the login fix.", parentLeafId: "u1", model: "test/model" },
+					{ text: "## Goal\nShip the login fix.", parentLeafId: "u1", model: "test/model" },
+					{ text: "## Goal\nShip the login fix.", parentLeafId: "u1", model: "test/model" },
+					undefined,
+				],
+			);
+		});
+	});
+
+	it("fails a seed: summary call before admission when the briefing cannot be written", async () => {
+		await withProject(async (cwd) => {
+			writeFileSync(
+				join(cwd, ".pi", "agents", "briefed.md"),
+				"---\nname: briefed\ntools: read\nseed: summary\nsummary-model: test/cheap\n---\n\nContinue.\n",
+			);
+			const execute = createExecutor(cwd, "briefed-fail", {
+				completeSeedSummary: async () => {
+					throw new Error("401 unauthorized");
+				},
+			});
+			const ctx = {
+				...fakeExtensionContext(),
+				sessionManager: {
+					getBranch: () => [{ type: "message", id: "u1", message: { role: "user", content: "Fix it." } }],
+					getLeafId: () => "u1",
+				},
+			};
+
+			const result = await withPaneId(() =>
+				execute(fakePi, undefined, { agent: "briefed", task: "Go." }, undefined, undefined, ctx),
+			);
+
+			assert.equal(result.isError, true);
+			assert.equal(
+				result.content[0].text,
+				'Could not summarize the parent session for "briefed": test/cheap: 401 unauthorized.',
+			);
+			assert.equal(queuedSubagents.size, 0);
+		});
+	});
 });
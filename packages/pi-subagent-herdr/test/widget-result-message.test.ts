@@ -48,6 +48,26 @@ describe("subagent result renderers", () => {
 		assert.doesNotMatch(output, /auto-retry exhausted/);
 	});
 
+	it("shows run cost in the header and a per-model usage breakdown when expanded", () => {
+		const message = {
+			content: 'Sub-agent "Reviewer" [run-4] completed (7s).\n\nReviewed.',
+			details: {
+				name: "Reviewer",
+				id: "run-4",
+				elapsed: 7,
+				usage: {
+					"acme/large": { input: 12_300, output: 4_500, cacheRead: 80_000, cacheWrite: 0, cost: 0.1 },
+					"acme/small": { input: 900, output: 100, cacheRead: 0, cacheWrite: 0, cost: 0.023 },
+				},
+			},
+		};
+
+		assert.match(renderedResult(message), /completed \(7s · \$0\.123\)/);
+		const expanded = renderedResult(message, true);
+		assert.match(expanded, /Usage: 13\.2k in · 4\.6k out · 80\.0k cache · \$0\.123/);
+		assert.match(expanded, /acme\/small: 900 in · 100 out · \$0\.023/);
+	});
+
 	it("keeps abandoned outcomes distinct from failures", () => {
 		const output = renderedResult({
 			content: "The child may still be running.",
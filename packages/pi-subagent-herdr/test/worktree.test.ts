@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { parseAgentDefinition } from "../src/agent-definition.ts";
+import { runWorktrees } from "../src/state.ts";
+import {
+	createRunWorktree,
+	formatWorktreeReport,
+	removeRunWorktree,
+	reportRunWorktree,
+	runWorktreeCommand,
+} from "../src/worktree.ts";
+
+function git(cwd: string, ...args: string[]): string {
+	return execFileSync("git", ["-C", cwd, ...args], { encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] }).trim();
+}
+
+function createRepo(): string {
+	const repo = realpathSync(mkdtempSync(join(tmpdir(), "subagent-worktree-")));
+	git(repo, "init", "-q", "-b", "main");
+	git(repo, "config", "user.name", "Test");
+	git(repo, "config", "user.email", "test@example.com");
+	mkdirSync(join(repo, "pkg"));
+	writeFileSync(join(repo, "pkg", "notes.txt"), "one\n");
+	git(repo, "add", "-A");
+	git(repo, "commit", "-q", "-m", "initial");
+	return repo;
+}
+
+describe("worktree isolation", () => {
+	const repos: string[] = [];
+
+	afterEach(() => {
+		runWorktrees.clear();
+		for (const repo of repos.splice(0)) rmSync(repo, { recursive: true, force: true });
+	});
+
+	function repo(): string {
+		const path = createRepo();
+		repos.push(path);
+		return path;
+	}
+
+	it("creates a branch and worktree per run and keeps the caller's offset inside the repository", () => {
+		const root = repo();
+		const worktree = createRunWorktree({ cwd: join(root, "pkg"), runId: "a1b2", agent: "writer" });
+		assert.equal(worktree.branch, "pi-subagent/writer-a1b2");
+		assert.equal(worktree.cwd, join(worktree.path, "pkg"));
+		assert.equal(git(worktree.path, "rev-parse", "--abbrev-ref", "HEAD"), worktree.branch);
+		assert.equal(git(root, "status", "--porcelain"), "", "worktrees live outside the parent checkout");
+		assert.equal(runWorktrees.get("a1b2"), worktree);
+
+		removeRunWorktree(worktree);
+		assert.equal(existsSync(worktree.path), false);
+		assert.equal(git(root, "branch", "--list", worktree.branch), "");
+		assert.equal(runWorktrees.has("a1b2"), false);
+	});
+
+	it("reports the diffstat and cleanliness of the run's changes", () => {
+		const root = repo();
+		const worktree = createRunWorktree({ cwd: root, runId: "r1", agent: "writer" });
+		assert.deepEqual(
+			{ ...reportRunWorktree(worktree), path: "" },
+			{ branch: worktree.branch, path: "", clean: true, commits: 0, diffstat: "" },
+		);
+
+		writeFileSync(join(worktree.path, "pkg", "notes.txt"), "one\ntwo\n");
+		writeFileSync(join(worktree.path, "new.txt"), "new\n");
+		const report = reportRunWorktree(worktree);
+		assert.equal(report.clean, false);
+		assert.equal(report.untracked, true);
+		assert.match(report.diffstat, /pkg\/notes\.txt \| 1 \+/);
+		assert.match(
+			formatWorktreeReport(report),
+			/branch pi-subagent\/writer-r1 \(uncommitted changes, 0 commit\(s\)/,
+		);
+	});
+
+	it("merges the run's changes into the parent branch and removes the worktree", () => {
+		const root = repo();
+		const worktree = createRunWorktree({ cwd: root, runId: "m1", agent: "writer" });
+		writeFileSync(join(worktree.path, "pkg", "notes.txt"), "one\nmerged\n");
+
+		const outcome = runWorktreeCommand("merge m1");
+		assert.equal(outcome.level, "info");
+		assert.equal(readFileSync(join(root, "pkg", "notes.txt"), "utf8"), "one\nmerged\n");
+		assert.equal(existsSync(worktree.path), false);
+		assert.equal(runWorktreeCommand("list").text, "No subagent worktrees.");
+	});
+
+	it("discards a run's worktree and branch without touching the parent checkout", () => {
+		const root = repo();
+		const worktree = createRunWorktree({ cwd: root, runId: "d1", agent: "writer" });
+		writeFileSync(join(worktree.path, "pkg", "notes.txt"), "discarded\n");
+
+		assert.match(runWorktreeCommand("list").text, /^d1 {2}pi-subagent\/writer-d1 {2}dirty, 0 commit\(s\)$/);
+		assert.equal(runWorktreeCommand("discard d1").level, "info");
+		assert.equal(readFileSync(join(root, "pkg", "notes.txt"), "utf8"), "one\n");
+		assert.equal(git(root, "branch", "--list", worktree.branch), "");
+		assert.equal(runWorktreeCommand("discard d1").level, "warning");
+		assert.equal(runWorktreeCommand("merge").level, "warning");
+	});
+
+	it("refuses isolation outside a git repository", () => {
+		const dir = mkdtempSync(join(tmpdir(), "subagent-no-repo-"));
+		repos.push(dir);
+		assert.throws(
+			() => createRunWorktree({ cwd: dir, runId: "x", agent: "writer" }),
+			/isolation: worktree requires a git repository/,
+		);
+	});
+
+	it("parses the isolation frontmatter option", () => {
+		const parse = (isolation: string) =>
+			parseAgentDefinition(
+				`---\ntools: read,edit\nisolation: ${isolation}\n---\nWrite.`,
+				"writer",
+				"/agents/writer.md",
+				"project",
+			);
+		assert.equal(parse("worktree").isolation, "worktree");
+		assert.equal(Boolean(parse("none").isolation), false);
+		assert.throws(() => parse("container"), /isolation must be none or worktree/);
+	});
+});